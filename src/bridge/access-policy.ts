@@ -0,0 +1,163 @@
+/**
+ * GATT 접근 정책
+ * Web Bluetooth GATT blocklist와 앱 정의 규칙으로 서비스/특성 접근을 제한합니다
+ */
+
+import type {
+  BleService,
+  GattAccessDenial,
+  GattAccessLevel,
+  GattAccessPolicy,
+  GattAccessRule,
+  GattBlocklistEntry,
+  GattBlocklistRestriction,
+  GattOperation,
+} from '../types/bluetooth-module';
+import { isSameUuid, normalizeUuid } from '../modules/uuid';
+
+/**
+ * 내장 blocklist (Web Bluetooth GATT blocklist 기준)
+ */
+const DEFAULT_BLOCKLIST: GattBlocklistEntry[] = [
+  // Human Interface Device
+  { uuid: '1812' },
+  // FIDO
+  { uuid: 'fffd' },
+  // Nordic Secure DFU
+  { uuid: 'fe59' },
+  // Nordic Legacy DFU
+  { uuid: '00001530-1212-efde-1523-785feabcd123' },
+  // TI OAD (펌웨어 업데이트)
+  { uuid: 'f000ffc0-0451-4000-b000-000000000000' },
+  // Peripheral Privacy Flag
+  { uuid: '2a02', restriction: 'excludeWrites' },
+  // Reconnection Address
+  { uuid: '2a03' },
+  // Serial Number String
+  { uuid: '2a25' },
+  // Client Characteristic Configuration (알림 설정은 setNotification 사용)
+  { uuid: '2902', restriction: 'excludeWrites' },
+  // Server Characteristic Configuration
+  { uuid: '2903', restriction: 'excludeWrites' },
+];
+
+/** blocklist 제한별 거부 작업 (excludeReads는 값을 전달하는 알림도 거부) */
+const BLOCKLIST_DENIED: Record<GattBlocklistRestriction, GattOperation[]> = {
+  exclude: ['discover', 'read', 'write', 'notify'],
+  excludeReads: ['read', 'notify'],
+  excludeWrites: ['write'],
+};
+
+/** 접근 수준별 거부 작업 */
+const RULE_DENIED: Record<GattAccessLevel, GattOperation[]> = {
+  blocked: ['discover', 'read', 'write', 'notify'],
+  readOnly: ['write', 'notify'],
+  writeDenied: ['write'],
+};
+
+/**
+ * 정책 검사 대상
+ */
+export interface GattAccessTarget {
+  origin: string;
+  deviceId: string;
+  serviceUuid: string;
+  characteristicUuid?: string;
+  descriptorUuid?: string;
+}
+
+/**
+ * GATT 접근 정책 생성
+ */
+export function createGattAccessPolicy(policy: GattAccessPolicy = {}) {
+  const entries = [...(policy.useDefaultBlocklist === false ? [] : DEFAULT_BLOCKLIST), ...(policy.blocklist ?? [])];
+  const blocklist = entries.map((entry) => ({
+    uuid: normalizeUuid(entry.uuid),
+    restriction: entry.restriction ?? 'exclude',
+  }));
+  const rules = policy.rules ?? [];
+
+  /**
+   * blocklist 검사 (서비스, 특성, 디스크립터 UUID 모두 대조)
+   */
+  const checkBlocklist = (operation: GattOperation, target: GattAccessTarget): GattAccessDenial | null => {
+    const uuids = [target.serviceUuid, target.characteristicUuid, target.descriptorUuid].filter(
+      (uuid): uuid is string => uuid !== undefined
+    );
+    const entry = blocklist.find(
+      (candidate) =>
+        BLOCKLIST_DENIED[candidate.restriction].includes(operation) &&
+        uuids.some((uuid) => isSameUuid(uuid, candidate.uuid))
+    );
+    if (!entry) return null;
+
+    return { operation, ...target, source: 'blocklist', restriction: entry.restriction, matched: entry.uuid };
+  };
+
+  /**
+   * 규칙이 대상에 적용되는지 확인 (특성 규칙은 서비스 자체의 발견에는 적용하지 않고, 디스크립터에는 특성 규칙 적용)
+   */
+  const matchesRule = (rule: GattAccessRule, target: GattAccessTarget): boolean => {
+    if (rule.origins && !rule.origins.includes(target.origin)) return false;
+    if (!isSameUuid(rule.service, target.serviceUuid)) return false;
+    if (rule.characteristic === undefined) return true;
+    return isSameUuid(rule.characteristic, target.characteristicUuid);
+  };
+
+  /**
+   * 앱 정의 규칙 검사
+   */
+  const checkRules = (operation: GattOperation, target: GattAccessTarget): GattAccessDenial | null => {
+    const rule = rules.find(
+      (candidate) => RULE_DENIED[candidate.access].includes(operation) && matchesRule(candidate, target)
+    );
+    if (!rule) return null;
+
+    return { operation, ...target, source: 'rule', restriction: rule.access, matched: rule };
+  };
+
+  /**
+   * 작업 허용 여부 검사
+   * @returns 거부 시 거부 정보, 허용 시 null
+   */
+  const check = (operation: GattOperation, target: GattAccessTarget): GattAccessDenial | null => {
+    return checkBlocklist(operation, target) ?? checkRules(operation, target);
+  };
+
+  /**
+   * 발견이 거부된 서비스/특성/디스크립터를 서비스 목록에서 제외
+   */
+  const filterServices = (origin: string, deviceId: string, services: BleService[]): BleService[] => {
+    return services
+      .filter((service) => !check('discover', { origin, deviceId, serviceUuid: service.uuid }))
+      .map((service) => {
+        if (!service.characteristics) return service;
+        return {
+          ...service,
+          characteristics: service.characteristics
+            .filter((characteristic) => {
+              const target = { origin, deviceId, serviceUuid: service.uuid, characteristicUuid: characteristic.uuid };
+              return !check('discover', target);
+            })
+            .map((characteristic) => {
+              if (!characteristic.descriptors) return characteristic;
+              return {
+                ...characteristic,
+                descriptors: characteristic.descriptors.filter((descriptor) => {
+                  const target = {
+                    origin,
+                    deviceId,
+                    serviceUuid: service.uuid,
+                    characteristicUuid: characteristic.uuid,
+                    descriptorUuid: descriptor.uuid,
+                  };
+                  return !check('discover', target);
+                }),
+              };
+            }),
+        };
+      });
+  };
+
+  return { check, filterServices };
+}
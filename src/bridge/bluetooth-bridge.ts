@@ -6,15 +6,26 @@
 import type { IBridge, IPlatform } from '../types';
 import * as Bluetooth from '../modules';
 import type {
-  BluetoothDevice,
-  BleScanOptions,
-  ClassicScanOptions,
-  ConnectionOptions,
-  ClassicConnectionOptions,
-  WriteOptions,
   BluetoothEvent,
   BluetoothEventCallback,
+  BluetoothResult,
+  CharacteristicDecoder,
+  ConnectResult,
+  DeviceChooser,
+  DeviceRegistryOptions,
+  DiscoverServicesResult,
+  GattAccessPolicy,
+  GattOperation,
 } from '../types/bluetooth-module';
+import { getRequestedServices } from '../modules/device-filter';
+import { createGattAccessPolicy } from './access-policy';
+import { createDeviceAccess, createDeviceGrantStore } from './device-grants';
+import { requestDevice } from './device-request';
+import { createEventSubscriptionStore } from './event-subscriptions';
+import { createNotificationBatcher } from './notification-batcher';
+import { payloadSchemas } from './schemas';
+import { validatePayload } from './validation';
+import type { Schema } from './validation';
 
 // ============================================================================
 // Types
@@ -31,6 +42,34 @@ export interface BluetoothBridgeConfig {
     warn: (...args: unknown[]) => void;
     error: (...args: unknown[]) => void;
   };
+  /**
+   * 커스텀 특성 디코더 (특성 UUID → 디코더)
+   * 내장 디코더(Heart Rate, Battery 등)보다 우선하며, 해석 값은 이벤트의 decoded 필드로 전달됩니다
+   */
+  decoders?: Record<string, CharacteristicDecoder>;
+  /**
+   * 장치 선택 화면 (requestDevice)
+   * 설정하면 연결/GATT 핸들러는 requestDevice로 현재 페이지에 허용된 장치에만 동작합니다
+   */
+  chooser?: DeviceChooser;
+  /**
+   * 현재 WebView 페이지의 origin (장치 권한 구분, 기본값: 'default')
+   */
+  getOrigin?: () => string | null | undefined;
+  /**
+   * requestDevice 없이 장치를 허용할지 결정 (chooser 사용 시)
+   * requestDevice는 BLE 장치만 고르므로 Classic 장치는 이 함수로 허용합니다
+   */
+  allowDevice?: (origin: string, deviceId: string) => boolean;
+  /**
+   * GATT 접근 정책 (blocklist, 앱 정의 규칙)
+   * 거부된 작업은 ACCESS_DENIED로 응답하고 accessDenied 이벤트로 기록됩니다
+   */
+  accessPolicy?: GattAccessPolicy;
+  /**
+   * 발견 장치 레지스트리 설정 (getDiscoveredDevices)
+   */
+  deviceRegistry?: DeviceRegistryOptions;
 }
 
 /**
@@ -40,36 +79,6 @@ interface EventSubscription {
   remove: () => void;
 }
 
-// ============================================================================
-// Validation Helpers
-// ============================================================================
-
-/**
- * deviceId 유효성 검사
- */
-function isValidDeviceId(deviceId: unknown): deviceId is string {
-  return typeof deviceId === 'string' && deviceId.trim().length > 0;
-}
-
-/**
- * UUID 유효성 검사
- */
-function isValidUuid(uuid: unknown): uuid is string {
-  return typeof uuid === 'string' && uuid.trim().length > 0;
-}
-
-/**
- * Base64 문자열 유효성 검사
- */
-function isValidBase64(value: unknown): value is string {
-  if (typeof value !== 'string') return false;
-  try {
-    return value.length > 0;
-  } catch {
-    return false;
-  }
-}
-
 // ============================================================================
 // Main Handler
 // ============================================================================
@@ -77,11 +86,24 @@ function isValidBase64(value: unknown): value is string {
 /** 중복 등록 방지 플래그 */
 let isRegistered = false;
 
+/** getOrigin이 없거나 값을 주지 않을 때 사용하는 origin */
+const DEFAULT_ORIGIN = 'default';
+
 /**
  * Bluetooth 브릿지 핸들러를 등록합니다
  */
 export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void => {
-  const { bridge, platform, logger = console } = config;
+  const {
+    bridge,
+    platform,
+    logger = console,
+    decoders = {},
+    chooser,
+    getOrigin,
+    allowDevice,
+    accessPolicy,
+    deviceRegistry,
+  } = config;
 
   // 플랫폼 체크
   if (platform.OS !== 'android' && platform.OS !== 'ios') {
@@ -96,22 +118,85 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   }
   isRegistered = true;
 
+  // 커스텀 특성 디코더 등록
+  Object.entries(decoders).forEach(([uuid, decoder]) => {
+    Bluetooth.registerCharacteristicDecoder(uuid, decoder);
+  });
+
+  // 발견 장치 레지스트리 설정
+  if (deviceRegistry) {
+    Bluetooth.configureDeviceRegistry(deviceRegistry);
+  }
+
   // 이벤트 리스너 구독 객체
   let eventSubscription: EventSubscription | null = null;
 
   // 이벤트 콜백 저장소
   const eventCallbacks = new Set<BluetoothEventCallback>();
 
+  // 페이지별 장치 권한
+  const deviceGrants = createDeviceGrantStore();
+
+  // 진행 중인 장치 선택 여부
+  let isRequestingDevice = false;
+
+  const currentOrigin = (): string => getOrigin?.() || DEFAULT_ORIGIN;
+
+  // 현재 페이지의 장치 접근 검사 (chooser 설정 시에만 제한)
+  const deviceAccess = createDeviceAccess(deviceGrants, { enforce: !!chooser, getOrigin: currentOrigin, allowDevice });
+
   /**
-   * 이벤트 핸들러 - 콜백 실행 및 Web 전달
+   * 장치 권한 검사 - chooser 사용 시 권한이 없으면 PERMISSION_DENIED 응답 후 false 반환
+   */
+  const checkDeviceGrant = (deviceId: string, respond: (data: unknown) => void): boolean => {
+    const denied = deviceAccess.check(deviceId);
+    if (denied) respond(denied);
+    return denied === null;
+  };
+
+  // Web 이벤트 구독 (subscribeEvents)
+  const webSubscriptions = createEventSubscriptionStore();
+
+  /**
+   * Web으로 이벤트 전달 (non-blocking, 허용된 장치의 이벤트 중 구독이 있으면 일치하는 이벤트만)
    */
-  const handleBluetoothEvent = (event: BluetoothEvent): void => {
-    // Web으로 이벤트 전달 (non-blocking)
+  const sendEventToWeb = (event: BluetoothEvent): void => {
+    if (!deviceAccess.canForward(event)) return;
+
+    const subscriptionIds = webSubscriptions.match(event);
+    if (subscriptionIds !== null && subscriptionIds.length === 0) return;
+
     try {
-      bridge.sendToWeb('onBluetoothEvent', event);
+      bridge.sendToWeb('onBluetoothEvent', subscriptionIds ? { ...event, subscriptionIds } : event);
     } catch (error) {
       logger.error('[Bridge] Failed to send event to web:', error);
     }
+  };
+
+  // 알림 묶음 전달 (setNotification의 batch 옵션)
+  const notificationBatcher = createNotificationBatcher({ send: sendEventToWeb });
+
+  /**
+   * 이벤트 핸들러 - 콜백 실행 및 Web 전달
+   */
+  const handleBluetoothEvent = (rawEvent: BluetoothEvent): void => {
+    // 발견이 거부된 서비스는 이벤트에서도 제외
+    const { deviceId } = rawEvent;
+    const services = rawEvent.type === 'servicesDiscovered' ? rawEvent.data?.services : undefined;
+    const event =
+      deviceId && services
+        ? { ...rawEvent, data: { ...rawEvent.data, services: gattAccess.filterServices(currentOrigin(), deviceId, services) } }
+        : rawEvent;
+
+    // 연결 해제 전에 남은 알림 묶음 전달
+    if (event.type === 'disconnected' && event.deviceId) {
+      notificationBatcher.flushDevice(event.deviceId);
+    }
+
+    // Web으로 이벤트 전달 (묶음 대상 알림은 notificationBatch로 전달)
+    if (!notificationBatcher.push(event)) {
+      sendEventToWeb(event);
+    }
 
     // 콜백 실행
     eventCallbacks.forEach((callback) => {
@@ -132,13 +217,78 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   };
 
+  // GATT 접근 정책
+  const gattAccess = createGattAccessPolicy(accessPolicy);
+
+  /**
+   * GATT 접근 검사 - 거부 시 accessDenied 이벤트 발생, ACCESS_DENIED 응답 후 false 반환
+   */
+  const checkGattAccess = (
+    operation: GattOperation,
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string | undefined,
+    respond: (data: unknown) => void,
+    descriptorUuid?: string
+  ): boolean => {
+    const denial = gattAccess.check(operation, {
+      origin: currentOrigin(),
+      deviceId,
+      serviceUuid,
+      characteristicUuid,
+      descriptorUuid,
+    });
+    if (!denial) return true;
+
+    const target = descriptorUuid ?? characteristicUuid ?? serviceUuid;
+    logger.warn(`[Bridge] ${operation} access to ${target} denied by ${denial.source} (${denial.restriction})`);
+    handleBluetoothEvent({ type: 'accessDenied', deviceId, data: { denial }, timestamp: Date.now() });
+
+    const deniedBy = denial.source === 'blocklist' ? 'the GATT blocklist' : 'an access rule';
+    const response: BluetoothResult = {
+      success: false,
+      error: 'ACCESS_DENIED',
+      message: `${operation} access to ${target} is denied by ${deniedBy}`,
+      denial,
+    };
+    respond(response);
+    return false;
+  };
+
+  /**
+   * 서비스 목록에서 발견이 거부된 서비스/특성 제외
+   */
+  const filterServicesResult = <T extends DiscoverServicesResult | ConnectResult>(deviceId: string, result: T): T => {
+    if (!result.services) return result;
+    return { ...result, services: gattAccess.filterServices(currentOrigin(), deviceId, result.services) };
+  };
+
+  /**
+   * 페이로드 검증 - 실패 시 INVALID_INPUT 응답 후 null 반환
+   */
+  const parsePayload = <T>(schema: Schema<T>, payload: unknown, respond: (data: unknown) => void): T | null => {
+    const result = validatePayload(schema, payload);
+    if (result.valid) return result.value;
+
+    const response: BluetoothResult = {
+      success: false,
+      error: 'INVALID_INPUT',
+      message: `${result.issue.path}: ${result.issue.message}`,
+      field: result.issue.path,
+    };
+    respond(response);
+    return null;
+  };
+
   // ============================================================================
   // State & Permission Handlers
   // ============================================================================
 
   // Bluetooth 상태 확인
-  bridge.registerHandler('getBluetoothState', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('getBluetoothState', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const state = await Bluetooth.getBluetoothState();
       respond({ success: true, state });
     } catch (error) {
@@ -152,8 +302,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // 권한 확인
-  bridge.registerHandler('checkBluetoothPermissions', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('checkBluetoothPermissions', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const status = await Bluetooth.checkPermissions();
       respond({ success: true, ...status });
     } catch (error) {
@@ -167,8 +319,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // 권한 요청
-  bridge.registerHandler('requestBluetoothPermissions', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('requestBluetoothPermissions', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const status = await Bluetooth.requestPermissions();
       respond({ success: true, ...status });
     } catch (error) {
@@ -182,8 +336,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // Bluetooth 활성화 요청
-  bridge.registerHandler('requestEnableBluetooth', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('requestEnableBluetooth', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.requestEnableBluetooth();
       respond(result);
     } catch (error) {
@@ -196,6 +352,97 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // ============================================================================
+  // Device Request Handlers
+  // ============================================================================
+
+  // 장치 선택 및 권한 부여
+  bridge.registerHandler('requestDevice', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.requestDevice, payload, respond);
+      if (!data) return;
+
+      if (isRequestingDevice) {
+        respond({ success: false, error: 'OPERATION_FAILED', message: 'A device chooser is already open' });
+        return;
+      }
+
+      const origin = currentOrigin();
+      isRequestingDevice = true;
+      try {
+        const result = await requestDevice(
+          {
+            startScan: Bluetooth.startBleScan,
+            stopScan: Bluetooth.stopBleScan,
+            addListener: Bluetooth.addBluetoothEventListener,
+            chooser,
+          },
+          origin,
+          data
+        );
+        if (!result.success || !result.device) {
+          respond(result);
+          return;
+        }
+
+        const grant = deviceGrants.grant(origin, result.device, getRequestedServices(data));
+        respond({ success: true, device: result.device, grant });
+      } finally {
+        isRequestingDevice = false;
+      }
+    } catch (error) {
+      logger.error('[Bridge] requestDevice error:', error);
+      respond({
+        success: false,
+        error: 'SCAN_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to request device',
+      });
+    }
+  });
+
+  // 허용된 장치 목록
+  bridge.registerHandler('getDeviceGrants', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      respond({ success: true, grants: deviceGrants.list(currentOrigin()) });
+    } catch (error) {
+      logger.error('[Bridge] getDeviceGrants error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to get device grants',
+      });
+    }
+  });
+
+  // 장치 권한 취소 (deviceId 생략 시 모든 권한)
+  bridge.registerHandler('revokeDeviceGrant', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.optionalDevice, payload, respond);
+      if (!data) return;
+
+      const revoked = deviceGrants.revoke(currentOrigin(), data.deviceId);
+
+      // 다른 페이지에도 권한이 없으면 연결 해제
+      for (const grant of revoked) {
+        if (!deviceGrants.isGrantedAnywhere(grant.deviceId) && (await Bluetooth.isConnected(grant.deviceId))) {
+          Bluetooth.stopReconnection(grant.deviceId);
+          await Bluetooth.disconnect(grant.deviceId);
+        }
+      }
+
+      respond({ success: true, grants: revoked });
+    } catch (error) {
+      logger.error('[Bridge] revokeDeviceGrant error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to revoke device grant',
+      });
+    }
+  });
+
   // ============================================================================
   // BLE Scan Handlers
   // ============================================================================
@@ -203,9 +450,11 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // BLE 스캔 시작
   bridge.registerHandler('startBleScan', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const options = (payload as BleScanOptions) || {};
+      const data = parsePayload(payloadSchemas.startBleScan, payload, respond);
+      if (!data) return;
+
       ensureEventListener();
-      const result = await Bluetooth.startBleScan(options);
+      const result = await Bluetooth.startBleScan(data);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] startBleScan error:', error);
@@ -218,8 +467,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // BLE 스캔 중지
-  bridge.registerHandler('stopBleScan', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('stopBleScan', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.stopBleScan();
       respond(result);
     } catch (error) {
@@ -233,8 +484,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // 스캔 중 여부 확인
-  bridge.registerHandler('isScanning', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('isScanning', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const isScanning = await Bluetooth.isScanning();
       respond({ success: true, isScanning });
     } catch (error) {
@@ -247,6 +500,64 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // ============================================================================
+  // Beacon Region Handlers
+  // ============================================================================
+
+  // 비콘 영역 모니터링 시작
+  bridge.registerHandler('startRegionMonitoring', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.startRegionMonitoring, payload, respond);
+      if (!data) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.startRegionMonitoring(data.regions, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] startRegionMonitoring error:', error);
+      respond({
+        success: false,
+        error: 'SCAN_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to start region monitoring',
+      });
+    }
+  });
+
+  // 비콘 영역 모니터링 중지
+  bridge.registerHandler('stopRegionMonitoring', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.stopRegionMonitoring, payload, respond);
+      if (!data) return;
+
+      const result = await Bluetooth.stopRegionMonitoring(data.identifiers);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] stopRegionMonitoring error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to stop region monitoring',
+      });
+    }
+  });
+
+  // 모니터링 중인 영역 목록
+  bridge.registerHandler('getMonitoredRegions', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      const regions = Bluetooth.getMonitoredRegions();
+      respond({ success: true, regions });
+    } catch (error) {
+      logger.error('[Bridge] getMonitoredRegions error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to get monitored regions',
+      });
+    }
+  });
+
   // ============================================================================
   // Classic Bluetooth Scan Handlers (Android only)
   // ============================================================================
@@ -254,9 +565,11 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // Classic 스캔 시작
   bridge.registerHandler('startClassicScan', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const options = (payload as ClassicScanOptions) || {};
+      const data = parsePayload(payloadSchemas.startClassicScan, payload, respond);
+      if (!data) return;
+
       ensureEventListener();
-      const result = await Bluetooth.startClassicScan(options);
+      const result = await Bluetooth.startClassicScan(data);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] startClassicScan error:', error);
@@ -269,8 +582,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // Classic 스캔 중지
-  bridge.registerHandler('stopClassicScan', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('stopClassicScan', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.stopClassicScan();
       respond(result);
     } catch (error) {
@@ -284,10 +599,13 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // 페어링된 장치 목록
-  bridge.registerHandler('getBondedDevices', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('getBondedDevices', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.getBondedDevices();
-      respond(result);
+      const devices = result.devices?.filter((device) => deviceAccess.isAllowed(device.address));
+      respond(devices ? { ...result, devices } : result);
     } catch (error) {
       logger.error('[Bridge] getBondedDevices error:', error);
       respond({
@@ -298,6 +616,30 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // ============================================================================
+  // Device Registry Handlers
+  // ============================================================================
+
+  // 스캔으로 발견된 장치 조회
+  bridge.registerHandler('getDiscoveredDevices', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.getDiscoveredDevices, payload, respond);
+      if (!data) return;
+
+      // 현재 페이지에 허용된 장치만 남긴 뒤 개수 제한
+      const { limit, ...query } = data;
+      const devices = Bluetooth.getDiscoveredDevices(query).filter((device) => deviceAccess.isAllowed(device.id));
+      respond({ success: true, devices: limit !== undefined ? devices.slice(0, limit) : devices });
+    } catch (error) {
+      logger.error('[Bridge] getDiscoveredDevices error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to get discovered devices',
+      });
+    }
+  });
+
   // ============================================================================
   // Connection Handlers
   // ============================================================================
@@ -305,22 +647,19 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // BLE 연결
   bridge.registerHandler('connectBle', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
+      const data = parsePayload(payloadSchemas.connectBle, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      if (!isValidDeviceId(deviceId)) {
-        respond({
-          success: false,
-          error: 'INVALID_INPUT',
-          message: 'Invalid deviceId',
-        });
-        return;
-      }
+      // 연결 후 알림을 활성화할 특성도 정책 검사
+      const subscriptions = data.options?.subscribe ?? [];
+      const allowed = subscriptions.every(({ serviceUuid, characteristicUuid }) =>
+        checkGattAccess('notify', data.deviceId, serviceUuid, characteristicUuid, respond)
+      );
+      if (!allowed) return;
 
       ensureEventListener();
-      const options = (data?.options as ConnectionOptions) || {};
-      const result = await Bluetooth.connectBle(deviceId, options);
-      respond(result);
+      const result = await Bluetooth.connectBle(data.deviceId, data.options);
+      respond(filterServicesResult(data.deviceId, result));
     } catch (error) {
       logger.error('[Bridge] connectBle error:', error);
       respond({
@@ -334,21 +673,11 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // Classic 연결
   bridge.registerHandler('connectClassic', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const address = data?.address;
-
-      if (!isValidDeviceId(address)) {
-        respond({
-          success: false,
-          error: 'INVALID_INPUT',
-          message: 'Invalid address',
-        });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.connectClassic, payload, respond);
+      if (!data || !checkDeviceGrant(data.address, respond)) return;
 
       ensureEventListener();
-      const options = (data?.options as ClassicConnectionOptions) || {};
-      const result = await Bluetooth.connectClassic(address as string, options);
+      const result = await Bluetooth.connectClassic(data.address, data.options);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] connectClassic error:', error);
@@ -363,19 +692,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 연결 해제
   bridge.registerHandler('disconnect', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
+      const data = parsePayload(payloadSchemas.device, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      if (!isValidDeviceId(deviceId)) {
-        respond({
-          success: false,
-          error: 'INVALID_INPUT',
-          message: 'Invalid deviceId',
-        });
-        return;
-      }
-
-      const result = await Bluetooth.disconnect(deviceId);
+      const result = await Bluetooth.disconnect(data.deviceId);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] disconnect error:', error);
@@ -387,9 +707,29 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // 자동 재연결 중지
+  bridge.registerHandler('stopReconnection', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.device, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+
+      const stopped = Bluetooth.stopReconnection(data.deviceId);
+      respond({ success: true, stopped });
+    } catch (error) {
+      logger.error('[Bridge] stopReconnection error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to stop reconnection',
+      });
+    }
+  });
+
   // 모든 연결 해제
-  bridge.registerHandler('disconnectAll', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('disconnectAll', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.disconnectAll();
       respond(result);
     } catch (error) {
@@ -405,19 +745,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 연결 상태 확인
   bridge.registerHandler('isConnected', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({
-          success: false,
-          error: 'INVALID_INPUT',
-          message: 'Invalid deviceId',
-        });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.device, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const isConnected = await Bluetooth.isConnected(deviceId);
+      const isConnected = await Bluetooth.isConnected(data.deviceId);
       respond({ success: true, isConnected });
     } catch (error) {
       logger.error('[Bridge] isConnected error:', error);
@@ -430,10 +761,13 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   });
 
   // 연결된 장치 목록
-  bridge.registerHandler('getConnectedDevices', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('getConnectedDevices', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
       const result = await Bluetooth.getConnectedDevices();
-      respond(result);
+      const connections = result.connections?.filter((connection) => deviceAccess.isAllowed(connection.deviceId));
+      respond(connections ? { ...result, connections } : result);
     } catch (error) {
       logger.error('[Bridge] getConnectedDevices error:', error);
       respond({
@@ -451,20 +785,11 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 서비스 발견
   bridge.registerHandler('discoverServices', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({
-          success: false,
-          error: 'INVALID_INPUT',
-          message: 'Invalid deviceId',
-        });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.discoverServices, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const result = await Bluetooth.discoverServices(deviceId);
-      respond(result);
+      const result = await Bluetooth.discoverServices(data.deviceId, data.options);
+      respond(filterServicesResult(data.deviceId, result));
     } catch (error) {
       logger.error('[Bridge] discoverServices error:', error);
       respond({
@@ -478,25 +803,12 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 특성 읽기
   bridge.registerHandler('readCharacteristic', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-      const serviceUuid = data?.serviceUuid;
-      const characteristicUuid = data?.characteristicUuid;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
-      if (!isValidUuid(serviceUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid serviceUuid' });
-        return;
-      }
-      if (!isValidUuid(characteristicUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid characteristicUuid' });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.readCharacteristic, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      if (!checkGattAccess('read', data.deviceId, data.serviceUuid, data.characteristicUuid, respond)) return;
 
-      const result = await Bluetooth.readCharacteristic(deviceId, serviceUuid, characteristicUuid);
+      ensureEventListener();
+      const result = await Bluetooth.readCharacteristic(data.deviceId, data.serviceUuid, data.characteristicUuid, data.options);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] readCharacteristic error:', error);
@@ -511,31 +823,17 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 특성 쓰기
   bridge.registerHandler('writeCharacteristic', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-      const serviceUuid = data?.serviceUuid;
-      const characteristicUuid = data?.characteristicUuid;
-      const value = data?.value;
-      const options = (data?.options as WriteOptions) || {};
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
-      if (!isValidUuid(serviceUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid serviceUuid' });
-        return;
-      }
-      if (!isValidUuid(characteristicUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid characteristicUuid' });
-        return;
-      }
-      if (!isValidBase64(value)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid value (expected Base64 string)' });
-        return;
-      }
-
-      const result = await Bluetooth.writeCharacteristic(deviceId, serviceUuid, characteristicUuid, value, options);
+      const data = parsePayload(payloadSchemas.writeCharacteristic, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      if (!checkGattAccess('write', data.deviceId, data.serviceUuid, data.characteristicUuid, respond)) return;
+
+      const result = await Bluetooth.writeCharacteristic(
+        data.deviceId,
+        data.serviceUuid,
+        data.characteristicUuid,
+        data.value,
+        data.options
+      );
       respond(result);
     } catch (error) {
       logger.error('[Bridge] writeCharacteristic error:', error);
@@ -547,34 +845,112 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // 디스크립터 읽기
+  bridge.registerHandler('readDescriptor', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.readDescriptor, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      const { deviceId, serviceUuid, characteristicUuid, descriptorUuid } = data;
+      if (!checkGattAccess('read', deviceId, serviceUuid, characteristicUuid, respond, descriptorUuid)) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.readDescriptor(
+        deviceId,
+        serviceUuid,
+        characteristicUuid,
+        descriptorUuid,
+        data.options
+      );
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] readDescriptor error:', error);
+      respond({
+        success: false,
+        error: 'READ_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to read descriptor',
+      });
+    }
+  });
+
+  // 디스크립터 쓰기
+  bridge.registerHandler('writeDescriptor', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.writeDescriptor, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      const { deviceId, serviceUuid, characteristicUuid, descriptorUuid } = data;
+      if (!checkGattAccess('write', deviceId, serviceUuid, characteristicUuid, respond, descriptorUuid)) return;
+
+      const result = await Bluetooth.writeDescriptor(
+        deviceId,
+        serviceUuid,
+        characteristicUuid,
+        descriptorUuid,
+        data.value,
+        data.options
+      );
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] writeDescriptor error:', error);
+      respond({
+        success: false,
+        error: 'WRITE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to write descriptor',
+      });
+    }
+  });
+
+  // 긴 쓰기 (MTU 단위 분할)
+  bridge.registerHandler('writeLong', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.writeLong, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      if (!checkGattAccess('write', data.deviceId, data.serviceUuid, data.characteristicUuid, respond)) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.writeLong(
+        data.deviceId,
+        data.serviceUuid,
+        data.characteristicUuid,
+        data.value,
+        data.options
+      );
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] writeLong error:', error);
+      respond({
+        success: false,
+        error: 'WRITE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to write long value',
+      });
+    }
+  });
+
   // 알림 설정
   bridge.registerHandler('setNotification', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-      const serviceUuid = data?.serviceUuid;
-      const characteristicUuid = data?.characteristicUuid;
-      const enable = data?.enable;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
-      if (!isValidUuid(serviceUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid serviceUuid' });
-        return;
-      }
-      if (!isValidUuid(characteristicUuid)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid characteristicUuid' });
-        return;
-      }
-      if (typeof enable !== 'boolean') {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid enable value' });
+      const data = parsePayload(payloadSchemas.setNotification, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+      // 알림 해제는 항상 허용
+      if (data.enable && !checkGattAccess('notify', data.deviceId, data.serviceUuid, data.characteristicUuid, respond)) {
         return;
       }
 
       ensureEventListener();
-      const result = await Bluetooth.setNotification(deviceId, serviceUuid, characteristicUuid, enable);
+      const result = await Bluetooth.setNotification(
+        data.deviceId,
+        data.serviceUuid,
+        data.characteristicUuid,
+        data.enable,
+        data.options
+      );
+      if (result.success) {
+        const batch = data.enable ? data.options?.batch : undefined;
+        if (batch) {
+          notificationBatcher.configure(data.deviceId, data.serviceUuid, data.characteristicUuid, batch);
+        } else {
+          notificationBatcher.remove(data.deviceId, data.serviceUuid, data.characteristicUuid);
+        }
+      }
       respond(result);
     } catch (error) {
       logger.error('[Bridge] setNotification error:', error);
@@ -586,23 +962,39 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
-  // MTU 요청
-  bridge.registerHandler('requestMtu', async (payload: unknown, respond: (data: unknown) => void) => {
+  // 알림 묶음 확인
+  bridge.registerHandler('ackNotificationBatch', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-      const mtu = data?.mtu;
+      const data = parsePayload(payloadSchemas.ackNotificationBatch, payload, respond);
+      if (!data) return;
 
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
-      if (typeof mtu !== 'number' || mtu < 23 || mtu > 517) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid MTU (23-517)' });
+      if (!notificationBatcher.ack(data.batchId)) {
+        respond({
+          success: false,
+          error: 'INVALID_INPUT',
+          message: `batchId: Batch ${data.batchId} is not awaiting acknowledgement`,
+          field: 'batchId',
+        });
         return;
       }
+      respond({ success: true });
+    } catch (error) {
+      logger.error('[Bridge] ackNotificationBatch error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to acknowledge notification batch',
+      });
+    }
+  });
+
+  // MTU 요청
+  bridge.registerHandler('requestMtu', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.requestMtu, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const result = await Bluetooth.requestMtu(deviceId, mtu);
+      const result = await Bluetooth.requestMtu(data.deviceId, data.mtu, data.options);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] requestMtu error:', error);
@@ -614,6 +1006,261 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // 연결 우선순위 요청
+  bridge.registerHandler('requestConnectionPriority', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.requestConnectionPriority, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+
+      const result = await Bluetooth.requestConnectionPriority(data.deviceId, data.priority, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] requestConnectionPriority error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to request connection priority',
+      });
+    }
+  });
+
+  // GATT 큐 깊이 조회
+  bridge.registerHandler('getGattQueueDepth', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.optionalDevice, payload, respond);
+      if (!data) return;
+
+      const depth = Bluetooth.getGattQueueDepth(data.deviceId);
+      respond({ success: true, depth });
+    } catch (error) {
+      logger.error('[Bridge] getGattQueueDepth error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to get GATT queue depth',
+      });
+    }
+  });
+
+  // ============================================================================
+  // Signal Strength Handlers
+  // ============================================================================
+
+  // RSSI 읽기
+  bridge.registerHandler('readRssi', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.readRssi, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+
+      const result = await Bluetooth.readRssi(data.deviceId, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] readRssi error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to read RSSI',
+      });
+    }
+  });
+
+  // RSSI 모니터링 시작
+  bridge.registerHandler('startRssiMonitoring', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.startRssiMonitoring, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.startRssiMonitoring(data.deviceId, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] startRssiMonitoring error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to start RSSI monitoring',
+      });
+    }
+  });
+
+  // RSSI 모니터링 중지
+  bridge.registerHandler('stopRssiMonitoring', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.stopRssiMonitoring, payload, respond);
+      if (!data) return;
+      if (data.deviceId !== undefined && !checkDeviceGrant(data.deviceId, respond)) return;
+
+      const stopped = Bluetooth.stopRssiMonitoring(data.deviceId);
+      respond({ success: true, stopped });
+    } catch (error) {
+      logger.error('[Bridge] stopRssiMonitoring error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to stop RSSI monitoring',
+      });
+    }
+  });
+
+  // ============================================================================
+  // Peripheral (GATT Server) Handlers
+  // ============================================================================
+
+  // 로컬 GATT 서버 시작
+  bridge.registerHandler('startPeripheral', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.startPeripheral, payload, respond);
+      if (!data) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.startPeripheral(data.services, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] startPeripheral error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to start peripheral',
+      });
+    }
+  });
+
+  // 로컬 GATT 서버 중지
+  bridge.registerHandler('stopPeripheral', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      const result = await Bluetooth.stopPeripheral();
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] stopPeripheral error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to stop peripheral',
+      });
+    }
+  });
+
+  // central 요청 응답 (manual 방식 특성)
+  bridge.registerHandler('respondToPeripheralRequest', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.respondToPeripheralRequest, payload, respond);
+      if (!data) return;
+
+      const result = await Bluetooth.respondToPeripheralRequest(data.requestId, {
+        status: data.status,
+        value: data.value,
+      });
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] respondToPeripheralRequest error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to respond to peripheral request',
+      });
+    }
+  });
+
+  // 로컬 특성 값 변경
+  bridge.registerHandler('setPeripheralValue', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.setPeripheralValue, payload, respond);
+      if (!data) return;
+
+      const result = Bluetooth.setPeripheralValue(data.serviceUuid, data.characteristicUuid, data.value);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] setPeripheralValue error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to set peripheral value',
+      });
+    }
+  });
+
+  // 구독 중인 central에 알림 전송
+  bridge.registerHandler('notifyPeripheral', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.notifyPeripheral, payload, respond);
+      if (!data) return;
+
+      const result = await Bluetooth.notifyPeripheral(
+        data.serviceUuid,
+        data.characteristicUuid,
+        data.value,
+        data.deviceIds
+      );
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] notifyPeripheral error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to notify centrals',
+      });
+    }
+  });
+
+  // ============================================================================
+  // Advertising Handlers
+  // ============================================================================
+
+  // BLE 광고 시작
+  bridge.registerHandler('startAdvertising', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.startAdvertising, payload, respond);
+      if (!data) return;
+
+      ensureEventListener();
+      const result = await Bluetooth.startAdvertising(data);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] startAdvertising error:', error);
+      respond({
+        success: false,
+        error: 'ADVERTISING_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to start advertising',
+      });
+    }
+  });
+
+  // BLE 광고 중지
+  bridge.registerHandler('stopAdvertising', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      const result = await Bluetooth.stopAdvertising();
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] stopAdvertising error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to stop advertising',
+      });
+    }
+  });
+
+  // 광고 중 여부 확인
+  bridge.registerHandler('isAdvertising', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      const isAdvertising = await Bluetooth.isAdvertising();
+      respond({ success: true, isAdvertising });
+    } catch (error) {
+      logger.error('[Bridge] isAdvertising error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to check advertising state',
+      });
+    }
+  });
+
   // ============================================================================
   // Classic Bluetooth Data Handlers
   // ============================================================================
@@ -621,20 +1268,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // Classic 데이터 쓰기
   bridge.registerHandler('writeClassic', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-      const value = data?.value;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
-      if (!isValidBase64(value)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid value (expected Base64 string)' });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.writeClassic, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const result = await Bluetooth.writeClassic(deviceId, value);
+      const result = await Bluetooth.writeClassic(data.deviceId, data.value);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] writeClassic error:', error);
@@ -646,6 +1283,24 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // Classic 명령 전송 및 응답 대기
+  bridge.registerHandler('sendCommand', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.sendCommand, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
+
+      const result = await Bluetooth.sendCommand(data.deviceId, data.command, data.options);
+      respond(result);
+    } catch (error) {
+      logger.error('[Bridge] sendCommand error:', error);
+      respond({
+        success: false,
+        error: 'WRITE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to send Classic command',
+      });
+    }
+  });
+
   // ============================================================================
   // Bonding Handlers
   // ============================================================================
@@ -653,15 +1308,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 페어링
   bridge.registerHandler('createBond', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.device, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const result = await Bluetooth.createBond(deviceId);
+      const result = await Bluetooth.createBond(data.deviceId);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] createBond error:', error);
@@ -676,15 +1326,10 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
   // 페어링 해제
   bridge.registerHandler('removeBond', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
-      const data = payload as Record<string, unknown>;
-      const deviceId = data?.deviceId;
-
-      if (!isValidDeviceId(deviceId)) {
-        respond({ success: false, error: 'INVALID_INPUT', message: 'Invalid deviceId' });
-        return;
-      }
+      const data = parsePayload(payloadSchemas.device, payload, respond);
+      if (!data || !checkDeviceGrant(data.deviceId, respond)) return;
 
-      const result = await Bluetooth.removeBond(deviceId);
+      const result = await Bluetooth.removeBond(data.deviceId);
       respond(result);
     } catch (error) {
       logger.error('[Bridge] removeBond error:', error);
@@ -696,21 +1341,94 @@ export const registerBluetoothHandlers = (config: BluetoothBridgeConfig): void =
     }
   });
 
+  // ============================================================================
+  // Event Subscription Handlers
+  // ============================================================================
+
+  // 이벤트 구독
+  bridge.registerHandler('subscribeEvents', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.subscribeEvents, payload, respond);
+      if (!data) return;
+
+      ensureEventListener();
+      const subscriptionId = webSubscriptions.add(data);
+      respond({ success: true, subscriptionId });
+    } catch (error) {
+      logger.error('[Bridge] subscribeEvents error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to subscribe events',
+      });
+    }
+  });
+
+  // 이벤트 구독 해제 (subscriptionId 생략 시 모든 구독)
+  bridge.registerHandler('unsubscribeEvents', async (payload: unknown, respond: (data: unknown) => void) => {
+    try {
+      const data = parsePayload(payloadSchemas.unsubscribeEvents, payload, respond);
+      if (!data) return;
+
+      if (!webSubscriptions.remove(data.subscriptionId) && data.subscriptionId !== undefined) {
+        respond({
+          success: false,
+          error: 'INVALID_INPUT',
+          message: `subscriptionId: Unknown subscription ${data.subscriptionId}`,
+          field: 'subscriptionId',
+        });
+        return;
+      }
+      respond({ success: true });
+    } catch (error) {
+      logger.error('[Bridge] unsubscribeEvents error:', error);
+      respond({
+        success: false,
+        error: 'UNKNOWN',
+        message: error instanceof Error ? error.message : 'Failed to unsubscribe events',
+      });
+    }
+  });
+
   // ============================================================================
   // Dispose Handler
   // ============================================================================
 
   // 리소스 정리
-  bridge.registerHandler('disposeBluetoothHandlers', async (_payload: unknown, respond: (data: unknown) => void) => {
+  bridge.registerHandler('disposeBluetoothHandlers', async (payload: unknown, respond: (data: unknown) => void) => {
     try {
+      if (!parsePayload(payloadSchemas.empty, payload, respond)) return;
+
+      // 영역 모니터링 중지
+      await Bluetooth.stopRegionMonitoring();
+
+      // RSSI 모니터링 중지
+      Bluetooth.stopRssiMonitoring();
+
+      // 로컬 GATT 서버 및 광고 중지
+      await Bluetooth.stopPeripheral();
+      await Bluetooth.stopAdvertising();
+
       // 이벤트 리스너 해제
       if (eventSubscription) {
         eventSubscription.remove();
         eventSubscription = null;
       }
 
-      // 콜백 정리
+      // 콜백 및 Web 이벤트 구독 정리
       eventCallbacks.clear();
+      webSubscriptions.remove();
+
+      // 알림 묶음 설정 제거
+      notificationBatcher.clear();
+
+      // 장치 권한 초기화
+      deviceGrants.clear();
+
+      // 커스텀 특성 디코더 해제
+      Object.keys(decoders).forEach((uuid) => {
+        Bluetooth.unregisterCharacteristicDecoder(uuid);
+      });
 
       // 재등록 가능하도록 플래그 리셋
       isRegistered = false;
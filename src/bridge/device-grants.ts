@@ -0,0 +1,158 @@
+/**
+ * 페이지별 장치 권한
+ * requestDevice로 선택된 장치를 origin별로 기록합니다
+ */
+
+import type {
+  BluetoothDevice,
+  BluetoothEvent,
+  BluetoothEventType,
+  BluetoothResult,
+  DeviceGrant,
+} from '../types/bluetooth-module';
+import { normalizeUuid } from '../modules/uuid';
+
+/**
+ * 장치 권한 저장소 생성
+ */
+export function createDeviceGrantStore() {
+  /** origin → (장치 ID → 권한) */
+  const grants = new Map<string, Map<string, DeviceGrant>>();
+
+  /**
+   * 장치 권한 부여 (이미 있으면 서비스 목록을 합침)
+   */
+  const grant = (origin: string, device: BluetoothDevice, services: string[]): DeviceGrant => {
+    let originGrants = grants.get(origin);
+    if (!originGrants) {
+      originGrants = new Map();
+      grants.set(origin, originGrants);
+    }
+
+    const existing = originGrants.get(device.id);
+    const merged = new Set([...(existing?.services ?? []), ...services.map(normalizeUuid)]);
+    const entry: DeviceGrant = {
+      origin,
+      deviceId: device.id,
+      name: device.name ?? existing?.name ?? null,
+      services: Array.from(merged),
+      grantedAt: existing?.grantedAt ?? Date.now(),
+    };
+    originGrants.set(device.id, entry);
+    return entry;
+  };
+
+  /**
+   * 장치 권한 확인
+   */
+  const has = (origin: string, deviceId: string): boolean => {
+    return grants.get(origin)?.has(deviceId) ?? false;
+  };
+
+  /**
+   * 다른 origin을 포함해 권한이 남아 있는지 확인
+   */
+  const isGrantedAnywhere = (deviceId: string): boolean => {
+    return Array.from(grants.values()).some((originGrants) => originGrants.has(deviceId));
+  };
+
+  /**
+   * origin에 허용된 장치 목록
+   */
+  const list = (origin: string): DeviceGrant[] => {
+    return Array.from(grants.get(origin)?.values() ?? []);
+  };
+
+  /**
+   * 장치 권한 취소 (deviceId 생략 시 origin의 모든 권한)
+   * @returns 취소된 권한 목록
+   */
+  const revoke = (origin: string, deviceId?: string): DeviceGrant[] => {
+    const originGrants = grants.get(origin);
+    if (!originGrants) return [];
+
+    const revoked = deviceId === undefined ? Array.from(originGrants.values()) : [originGrants.get(deviceId)];
+    revoked.forEach((entry) => entry && originGrants.delete(entry.deviceId));
+    if (originGrants.size === 0) {
+      grants.delete(origin);
+    }
+    return revoked.filter((entry): entry is DeviceGrant => entry !== undefined);
+  };
+
+  /**
+   * 모든 권한 제거
+   */
+  const clear = (): void => {
+    grants.clear();
+  };
+
+  return { grant, has, isGrantedAnywhere, list, revoke, clear };
+}
+
+/**
+ * 주변기기 모드 이벤트 (deviceId는 이 기기에 연결한 central이므로 권한 검사 대상이 아님)
+ */
+const PERIPHERAL_EVENT_TYPES: ReadonlySet<BluetoothEventType> = new Set<BluetoothEventType>([
+  'peripheralReadRequest',
+  'peripheralWriteRequest',
+  'peripheralSubscriptionChanged',
+  'peripheralNotificationSent',
+  'peripheralReady',
+  'centralConnected',
+  'centralDisconnected',
+]);
+
+/**
+ * 장치 권한 저장소
+ */
+export type DeviceGrantStore = ReturnType<typeof createDeviceGrantStore>;
+
+/**
+ * 장치 접근 검사 설정
+ */
+export interface DeviceAccessOptions {
+  /** 권한 검사 여부 (chooser 설정 시 true) */
+  enforce: boolean;
+  /** 현재 페이지 origin */
+  getOrigin: () => string;
+  /** requestDevice 없이 장치를 허용할지 결정 */
+  allowDevice?: (origin: string, deviceId: string) => boolean;
+}
+
+/**
+ * 현재 페이지의 장치 접근 검사기 생성
+ */
+export function createDeviceAccess(grants: DeviceGrantStore, options: DeviceAccessOptions) {
+  /**
+   * 장치 접근 허용 여부 (검사하지 않으면 항상 허용)
+   */
+  const isAllowed = (deviceId: string): boolean => {
+    if (!options.enforce) return true;
+    const origin = options.getOrigin();
+    return grants.has(origin, deviceId) || options.allowDevice?.(origin, deviceId) === true;
+  };
+
+  /**
+   * 장치 접근 검사
+   * @returns 거부 응답 (허용되면 null)
+   */
+  const check = (deviceId: string): BluetoothResult | null => {
+    if (isAllowed(deviceId)) return null;
+    return {
+      success: false,
+      error: 'PERMISSION_DENIED',
+      message: `Device ${deviceId} has not been granted to this page (use requestDevice or allowDevice)`,
+    };
+  };
+
+  /**
+   * Web으로 전달할 이벤트인지 확인 (장치 ID가 없는 이벤트와 주변기기 모드 이벤트는 항상 전달)
+   */
+  const canForward = (event: BluetoothEvent): boolean => {
+    if (PERIPHERAL_EVENT_TYPES.has(event.type)) return true;
+    const deviceId = event.deviceId ?? event.data?.device?.id;
+    return deviceId === undefined || isAllowed(deviceId);
+  };
+
+  return { isAllowed, check, canForward };
+}
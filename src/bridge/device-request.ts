@@ -0,0 +1,151 @@
+/**
+ * 장치 선택 (requestDevice)
+ * 필터에 맞는 장치를 스캔하고, 호스트가 그린 선택 화면(chooser)에서 사용자가 고른 장치를 반환합니다
+ */
+
+import type {
+  BleScanOptions,
+  BluetoothDevice,
+  BluetoothEvent,
+  BluetoothResult,
+  DeviceChooser,
+  DeviceChooserRequest,
+  DeviceRequestOptions,
+} from '../types/bluetooth-module';
+import { matchesDeviceRequest } from '../modules/device-filter';
+
+/**
+ * 장치 선택 의존성
+ */
+export interface DeviceRequestDependencies {
+  /** BLE 스캔 시작 */
+  startScan: (options: BleScanOptions) => Promise<BluetoothResult>;
+  /** BLE 스캔 중지 */
+  stopScan: () => Promise<BluetoothResult>;
+  /** 스캔 이벤트 구독 */
+  addListener: (listener: (event: BluetoothEvent) => void) => { remove: () => void };
+  /** 선택 화면 (없으면 처음 일치하는 장치를 선택) */
+  chooser?: DeviceChooser;
+}
+
+/** 기본 스캔 시간 (ms) */
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * 모든 필터가 서비스를 지정한 경우 네이티브 스캔 필터로 사용할 서비스 UUID
+ * (각 필터의 서비스를 모두 광고하는 장치는 합집합 중 하나 이상을 광고하므로 후보가 누락되지 않음)
+ */
+function getScanServiceUuids(options: DeviceRequestOptions): string[] | undefined {
+  const filters = options.filters ?? [];
+  if (options.acceptAllDevices || filters.length === 0) return undefined;
+  if (!filters.every((filter) => filter.services && filter.services.length > 0)) return undefined;
+  return Array.from(new Set(filters.flatMap((filter) => filter.services ?? [])));
+}
+
+/**
+ * 장치 선택 실행
+ */
+export async function requestDevice(
+  deps: DeviceRequestDependencies,
+  origin: string,
+  options: DeviceRequestOptions
+): Promise<BluetoothResult & { device?: BluetoothDevice }> {
+  const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+  const candidates = new Map<string, BluetoothDevice>();
+  const changeListeners = new Set<(devices: BluetoothDevice[]) => void>();
+  const completeListeners = new Set<() => void>();
+
+  let scanComplete = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const notify = <T extends unknown[]>(listeners: Set<(...args: T) => void>, ...args: T): void => {
+    listeners.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error('[DeviceRequest] Chooser listener error:', error);
+      }
+    });
+  };
+
+  const completeScan = (): void => {
+    if (scanComplete) return;
+    scanComplete = true;
+    if (timer) clearTimeout(timer);
+    deps.stopScan().catch(() => undefined);
+    notify(completeListeners);
+  };
+
+  const subscription = deps.addListener((event) => {
+    if (event.type === 'scanStopped') {
+      completeScan();
+      return;
+    }
+    if (event.type !== 'deviceDiscovered' || scanComplete) return;
+
+    const device = event.data?.device;
+    if (!device || device.type !== 'ble') return;
+    if (!matchesDeviceRequest(options, device, event.data?.parsedAdvertisement)) return;
+
+    candidates.set(device.id, device);
+    notify(changeListeners, Array.from(candidates.values()));
+  });
+
+  try {
+    const started = await deps.startScan({
+      timeout,
+      allowDuplicates: false,
+      serviceUUIDs: getScanServiceUuids(options),
+    });
+    if (!started.success) {
+      scanComplete = true;
+      return started;
+    }
+    timer = setTimeout(completeScan, timeout);
+
+    let chosenId: string | null;
+    if (deps.chooser) {
+      const request: DeviceChooserRequest = {
+        origin,
+        options,
+        get devices() {
+          return Array.from(candidates.values());
+        },
+        onDevicesChanged: (listener) => {
+          changeListeners.add(listener);
+          return () => changeListeners.delete(listener);
+        },
+        onScanComplete: (listener) => {
+          completeListeners.add(listener);
+          return () => completeListeners.delete(listener);
+        },
+      };
+      chosenId = await deps.chooser(request);
+    } else {
+      // 선택 화면이 없으면 처음 일치하는 장치 선택
+      chosenId = await new Promise<string | null>((resolve) => {
+        changeListeners.add((devices) => resolve(devices[0].id));
+        completeListeners.add(() => resolve(null));
+      });
+    }
+
+    if (chosenId === null) {
+      return {
+        success: false,
+        error: 'DEVICE_NOT_FOUND',
+        message: deps.chooser ? 'User cancelled the device chooser' : 'No matching device found',
+      };
+    }
+
+    const device = candidates.get(chosenId);
+    if (!device) {
+      return { success: false, error: 'DEVICE_NOT_FOUND', message: `Device ${chosenId} was not offered to the chooser` };
+    }
+    return { success: true, device };
+  } finally {
+    changeListeners.clear();
+    completeListeners.clear();
+    subscription.remove();
+    completeScan();
+  }
+}
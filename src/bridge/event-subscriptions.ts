@@ -0,0 +1,93 @@
+/**
+ * Web 이벤트 구독
+ * subscribeEvents로 등록된 필터와 일치하는 이벤트만 Web으로 전달합니다
+ */
+
+import type { BluetoothEvent, EventSubscriptionFilter } from '../types/bluetooth-module';
+import { isSameUuid } from '../modules/uuid';
+
+/**
+ * 이벤트의 장치 ID
+ */
+function getEventDeviceId(event: BluetoothEvent): string | undefined {
+  return event.deviceId ?? event.data?.device?.id;
+}
+
+/**
+ * 이벤트의 특성 UUID (알림, 알림 묶음, 읽기/쓰기 결과, 접근 거부)
+ */
+function getEventCharacteristicUuid(event: BluetoothEvent): string | undefined {
+  const data = event.data;
+  if (!data) return undefined;
+  if (typeof data.characteristicUuid === 'string') return data.characteristicUuid;
+  return (
+    data.notification?.characteristicUuid ??
+    data.batch?.characteristicUuid ??
+    data.result?.characteristicUuid ??
+    data.denial?.characteristicUuid
+  );
+}
+
+/**
+ * 이벤트가 필터와 일치하는지 확인
+ */
+export function matchesEventFilter(filter: EventSubscriptionFilter, event: BluetoothEvent): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+
+  if (filter.deviceIds) {
+    const deviceId = getEventDeviceId(event);
+    if (deviceId === undefined || !filter.deviceIds.includes(deviceId)) return false;
+  }
+
+  if (filter.characteristicUuids) {
+    const characteristicUuid = getEventCharacteristicUuid(event);
+    if (!filter.characteristicUuids.some((uuid) => isSameUuid(uuid, characteristicUuid))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * 이벤트 구독 저장소 생성
+ */
+export function createEventSubscriptionStore() {
+  /** 구독 ID → 필터 */
+  const subscriptions = new Map<string, EventSubscriptionFilter>();
+  let nextId = 1;
+
+  /**
+   * 구독 추가
+   * @returns 구독 ID
+   */
+  const add = (filter: EventSubscriptionFilter): string => {
+    const id = `sub-${nextId++}`;
+    subscriptions.set(id, filter);
+    return id;
+  };
+
+  /**
+   * 구독 해제 (ID 생략 시 모든 구독)
+   * @returns 해제된 구독이 있는지 여부
+   */
+  const remove = (id?: string): boolean => {
+    if (id === undefined) {
+      const removed = subscriptions.size > 0;
+      subscriptions.clear();
+      return removed;
+    }
+    return subscriptions.delete(id);
+  };
+
+  /**
+   * 이벤트와 일치하는 구독 ID
+   * @returns 구독이 하나도 없으면 null (모든 이벤트 전달)
+   */
+  const match = (event: BluetoothEvent): string[] | null => {
+    if (subscriptions.size === 0) return null;
+    return Array.from(subscriptions.entries())
+      .filter(([, filter]) => matchesEventFilter(filter, event))
+      .map(([id]) => id);
+  };
+
+  return { add, remove, match };
+}
@@ -4,5 +4,9 @@
 
 export { registerBluetoothHandlers } from './bluetooth-bridge';
 export type { BluetoothBridgeConfig } from './bluetooth-bridge';
+export { parseAdvertisement } from '../modules/advertisement';
+export { parseBeacon, buildBeaconAdvertisement } from '../modules/beacon';
+export { decodeCharacteristicValue } from '../modules/gatt-decoders';
+export { parseUuid, isValidUuid, normalizeUuid, isSameUuid } from '../modules/uuid';
 
 export * from '../types';
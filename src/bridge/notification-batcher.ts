@@ -0,0 +1,222 @@
+/**
+ * 알림 묶음 전달
+ * 고빈도 알림을 특성별로 모아 notificationBatch 이벤트 하나로 Web에 전달하고,
+ * Web이 묶음을 확인(ack)하지 못하면 전달을 보류하며 샘플을 버립니다
+ */
+
+import type {
+  BluetoothEvent,
+  NotificationBatch,
+  NotificationBatchOptions,
+  NotificationSample,
+} from '../types/bluetooth-module';
+import { normalizeUuid } from '../modules/uuid';
+
+/** 기본 전달 간격 (ms) */
+const DEFAULT_INTERVAL = 100;
+
+/** 기본 묶음 최대 샘플 수 */
+const DEFAULT_MAX_SAMPLES = 50;
+
+/** 기본 보류 버퍼 크기 */
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * 특성별 묶음 상태
+ */
+interface BatchStream {
+  deviceId: string;
+  serviceUuid: string;
+  characteristicUuid: string;
+  options: Required<NotificationBatchOptions>;
+  samples: NotificationSample[];
+  timer: ReturnType<typeof setTimeout> | null;
+  /** 확인되지 않은 묶음 ID */
+  unacked: number[];
+  dropped: number;
+  totalDropped: number;
+  totalReceived: number;
+}
+
+/**
+ * 알림 묶음 의존성
+ */
+export interface NotificationBatcherDependencies {
+  /** notificationBatch 이벤트 전달 */
+  send: (event: BluetoothEvent) => void;
+}
+
+const streamKey = (deviceId: string, serviceUuid: string, characteristicUuid: string): string =>
+  `${deviceId}|${normalizeUuid(serviceUuid)}|${normalizeUuid(characteristicUuid)}`;
+
+/**
+ * 알림 묶음 전달기 생성
+ */
+export function createNotificationBatcher(deps: NotificationBatcherDependencies) {
+  const streams = new Map<string, BatchStream>();
+  let nextBatchId = 1;
+
+  /**
+   * Web이 확인하지 않은 묶음이 한도에 도달했는지 확인
+   */
+  const isBlocked = (stream: BatchStream): boolean =>
+    stream.options.maxUnacked > 0 && stream.unacked.length >= stream.options.maxUnacked;
+
+  const clearTimer = (stream: BatchStream): void => {
+    if (stream.timer) {
+      clearTimeout(stream.timer);
+      stream.timer = null;
+    }
+  };
+
+  /**
+   * 모인 샘플을 묶음으로 전달 (force: 보류 중이어도 전달)
+   */
+  const flush = (stream: BatchStream, force = false): void => {
+    clearTimer(stream);
+    if (stream.samples.length === 0) return;
+    if (!force && isBlocked(stream)) return;
+
+    const batch: NotificationBatch = {
+      batchId: nextBatchId++,
+      deviceId: stream.deviceId,
+      serviceUuid: stream.serviceUuid,
+      characteristicUuid: stream.characteristicUuid,
+      samples: stream.samples,
+      dropped: stream.dropped,
+      totalDropped: stream.totalDropped,
+      totalReceived: stream.totalReceived,
+    };
+    stream.samples = [];
+    stream.dropped = 0;
+    if (stream.options.maxUnacked > 0) {
+      stream.unacked.push(batch.batchId);
+    }
+
+    deps.send({ type: 'notificationBatch', deviceId: stream.deviceId, data: { batch }, timestamp: Date.now() });
+  };
+
+  /**
+   * 특성의 묶음 전달 설정 (기존 설정은 남은 샘플을 전달한 뒤 교체)
+   */
+  const configure = (
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    options: NotificationBatchOptions
+  ): void => {
+    remove(deviceId, serviceUuid, characteristicUuid);
+    streams.set(streamKey(deviceId, serviceUuid, characteristicUuid), {
+      deviceId,
+      serviceUuid: normalizeUuid(serviceUuid),
+      characteristicUuid: normalizeUuid(characteristicUuid),
+      options: {
+        interval: options.interval ?? DEFAULT_INTERVAL,
+        maxSamples: options.maxSamples ?? DEFAULT_MAX_SAMPLES,
+        maxUnacked: options.maxUnacked ?? 0,
+        bufferSize: options.bufferSize ?? DEFAULT_BUFFER_SIZE,
+        overflow: options.overflow ?? 'drop',
+      },
+      samples: [],
+      timer: null,
+      unacked: [],
+      dropped: 0,
+      totalDropped: 0,
+      totalReceived: 0,
+    });
+  };
+
+  /**
+   * 특성의 묶음 전달 해제 (남은 샘플은 전달)
+   * @returns 설정되어 있었는지 여부
+   */
+  const remove = (deviceId: string, serviceUuid: string, characteristicUuid: string): boolean => {
+    const key = streamKey(deviceId, serviceUuid, characteristicUuid);
+    const stream = streams.get(key);
+    if (!stream) return false;
+
+    flush(stream, true);
+    streams.delete(key);
+    return true;
+  };
+
+  /**
+   * 알림 이벤트를 묶음에 추가
+   * @returns 묶음 대상이면 true (개별 notification 이벤트는 Web으로 보내지 않음)
+   */
+  const push = (event: BluetoothEvent): boolean => {
+    const notification = event.data?.notification;
+    // Classic 데이터 알림은 서비스/특성이 없으므로 대상 아님
+    if (event.type !== 'notification' || !notification?.serviceUuid || !notification.characteristicUuid) return false;
+
+    const { deviceId, serviceUuid, characteristicUuid } = notification;
+    const stream = streams.get(streamKey(deviceId, serviceUuid, characteristicUuid));
+    if (!stream) return false;
+
+    const sample: NotificationSample = {
+      value: notification.value,
+      decoded: notification.decoded,
+      timestamp: notification.timestamp ?? event.timestamp,
+    };
+    stream.totalReceived++;
+
+    if (isBlocked(stream)) {
+      if (stream.options.overflow === 'latest') {
+        stream.dropped += stream.samples.length;
+        stream.totalDropped += stream.samples.length;
+        stream.samples = [sample];
+        return true;
+      }
+      if (stream.samples.length >= stream.options.bufferSize) {
+        stream.dropped++;
+        stream.totalDropped++;
+        return true;
+      }
+    }
+
+    stream.samples.push(sample);
+    if (stream.samples.length >= stream.options.maxSamples) {
+      flush(stream);
+    } else if (!stream.timer) {
+      stream.timer = setTimeout(() => {
+        stream.timer = null;
+        flush(stream);
+      }, stream.options.interval);
+    }
+    return true;
+  };
+
+  /**
+   * 묶음 확인 (해당 특성의 batchId 이하 묶음을 모두 확인 처리하고, 보류 중인 샘플을 전달)
+   * @returns 확인 대기 중인 묶음이었는지 여부
+   */
+  const ack = (batchId: number): boolean => {
+    const stream = Array.from(streams.values()).find((candidate) => candidate.unacked.includes(batchId));
+    if (!stream) return false;
+
+    stream.unacked = stream.unacked.filter((id) => id > batchId);
+    flush(stream);
+    return true;
+  };
+
+  /**
+   * 장치의 남은 샘플을 모두 전달 (연결 해제 시, 설정은 재연결을 위해 유지)
+   */
+  const flushDevice = (deviceId: string): void => {
+    streams.forEach((stream) => {
+      if (stream.deviceId !== deviceId) return;
+      flush(stream, true);
+      stream.unacked = [];
+    });
+  };
+
+  /**
+   * 모든 설정 제거
+   */
+  const clear = (): void => {
+    streams.forEach(clearTimer);
+    streams.clear();
+  };
+
+  return { configure, remove, push, ack, flushDevice, clear };
+}
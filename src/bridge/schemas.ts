@@ -0,0 +1,562 @@
+/**
+ * 브릿지 핸들러 페이로드 스키마
+ */
+
+import {
+  MAX_TIMEOUT,
+  array,
+  base64,
+  boolean,
+  discriminated,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  select,
+  string,
+  union,
+  uuid,
+} from './validation';
+import type { Schema } from './validation';
+import type { BluetoothEventType, ScanFilterExpression } from '../types/bluetooth-module';
+
+// ============================================================================
+// Common Fields
+// ============================================================================
+
+const deviceId = () => string({ minLength: 1 });
+
+/** 타임아웃 (ms, 0 = 무제한) */
+const timeout = () => number({ min: 0, max: MAX_TIMEOUT, integer: true });
+
+const uint16 = () => number({ min: 0, max: 0xffff, integer: true });
+
+const hex = (length: number) => string({ pattern: new RegExp(`^[0-9a-fA-F]{${length}}$`) });
+
+const scanMode = () => oneOf(['lowPower', 'balanced', 'lowLatency'] as const);
+
+const connectionPriority = () => oneOf(['balanced', 'high', 'lowPower'] as const);
+
+const gattOperationOptions = () => optional(object({ timeout: optional(timeout()) }));
+
+/** 이벤트 타입 (새 타입을 추가하면 여기에도 추가해야 컴파일됨) */
+const EVENT_TYPES: Record<BluetoothEventType, true> = {
+  stateChange: true,
+  deviceDiscovered: true,
+  deviceLost: true,
+  scanStarted: true,
+  scanStopped: true,
+  connected: true,
+  disconnected: true,
+  connectionFailed: true,
+  reconnecting: true,
+  reconnected: true,
+  reconnectFailed: true,
+  servicesDiscovered: true,
+  characteristicRead: true,
+  characteristicWritten: true,
+  descriptorRead: true,
+  descriptorWritten: true,
+  writeProgress: true,
+  frameReceived: true,
+  notification: true,
+  notificationStateChanged: true,
+  notificationBatch: true,
+  mtuChanged: true,
+  rssiRead: true,
+  rssiChanged: true,
+  bondStateChanged: true,
+  beaconRanged: true,
+  regionEnter: true,
+  regionExit: true,
+  beaconsInRange: true,
+  peripheralStateChanged: true,
+  peripheralServiceAdded: true,
+  peripheralReadRequest: true,
+  peripheralWriteRequest: true,
+  peripheralSubscriptionChanged: true,
+  peripheralNotificationSent: true,
+  peripheralReady: true,
+  centralConnected: true,
+  centralDisconnected: true,
+  advertisingStarted: true,
+  advertisingStopped: true,
+  advertisingFailed: true,
+  accessDenied: true,
+  error: true,
+};
+
+const eventType = () => oneOf(Object.keys(EVENT_TYPES) as BluetoothEventType[]);
+
+const characteristicTarget = {
+  deviceId: deviceId(),
+  serviceUuid: uuid(),
+  characteristicUuid: uuid(),
+};
+
+// ============================================================================
+// Option Schemas
+// ============================================================================
+
+
+const classicScanOptions = object({
+  timeout: optional(timeout()),
+  nameFilter: optional(string()),
+});
+
+const reconnectionPolicy = object({
+  maxAttempts: optional(number({ min: 0, integer: true })),
+  initialDelay: optional(timeout()),
+  maxDelay: optional(timeout()),
+  multiplier: optional(number({ min: 1, max: 10 })),
+  jitter: optional(number({ min: 0, max: 1 })),
+});
+
+const connectionOptionsShape = {
+  timeout: optional(timeout()),
+  discoverServices: optional(boolean()),
+  autoConnect: optional(boolean()),
+  requestMtu: optional(number({ min: 23, max: 517, integer: true })),
+  connectionPriority: optional(connectionPriority()),
+  subscribe: optional(array(object({ serviceUuid: uuid(), characteristicUuid: uuid() }))),
+  reconnect: optional(union(boolean(), reconnectionPolicy)),
+};
+
+const beaconRegion = discriminated('type', {
+  ibeacon: object({
+    identifier: string({ minLength: 1 }),
+    type: oneOf(['ibeacon'] as const),
+    uuid: string({ pattern: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/ }),
+    major: optional(uint16()),
+    minor: optional(uint16()),
+  }),
+  eddystone: object({
+    identifier: string({ minLength: 1 }),
+    type: oneOf(['eddystone'] as const),
+    namespace: hex(20),
+    instance: optional(hex(12)),
+  }),
+});
+
+const dataFilterShape = {
+  dataPrefix: optional(base64({ allowEmpty: true })),
+  mask: optional(base64({ allowEmpty: true })),
+};
+
+const deviceFilter = refine(
+  object({
+    services: optional(array(uuid())),
+    name: optional(string()),
+    namePrefix: optional(string({ minLength: 1 })),
+    manufacturerData: optional(array(object({ companyIdentifier: uint16(), ...dataFilterShape }))),
+    serviceData: optional(array(object({ service: uuid(), ...dataFilterShape }))),
+  }),
+  (filter) =>
+    Object.values(filter).every((value) => value === undefined)
+      ? { message: 'A filter must restrict the devices in some way' }
+      : null
+);
+
+/** 정규식 검사 */
+const regexPattern = () =>
+  refine(string({ minLength: 1 }), (pattern) => {
+    try {
+      new RegExp(pattern);
+      return null;
+    } catch {
+      return { message: 'Invalid regular expression' };
+    }
+  });
+
+const scanFilterCondition = refine(
+  object({
+    serviceUUIDs: optional(array(uuid(), { minLength: 1 })),
+    manufacturerData: optional(object({ companyIdentifier: uint16(), ...dataFilterShape })),
+    serviceData: optional(object({ service: uuid(), ...dataFilterShape })),
+    name: optional(string()),
+    namePattern: optional(regexPattern()),
+    namePatternFlags: optional(string({ pattern: /^[imsu]*$/ })),
+    addresses: optional(array(string({ minLength: 1 }), { minLength: 1 })),
+    connectable: optional(boolean()),
+  }),
+  (condition) => {
+    if (Object.values(condition).every((value) => value === undefined)) {
+      return { message: 'A filter must restrict the devices in some way' };
+    }
+    if (condition.namePatternFlags !== undefined && condition.namePattern === undefined) {
+      return { key: 'namePatternFlags', message: 'Requires namePattern' };
+    }
+    return null;
+  }
+);
+
+/** 스캔 필터 식 (allOf, anyOf 필드가 있으면 그룹, 없으면 조건) */
+const scanFilterExpression: Schema<ScanFilterExpression> = select<ScanFilterExpression>((value) => {
+  const keys = typeof value === 'object' && value !== null ? Object.keys(value) : [];
+  if (keys.includes('allOf')) return scanFilterAllOf;
+  if (keys.includes('anyOf')) return scanFilterAnyOf;
+  return scanFilterCondition;
+});
+
+const scanFilterAllOf = object({ allOf: array(select(() => scanFilterExpression), { minLength: 1 }) });
+
+const scanFilterAnyOf = object({ anyOf: array(select(() => scanFilterExpression), { minLength: 1 }) });
+
+const bleScanOptions = object({
+  timeout: optional(timeout()),
+  scanMode: optional(scanMode()),
+  serviceUUIDs: optional(array(uuid())),
+  allowDuplicates: optional(boolean()),
+  nameFilter: optional(string()),
+  rssiThreshold: optional(number({ min: -127, max: 20, integer: true })),
+  filter: optional(scanFilterExpression),
+});
+
+const notificationBatchOptions = object({
+  interval: optional(number({ min: 1, max: MAX_TIMEOUT, integer: true })),
+  maxSamples: optional(number({ min: 1, integer: true })),
+  maxUnacked: optional(number({ min: 0, integer: true })),
+  bufferSize: optional(number({ min: 1, integer: true })),
+  overflow: optional(oneOf(['drop', 'latest'] as const)),
+});
+
+const framingOptionsShape = {
+  maxFrameSize: optional(number({ min: 1, max: 1024 * 1024, integer: true })),
+  emitRawData: optional(boolean()),
+};
+
+const classicFraming = discriminated('type', {
+  delimiter: object({
+    type: oneOf(['delimiter'] as const),
+    // 공백 문자(\r\n 등)도 구분자로 쓸 수 있도록 minLength 대신 pattern으로 검사
+    delimiter: optional(string({ pattern: /^[\s\S]{1,16}$/ })),
+    ...framingOptionsShape,
+  }),
+  lengthPrefix: object({
+    type: oneOf(['lengthPrefix'] as const),
+    lengthBytes: optional(oneOf([1, 2, 4] as const)),
+    byteOrder: optional(oneOf(['big', 'little'] as const)),
+    lengthIncludesHeader: optional(boolean()),
+    ...framingOptionsShape,
+  }),
+  slip: object({ type: oneOf(['slip'] as const), ...framingOptionsShape }),
+  cobs: object({ type: oneOf(['cobs'] as const), ...framingOptionsShape }),
+});
+
+/** Classic 연결 옵션 (BLE 전용 옵션은 거부) */
+const classicConnectionOptions = object({
+  timeout: optional(timeout()),
+  reconnect: optional(union(boolean(), reconnectionPolicy)),
+  uuid: optional(uuid()),
+  secure: optional(boolean()),
+  framing: optional(classicFraming),
+});
+
+const commandResponse = discriminated('type', {
+  terminator: object({
+    type: oneOf(['terminator'] as const),
+    terminator: string({ pattern: /^[\s\S]{1,64}$/ }),
+  }),
+  pattern: object({
+    type: oneOf(['pattern'] as const),
+    pattern: regexPattern(),
+    flags: optional(string({ pattern: /^[imsu]*$/ })),
+  }),
+  byteCount: object({
+    type: oneOf(['byteCount'] as const),
+    byteCount: number({ min: 1, max: 1024 * 1024, integer: true }),
+  }),
+});
+
+const regionMonitoringOptions = object({
+  exitTimeout: optional(timeout()),
+  rangingInterval: optional(number({ min: 100, max: MAX_TIMEOUT, integer: true })),
+  scanMode: optional(scanMode()),
+});
+
+/** RSSI 모니터링 옵션 */
+const rssiMonitoringOptions = object({
+  interval: optional(number({ min: 100, max: MAX_TIMEOUT, integer: true })),
+  filter: optional(oneOf(['none', 'movingAverage', 'kalman'] as const)),
+  windowSize: optional(number({ min: 1, max: 100, integer: true })),
+  processNoise: optional(number({ min: 0, max: 100 })),
+  measurementNoise: optional(number({ min: 0.01, max: 100 })),
+  threshold: optional(number({ min: -127, max: 20 })),
+  hysteresis: optional(number({ min: 0, max: 60 })),
+  minChange: optional(number({ min: 0, max: 60 })),
+});
+
+/** 로컬 GATT 서버 서비스 정의 */
+const peripheralService = object({
+  uuid: uuid(),
+  isPrimary: optional(boolean()),
+  characteristics: array(
+    object({
+      uuid: uuid(),
+      properties: object({
+        read: optional(boolean()),
+        write: optional(boolean()),
+        writeWithoutResponse: optional(boolean()),
+        notify: optional(boolean()),
+        indicate: optional(boolean()),
+      }),
+      permissions: optional(array(oneOf(['read', 'readEncrypted', 'write', 'writeEncrypted'] as const))),
+      value: optional(base64({ allowEmpty: true })),
+      responseMode: optional(oneOf(['auto', 'manual'] as const)),
+      descriptors: optional(
+        array(
+          object({
+            uuid: uuid(),
+            value: optional(base64({ allowEmpty: true })),
+          })
+        )
+      ),
+    }),
+    { minLength: 1 }
+  ),
+});
+
+const peripheralResponseStatus = () =>
+  oneOf([
+    'success',
+    'invalidOffset',
+    'readNotPermitted',
+    'writeNotPermitted',
+    'invalidAttributeValueLength',
+    'insufficientAuthentication',
+    'requestNotSupported',
+    'attributeNotFound',
+    'unlikelyError',
+  ] as const);
+
+/** 광고할 비콘 */
+const beaconAdvertisement = discriminated('type', {
+  ibeacon: object({
+    type: oneOf(['ibeacon'] as const),
+    uuid: string({ pattern: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/ }),
+    major: uint16(),
+    minor: uint16(),
+    measuredPower: optional(number({ min: -128, max: 127, integer: true })),
+  }),
+  eddystoneUid: object({
+    type: oneOf(['eddystoneUid'] as const),
+    namespace: hex(20),
+    instance: hex(12),
+    txPower: optional(number({ min: -128, max: 127, integer: true })),
+  }),
+  eddystoneUrl: object({
+    type: oneOf(['eddystoneUrl'] as const),
+    url: string({ minLength: 1 }),
+    txPower: optional(number({ min: -128, max: 127, integer: true })),
+  }),
+});
+
+/** 광고 옵션 */
+const advertisingOptions = object({
+  localName: optional(string({ minLength: 1 })),
+  serviceUUIDs: optional(array(uuid())),
+  serviceData: optional(array(object({ uuid: uuid(), data: base64({ allowEmpty: true }) }))),
+  manufacturerData: optional(array(object({ companyId: uint16(), data: base64({ allowEmpty: true }) }))),
+  includeTxPower: optional(boolean()),
+  beacon: optional(beaconAdvertisement),
+  connectable: optional(boolean()),
+  mode: optional(oneOf(['lowPower', 'balanced', 'lowLatency'] as const)),
+  txPowerLevel: optional(oneOf(['ultraLow', 'low', 'medium', 'high'] as const)),
+  timeout: optional(timeout()),
+});
+
+// ============================================================================
+// Payload Schemas
+// ============================================================================
+
+/**
+ * 핸들러별 페이로드 스키마
+ */
+export const payloadSchemas = {
+  /** 페이로드가 없는 핸들러 */
+  empty: object({}),
+
+  startBleScan: bleScanOptions,
+  startClassicScan: classicScanOptions,
+  getDiscoveredDevices: object({
+    type: optional(oneOf(['ble', 'classic'] as const)),
+    nameFilter: optional(string()),
+    serviceUUIDs: optional(array(uuid(), { minLength: 1 })),
+    minRssi: optional(number({ min: -127, max: 20 })),
+    seenWithin: optional(number({ min: 0, integer: true })),
+    sortBy: optional(oneOf(['lastSeen', 'firstSeen', 'rssi', 'name'] as const)),
+    order: optional(oneOf(['asc', 'desc'] as const)),
+    limit: optional(number({ min: 1, integer: true })),
+  }),
+
+  startRegionMonitoring: object({
+    regions: array(beaconRegion, { minLength: 1 }),
+    options: optional(regionMonitoringOptions),
+  }),
+  stopRegionMonitoring: object({
+    identifiers: optional(array(string({ minLength: 1 }))),
+  }),
+
+  requestDevice: refine(
+    object({
+      filters: optional(array(deviceFilter, { minLength: 1 })),
+      exclusionFilters: optional(array(deviceFilter, { minLength: 1 })),
+      optionalServices: optional(array(uuid())),
+      acceptAllDevices: optional(boolean()),
+      timeout: optional(number({ min: 1000, max: MAX_TIMEOUT, integer: true })),
+    }),
+    (options) => {
+      if ((options.filters !== undefined) === !!options.acceptAllDevices) {
+        return { key: 'filters', message: "Either 'filters' or 'acceptAllDevices: true' is required, but not both" };
+      }
+      if (options.exclusionFilters !== undefined && options.filters === undefined) {
+        return { key: 'exclusionFilters', message: "'filters' must be present if 'exclusionFilters' are present" };
+      }
+      return null;
+    }
+  ),
+
+  connectBle: object({
+    deviceId: deviceId(),
+    options: optional(object(connectionOptionsShape)),
+  }),
+  connectClassic: object({
+    address: deviceId(),
+    options: optional(classicConnectionOptions),
+  }),
+
+  /** deviceId만 받는 핸들러 */
+  device: object({ deviceId: deviceId() }),
+  optionalDevice: object({ deviceId: optional(deviceId()) }),
+
+  discoverServices: object({
+    deviceId: deviceId(),
+    options: gattOperationOptions(),
+  }),
+  readCharacteristic: object({
+    ...characteristicTarget,
+    options: gattOperationOptions(),
+  }),
+  writeCharacteristic: object({
+    ...characteristicTarget,
+    value: base64(),
+    options: optional(
+      object({
+        timeout: optional(timeout()),
+        withResponse: optional(boolean()),
+      })
+    ),
+  }),
+  readDescriptor: object({
+    ...characteristicTarget,
+    descriptorUuid: uuid(),
+    options: gattOperationOptions(),
+  }),
+  writeDescriptor: object({
+    ...characteristicTarget,
+    descriptorUuid: uuid(),
+    value: base64({ allowEmpty: true }),
+    options: gattOperationOptions(),
+  }),
+  writeLong: object({
+    ...characteristicTarget,
+    value: base64(),
+    options: optional(
+      object({
+        timeout: optional(timeout()),
+        mode: optional(oneOf(['withResponse', 'prepared', 'withoutResponse'] as const)),
+        chunkSize: optional(number({ min: 1, max: 512, integer: true })),
+        offset: optional(number({ min: 0, integer: true })),
+        retries: optional(number({ min: 0, max: 10, integer: true })),
+        interval: optional(timeout()),
+      })
+    ),
+  }),
+  setNotification: object({
+    ...characteristicTarget,
+    enable: boolean(),
+    options: optional(
+      object({
+        timeout: optional(timeout()),
+        batch: optional(notificationBatchOptions),
+      })
+    ),
+  }),
+  ackNotificationBatch: object({
+    batchId: number({ min: 1, integer: true }),
+  }),
+  requestMtu: object({
+    deviceId: deviceId(),
+    mtu: number({ min: 23, max: 517, integer: true }),
+    options: gattOperationOptions(),
+  }),
+  requestConnectionPriority: object({
+    deviceId: deviceId(),
+    priority: connectionPriority(),
+    options: gattOperationOptions(),
+  }),
+  readRssi: object({
+    deviceId: deviceId(),
+    options: gattOperationOptions(),
+  }),
+  startRssiMonitoring: object({
+    deviceId: deviceId(),
+    options: optional(rssiMonitoringOptions),
+  }),
+  stopRssiMonitoring: object({
+    deviceId: optional(deviceId()),
+  }),
+  startPeripheral: object({
+    services: array(peripheralService, { minLength: 1 }),
+    options: optional(
+      object({
+        requestTimeout: optional(timeout()),
+      })
+    ),
+  }),
+  respondToPeripheralRequest: object({
+    requestId: string({ minLength: 1 }),
+    status: optional(peripheralResponseStatus()),
+    value: optional(base64({ allowEmpty: true })),
+  }),
+  setPeripheralValue: object({
+    serviceUuid: uuid(),
+    characteristicUuid: uuid(),
+    value: base64({ allowEmpty: true }),
+  }),
+  notifyPeripheral: object({
+    serviceUuid: uuid(),
+    characteristicUuid: uuid(),
+    value: base64({ allowEmpty: true }),
+    deviceIds: optional(array(deviceId(), { minLength: 1 })),
+  }),
+
+  startAdvertising: advertisingOptions,
+
+  writeClassic: object({
+    deviceId: deviceId(),
+    value: base64(),
+  }),
+  sendCommand: object({
+    deviceId: deviceId(),
+    command: string({ pattern: /^[\s\S]+$/ }),
+    options: optional(
+      object({
+        response: optional(commandResponse),
+        encoding: optional(oneOf(['utf8', 'base64'] as const)),
+        timeout: optional(timeout()),
+        maxResponseSize: optional(number({ min: 1, max: 1024 * 1024, integer: true })),
+      })
+    ),
+  }),
+
+  subscribeEvents: object({
+    types: optional(array(eventType(), { minLength: 1 })),
+    deviceIds: optional(array(deviceId(), { minLength: 1 })),
+    characteristicUuids: optional(array(uuid(), { minLength: 1 })),
+  }),
+  unsubscribeEvents: object({
+    subscriptionId: optional(string({ minLength: 1 })),
+  }),
+};
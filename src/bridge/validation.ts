@@ -0,0 +1,280 @@
+/**
+ * 브릿지 페이로드 스키마 검증
+ * Web에서 전달된 값을 스키마로 검사하고, 실패 시 문제가 된 필드 경로를 알려줍니다
+ */
+
+import { isValidUuid } from '../modules/uuid';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * 검증 실패 정보
+ */
+export interface ValidationIssue {
+  /** 필드 경로 (예: 'options.timeout', 'regions[0].uuid') */
+  path: string;
+  /** 실패 사유 */
+  message: string;
+}
+
+/**
+ * 값 스키마
+ */
+export interface Schema<T> {
+  /** 객체 필드로 사용될 때 생략 허용 여부 */
+  readonly isOptional: boolean;
+  /** 값 검사 (문제가 없으면 null) */
+  check(value: unknown, path: string): ValidationIssue | null;
+  /** 타입 추론용 (런타임 값 없음) */
+  readonly __type?: T;
+}
+
+/**
+ * 스키마가 검사하는 값의 타입
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+type ObjectType<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+/**
+ * 검증 결과
+ */
+export type ValidationResult<T> = { valid: true; value: T } | { valid: false; issue: ValidationIssue };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** setTimeout이 허용하는 최대 지연 (ms) */
+export const MAX_TIMEOUT = 2147483647;
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+function createSchema<T>(check: Schema<T>['check'], isOptional = false): Schema<T> {
+  return { isOptional, check };
+}
+
+function issue(path: string, message: string): ValidationIssue {
+  return { path: path || 'payload', message };
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+// ============================================================================
+// Schema Builders
+// ============================================================================
+
+/**
+ * 생략 가능한 필드
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return createSchema<T | undefined>(
+    (value, path) => (value === undefined ? null : schema.check(value, path)),
+    true
+  );
+}
+
+/**
+ * 문자열
+ */
+export function string(options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Schema<string> {
+  return createSchema((value, path) => {
+    if (typeof value !== 'string') return issue(path, 'Expected a string');
+    if (options.minLength !== undefined && value.trim().length < options.minLength) {
+      return issue(path, options.minLength === 1 ? 'Must not be empty' : `Must be at least ${options.minLength} characters`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return issue(path, `Must be at most ${options.maxLength} characters`);
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      return issue(path, `Must match ${options.pattern}`);
+    }
+    return null;
+  });
+}
+
+/**
+ * 숫자 (NaN, Infinity 거부)
+ */
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return createSchema((value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return issue(path, 'Expected a finite number');
+    if (options.integer && !Number.isInteger(value)) return issue(path, 'Expected an integer');
+    if (options.min !== undefined && value < options.min) return issue(path, `Must be >= ${options.min}`);
+    if (options.max !== undefined && value > options.max) return issue(path, `Must be <= ${options.max}`);
+    return null;
+  });
+}
+
+/**
+ * 불리언
+ */
+export function boolean(): Schema<boolean> {
+  return createSchema((value, path) => (typeof value === 'boolean' ? null : issue(path, 'Expected a boolean')));
+}
+
+/**
+ * 열거형 (문자열 또는 숫자)
+ */
+export function oneOf<T extends string | number>(values: readonly T[]): Schema<T> {
+  return createSchema((value, path) =>
+    (typeof value === 'string' || typeof value === 'number') && (values as readonly unknown[]).includes(value)
+      ? null
+      : issue(path, `Expected one of: ${values.join(', ')}`)
+  );
+}
+
+/**
+ * Bluetooth UUID (16-bit, 32-bit, 128-bit)
+ */
+export function uuid(): Schema<string> {
+  return createSchema((value, path) =>
+    isValidUuid(value) ? null : issue(path, 'Expected a 16-bit, 32-bit or 128-bit UUID')
+  );
+}
+
+/**
+ * 표준 Base64 문자열 (패딩 포함)
+ */
+export function base64(options: { allowEmpty?: boolean } = {}): Schema<string> {
+  return createSchema((value, path) => {
+    if (typeof value !== 'string') return issue(path, 'Expected a Base64 string');
+    if (value.length === 0) return options.allowEmpty ? null : issue(path, 'Must not be empty');
+    return BASE64_PATTERN.test(value) ? null : issue(path, 'Invalid Base64');
+  });
+}
+
+/**
+ * 배열
+ */
+export function array<T>(item: Schema<T>, options: { minLength?: number; maxLength?: number } = {}): Schema<T[]> {
+  return createSchema((value, path) => {
+    if (!Array.isArray(value)) return issue(path, 'Expected an array');
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      return issue(path, options.minLength === 1 ? 'Must not be empty' : `Must contain at least ${options.minLength} items`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return issue(path, `Must contain at most ${options.maxLength} items`);
+    }
+    for (let i = 0; i < value.length; i++) {
+      const found = item.check(value[i], joinPath(path, i));
+      if (found) return found;
+    }
+    return null;
+  });
+}
+
+/**
+ * 객체 (정의되지 않은 필드는 거부)
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+  return createSchema((value, path) => {
+    if (!isPlainObject(value)) return issue(path, 'Expected an object');
+
+    for (const key of Object.keys(value)) {
+      if (!hasOwn(shape, key)) return issue(joinPath(path, key), 'Unknown field');
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      const fieldPath = joinPath(path, key);
+      if (value[key] === undefined) {
+        if (!schema.isOptional) return issue(fieldPath, 'Required');
+        continue;
+      }
+      const found = schema.check(value[key], fieldPath);
+      if (found) return found;
+    }
+    return null;
+  });
+}
+
+/**
+ * 구분 필드로 형태가 갈리는 객체
+ */
+export function discriminated<K extends string, M extends Record<string, Schema<object>>>(
+  key: K,
+  variants: M
+): Schema<Infer<M[keyof M]>> {
+  return createSchema((value, path) => {
+    if (!isPlainObject(value)) return issue(path, 'Expected an object');
+    const type = value[key];
+    const variant = typeof type === 'string' && hasOwn(variants, type) ? variants[type] : undefined;
+    if (!variant) {
+      return issue(joinPath(path, key), `Expected one of: ${Object.keys(variants).join(', ')}`);
+    }
+    return variant.check(value, path);
+  });
+}
+
+/**
+ * 여러 형태 중 하나 (모두 실패하면 가장 깊은 경로의 문제를 보고)
+ */
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return createSchema((value, path) => {
+    const first = a.check(value, path);
+    if (!first) return null;
+    const second = b.check(value, path);
+    if (!second) return null;
+    if (first.path === second.path) return issue(path, `${first.message} or ${second.message.replace(/^Expected /, '')}`);
+    return second.path.length > first.path.length ? second : first;
+  });
+}
+
+/**
+ * 검사 시점에 값에 맞는 스키마 선택 (구분 필드 없이 형태가 갈리는 값, 재귀 스키마)
+ */
+export function select<T>(pick: (value: unknown) => Schema<T>): Schema<T> {
+  return createSchema((value, path) => pick(value).check(value, path));
+}
+
+/**
+ * 추가 검사 (기본 스키마를 통과한 값에만 실행)
+ * @param check 문제가 있으면 실패 사유와 하위 필드 이름을 반환
+ */
+export function refine<T>(
+  schema: Schema<T>,
+  check: (value: T) => { key?: string; message: string } | null
+): Schema<T> {
+  return createSchema((value, path) => {
+    const found = schema.check(value, path);
+    if (found) return found;
+    const failure = check(value as T);
+    if (!failure) return null;
+    return issue(failure.key ? joinPath(path, failure.key) : path, failure.message);
+  }, schema.isOptional);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * 페이로드 검증 (생략된 페이로드는 빈 객체로 취급)
+ */
+export function validatePayload<T>(schema: Schema<T>, payload: unknown): ValidationResult<T> {
+  const value = payload === undefined || payload === null ? {} : payload;
+  const found = schema.check(value, '');
+  return found ? { valid: false, issue: found } : { valid: true, value: value as T };
+}
@@ -0,0 +1,139 @@
+/**
+ * Web Bluetooth UUID 해석 (BluetoothUUID)
+ * GATT 이름('heart_rate'), 16-bit 숫자(0x180D), UUID 문자열을 128-bit UUID로 변환합니다
+ */
+
+import { parseUuid } from '../modules/uuid';
+
+/**
+ * Web Bluetooth 서비스/특성/디스크립터 식별자
+ */
+export type BluetoothServiceUUID = number | string;
+export type BluetoothCharacteristicUUID = number | string;
+export type BluetoothDescriptorUUID = number | string;
+
+/** 표준 서비스 이름 → 16-bit UUID */
+const SERVICE_NAMES: Record<string, number> = {
+  generic_access: 0x1800,
+  generic_attribute: 0x1801,
+  immediate_alert: 0x1802,
+  link_loss: 0x1803,
+  tx_power: 0x1804,
+  current_time: 0x1805,
+  health_thermometer: 0x1809,
+  device_information: 0x180a,
+  heart_rate: 0x180d,
+  battery_service: 0x180f,
+  blood_pressure: 0x1810,
+  human_interface_device: 0x1812,
+  running_speed_and_cadence: 0x1814,
+  cycling_speed_and_cadence: 0x1816,
+  cycling_power: 0x1818,
+  location_and_navigation: 0x1819,
+  environmental_sensing: 0x181a,
+  body_composition: 0x181b,
+  user_data: 0x181c,
+  weight_scale: 0x181d,
+  glucose: 0x1808,
+  fitness_machine: 0x1826,
+};
+
+/** 표준 특성 이름 → 16-bit UUID */
+const CHARACTERISTIC_NAMES: Record<string, number> = {
+  'gap.device_name': 0x2a00,
+  'gap.appearance': 0x2a01,
+  'gap.peripheral_preferred_connection_parameters': 0x2a04,
+  'gatt.service_changed': 0x2a05,
+  alert_level: 0x2a06,
+  tx_power_level: 0x2a07,
+  battery_level: 0x2a19,
+  temperature_measurement: 0x2a1c,
+  temperature_type: 0x2a1d,
+  intermediate_temperature: 0x2a1e,
+  system_id: 0x2a23,
+  model_number_string: 0x2a24,
+  serial_number_string: 0x2a25,
+  firmware_revision_string: 0x2a26,
+  hardware_revision_string: 0x2a27,
+  software_revision_string: 0x2a28,
+  manufacturer_name_string: 0x2a29,
+  pnp_id: 0x2a50,
+  heart_rate_measurement: 0x2a37,
+  body_sensor_location: 0x2a38,
+  heart_rate_control_point: 0x2a39,
+  csc_measurement: 0x2a5b,
+  csc_feature: 0x2a5c,
+  sensor_location: 0x2a5d,
+  rsc_measurement: 0x2a53,
+  cycling_power_measurement: 0x2a63,
+  temperature: 0x2a6e,
+  humidity: 0x2a6f,
+  pressure: 0x2a6d,
+  weight_measurement: 0x2a9d,
+};
+
+/** 표준 디스크립터 이름 → 16-bit UUID */
+const DESCRIPTOR_NAMES: Record<string, number> = {
+  'gatt.characteristic_extended_properties': 0x2900,
+  'gatt.characteristic_user_description': 0x2901,
+  'gatt.client_characteristic_configuration': 0x2902,
+  'gatt.server_characteristic_configuration': 0x2903,
+  'gatt.characteristic_presentation_format': 0x2904,
+  'gatt.characteristic_aggregate_format': 0x2905,
+  valid_range: 0x2906,
+  report_reference: 0x2908,
+};
+
+function resolve(name: number | string, names: Record<string, number>, kind: string): string {
+  if (typeof name === 'number') {
+    return canonicalUUID(name);
+  }
+  if (Object.prototype.hasOwnProperty.call(names, name)) {
+    return canonicalUUID(names[name]);
+  }
+  const uuid = parseUuid(name);
+  if (uuid) return uuid;
+
+  throw new TypeError(`Invalid ${kind} name: '${name}'`);
+}
+
+/**
+ * 16/32-bit 별칭을 128-bit UUID로 변환
+ */
+export function canonicalUUID(alias: number): string {
+  if (!Number.isInteger(alias) || alias < 0 || alias > 0xffffffff) {
+    throw new TypeError(`Invalid UUID alias: ${alias}`);
+  }
+  return parseUuid(alias.toString(16).padStart(8, '0')) as string;
+}
+
+/**
+ * 서비스 식별자 해석
+ */
+export function getService(name: BluetoothServiceUUID): string {
+  return resolve(name, SERVICE_NAMES, 'Service');
+}
+
+/**
+ * 특성 식별자 해석
+ */
+export function getCharacteristic(name: BluetoothCharacteristicUUID): string {
+  return resolve(name, CHARACTERISTIC_NAMES, 'Characteristic');
+}
+
+/**
+ * 디스크립터 식별자 해석
+ */
+export function getDescriptor(name: BluetoothDescriptorUUID): string {
+  return resolve(name, DESCRIPTOR_NAMES, 'Descriptor');
+}
+
+/**
+ * window.BluetoothUUID 호환 객체
+ */
+export const BluetoothUUID = {
+  canonicalUUID,
+  getService,
+  getCharacteristic,
+  getDescriptor,
+};
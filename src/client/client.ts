@@ -0,0 +1,493 @@
+/**
+ * Web용 Bluetooth 클라이언트
+ * 브릿지 핸들러를 타입이 지정된 async 메서드로 감싸고, 요청/응답 짝 맞추기와 이벤트 구독을 처리합니다
+ */
+
+import type {
+  AdvertisingOptions,
+  BeaconRegion,
+  BleScanOptions,
+  BluetoothEvent,
+  BluetoothEventType,
+  ClassicConnectionOptions,
+  ClassicScanOptions,
+  ConnectionOptions,
+  ConnectionPriority,
+  DeviceRequestOptions,
+  DiscoveredDevicesQuery,
+  EventSubscriptionFilter,
+  GattOperationOptions,
+  LongWriteOptions,
+  NotificationOptions,
+  PeripheralResponse,
+  PeripheralServiceDefinition,
+  ReadOptions,
+  RegionMonitoringOptions,
+  RssiMonitoringOptions,
+  SendCommandOptions,
+  WriteOptions,
+} from '../types/bluetooth-module';
+import { BLUETOOTH_EVENT_NAME } from './protocol';
+import type { BluetoothHandlerName, BridgeIncomingMessage, HandlerPayload, HandlerResult } from './protocol';
+import type { BluetoothTransport } from './transport';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * 클라이언트 설정
+ */
+export interface BluetoothClientOptions {
+  /** 메시지 전송 계층 */
+  transport: BluetoothTransport;
+  /** 응답 대기 시간 (ms, 0 = 무제한, 기본값: 60000) */
+  timeout?: number;
+}
+
+/**
+ * 타입별 이벤트
+ */
+export type BluetoothEventOf<T extends BluetoothEventType> = BluetoothEvent & { type: T };
+
+/**
+ * 생략 가능한 페이로드는 인자도 생략 가능
+ */
+type PayloadArgs<K extends BluetoothHandlerName> = void extends HandlerPayload<K>
+  ? [payload?: Exclude<HandlerPayload<K>, void>]
+  : [payload: HandlerPayload<K>];
+
+/**
+ * 응답 대기 중인 요청
+ */
+interface PendingRequest {
+  resolve: (data: unknown) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** 기본 응답 대기 시간 (ms) */
+const DEFAULT_REQUEST_TIMEOUT = 60000;
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Bluetooth 브릿지 클라이언트
+ * 모든 메서드는 실패 시에도 reject하지 않고 `success: false` 결과로 resolve 합니다
+ */
+export class BluetoothClient {
+  private readonly transport: BluetoothTransport;
+  private readonly timeout: number;
+  private readonly pending = new Map<string, PendingRequest>();
+  private readonly listeners = new Set<(event: BluetoothEvent) => void>();
+  private readonly idPrefix = Math.random().toString(36).slice(2, 10);
+  private nextId = 0;
+  private unsubscribe: (() => void) | null;
+
+  constructor(options: BluetoothClientOptions) {
+    this.transport = options.transport;
+    this.timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.unsubscribe = this.transport.subscribe((message) => this.handleMessage(message));
+  }
+
+  // ==========================================================================
+  // Core
+  // ==========================================================================
+
+  /**
+   * 핸들러 호출
+   */
+  request<K extends BluetoothHandlerName>(action: K, ...args: PayloadArgs<K>): Promise<HandlerResult<K>> {
+    return new Promise((resolve) => {
+      const settle = resolve as (data: unknown) => void;
+
+      if (!this.unsubscribe) {
+        settle({ success: false, error: 'OPERATION_FAILED', message: 'BluetoothClient is disposed' });
+        return;
+      }
+
+      const requestId = `${this.idPrefix}-${++this.nextId}`;
+      const request: PendingRequest = { resolve: settle, timer: null };
+
+      if (this.timeout > 0) {
+        request.timer = setTimeout(() => {
+          this.pending.delete(requestId);
+          settle({
+            success: false,
+            error: 'OPERATION_TIMEOUT',
+            message: `${action} did not respond within ${this.timeout}ms`,
+          });
+        }, this.timeout);
+      }
+      this.pending.set(requestId, request);
+
+      try {
+        this.transport.send({ requestId, action, payload: args[0] });
+      } catch (error) {
+        this.settleRequest(requestId, {
+          success: false,
+          error: 'UNKNOWN',
+          message: error instanceof Error ? error.message : `Failed to send ${action}`,
+        });
+      }
+    });
+  }
+
+  /**
+   * 모든 Bluetooth 이벤트 구독
+   * @returns 구독 해제 함수
+   */
+  onBluetoothEvent(listener: (event: BluetoothEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 특정 타입의 이벤트 구독
+   * @returns 구독 해제 함수
+   */
+  on<T extends BluetoothEventType>(type: T, listener: (event: BluetoothEventOf<T>) => void): () => void {
+    return this.onBluetoothEvent((event) => {
+      if (event.type === type) {
+        listener(event as BluetoothEventOf<T>);
+      }
+    });
+  }
+
+  /**
+   * 클라이언트 정리 (대기 중인 요청은 실패로 resolve)
+   */
+  dispose(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    Array.from(this.pending.keys()).forEach((requestId) => {
+      this.settleRequest(requestId, { success: false, error: 'OPERATION_FAILED', message: 'BluetoothClient is disposed' });
+    });
+    this.listeners.clear();
+  }
+
+  private settleRequest(requestId: string, data: unknown): void {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+    this.pending.delete(requestId);
+    if (request.timer) clearTimeout(request.timer);
+    request.resolve(data);
+  }
+
+  private handleMessage(message: BridgeIncomingMessage): void {
+    if ('requestId' in message) {
+      this.settleRequest(message.requestId, message.data);
+      return;
+    }
+    if (message.eventName !== BLUETOOTH_EVENT_NAME) return;
+
+    const event = message.data as BluetoothEvent;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[BluetoothClient] Event listener error:', error);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // State & Permission
+  // ==========================================================================
+
+  getBluetoothState() {
+    return this.request('getBluetoothState');
+  }
+
+  checkBluetoothPermissions() {
+    return this.request('checkBluetoothPermissions');
+  }
+
+  requestBluetoothPermissions() {
+    return this.request('requestBluetoothPermissions');
+  }
+
+  requestEnableBluetooth() {
+    return this.request('requestEnableBluetooth');
+  }
+
+  // ==========================================================================
+  // Device Request
+  // ==========================================================================
+
+  requestDevice(options: DeviceRequestOptions) {
+    return this.request('requestDevice', options);
+  }
+
+  getDeviceGrants() {
+    return this.request('getDeviceGrants');
+  }
+
+  revokeDeviceGrant(deviceId?: string) {
+    return this.request('revokeDeviceGrant', { deviceId });
+  }
+
+  // ==========================================================================
+  // BLE Scan
+  // ==========================================================================
+
+  startBleScan(options?: BleScanOptions) {
+    return this.request('startBleScan', options);
+  }
+
+  stopBleScan() {
+    return this.request('stopBleScan');
+  }
+
+  isScanning() {
+    return this.request('isScanning');
+  }
+
+  // ==========================================================================
+  // Beacon Region
+  // ==========================================================================
+
+  startRegionMonitoring(regions: BeaconRegion[], options?: RegionMonitoringOptions) {
+    return this.request('startRegionMonitoring', { regions, options });
+  }
+
+  stopRegionMonitoring(identifiers?: string[]) {
+    return this.request('stopRegionMonitoring', { identifiers });
+  }
+
+  getMonitoredRegions() {
+    return this.request('getMonitoredRegions');
+  }
+
+  // ==========================================================================
+  // Classic Scan (Android only)
+  // ==========================================================================
+
+  startClassicScan(options?: ClassicScanOptions) {
+    return this.request('startClassicScan', options);
+  }
+
+  stopClassicScan() {
+    return this.request('stopClassicScan');
+  }
+
+  getBondedDevices() {
+    return this.request('getBondedDevices');
+  }
+
+  // ==========================================================================
+  // Device Registry
+  // ==========================================================================
+
+  getDiscoveredDevices(query?: DiscoveredDevicesQuery) {
+    return this.request('getDiscoveredDevices', query);
+  }
+
+  // ==========================================================================
+  // Connection
+  // ==========================================================================
+
+  connectBle(deviceId: string, options?: ConnectionOptions) {
+    return this.request('connectBle', { deviceId, options });
+  }
+
+  connectClassic(address: string, options?: ClassicConnectionOptions) {
+    return this.request('connectClassic', { address, options });
+  }
+
+  disconnect(deviceId: string) {
+    return this.request('disconnect', { deviceId });
+  }
+
+  stopReconnection(deviceId: string) {
+    return this.request('stopReconnection', { deviceId });
+  }
+
+  disconnectAll() {
+    return this.request('disconnectAll');
+  }
+
+  isConnected(deviceId: string) {
+    return this.request('isConnected', { deviceId });
+  }
+
+  getConnectedDevices() {
+    return this.request('getConnectedDevices');
+  }
+
+  // ==========================================================================
+  // BLE GATT
+  // ==========================================================================
+
+  discoverServices(deviceId: string, options?: GattOperationOptions) {
+    return this.request('discoverServices', { deviceId, options });
+  }
+
+  readCharacteristic(deviceId: string, serviceUuid: string, characteristicUuid: string, options?: ReadOptions) {
+    return this.request('readCharacteristic', { deviceId, serviceUuid, characteristicUuid, options });
+  }
+
+  writeCharacteristic(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string,
+    options?: WriteOptions
+  ) {
+    return this.request('writeCharacteristic', { deviceId, serviceUuid, characteristicUuid, value, options });
+  }
+
+  readDescriptor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    descriptorUuid: string,
+    options?: GattOperationOptions
+  ) {
+    return this.request('readDescriptor', { deviceId, serviceUuid, characteristicUuid, descriptorUuid, options });
+  }
+
+  writeDescriptor(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    descriptorUuid: string,
+    value: string,
+    options?: GattOperationOptions
+  ) {
+    return this.request('writeDescriptor', { deviceId, serviceUuid, characteristicUuid, descriptorUuid, value, options });
+  }
+
+  writeLong(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string,
+    options?: LongWriteOptions
+  ) {
+    return this.request('writeLong', { deviceId, serviceUuid, characteristicUuid, value, options });
+  }
+
+  setNotification(
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    enable: boolean,
+    options?: NotificationOptions
+  ) {
+    return this.request('setNotification', { deviceId, serviceUuid, characteristicUuid, enable, options });
+  }
+
+  ackNotificationBatch(batchId: number) {
+    return this.request('ackNotificationBatch', { batchId });
+  }
+
+  requestMtu(deviceId: string, mtu: number, options?: GattOperationOptions) {
+    return this.request('requestMtu', { deviceId, mtu, options });
+  }
+
+  requestConnectionPriority(deviceId: string, priority: ConnectionPriority, options?: GattOperationOptions) {
+    return this.request('requestConnectionPriority', { deviceId, priority, options });
+  }
+
+  getGattQueueDepth(deviceId?: string) {
+    return this.request('getGattQueueDepth', { deviceId });
+  }
+
+  // ==========================================================================
+  // Signal Strength
+  // ==========================================================================
+
+  readRssi(deviceId: string, options?: GattOperationOptions) {
+    return this.request('readRssi', { deviceId, options });
+  }
+
+  startRssiMonitoring(deviceId: string, options?: RssiMonitoringOptions) {
+    return this.request('startRssiMonitoring', { deviceId, options });
+  }
+
+  stopRssiMonitoring(deviceId?: string) {
+    return this.request('stopRssiMonitoring', { deviceId });
+  }
+
+  // ==========================================================================
+  // Peripheral (GATT Server)
+  // ==========================================================================
+
+  startPeripheral(services: PeripheralServiceDefinition[], options?: { requestTimeout?: number }) {
+    return this.request('startPeripheral', { services, options });
+  }
+
+  stopPeripheral() {
+    return this.request('stopPeripheral');
+  }
+
+  respondToPeripheralRequest(requestId: string, response?: PeripheralResponse) {
+    return this.request('respondToPeripheralRequest', { requestId, ...response });
+  }
+
+  setPeripheralValue(serviceUuid: string, characteristicUuid: string, value: string) {
+    return this.request('setPeripheralValue', { serviceUuid, characteristicUuid, value });
+  }
+
+  notifyPeripheral(serviceUuid: string, characteristicUuid: string, value: string, deviceIds?: string[]) {
+    return this.request('notifyPeripheral', { serviceUuid, characteristicUuid, value, deviceIds });
+  }
+
+  // ==========================================================================
+  // Advertising
+  // ==========================================================================
+
+  startAdvertising(options?: AdvertisingOptions) {
+    return this.request('startAdvertising', options);
+  }
+
+  stopAdvertising() {
+    return this.request('stopAdvertising');
+  }
+
+  isAdvertising() {
+    return this.request('isAdvertising');
+  }
+
+  // ==========================================================================
+  // Classic Data (Android only)
+  // ==========================================================================
+
+  writeClassic(deviceId: string, value: string) {
+    return this.request('writeClassic', { deviceId, value });
+  }
+
+  sendCommand(deviceId: string, command: string, options?: SendCommandOptions) {
+    return this.request('sendCommand', { deviceId, command, options });
+  }
+
+  // ==========================================================================
+  // Bonding (Android only)
+  // ==========================================================================
+
+  createBond(deviceId: string) {
+    return this.request('createBond', { deviceId });
+  }
+
+  removeBond(deviceId: string) {
+    return this.request('removeBond', { deviceId });
+  }
+
+  // ==========================================================================
+  // Event Subscription
+  // ==========================================================================
+
+  subscribeEvents(filter?: EventSubscriptionFilter) {
+    return this.request('subscribeEvents', filter);
+  }
+
+  unsubscribeEvents(subscriptionId?: string) {
+    return this.request('unsubscribeEvents', { subscriptionId });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Web용 Bluetooth 클라이언트 엔트리 포인트
+ * WebView 페이지에서 사용하며, 네이티브 모듈을 불러오지 않습니다
+ */
+
+export { BluetoothClient } from './client';
+export type { BluetoothClientOptions, BluetoothEventOf } from './client';
+export { createWebViewTransport, createMemoryTransport, isIncomingMessage } from './transport';
+export type { BluetoothTransport, WebViewTransportOptions, MessageEventTarget, MemoryTransport } from './transport';
+export {
+  installWebBluetooth,
+  WebBluetooth,
+  WebBluetoothDevice,
+  WebBluetoothRemoteGATTServer,
+  WebBluetoothRemoteGATTService,
+  WebBluetoothRemoteGATTCharacteristic,
+  WebBluetoothRemoteGATTDescriptor,
+  WebBluetoothError,
+} from './web-bluetooth';
+export type {
+  BufferSource,
+  BluetoothDataFilter,
+  BluetoothManufacturerDataFilter,
+  BluetoothServiceDataFilter,
+  BluetoothLEScanFilter,
+  RequestDeviceOptions,
+  WebBluetoothOptions,
+  InstallWebBluetoothOptions,
+  WebBluetoothErrorName,
+  WebBluetoothEvent,
+} from './web-bluetooth';
+export { BluetoothUUID } from './bluetooth-uuid';
+export type { BluetoothServiceUUID, BluetoothCharacteristicUUID, BluetoothDescriptorUUID } from './bluetooth-uuid';
+export { BLUETOOTH_EVENT_NAME } from './protocol';
+export type {
+  BluetoothHandlerMap,
+  BluetoothHandlerName,
+  HandlerPayload,
+  HandlerResult,
+  BridgeRequestMessage,
+  BridgeResponseMessage,
+  BridgeEventMessage,
+  BridgeIncomingMessage,
+} from './protocol';
+
+export * from '../types/bluetooth-module';
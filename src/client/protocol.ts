@@ -0,0 +1,263 @@
+/**
+ * 브릿지 프로토콜 타입
+ * 핸들러 이름별 페이로드/응답 타입과 Web ↔ Native 메시지 형식을 정의합니다
+ */
+
+import type {
+  AdvertisingOptions,
+  BeaconRegion,
+  BleScanOptions,
+  BluetoothPermissionStatus,
+  BluetoothResult,
+  BluetoothState,
+  BondedDevicesResult,
+  ClassicConnectionOptions,
+  ClassicScanOptions,
+  CommandResult,
+  ConnectedDevicesResult,
+  ConnectionOptions,
+  ConnectionPriority,
+  ConnectResult,
+  DeviceGrantsResult,
+  DeviceRequestOptions,
+  DiscoverServicesResult,
+  DiscoveredDevicesQuery,
+  DiscoveredDevicesResult,
+  EventSubscriptionFilter,
+  EventSubscriptionResult,
+  GattOperationOptions,
+  GattQueueDepthResult,
+  LongWriteOptions,
+  LongWriteResult,
+  MtuResult,
+  NotificationOptions,
+  PeripheralNotifyResult,
+  PeripheralResponseStatus,
+  PeripheralServiceDefinition,
+  ReadOptions,
+  ReadResult,
+  RegionMonitoringOptions,
+  RequestDeviceResult,
+  RssiMonitoringOptions,
+  RssiResult,
+  ScanStartResult,
+  SendCommandOptions,
+  WriteOptions,
+} from '../types/bluetooth-module';
+
+// ============================================================================
+// Handler Types
+// ============================================================================
+
+/**
+ * 핸들러 정의 (페이로드 → 응답)
+ */
+interface HandlerDefinition<P, R> {
+  payload: P;
+  result: R;
+}
+
+/**
+ * registerBluetoothHandlers가 등록하는 핸들러 목록
+ */
+export interface BluetoothHandlerMap {
+  // State & Permission
+  getBluetoothState: HandlerDefinition<void, BluetoothResult & { state?: BluetoothState }>;
+  checkBluetoothPermissions: HandlerDefinition<void, BluetoothResult & Partial<BluetoothPermissionStatus>>;
+  requestBluetoothPermissions: HandlerDefinition<void, BluetoothResult & Partial<BluetoothPermissionStatus>>;
+  requestEnableBluetooth: HandlerDefinition<void, BluetoothResult>;
+
+  // Device Request
+  requestDevice: HandlerDefinition<DeviceRequestOptions, RequestDeviceResult>;
+  getDeviceGrants: HandlerDefinition<void, DeviceGrantsResult>;
+  revokeDeviceGrant: HandlerDefinition<{ deviceId?: string } | void, DeviceGrantsResult>;
+
+  // BLE Scan
+  startBleScan: HandlerDefinition<BleScanOptions | void, ScanStartResult>;
+  stopBleScan: HandlerDefinition<void, BluetoothResult>;
+  isScanning: HandlerDefinition<void, BluetoothResult & { isScanning?: boolean }>;
+
+  // Beacon Region
+  startRegionMonitoring: HandlerDefinition<
+    { regions: BeaconRegion[]; options?: RegionMonitoringOptions },
+    BluetoothResult
+  >;
+  stopRegionMonitoring: HandlerDefinition<{ identifiers?: string[] } | void, BluetoothResult>;
+  getMonitoredRegions: HandlerDefinition<
+    void,
+    BluetoothResult & { regions?: Array<{ region: BeaconRegion; inside: boolean }> }
+  >;
+
+  // Classic Scan
+  startClassicScan: HandlerDefinition<ClassicScanOptions | void, ScanStartResult>;
+  stopClassicScan: HandlerDefinition<void, BluetoothResult>;
+  getBondedDevices: HandlerDefinition<void, BondedDevicesResult>;
+
+  // Device Registry
+  getDiscoveredDevices: HandlerDefinition<DiscoveredDevicesQuery | void, DiscoveredDevicesResult>;
+
+  // Connection
+  connectBle: HandlerDefinition<{ deviceId: string; options?: ConnectionOptions }, ConnectResult>;
+  connectClassic: HandlerDefinition<{ address: string; options?: ClassicConnectionOptions }, ConnectResult>;
+  disconnect: HandlerDefinition<{ deviceId: string }, BluetoothResult>;
+  stopReconnection: HandlerDefinition<{ deviceId: string }, BluetoothResult & { stopped?: boolean }>;
+  disconnectAll: HandlerDefinition<void, BluetoothResult>;
+  isConnected: HandlerDefinition<{ deviceId: string }, BluetoothResult & { isConnected?: boolean }>;
+  getConnectedDevices: HandlerDefinition<void, ConnectedDevicesResult>;
+
+  // BLE GATT
+  discoverServices: HandlerDefinition<{ deviceId: string; options?: GattOperationOptions }, DiscoverServicesResult>;
+  readCharacteristic: HandlerDefinition<
+    { deviceId: string; serviceUuid: string; characteristicUuid: string; options?: ReadOptions },
+    BluetoothResult & Partial<ReadResult>
+  >;
+  writeCharacteristic: HandlerDefinition<
+    { deviceId: string; serviceUuid: string; characteristicUuid: string; value: string; options?: WriteOptions },
+    BluetoothResult
+  >;
+  readDescriptor: HandlerDefinition<
+    {
+      deviceId: string;
+      serviceUuid: string;
+      characteristicUuid: string;
+      descriptorUuid: string;
+      options?: GattOperationOptions;
+    },
+    BluetoothResult & Partial<ReadResult>
+  >;
+  writeDescriptor: HandlerDefinition<
+    {
+      deviceId: string;
+      serviceUuid: string;
+      characteristicUuid: string;
+      descriptorUuid: string;
+      value: string;
+      options?: GattOperationOptions;
+    },
+    BluetoothResult
+  >;
+  writeLong: HandlerDefinition<
+    { deviceId: string; serviceUuid: string; characteristicUuid: string; value: string; options?: LongWriteOptions },
+    LongWriteResult
+  >;
+  setNotification: HandlerDefinition<
+    {
+      deviceId: string;
+      serviceUuid: string;
+      characteristicUuid: string;
+      enable: boolean;
+      options?: NotificationOptions;
+    },
+    BluetoothResult
+  >;
+  ackNotificationBatch: HandlerDefinition<{ batchId: number }, BluetoothResult>;
+  requestMtu: HandlerDefinition<{ deviceId: string; mtu: number; options?: GattOperationOptions }, MtuResult>;
+  requestConnectionPriority: HandlerDefinition<
+    { deviceId: string; priority: ConnectionPriority; options?: GattOperationOptions },
+    BluetoothResult
+  >;
+  getGattQueueDepth: HandlerDefinition<{ deviceId?: string } | void, GattQueueDepthResult>;
+
+  // Signal Strength
+  readRssi: HandlerDefinition<{ deviceId: string; options?: GattOperationOptions }, RssiResult>;
+  startRssiMonitoring: HandlerDefinition<{ deviceId: string; options?: RssiMonitoringOptions }, RssiResult>;
+  stopRssiMonitoring: HandlerDefinition<{ deviceId?: string } | void, BluetoothResult & { stopped?: boolean }>;
+
+  // Peripheral (GATT Server)
+  startPeripheral: HandlerDefinition<
+    { services: PeripheralServiceDefinition[]; options?: { requestTimeout?: number } },
+    BluetoothResult
+  >;
+  stopPeripheral: HandlerDefinition<void, BluetoothResult>;
+  respondToPeripheralRequest: HandlerDefinition<
+    { requestId: string; status?: PeripheralResponseStatus; value?: string },
+    BluetoothResult
+  >;
+  setPeripheralValue: HandlerDefinition<
+    { serviceUuid: string; characteristicUuid: string; value: string },
+    BluetoothResult
+  >;
+  notifyPeripheral: HandlerDefinition<
+    { serviceUuid: string; characteristicUuid: string; value: string; deviceIds?: string[] },
+    PeripheralNotifyResult
+  >;
+
+  // Advertising
+  startAdvertising: HandlerDefinition<AdvertisingOptions | void, BluetoothResult>;
+  stopAdvertising: HandlerDefinition<void, BluetoothResult>;
+  isAdvertising: HandlerDefinition<void, BluetoothResult & { isAdvertising?: boolean }>;
+
+  // Classic Data
+  writeClassic: HandlerDefinition<{ deviceId: string; value: string }, BluetoothResult>;
+  sendCommand: HandlerDefinition<{ deviceId: string; command: string; options?: SendCommandOptions }, CommandResult>;
+
+  // Bonding
+  createBond: HandlerDefinition<{ deviceId: string }, BluetoothResult>;
+  removeBond: HandlerDefinition<{ deviceId: string }, BluetoothResult>;
+
+  // Event Subscription
+  subscribeEvents: HandlerDefinition<EventSubscriptionFilter | void, EventSubscriptionResult>;
+  unsubscribeEvents: HandlerDefinition<{ subscriptionId?: string } | void, BluetoothResult>;
+
+  // Dispose
+  disposeBluetoothHandlers: HandlerDefinition<void, BluetoothResult>;
+}
+
+/**
+ * 핸들러 이름
+ */
+export type BluetoothHandlerName = keyof BluetoothHandlerMap;
+
+/**
+ * 핸들러 페이로드 타입
+ */
+export type HandlerPayload<K extends BluetoothHandlerName> = BluetoothHandlerMap[K]['payload'];
+
+/**
+ * 핸들러 응답 타입
+ */
+export type HandlerResult<K extends BluetoothHandlerName> = BluetoothHandlerMap[K]['result'];
+
+// ============================================================================
+// Message Types
+// ============================================================================
+
+/** Bluetooth 이벤트 이름 (bridge.sendToWeb) */
+export const BLUETOOTH_EVENT_NAME = 'onBluetoothEvent';
+
+/**
+ * Web → Native 요청 메시지
+ */
+export interface BridgeRequestMessage {
+  /** 요청 ID (응답과 짝을 맞추는 데 사용) */
+  requestId: string;
+  /** 핸들러 이름 */
+  action: string;
+  /** 페이로드 */
+  payload?: unknown;
+}
+
+/**
+ * Native → Web 응답 메시지
+ */
+export interface BridgeResponseMessage {
+  /** 요청 ID */
+  requestId: string;
+  /** 핸들러 응답 (respond에 전달된 값) */
+  data: unknown;
+}
+
+/**
+ * Native → Web 이벤트 메시지
+ */
+export interface BridgeEventMessage {
+  /** 이벤트 이름 */
+  eventName: string;
+  /** 이벤트 데이터 */
+  data: unknown;
+}
+
+/**
+ * Native → Web 메시지
+ */
+export type BridgeIncomingMessage = BridgeResponseMessage | BridgeEventMessage;
@@ -0,0 +1,169 @@
+/**
+ * 클라이언트 전송 계층
+ * BluetoothClient는 전송 방식에 의존하지 않으며, WebView 또는 메모리 전송을 주입받아 동작합니다
+ */
+
+import type { IBridge } from '../types/bridge';
+import type { BridgeIncomingMessage, BridgeRequestMessage } from './protocol';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * 메시지 전송 계층
+ */
+export interface BluetoothTransport {
+  /** 요청 메시지 전송 */
+  send(message: BridgeRequestMessage): void;
+  /**
+   * Native 메시지 수신 등록
+   * @returns 등록 해제 함수
+   */
+  subscribe(listener: (message: BridgeIncomingMessage) => void): () => void;
+}
+
+/**
+ * WebView 전송 설정
+ */
+export interface WebViewTransportOptions {
+  /** 요청 전송 함수 (기본값: window.ReactNativeWebView.postMessage) */
+  postMessage?: (message: string) => void;
+  /** 'message' 이벤트를 받을 대상 (기본값: window, document) */
+  targets?: MessageEventTarget[];
+}
+
+/**
+ * 'message' 이벤트 대상 (window, document)
+ */
+export interface MessageEventTarget {
+  addEventListener(type: 'message', listener: (event: { data?: unknown }) => void): void;
+  removeEventListener(type: 'message', listener: (event: { data?: unknown }) => void): void;
+}
+
+/**
+ * 메모리 전송 (WebView 없이 브릿지와 직접 연결)
+ */
+export interface MemoryTransport {
+  /** BluetoothClient에 전달할 전송 계층 */
+  transport: BluetoothTransport;
+  /** registerBluetoothHandlers에 전달할 브릿지 */
+  bridge: IBridge;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * 수신 메시지 형식 확인
+ */
+export function isIncomingMessage(value: unknown): value is BridgeIncomingMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Record<string, unknown>;
+  return typeof message.requestId === 'string' || typeof message.eventName === 'string';
+}
+
+function getGlobal(): Record<string, any> {
+  return globalThis as Record<string, any>;
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * React Native WebView 전송
+ * 요청은 JSON 문자열로 postMessage하고, 응답/이벤트는 'message' 이벤트로 수신합니다
+ */
+export function createWebViewTransport(options: WebViewTransportOptions = {}): BluetoothTransport {
+  const global = getGlobal();
+
+  const postMessage =
+    options.postMessage ??
+    ((message: string) => {
+      const webView = global.ReactNativeWebView;
+      if (!webView || typeof webView.postMessage !== 'function') {
+        throw new Error('ReactNativeWebView is not available');
+      }
+      webView.postMessage(message);
+    });
+
+  // Android WebView는 document, iOS WebView는 window로 메시지를 전달합니다
+  const targets = options.targets ?? [global.window, global.document].filter(Boolean);
+
+  return {
+    send(message) {
+      postMessage(JSON.stringify(message));
+    },
+
+    subscribe(listener) {
+      const handleMessage = (event: { data?: unknown }) => {
+        let data = event.data;
+        if (typeof data === 'string') {
+          try {
+            data = JSON.parse(data);
+          } catch {
+            return;
+          }
+        }
+        if (isIncomingMessage(data)) {
+          listener(data);
+        }
+      };
+
+      targets.forEach((target) => target.addEventListener('message', handleMessage));
+      return () => {
+        targets.forEach((target) => target.removeEventListener('message', handleMessage));
+      };
+    },
+  };
+}
+
+/**
+ * 메모리 전송 생성
+ * 등록된 핸들러를 직접 호출하므로 WebView 없이 클라이언트와 브릿지를 함께 테스트할 수 있습니다
+ */
+export function createMemoryTransport(): MemoryTransport {
+  const handlers = new Map<string, (payload: unknown, respond: (data: unknown) => void) => unknown>();
+  const listeners = new Set<(message: BridgeIncomingMessage) => void>();
+
+  // 실제 WebView처럼 비동기로 전달
+  const deliver = (message: BridgeIncomingMessage): void => {
+    Promise.resolve().then(() => {
+      listeners.forEach((listener) => listener(message));
+    });
+  };
+
+  const bridge: IBridge = {
+    registerHandler(eventName, handler) {
+      handlers.set(eventName, handler);
+    },
+    sendToWeb(eventName, data) {
+      deliver({ eventName, data });
+    },
+  };
+
+  const transport: BluetoothTransport = {
+    send({ requestId, action, payload }) {
+      const handler = handlers.get(action);
+      if (!handler) {
+        deliver({
+          requestId,
+          data: { success: false, error: 'OPERATION_NOT_SUPPORTED', message: `Unknown handler: ${action}` },
+        });
+        return;
+      }
+      handler(payload, (data) => deliver({ requestId, data }));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return { transport, bridge };
+}
@@ -0,0 +1,764 @@
+/**
+ * Web Bluetooth API 폴리필
+ * 표준 navigator.bluetooth API를 브릿지 핸들러와 onBluetoothEvent 위에 구현합니다
+ * (Chrome에서는 네이티브 구현을 그대로 사용하고, WebView에서만 설치됩니다)
+ */
+
+import type {
+  BleDescriptor,
+  BleService,
+  BluetoothError,
+  BluetoothResult,
+  CharacteristicProperties,
+  DeviceDataFilter,
+  DeviceFilter,
+  DeviceGrant,
+} from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64 } from '../modules/encoding';
+import { isSameUuid, normalizeUuid } from '../modules/uuid';
+import { BluetoothUUID, getCharacteristic, getDescriptor, getService } from './bluetooth-uuid';
+import type { BluetoothCharacteristicUUID, BluetoothDescriptorUUID, BluetoothServiceUUID } from './bluetooth-uuid';
+import type { BluetoothClient } from './client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * 바이트 데이터 (ArrayBuffer 또는 TypedArray/DataView)
+ */
+export type BufferSource = ArrayBuffer | ArrayBufferView;
+
+/**
+ * 광고 데이터 필터
+ */
+export interface BluetoothDataFilter {
+  /** 데이터 접두사 */
+  dataPrefix?: BufferSource;
+  /** 비교할 비트 마스크 (dataPrefix와 같은 길이) */
+  mask?: BufferSource;
+}
+
+/**
+ * 제조사 데이터 필터
+ */
+export interface BluetoothManufacturerDataFilter extends BluetoothDataFilter {
+  companyIdentifier: number;
+}
+
+/**
+ * 서비스 데이터 필터
+ */
+export interface BluetoothServiceDataFilter extends BluetoothDataFilter {
+  service: BluetoothServiceUUID;
+}
+
+/**
+ * requestDevice 스캔 필터
+ */
+export interface BluetoothLEScanFilter {
+  services?: BluetoothServiceUUID[];
+  name?: string;
+  namePrefix?: string;
+  manufacturerData?: BluetoothManufacturerDataFilter[];
+  serviceData?: BluetoothServiceDataFilter[];
+}
+
+/**
+ * requestDevice 옵션
+ */
+export interface RequestDeviceOptions {
+  filters?: BluetoothLEScanFilter[];
+  exclusionFilters?: BluetoothLEScanFilter[];
+  /** 필터 외에 접근할 서비스 */
+  optionalServices?: BluetoothServiceUUID[];
+  acceptAllDevices?: boolean;
+}
+
+/**
+ * 폴리필 설정
+ */
+export interface WebBluetoothOptions {
+  /** 브릿지 클라이언트 */
+  client: BluetoothClient;
+  /** requestDevice 스캔 시간 (ms, 기본값: 10000) */
+  scanTimeout?: number;
+}
+
+/**
+ * 폴리필 설치 설정
+ */
+export interface InstallWebBluetoothOptions extends WebBluetoothOptions {
+  /** navigator.bluetooth가 이미 있어도 덮어쓰기 */
+  force?: boolean;
+}
+
+/**
+ * Web Bluetooth 에러 이름 (DOMException 이름과 동일)
+ */
+export type WebBluetoothErrorName =
+  | 'NotFoundError'
+  | 'NetworkError'
+  | 'NotSupportedError'
+  | 'SecurityError'
+  | 'InvalidStateError'
+  | 'InvalidModificationError'
+  | 'NotAllowedError';
+
+/**
+ * 폴리필 이벤트
+ */
+export interface WebBluetoothEvent {
+  type: string;
+  target: unknown;
+  currentTarget: unknown;
+  /** availabilitychanged 값 */
+  value?: boolean;
+}
+
+type EventListenerLike = ((event: WebBluetoothEvent) => void) | { handleEvent(event: WebBluetoothEvent): void };
+
+/** 특성 값 최대 길이 (bytes) */
+const MAX_ATTRIBUTE_LENGTH = 512;
+
+/** 브릿지 에러 → Web Bluetooth 에러 이름 */
+const ERROR_NAMES: Partial<Record<BluetoothError, WebBluetoothErrorName>> = {
+  BLUETOOTH_UNAVAILABLE: 'NotFoundError',
+  BLUETOOTH_DISABLED: 'NotFoundError',
+  PERMISSION_DENIED: 'SecurityError',
+  ACCESS_DENIED: 'SecurityError',
+  DEVICE_NOT_FOUND: 'NotFoundError',
+  SERVICE_NOT_FOUND: 'NotFoundError',
+  CHARACTERISTIC_NOT_FOUND: 'NotFoundError',
+  DESCRIPTOR_NOT_FOUND: 'NotFoundError',
+  OPERATION_NOT_SUPPORTED: 'NotSupportedError',
+  INVALID_INPUT: 'NotSupportedError',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Web Bluetooth 에러 (DOMException 대체)
+ */
+export class WebBluetoothError extends Error {
+  constructor(name: WebBluetoothErrorName, message: string) {
+    super(message);
+    this.name = name;
+  }
+}
+
+function toError(result: BluetoothResult, fallback: WebBluetoothErrorName): WebBluetoothError {
+  const name = (result.error && ERROR_NAMES[result.error]) || fallback;
+  return new WebBluetoothError(name, result.message ?? result.error ?? 'Bluetooth operation failed');
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source);
+  return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function toDataView(value: string): DataView {
+  const bytes = base64ToBytes(value) ?? new Uint8Array(0);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * 이벤트 대상 (EventTarget 대체)
+ * addEventListener 외에 on<type> 속성 핸들러도 호출합니다
+ */
+class WebBluetoothEventTarget {
+  private readonly eventListeners = new Map<string, Set<EventListenerLike>>();
+
+  addEventListener(type: string, listener: EventListenerLike | null): void {
+    if (!listener) return;
+    let listeners = this.eventListeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(type, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  removeEventListener(type: string, listener: EventListenerLike | null): void {
+    if (!listener) return;
+    this.eventListeners.get(type)?.delete(listener);
+  }
+
+  dispatchEvent(event: { type: string; value?: boolean }): boolean {
+    const dispatched: WebBluetoothEvent = { ...event, target: this, currentTarget: this };
+    const handler = (this as unknown as Record<string, unknown>)[`on${event.type}`];
+    const listeners = [...(typeof handler === 'function' ? [handler as EventListenerLike] : [])];
+    listeners.push(...Array.from(this.eventListeners.get(event.type) ?? []));
+
+    listeners.forEach((listener) => {
+      try {
+        if (typeof listener === 'function') {
+          listener.call(this, dispatched);
+        } else {
+          listener.handleEvent(dispatched);
+        }
+      } catch (error) {
+        console.error(`[WebBluetooth] ${event.type} listener error:`, error);
+      }
+    });
+    return true;
+  }
+}
+
+// ============================================================================
+// Scan Filters
+// ============================================================================
+
+function toDataFilter(filter: BluetoothDataFilter): DeviceDataFilter {
+  const dataPrefix = filter.dataPrefix ? toBytes(filter.dataPrefix) : new Uint8Array(0);
+  const mask = filter.mask ? toBytes(filter.mask) : undefined;
+  if (mask && mask.length !== dataPrefix.length) {
+    throw new TypeError("'mask' size must be equal to 'dataPrefix' size.");
+  }
+  return {
+    dataPrefix: filter.dataPrefix ? bytesToBase64(dataPrefix) : undefined,
+    mask: mask ? bytesToBase64(mask) : undefined,
+  };
+}
+
+/**
+ * Web Bluetooth 필터를 브릿지 필터로 변환 (UUID 해석, BufferSource → Base64)
+ */
+function toDeviceFilter(filter: BluetoothLEScanFilter): DeviceFilter {
+  const hasCondition =
+    filter.services !== undefined ||
+    filter.name !== undefined ||
+    filter.namePrefix !== undefined ||
+    filter.manufacturerData !== undefined ||
+    filter.serviceData !== undefined;
+  if (!hasCondition) {
+    throw new TypeError('A filter must restrict the devices in some way.');
+  }
+  if (filter.namePrefix !== undefined && filter.namePrefix.length === 0) {
+    throw new TypeError("'namePrefix', if present, must be non-empty.");
+  }
+
+  return {
+    services: filter.services?.map(getService),
+    name: filter.name,
+    namePrefix: filter.namePrefix,
+    manufacturerData: filter.manufacturerData?.map((entry) => ({
+      companyIdentifier: entry.companyIdentifier,
+      ...toDataFilter(entry),
+    })),
+    serviceData: filter.serviceData?.map((entry) => ({
+      service: getService(entry.service),
+      ...toDataFilter(entry),
+    })),
+  };
+}
+
+// ============================================================================
+// GATT Objects
+// ============================================================================
+
+/**
+ * BluetoothRemoteGATTDescriptor
+ */
+export class WebBluetoothRemoteGATTDescriptor {
+  readonly uuid: string;
+  value: DataView | null = null;
+
+  constructor(
+    readonly characteristic: WebBluetoothRemoteGATTCharacteristic,
+    uuid: string
+  ) {
+    this.uuid = normalizeUuid(uuid);
+  }
+
+  private get client(): BluetoothClient {
+    return this.characteristic.service.device.client;
+  }
+
+  async readValue(): Promise<DataView> {
+    const { service } = this.characteristic;
+    service.device.gatt.ensureConnected();
+
+    const result = await this.client.readDescriptor(service.device.id, service.uuid, this.characteristic.uuid, this.uuid);
+    if (!result.success) throw toError(result, 'NetworkError');
+    this.value = toDataView(result.value ?? '');
+    return this.value;
+  }
+
+  async writeValue(value: BufferSource): Promise<void> {
+    const { service } = this.characteristic;
+    service.device.gatt.ensureConnected();
+    const bytes = toBytes(value);
+    if (bytes.length > MAX_ATTRIBUTE_LENGTH) {
+      throw new WebBluetoothError('InvalidModificationError', `Value can't exceed ${MAX_ATTRIBUTE_LENGTH} bytes.`);
+    }
+
+    const result = await this.client.writeDescriptor(
+      service.device.id,
+      service.uuid,
+      this.characteristic.uuid,
+      this.uuid,
+      bytesToBase64(bytes)
+    );
+    if (!result.success) throw toError(result, 'NetworkError');
+    this.value = new DataView(bytes.slice().buffer);
+  }
+}
+
+/**
+ * BluetoothRemoteGATTCharacteristic
+ */
+export class WebBluetoothRemoteGATTCharacteristic extends WebBluetoothEventTarget {
+  readonly uuid: string;
+  readonly properties: CharacteristicProperties & { reliableWrite: boolean; writableAuxiliaries: boolean };
+  value: DataView | null = null;
+  oncharacteristicvaluechanged: ((event: WebBluetoothEvent) => void) | null = null;
+  private readonly descriptors: WebBluetoothRemoteGATTDescriptor[];
+
+  constructor(
+    readonly service: WebBluetoothRemoteGATTService,
+    uuid: string,
+    properties: CharacteristicProperties,
+    descriptors: BleDescriptor[] = []
+  ) {
+    super();
+    this.uuid = normalizeUuid(uuid);
+    this.properties = { ...properties, reliableWrite: false, writableAuxiliaries: false };
+    this.descriptors = descriptors.map((descriptor) => new WebBluetoothRemoteGATTDescriptor(this, descriptor.uuid));
+  }
+
+  private get client(): BluetoothClient {
+    return this.service.device.client;
+  }
+
+  private ensureConnected(): void {
+    if (!this.service.device.gatt.connected) {
+      throw new WebBluetoothError('NetworkError', 'GATT Server is disconnected. Cannot perform GATT operations.');
+    }
+  }
+
+  /**
+   * 알림 또는 읽기로 받은 값 반영
+   */
+  updateValue(value: string): DataView {
+    this.value = toDataView(value);
+    this.dispatchEvent({ type: 'characteristicvaluechanged' });
+    return this.value;
+  }
+
+  async readValue(): Promise<DataView> {
+    this.ensureConnected();
+    if (!this.properties.read) {
+      throw new WebBluetoothError('NotSupportedError', 'GATT operation not permitted.');
+    }
+
+    const result = await this.client.readCharacteristic(this.service.device.id, this.service.uuid, this.uuid);
+    if (!result.success) throw toError(result, 'NetworkError');
+    return this.updateValue(result.value ?? '');
+  }
+
+  writeValue(value: BufferSource): Promise<void> {
+    return this.write(value, this.properties.write || !this.properties.writeWithoutResponse);
+  }
+
+  writeValueWithResponse(value: BufferSource): Promise<void> {
+    return this.write(value, true);
+  }
+
+  writeValueWithoutResponse(value: BufferSource): Promise<void> {
+    return this.write(value, false);
+  }
+
+  private async write(value: BufferSource, withResponse: boolean): Promise<void> {
+    this.ensureConnected();
+    const bytes = toBytes(value);
+    if (bytes.length > MAX_ATTRIBUTE_LENGTH) {
+      throw new WebBluetoothError('InvalidModificationError', `Value can't exceed ${MAX_ATTRIBUTE_LENGTH} bytes.`);
+    }
+    if (withResponse ? !this.properties.write : !this.properties.writeWithoutResponse) {
+      throw new WebBluetoothError('NotSupportedError', 'GATT operation not permitted.');
+    }
+
+    const result = await this.client.writeCharacteristic(
+      this.service.device.id,
+      this.service.uuid,
+      this.uuid,
+      bytesToBase64(bytes),
+      { withResponse }
+    );
+    if (!result.success) throw toError(result, 'NetworkError');
+    this.value = new DataView(bytes.slice().buffer);
+  }
+
+  async startNotifications(): Promise<this> {
+    return this.setNotification(true);
+  }
+
+  async stopNotifications(): Promise<this> {
+    return this.setNotification(false);
+  }
+
+  private async setNotification(enable: boolean): Promise<this> {
+    this.ensureConnected();
+    if (!this.properties.notify && !this.properties.indicate) {
+      throw new WebBluetoothError('NotSupportedError', 'The characteristic does not support notifications or indications.');
+    }
+
+    const result = await this.client.setNotification(this.service.device.id, this.service.uuid, this.uuid, enable);
+    if (!result.success) throw toError(result, 'NetworkError');
+    return this;
+  }
+
+  async getDescriptor(descriptor: BluetoothDescriptorUUID): Promise<WebBluetoothRemoteGATTDescriptor> {
+    const [found] = await this.getDescriptors(descriptor);
+    return found;
+  }
+
+  async getDescriptors(descriptor?: BluetoothDescriptorUUID): Promise<WebBluetoothRemoteGATTDescriptor[]> {
+    this.ensureConnected();
+    if (descriptor === undefined) {
+      if (this.descriptors.length === 0) {
+        throw new WebBluetoothError('NotFoundError', 'No Descriptors found in Characteristic.');
+      }
+      return [...this.descriptors];
+    }
+
+    const uuid = getDescriptor(descriptor);
+    const found = this.descriptors.filter((item) => isSameUuid(item.uuid, uuid));
+    if (found.length === 0) {
+      throw new WebBluetoothError('NotFoundError', `No Descriptors matching UUID ${uuid} found in Characteristic.`);
+    }
+    return found;
+  }
+}
+
+/**
+ * BluetoothRemoteGATTService
+ */
+export class WebBluetoothRemoteGATTService {
+  readonly uuid: string;
+  readonly isPrimary: boolean;
+  private readonly characteristics: WebBluetoothRemoteGATTCharacteristic[];
+
+  constructor(
+    readonly device: WebBluetoothDevice,
+    service: BleService
+  ) {
+    this.uuid = normalizeUuid(service.uuid);
+    this.isPrimary = service.isPrimary;
+    this.characteristics = (service.characteristics ?? []).map(
+      (characteristic) =>
+        new WebBluetoothRemoteGATTCharacteristic(
+          this,
+          characteristic.uuid,
+          characteristic.properties,
+          characteristic.descriptors
+        )
+    );
+  }
+
+  /**
+   * UUID로 특성 조회 (연결 여부 확인 없음)
+   */
+  findCharacteristic(uuid: string): WebBluetoothRemoteGATTCharacteristic | undefined {
+    return this.characteristics.find((characteristic) => isSameUuid(characteristic.uuid, uuid));
+  }
+
+  async getCharacteristic(characteristic: BluetoothCharacteristicUUID): Promise<WebBluetoothRemoteGATTCharacteristic> {
+    const [found] = await this.getCharacteristics(characteristic);
+    return found;
+  }
+
+  async getCharacteristics(
+    characteristic?: BluetoothCharacteristicUUID
+  ): Promise<WebBluetoothRemoteGATTCharacteristic[]> {
+    this.device.gatt.ensureConnected();
+    if (characteristic === undefined) {
+      if (this.characteristics.length === 0) {
+        throw new WebBluetoothError('NotFoundError', 'No Characteristics found in service.');
+      }
+      return [...this.characteristics];
+    }
+
+    const uuid = getCharacteristic(characteristic);
+    const found = this.characteristics.filter((item) => isSameUuid(item.uuid, uuid));
+    if (found.length === 0) {
+      throw new WebBluetoothError('NotFoundError', `No Characteristics matching UUID ${uuid} found in Service.`);
+    }
+    return found;
+  }
+}
+
+/**
+ * BluetoothRemoteGATTServer
+ */
+export class WebBluetoothRemoteGATTServer {
+  connected = false;
+  private services: WebBluetoothRemoteGATTService[] = [];
+  private connecting: Promise<this> | null = null;
+
+  constructor(readonly device: WebBluetoothDevice) {}
+
+  ensureConnected(): void {
+    if (!this.connected) {
+      throw new WebBluetoothError('NetworkError', 'GATT Server is disconnected. Cannot perform GATT operations.');
+    }
+  }
+
+  connect(): Promise<this> {
+    if (this.connected) return Promise.resolve(this);
+    if (!this.connecting) {
+      this.connecting = this.establish().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async establish(): Promise<this> {
+    const { client, id } = this.device;
+
+    const result = await client.connectBle(id, { discoverServices: true });
+    if (!result.success && result.error !== 'ALREADY_CONNECTED') {
+      throw toError(result, 'NetworkError');
+    }
+
+    let services = result.services;
+    if (!services) {
+      const discovered = await client.discoverServices(id);
+      if (!discovered.success) throw toError(discovered, 'NetworkError');
+      services = discovered.services ?? [];
+    }
+
+    this.services = services.map((service) => new WebBluetoothRemoteGATTService(this.device, service));
+    this.connected = true;
+    return this;
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+    this.handleDisconnected();
+    this.device.client.disconnect(this.device.id).catch(() => undefined);
+  }
+
+  /**
+   * 연결 해제 반영 (gattserverdisconnected 발생)
+   */
+  handleDisconnected(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.services = [];
+    this.device.dispatchEvent({ type: 'gattserverdisconnected' });
+  }
+
+  /**
+   * UUID로 서비스 조회 (연결 여부 확인 없음)
+   */
+  findService(uuid: string): WebBluetoothRemoteGATTService | undefined {
+    return this.services.find((service) => isSameUuid(service.uuid, uuid));
+  }
+
+  async getPrimaryService(service: BluetoothServiceUUID): Promise<WebBluetoothRemoteGATTService> {
+    const [found] = await this.getPrimaryServices(service);
+    return found;
+  }
+
+  async getPrimaryServices(service?: BluetoothServiceUUID): Promise<WebBluetoothRemoteGATTService[]> {
+    this.ensureConnected();
+    const primary = this.services.filter((item) => item.isPrimary && this.device.isServiceAllowed(item.uuid));
+
+    if (service === undefined) {
+      if (primary.length === 0) {
+        throw new WebBluetoothError('NotFoundError', 'No Services found in device.');
+      }
+      return primary;
+    }
+
+    const uuid = getService(service);
+    if (!this.device.isServiceAllowed(uuid)) {
+      throw new WebBluetoothError(
+        'SecurityError',
+        `Origin is not allowed to access the service. Tip: Add the service UUID to 'optionalServices' in requestDevice() options.`
+      );
+    }
+    const found = primary.filter((item) => isSameUuid(item.uuid, uuid));
+    if (found.length === 0) {
+      throw new WebBluetoothError('NotFoundError', `No Services matching UUID ${uuid} found in Device.`);
+    }
+    return found;
+  }
+}
+
+/**
+ * BluetoothDevice
+ */
+export class WebBluetoothDevice extends WebBluetoothEventTarget {
+  readonly gatt: WebBluetoothRemoteGATTServer;
+  ongattserverdisconnected: ((event: WebBluetoothEvent) => void) | null = null;
+  private readonly allowedServices = new Set<string>();
+
+  constructor(
+    readonly client: BluetoothClient,
+    readonly id: string,
+    readonly name: string | undefined
+  ) {
+    super();
+    this.gatt = new WebBluetoothRemoteGATTServer(this);
+  }
+
+  /**
+   * 접근 가능한 서비스 추가 (filters.services + optionalServices)
+   */
+  allowServices(uuids: string[]): void {
+    uuids.forEach((uuid) => this.allowedServices.add(normalizeUuid(uuid)));
+  }
+
+  isServiceAllowed(uuid: string): boolean {
+    return this.allowedServices.has(normalizeUuid(uuid));
+  }
+
+  /**
+   * 장치 권한 취소 (연결 해제 포함)
+   */
+  async forget(): Promise<void> {
+    this.gatt.handleDisconnected();
+    this.allowedServices.clear();
+    const result = await this.client.revokeDeviceGrant(this.id);
+    if (!result.success) throw toError(result, 'NetworkError');
+  }
+}
+
+// ============================================================================
+// Bluetooth
+// ============================================================================
+
+/**
+ * navigator.bluetooth 구현
+ */
+export class WebBluetooth extends WebBluetoothEventTarget {
+  onavailabilitychanged: ((event: WebBluetoothEvent) => void) | null = null;
+  private readonly client: BluetoothClient;
+  private readonly scanTimeout: number | undefined;
+  private readonly devices = new Map<string, WebBluetoothDevice>();
+  private readonly unsubscribes: Array<() => void>;
+  private available: boolean | null = null;
+
+  constructor(options: WebBluetoothOptions) {
+    super();
+    this.client = options.client;
+    this.scanTimeout = options.scanTimeout;
+
+    this.unsubscribes = [
+      this.client.on('notification', (event) => {
+        const notification = event.data?.notification;
+        if (!notification) return;
+        this.devices
+          .get(notification.deviceId)
+          ?.gatt.findService(notification.serviceUuid)
+          ?.findCharacteristic(notification.characteristicUuid)
+          ?.updateValue(notification.value);
+      }),
+      this.client.on('disconnected', (event) => {
+        if (event.deviceId) {
+          this.devices.get(event.deviceId)?.gatt.handleDisconnected();
+        }
+      }),
+      this.client.on('stateChange', (event) => {
+        const available = event.data?.state !== undefined && event.data.state !== 'unsupported';
+        if (this.available !== null && this.available !== available) {
+          this.dispatchEvent({ type: 'availabilitychanged', value: available });
+        }
+        this.available = available;
+      }),
+    ];
+  }
+
+  async getAvailability(): Promise<boolean> {
+    const result = await this.client.getBluetoothState();
+    this.available = result.success && result.state !== undefined && result.state !== 'unsupported';
+    return this.available;
+  }
+
+  /**
+   * 현재 페이지에 허용된 장치 목록
+   */
+  async getDevices(): Promise<WebBluetoothDevice[]> {
+    const result = await this.client.getDeviceGrants();
+    if (!result.success) throw toError(result, 'NotFoundError');
+    return (result.grants ?? []).map((grant) => this.getDevice(grant));
+  }
+
+  async requestDevice(options?: RequestDeviceOptions): Promise<WebBluetoothDevice> {
+    const hasFilters = options?.filters !== undefined;
+    if (!options || hasFilters === !!options.acceptAllDevices) {
+      throw new TypeError(
+        "Either 'filters' should be present or 'acceptAllDevices' should be true, but not both."
+      );
+    }
+    if (hasFilters && options.filters!.length === 0) {
+      throw new TypeError("'filters' member must be non-empty to find any devices.");
+    }
+    if (options.exclusionFilters !== undefined && !hasFilters) {
+      throw new TypeError("'filters' must be present if 'exclusionFilters' are present.");
+    }
+
+    const result = await this.client.requestDevice({
+      filters: options.filters?.map(toDeviceFilter),
+      exclusionFilters: options.exclusionFilters?.map(toDeviceFilter),
+      optionalServices: options.optionalServices?.map(getService),
+      acceptAllDevices: options.acceptAllDevices,
+      timeout: this.scanTimeout,
+    });
+    if (!result.success || !result.device || !result.grant) {
+      throw toError(result, 'NotFoundError');
+    }
+
+    return this.getDevice(result.grant);
+  }
+
+  /**
+   * 권한에 해당하는 장치 객체 (같은 장치는 같은 객체를 반환)
+   */
+  private getDevice(grant: DeviceGrant): WebBluetoothDevice {
+    let device = this.devices.get(grant.deviceId);
+    if (!device) {
+      device = new WebBluetoothDevice(this.client, grant.deviceId, grant.name ?? undefined);
+      this.devices.set(grant.deviceId, device);
+    }
+    device.allowServices(grant.services);
+    return device;
+  }
+
+  /**
+   * 이벤트 구독 해제
+   */
+  dispose(): void {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes.length = 0;
+  }
+}
+
+// ============================================================================
+// Install
+// ============================================================================
+
+/**
+ * navigator.bluetooth와 BluetoothUUID 설치
+ * @returns 설치된 폴리필 (이미 네이티브 구현이 있으면 null)
+ */
+export function installWebBluetooth(options: InstallWebBluetoothOptions): WebBluetooth | null {
+  const global = globalThis as Record<string, any>;
+  const navigator = global.navigator;
+  if (!navigator || (navigator.bluetooth && !options.force)) {
+    return null;
+  }
+
+  const bluetooth = new WebBluetooth(options);
+  Object.defineProperty(navigator, 'bluetooth', { value: bluetooth, configurable: true });
+  if (!global.BluetoothUUID || options.force) {
+    global.BluetoothUUID = BluetoothUUID;
+  }
+  return bluetooth;
+}
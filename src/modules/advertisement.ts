@@ -0,0 +1,220 @@
+/**
+ * BLE 광고 데이터 파서
+ * Base64로 인코딩된 AD 구조(length, type, data)를 해석합니다
+ */
+
+import type { AdvertisementFlags, ParsedAdvertisement } from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64, utf8Decode } from './encoding';
+
+// ============================================================================
+// AD Types (Bluetooth Assigned Numbers)
+// ============================================================================
+
+const AD_FLAGS = 0x01;
+const AD_INCOMPLETE_UUID16 = 0x02;
+const AD_COMPLETE_UUID16 = 0x03;
+const AD_INCOMPLETE_UUID32 = 0x04;
+const AD_COMPLETE_UUID32 = 0x05;
+const AD_INCOMPLETE_UUID128 = 0x06;
+const AD_COMPLETE_UUID128 = 0x07;
+const AD_SHORTENED_LOCAL_NAME = 0x08;
+const AD_COMPLETE_LOCAL_NAME = 0x09;
+const AD_TX_POWER_LEVEL = 0x0a;
+const AD_SERVICE_DATA_UUID16 = 0x16;
+const AD_APPEARANCE = 0x19;
+const AD_SERVICE_DATA_UUID32 = 0x20;
+const AD_SERVICE_DATA_UUID128 = 0x21;
+const AD_URI = 0x24;
+const AD_MANUFACTURER_DATA = 0xff;
+
+/**
+ * URI 스킴 코드 (Bluetooth Assigned Numbers - URI Schemes)
+ */
+const URI_SCHEMES: Record<number, string> = {
+  0x01: '',
+  0x02: 'aaa:',
+  0x03: 'aaas:',
+  0x04: 'about:',
+  0x05: 'acap:',
+  0x06: 'acct:',
+  0x07: 'cap:',
+  0x08: 'cid:',
+  0x09: 'coap:',
+  0x0a: 'coaps:',
+  0x0b: 'crid:',
+  0x0c: 'data:',
+  0x0d: 'dav:',
+  0x0e: 'dict:',
+  0x0f: 'dns:',
+  0x10: 'file:',
+  0x11: 'ftp:',
+  0x12: 'geo:',
+  0x13: 'go:',
+  0x14: 'gopher:',
+  0x15: 'h323:',
+  0x16: 'http:',
+  0x17: 'https:',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * 리틀 엔디언 UUID 바이트를 128-bit UUID 문자열로 변환
+ * 16/32-bit UUID는 Bluetooth Base UUID로 확장합니다
+ */
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes)
+    .reverse()
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  if (hex.length === 4 || hex.length === 8) {
+    return `${hex.padStart(8, '0')}-0000-1000-8000-00805f9b34fb`;
+  }
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * UUID 목록 AD 구조 파싱
+ */
+function parseUuidList(data: Uint8Array, size: number): string[] {
+  const uuids: string[] = [];
+  for (let offset = 0; offset + size <= data.length; offset += size) {
+    uuids.push(formatUuid(data.subarray(offset, offset + size)));
+  }
+  return uuids;
+}
+
+/**
+ * Flags 파싱
+ */
+function parseFlags(value: number): AdvertisementFlags {
+  return {
+    raw: value,
+    leLimitedDiscoverable: (value & 0x01) !== 0,
+    leGeneralDiscoverable: (value & 0x02) !== 0,
+    brEdrNotSupported: (value & 0x04) !== 0,
+    simultaneousLeBrEdrController: (value & 0x08) !== 0,
+    simultaneousLeBrEdrHost: (value & 0x10) !== 0,
+  };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * AD 구조 바이트 배열 파싱
+ * 길이가 잘못된 구조를 만나면 그 이전까지의 결과를 반환합니다
+ */
+export function parseAdvertisementBytes(bytes: Uint8Array): ParsedAdvertisement {
+  const result: ParsedAdvertisement = {
+    serviceUUIDs: [],
+    isServiceUUIDListComplete: false,
+    serviceData: [],
+    manufacturerData: [],
+    structures: [],
+  };
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const length = bytes[offset];
+    // length 0은 유효 데이터의 끝 (나머지는 패딩)
+    if (length === 0 || offset + 1 + length > bytes.length) break;
+
+    const type = bytes[offset + 1];
+    const data = bytes.subarray(offset + 2, offset + 1 + length);
+    offset += 1 + length;
+
+    result.structures.push({ type, data: bytesToBase64(data) });
+
+    switch (type) {
+      case AD_FLAGS:
+        if (data.length >= 1) result.flags = parseFlags(data[0]);
+        break;
+
+      case AD_INCOMPLETE_UUID16:
+      case AD_COMPLETE_UUID16:
+        result.serviceUUIDs.push(...parseUuidList(data, 2));
+        break;
+
+      case AD_INCOMPLETE_UUID32:
+      case AD_COMPLETE_UUID32:
+        result.serviceUUIDs.push(...parseUuidList(data, 4));
+        break;
+
+      case AD_INCOMPLETE_UUID128:
+      case AD_COMPLETE_UUID128:
+        result.serviceUUIDs.push(...parseUuidList(data, 16));
+        break;
+
+      case AD_SHORTENED_LOCAL_NAME:
+        if (result.localName === undefined) {
+          result.localName = utf8Decode(data);
+          result.isShortenedLocalName = true;
+        }
+        break;
+
+      case AD_COMPLETE_LOCAL_NAME:
+        result.localName = utf8Decode(data);
+        result.isShortenedLocalName = false;
+        break;
+
+      case AD_TX_POWER_LEVEL:
+        if (data.length >= 1) result.txPowerLevel = (data[0] << 24) >> 24;
+        break;
+
+      case AD_SERVICE_DATA_UUID16:
+      case AD_SERVICE_DATA_UUID32:
+      case AD_SERVICE_DATA_UUID128: {
+        const size = type === AD_SERVICE_DATA_UUID16 ? 2 : type === AD_SERVICE_DATA_UUID32 ? 4 : 16;
+        if (data.length >= size) {
+          result.serviceData.push({
+            uuid: formatUuid(data.subarray(0, size)),
+            data: bytesToBase64(data.subarray(size)),
+          });
+        }
+        break;
+      }
+
+      case AD_APPEARANCE:
+        if (data.length >= 2) result.appearance = data[0] | (data[1] << 8);
+        break;
+
+      case AD_URI:
+        if (data.length >= 1) {
+          const scheme = URI_SCHEMES[data[0]];
+          const rest = utf8Decode(data.subarray(1));
+          result.uri = scheme !== undefined ? scheme + rest : utf8Decode(data);
+        }
+        break;
+
+      case AD_MANUFACTURER_DATA:
+        if (data.length >= 2) {
+          result.manufacturerData.push({
+            companyId: data[0] | (data[1] << 8),
+            data: bytesToBase64(data.subarray(2)),
+          });
+        }
+        break;
+    }
+
+    if (type === AD_COMPLETE_UUID16 || type === AD_COMPLETE_UUID32 || type === AD_COMPLETE_UUID128) {
+      result.isServiceUUIDListComplete = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Base64 광고 데이터 파싱
+ * @returns 파싱 결과 (Base64가 잘못된 경우 null)
+ */
+export function parseAdvertisement(advertisementData: string): ParsedAdvertisement | null {
+  const bytes = base64ToBytes(advertisementData);
+  if (!bytes) return null;
+  return parseAdvertisementBytes(bytes);
+}
@@ -7,10 +7,15 @@ import android.bluetooth.BluetoothGatt
 import android.bluetooth.BluetoothGattCallback
 import android.bluetooth.BluetoothGattCharacteristic
 import android.bluetooth.BluetoothGattDescriptor
+import android.bluetooth.BluetoothGattServer
+import android.bluetooth.BluetoothGattServerCallback
 import android.bluetooth.BluetoothGattService
 import android.bluetooth.BluetoothManager
 import android.bluetooth.BluetoothProfile
 import android.bluetooth.BluetoothSocket
+import android.bluetooth.le.AdvertiseCallback
+import android.bluetooth.le.AdvertiseData
+import android.bluetooth.le.AdvertiseSettings
 import android.bluetooth.le.BluetoothLeScanner
 import android.bluetooth.le.ScanCallback
 import android.bluetooth.le.ScanFilter
@@ -52,7 +57,21 @@ class BluetoothModule : Module() {
     // Connections
     private val bleConnections = ConcurrentHashMap<String, BluetoothGatt>()
     private val classicConnections = ConcurrentHashMap<String, BluetoothSocket>()
+    private val pendingClassicSockets = ConcurrentHashMap<String, BluetoothSocket>()
     private val discoveredServices = ConcurrentHashMap<String, List<BluetoothGattService>>()
+    private val pendingNotificationStates = ConcurrentHashMap<String, Boolean>()
+
+    // Peripheral (GATT Server)
+    private var gattServer: BluetoothGattServer? = null
+    private val pendingPeripheralRequests = ConcurrentHashMap<String, PendingPeripheralRequest>()
+    private val peripheralSubscriptions = ConcurrentHashMap<String, MutableMap<String, Boolean>>()
+    private val peripheralDescriptorValues = ConcurrentHashMap<String, ByteArray>()
+    private var nextPeripheralRequestId = 1
+
+    // Advertising
+    private var isAdvertisingActive = false
+    private var advertisingTimeout: Runnable? = null
+    private var originalAdapterName: String? = null
 
     // SPP UUID for Classic Bluetooth
     private val SPP_UUID = UUID.fromString("00001101-0000-1000-8000-00805F9B34FB")
@@ -77,6 +96,8 @@ class BluetoothModule : Module() {
 
         OnDestroy {
             scope.cancel()
+            stopAdvertisingInternal("stopped")
+            closePeripheralInternal()
             unregisterBluetoothStateReceiver()
             disconnectAllInternal()
         }
@@ -149,6 +170,10 @@ class BluetoothModule : Module() {
             disconnectInternal(deviceId)
         }
 
+        AsyncFunction("cancelConnection") { deviceId: String ->
+            cancelConnectionInternal(deviceId)
+        }
+
         AsyncFunction("disconnectAll") {
             disconnectAllInternal()
         }
@@ -177,6 +202,14 @@ class BluetoothModule : Module() {
             writeCharacteristicInternal(deviceId, serviceUuid, characteristicUuid, value, options)
         }
 
+        AsyncFunction("readDescriptor") { deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String ->
+            readDescriptorInternal(deviceId, serviceUuid, characteristicUuid, descriptorUuid)
+        }
+
+        AsyncFunction("writeDescriptor") { deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String, value: String ->
+            writeDescriptorInternal(deviceId, serviceUuid, characteristicUuid, descriptorUuid, value)
+        }
+
         AsyncFunction("setNotification") { deviceId: String, serviceUuid: String, characteristicUuid: String, enable: Boolean ->
             setNotificationInternal(deviceId, serviceUuid, characteristicUuid, enable)
         }
@@ -185,6 +218,14 @@ class BluetoothModule : Module() {
             requestMtuInternal(deviceId, mtu)
         }
 
+        AsyncFunction("requestConnectionPriority") { deviceId: String, priority: String ->
+            requestConnectionPriorityInternal(deviceId, priority)
+        }
+
+        AsyncFunction("readRssi") { deviceId: String ->
+            readRssiInternal(deviceId)
+        }
+
         // ============================================================================
         // Classic Bluetooth Data Functions
         // ============================================================================
@@ -204,6 +245,46 @@ class BluetoothModule : Module() {
         AsyncFunction("removeBond") { deviceId: String ->
             removeBondInternal(deviceId)
         }
+
+        // ============================================================================
+        // Peripheral (GATT Server) Functions
+        // ============================================================================
+
+        AsyncFunction("openPeripheral") {
+            openPeripheralInternal()
+        }
+
+        AsyncFunction("closePeripheral") {
+            closePeripheralInternal()
+        }
+
+        AsyncFunction("addPeripheralService") { service: Map<String, Any?> ->
+            addPeripheralServiceInternal(service)
+        }
+
+        AsyncFunction("respondToPeripheralRequest") { requestId: String, status: String, value: String? ->
+            respondToPeripheralRequestInternal(requestId, status, value)
+        }
+
+        AsyncFunction("notifyPeripheral") { serviceUuid: String, characteristicUuid: String, value: String, deviceId: String ->
+            notifyPeripheralInternal(serviceUuid, characteristicUuid, value, deviceId)
+        }
+
+        // ============================================================================
+        // Advertising Functions
+        // ============================================================================
+
+        AsyncFunction("startAdvertising") { options: Map<String, Any?> ->
+            startAdvertisingInternal(options)
+        }
+
+        AsyncFunction("stopAdvertising") {
+            stopAdvertisingInternal("stopped")
+        }
+
+        AsyncFunction("isAdvertising") {
+            isAdvertisingActive
+        }
     }
 
     // ============================================================================
@@ -275,7 +356,8 @@ class BluetoothModule : Module() {
         val permissions = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) {
             arrayOf(
                 Manifest.permission.BLUETOOTH_SCAN,
-                Manifest.permission.BLUETOOTH_CONNECT
+                Manifest.permission.BLUETOOTH_CONNECT,
+                Manifest.permission.BLUETOOTH_ADVERTISE
             )
         } else {
             arrayOf(Manifest.permission.ACCESS_FINE_LOCATION)
@@ -376,17 +458,13 @@ class BluetoothModule : Module() {
         val settingsBuilder = ScanSettings.Builder()
             .setScanMode(scanMode)
 
-        val filters = mutableListOf<ScanFilter>()
+        // TS에서 변환한 필터 (하나라도 일치하면 전달, 변환할 수 없는 필터가 있으면 전체 스캔)
         @Suppress("UNCHECKED_CAST")
-        val serviceUUIDs = options["serviceUUIDs"] as? List<String>
-        serviceUUIDs?.forEach { uuid ->
-            try {
-                filters.add(ScanFilter.Builder()
-                    .setServiceUuid(ParcelUuid(UUID.fromString(uuid)))
-                    .build())
-            } catch (e: Exception) {
-                // Invalid UUID, skip
-            }
+        val filterMaps = options["filters"] as? List<Map<String, Any?>> ?: emptyList()
+        val filters = try {
+            filterMaps.map { buildScanFilter(it) }
+        } catch (e: IllegalArgumentException) {
+            emptyList()
         }
 
         try {
@@ -416,6 +494,33 @@ class BluetoothModule : Module() {
         }
     }
 
+    private fun buildScanFilter(filter: Map<String, Any?>): ScanFilter {
+        val builder = ScanFilter.Builder()
+        (filter["serviceUuid"] as? String)?.let {
+            builder.setServiceUuid(ParcelUuid(UUID.fromString(it)))
+        }
+        (filter["deviceAddress"] as? String)?.let { builder.setDeviceAddress(it) }
+        (filter["manufacturerId"] as? Number)?.let { id ->
+            builder.setManufacturerData(
+                id.toInt(),
+                decodeFilterBytes(filter["manufacturerData"]),
+                decodeFilterBytes(filter["manufacturerDataMask"])
+            )
+        }
+        (filter["serviceDataUuid"] as? String)?.let { uuid ->
+            builder.setServiceData(
+                ParcelUuid(UUID.fromString(uuid)),
+                decodeFilterBytes(filter["serviceData"]),
+                decodeFilterBytes(filter["serviceDataMask"])
+            )
+        }
+        return builder.build()
+    }
+
+    private fun decodeFilterBytes(value: Any?): ByteArray {
+        return (value as? String)?.let { Base64.decode(it, Base64.DEFAULT) } ?: ByteArray(0)
+    }
+
     private fun stopBleScanInternal(): Map<String, Any> {
         if (!isBleScanActive) {
             return mapOf("success" to true)
@@ -632,6 +737,7 @@ class BluetoothModule : Module() {
                 BluetoothProfile.STATE_DISCONNECTED -> {
                     bleConnections.remove(deviceId)
                     discoveredServices.remove(deviceId)
+                    pendingNotificationStates.keys.removeAll { it.startsWith("$deviceId|") }
                     gatt.close()
                     sendEvent("onBluetoothEvent", mapOf(
                         "type" to "disconnected",
@@ -663,7 +769,13 @@ class BluetoothModule : Module() {
                                     "indicate" to ((char.properties and BluetoothGattCharacteristic.PROPERTY_INDICATE) != 0),
                                     "authenticatedSignedWrites" to ((char.properties and BluetoothGattCharacteristic.PROPERTY_SIGNED_WRITE) != 0),
                                     "extendedProperties" to ((char.properties and BluetoothGattCharacteristic.PROPERTY_EXTENDED_PROPS) != 0)
-                                )
+                                ),
+                                "descriptors" to char.descriptors.map { descriptor ->
+                                    mapOf(
+                                        "uuid" to descriptor.uuid.toString(),
+                                        "characteristicUuid" to char.uuid.toString()
+                                    )
+                                }
                             )
                         }
                     )
@@ -681,6 +793,8 @@ class BluetoothModule : Module() {
         override fun onCharacteristicRead(gatt: BluetoothGatt, characteristic: BluetoothGattCharacteristic, value: ByteArray, status: Int) {
             if (status == BluetoothGatt.GATT_SUCCESS) {
                 sendCharacteristicReadEvent(gatt, characteristic, value)
+            } else {
+                sendCharacteristicReadErrorEvent(gatt, characteristic, status)
             }
         }
 
@@ -688,11 +802,29 @@ class BluetoothModule : Module() {
         @Suppress("DEPRECATION")
         @Deprecated("Deprecated in API 33", ReplaceWith("onCharacteristicRead(gatt, characteristic, value, status)"))
         override fun onCharacteristicRead(gatt: BluetoothGatt, characteristic: BluetoothGattCharacteristic, status: Int) {
-            if (Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU && status == BluetoothGatt.GATT_SUCCESS) {
-                sendCharacteristicReadEvent(gatt, characteristic, characteristic.value ?: ByteArray(0))
+            if (Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU) {
+                if (status == BluetoothGatt.GATT_SUCCESS) {
+                    sendCharacteristicReadEvent(gatt, characteristic, characteristic.value ?: ByteArray(0))
+                } else {
+                    sendCharacteristicReadErrorEvent(gatt, characteristic, status)
+                }
             }
         }
 
+        private fun sendCharacteristicReadErrorEvent(gatt: BluetoothGatt, characteristic: BluetoothGattCharacteristic, status: Int) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "error",
+                "deviceId" to gatt.device.address,
+                "data" to mapOf(
+                    "error" to "Characteristic read failed (status $status)",
+                    "errorCode" to "READ_FAILED",
+                    "serviceUuid" to characteristic.service.uuid.toString(),
+                    "characteristicUuid" to characteristic.uuid.toString()
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
         private fun sendCharacteristicReadEvent(gatt: BluetoothGatt, characteristic: BluetoothGattCharacteristic, value: ByteArray) {
             sendEvent("onBluetoothEvent", mapOf(
                 "type" to "characteristicRead",
@@ -754,6 +886,83 @@ class BluetoothModule : Module() {
             ))
         }
 
+        // For API 33+
+        override fun onDescriptorRead(gatt: BluetoothGatt, descriptor: BluetoothGattDescriptor, status: Int, value: ByteArray) {
+            if (status == BluetoothGatt.GATT_SUCCESS) {
+                sendDescriptorReadEvent(gatt, descriptor, value)
+            } else {
+                sendDescriptorReadErrorEvent(gatt, descriptor, status)
+            }
+        }
+
+        // For API < 33
+        @Suppress("DEPRECATION")
+        @Deprecated("Deprecated in API 33", ReplaceWith("onDescriptorRead(gatt, descriptor, status, value)"))
+        override fun onDescriptorRead(gatt: BluetoothGatt, descriptor: BluetoothGattDescriptor, status: Int) {
+            if (Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU) {
+                if (status == BluetoothGatt.GATT_SUCCESS) {
+                    sendDescriptorReadEvent(gatt, descriptor, descriptor.value ?: ByteArray(0))
+                } else {
+                    sendDescriptorReadErrorEvent(gatt, descriptor, status)
+                }
+            }
+        }
+
+        private fun sendDescriptorReadErrorEvent(gatt: BluetoothGatt, descriptor: BluetoothGattDescriptor, status: Int) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "error",
+                "deviceId" to gatt.device.address,
+                "data" to mapOf(
+                    "error" to "Descriptor read failed (status $status)",
+                    "errorCode" to "READ_FAILED",
+                    "serviceUuid" to descriptor.characteristic.service.uuid.toString(),
+                    "characteristicUuid" to descriptor.characteristic.uuid.toString(),
+                    "descriptorUuid" to descriptor.uuid.toString()
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        private fun sendDescriptorReadEvent(gatt: BluetoothGatt, descriptor: BluetoothGattDescriptor, value: ByteArray) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "descriptorRead",
+                "deviceId" to gatt.device.address,
+                "data" to mapOf(
+                    "result" to mapOf(
+                        "deviceId" to gatt.device.address,
+                        "serviceUuid" to descriptor.characteristic.service.uuid.toString(),
+                        "characteristicUuid" to descriptor.characteristic.uuid.toString(),
+                        "descriptorUuid" to descriptor.uuid.toString(),
+                        "value" to Base64.encodeToString(value, Base64.NO_WRAP),
+                        "timestamp" to System.currentTimeMillis()
+                    )
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onDescriptorWrite(gatt: BluetoothGatt, descriptor: BluetoothGattDescriptor, status: Int) {
+            // setNotification이 쓴 CCCD는 notificationStateChanged, 그 외는 descriptorWritten으로 전달
+            val stateKey = notificationStateKey(gatt.device.address, descriptor.characteristic)
+            if (descriptor.uuid == CCCD_UUID && pendingNotificationStates.containsKey(stateKey)) {
+                val enabled = pendingNotificationStates.remove(stateKey) ?: false
+                sendNotificationStateEvent(gatt.device.address, descriptor.characteristic, enabled, status == BluetoothGatt.GATT_SUCCESS)
+                return
+            }
+
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "descriptorWritten",
+                "deviceId" to gatt.device.address,
+                "data" to mapOf(
+                    "serviceUuid" to descriptor.characteristic.service.uuid.toString(),
+                    "characteristicUuid" to descriptor.characteristic.uuid.toString(),
+                    "descriptorUuid" to descriptor.uuid.toString(),
+                    "success" to (status == BluetoothGatt.GATT_SUCCESS)
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
         override fun onMtuChanged(gatt: BluetoothGatt, mtu: Int, status: Int) {
             if (status == BluetoothGatt.GATT_SUCCESS) {
                 sendEvent("onBluetoothEvent", mapOf(
@@ -762,6 +971,39 @@ class BluetoothModule : Module() {
                     "data" to mapOf("mtu" to mtu),
                     "timestamp" to System.currentTimeMillis()
                 ))
+            } else {
+                sendEvent("onBluetoothEvent", mapOf(
+                    "type" to "error",
+                    "deviceId" to gatt.device.address,
+                    "data" to mapOf(
+                        "error" to "MTU request failed (status $status)",
+                        "errorCode" to "OPERATION_FAILED",
+                        "operation" to "requestMtu"
+                    ),
+                    "timestamp" to System.currentTimeMillis()
+                ))
+            }
+        }
+
+        override fun onReadRemoteRssi(gatt: BluetoothGatt, rssi: Int, status: Int) {
+            if (status == BluetoothGatt.GATT_SUCCESS) {
+                sendEvent("onBluetoothEvent", mapOf(
+                    "type" to "rssiRead",
+                    "deviceId" to gatt.device.address,
+                    "data" to mapOf("rssi" to rssi),
+                    "timestamp" to System.currentTimeMillis()
+                ))
+            } else {
+                sendEvent("onBluetoothEvent", mapOf(
+                    "type" to "error",
+                    "deviceId" to gatt.device.address,
+                    "data" to mapOf(
+                        "error" to "RSSI read failed (status $status)",
+                        "errorCode" to "OPERATION_FAILED",
+                        "operation" to "readRssi"
+                    ),
+                    "timestamp" to System.currentTimeMillis()
+                ))
             }
         }
     }
@@ -800,8 +1042,10 @@ class BluetoothModule : Module() {
                     device.createInsecureRfcommSocketToServiceRecord(uuid)
                 }
 
+                pendingClassicSockets[address] = socket
                 bluetoothAdapter?.cancelDiscovery()
                 socket.connect()
+                pendingClassicSockets.remove(address)
                 classicConnections[address] = socket
 
                 handler.post {
@@ -816,6 +1060,7 @@ class BluetoothModule : Module() {
                 // Start reading data
                 startClassicDataReader(address, socket)
             } catch (e: IOException) {
+                pendingClassicSockets.remove(address)
                 handler.post {
                     sendEvent("onBluetoothEvent", mapOf(
                         "type" to "connectionFailed",
@@ -825,6 +1070,7 @@ class BluetoothModule : Module() {
                     ))
                 }
             } catch (e: SecurityException) {
+                pendingClassicSockets.remove(address)
                 handler.post {
                     sendEvent("onBluetoothEvent", mapOf(
                         "type" to "connectionFailed",
@@ -917,6 +1163,44 @@ class BluetoothModule : Module() {
         return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
     }
 
+    private fun cancelConnectionInternal(deviceId: String): Map<String, Any> {
+        // 연결 중이거나 연결된 BLE GATT 정리 (close 후에는 콜백이 오지 않으므로 직접 이벤트 전송)
+        bleConnections.remove(deviceId)?.let { gatt ->
+            discoveredServices.remove(deviceId)
+            pendingNotificationStates.keys.removeAll { it.startsWith("$deviceId|") }
+            try {
+                gatt.disconnect()
+                gatt.close()
+            } catch (e: SecurityException) {
+                return mapOf("success" to false, "error" to "PERMISSION_DENIED")
+            }
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "disconnected",
+                "deviceId" to deviceId,
+                "data" to mapOf("reason" to "cancelled"),
+                "timestamp" to System.currentTimeMillis()
+            ))
+            return mapOf("success" to true)
+        }
+
+        // 연결 중인 Classic 소켓 닫기 (connect()가 IOException으로 종료됨)
+        pendingClassicSockets.remove(deviceId)?.let { socket ->
+            try {
+                socket.close()
+            } catch (e: IOException) {
+                // Ignore
+            }
+            return mapOf("success" to true)
+        }
+
+        // 이미 연결된 Classic 소켓
+        classicConnections[deviceId]?.let {
+            return disconnectInternal(deviceId)
+        }
+
+        return mapOf("success" to true)
+    }
+
     private fun disconnectAllInternal(): Map<String, Any> {
         // Disconnect all BLE
         bleConnections.forEach { (_, gatt) ->
@@ -1056,6 +1340,77 @@ class BluetoothModule : Module() {
         }
     }
 
+    private fun readDescriptorInternal(
+        deviceId: String,
+        serviceUuid: String,
+        characteristicUuid: String,
+        descriptorUuid: String
+    ): Map<String, Any> {
+        val gatt = bleConnections[deviceId]
+            ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
+
+        val service = gatt.getService(UUID.fromString(serviceUuid))
+            ?: return mapOf("success" to false, "error" to "SERVICE_NOT_FOUND")
+
+        val characteristic = service.getCharacteristic(UUID.fromString(characteristicUuid))
+            ?: return mapOf("success" to false, "error" to "CHARACTERISTIC_NOT_FOUND")
+
+        val descriptor = characteristic.getDescriptor(UUID.fromString(descriptorUuid))
+            ?: return mapOf("success" to false, "error" to "DESCRIPTOR_NOT_FOUND")
+
+        return try {
+            val started = gatt.readDescriptor(descriptor)
+            if (started) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "READ_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+    }
+
+    private fun writeDescriptorInternal(
+        deviceId: String,
+        serviceUuid: String,
+        characteristicUuid: String,
+        descriptorUuid: String,
+        value: String
+    ): Map<String, Any> {
+        val gatt = bleConnections[deviceId]
+            ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
+
+        val service = gatt.getService(UUID.fromString(serviceUuid))
+            ?: return mapOf("success" to false, "error" to "SERVICE_NOT_FOUND")
+
+        val characteristic = service.getCharacteristic(UUID.fromString(characteristicUuid))
+            ?: return mapOf("success" to false, "error" to "CHARACTERISTIC_NOT_FOUND")
+
+        val descriptor = characteristic.getDescriptor(UUID.fromString(descriptorUuid))
+            ?: return mapOf("success" to false, "error" to "DESCRIPTOR_NOT_FOUND")
+
+        return try {
+            val data = Base64.decode(value, Base64.DEFAULT)
+            val started = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+                gatt.writeDescriptor(descriptor, data) == BluetoothGatt.GATT_SUCCESS
+            } else {
+                @Suppress("DEPRECATION")
+                descriptor.value = data
+                @Suppress("DEPRECATION")
+                gatt.writeDescriptor(descriptor)
+            }
+            if (started) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "WRITE_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        } catch (e: IllegalArgumentException) {
+            mapOf("success" to false, "error" to "INVALID_INPUT", "message" to "Invalid Base64 value")
+        }
+    }
+
     private fun setNotificationInternal(
         deviceId: String,
         serviceUuid: String,
@@ -1073,6 +1428,7 @@ class BluetoothModule : Module() {
 
         return try {
             gatt.setCharacteristicNotification(characteristic, enable)
+            pendingNotificationStates[notificationStateKey(deviceId, characteristic)] = enable
 
             val descriptor = characteristic.getDescriptor(CCCD_UUID)
             if (descriptor != null) {
@@ -1081,14 +1437,22 @@ class BluetoothModule : Module() {
                 } else {
                     BluetoothGattDescriptor.DISABLE_NOTIFICATION_VALUE
                 }
-                if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
-                    gatt.writeDescriptor(descriptor, value)
+                val started = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+                    gatt.writeDescriptor(descriptor, value) == BluetoothGatt.GATT_SUCCESS
                 } else {
                     @Suppress("DEPRECATION")
                     descriptor.value = value
                     @Suppress("DEPRECATION")
                     gatt.writeDescriptor(descriptor)
                 }
+                if (!started) {
+                    return mapOf("success" to false, "error" to "NOTIFICATION_FAILED")
+                }
+            } else {
+                // CCCD가 없으면 완료 콜백이 없으므로 즉시 완료 이벤트 전송
+                handler.post {
+                    sendNotificationStateEvent(deviceId, characteristic, enable, true)
+                }
             }
 
             mapOf("success" to true)
@@ -1097,6 +1461,24 @@ class BluetoothModule : Module() {
         }
     }
 
+    private fun notificationStateKey(deviceId: String, characteristic: BluetoothGattCharacteristic): String {
+        return "$deviceId|${characteristic.service.uuid}|${characteristic.uuid}"
+    }
+
+    private fun sendNotificationStateEvent(deviceId: String, characteristic: BluetoothGattCharacteristic, enabled: Boolean, success: Boolean) {
+        sendEvent("onBluetoothEvent", mapOf(
+            "type" to "notificationStateChanged",
+            "deviceId" to deviceId,
+            "data" to mapOf(
+                "serviceUuid" to characteristic.service.uuid.toString(),
+                "characteristicUuid" to characteristic.uuid.toString(),
+                "enabled" to enabled,
+                "success" to success
+            ),
+            "timestamp" to System.currentTimeMillis()
+        ))
+    }
+
     private fun requestMtuInternal(deviceId: String, mtu: Int): Map<String, Any> {
         val gatt = bleConnections[deviceId]
             ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
@@ -1113,6 +1495,44 @@ class BluetoothModule : Module() {
         }
     }
 
+    private fun requestConnectionPriorityInternal(deviceId: String, priority: String): Map<String, Any> {
+        val gatt = bleConnections[deviceId]
+            ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
+
+        val connectionPriority = when (priority) {
+            "high" -> BluetoothGatt.CONNECTION_PRIORITY_HIGH
+            "lowPower" -> BluetoothGatt.CONNECTION_PRIORITY_LOW_POWER
+            else -> BluetoothGatt.CONNECTION_PRIORITY_BALANCED
+        }
+
+        return try {
+            val requested = gatt.requestConnectionPriority(connectionPriority)
+            if (requested) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "OPERATION_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+    }
+
+    private fun readRssiInternal(deviceId: String): Map<String, Any> {
+        val gatt = bleConnections[deviceId]
+            ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED")
+
+        return try {
+            val started = gatt.readRemoteRssi()
+            if (started) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "OPERATION_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+    }
+
     // ============================================================================
     // Classic Bluetooth Data
     // ============================================================================
@@ -1178,6 +1598,557 @@ class BluetoothModule : Module() {
         }
     }
 
+    // ============================================================================
+    // Peripheral (GATT Server)
+    // ============================================================================
+
+    private data class PendingPeripheralRequest(val device: BluetoothDevice, val requestId: Int, val offset: Int)
+
+    private fun peripheralKey(serviceUuid: UUID, characteristicUuid: UUID): String =
+        "$serviceUuid|$characteristicUuid".lowercase()
+
+    private fun peripheralStatusCode(status: String): Int = when (status) {
+        "success" -> BluetoothGatt.GATT_SUCCESS
+        "invalidOffset" -> BluetoothGatt.GATT_INVALID_OFFSET
+        "readNotPermitted" -> BluetoothGatt.GATT_READ_NOT_PERMITTED
+        "writeNotPermitted" -> BluetoothGatt.GATT_WRITE_NOT_PERMITTED
+        "invalidAttributeValueLength" -> BluetoothGatt.GATT_INVALID_ATTRIBUTE_LENGTH
+        "insufficientAuthentication" -> BluetoothGatt.GATT_INSUFFICIENT_AUTHENTICATION
+        "requestNotSupported" -> BluetoothGatt.GATT_REQUEST_NOT_SUPPORTED
+        "attributeNotFound" -> 0x0A
+        else -> 0x0E // Unlikely Error
+    }
+
+    private fun openPeripheralInternal(): Map<String, Any> {
+        if (gattServer != null) {
+            return mapOf("success" to true, "ready" to true)
+        }
+        val manager = bluetoothManager
+            ?: return mapOf("success" to false, "error" to "BLUETOOTH_UNAVAILABLE")
+        if (bluetoothAdapter?.isEnabled != true) {
+            return mapOf("success" to false, "error" to "BLUETOOTH_DISABLED")
+        }
+
+        return try {
+            gattServer = manager.openGattServer(appContext.reactContext, gattServerCallback)
+            if (gattServer != null) {
+                mapOf("success" to true, "ready" to true)
+            } else {
+                mapOf("success" to false, "error" to "OPERATION_FAILED", "message" to "Failed to open GATT server")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+    }
+
+    private fun closePeripheralInternal(): Map<String, Any> {
+        val server = gattServer
+        gattServer = null
+        pendingPeripheralRequests.clear()
+        peripheralSubscriptions.clear()
+        peripheralDescriptorValues.clear()
+
+        try {
+            server?.clearServices()
+            server?.close()
+        } catch (e: SecurityException) {
+            return mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+        return mapOf("success" to true)
+    }
+
+    private fun buildPeripheralService(definition: Map<String, Any?>): BluetoothGattService {
+        val serviceUuid = UUID.fromString(definition["uuid"] as String)
+        val serviceType = if (definition["isPrimary"] == false) {
+            BluetoothGattService.SERVICE_TYPE_SECONDARY
+        } else {
+            BluetoothGattService.SERVICE_TYPE_PRIMARY
+        }
+        val service = BluetoothGattService(serviceUuid, serviceType)
+
+        @Suppress("UNCHECKED_CAST")
+        val characteristics = definition["characteristics"] as? List<Map<String, Any?>> ?: emptyList()
+        characteristics.forEach { characteristicDefinition ->
+            @Suppress("UNCHECKED_CAST")
+            val props = characteristicDefinition["properties"] as? Map<String, Any?> ?: emptyMap()
+            @Suppress("UNCHECKED_CAST")
+            val permissionNames = characteristicDefinition["permissions"] as? List<String>
+
+            var properties = 0
+            if (props["read"] == true) properties = properties or BluetoothGattCharacteristic.PROPERTY_READ
+            if (props["write"] == true) properties = properties or BluetoothGattCharacteristic.PROPERTY_WRITE
+            if (props["writeWithoutResponse"] == true) {
+                properties = properties or BluetoothGattCharacteristic.PROPERTY_WRITE_NO_RESPONSE
+            }
+            if (props["notify"] == true) properties = properties or BluetoothGattCharacteristic.PROPERTY_NOTIFY
+            if (props["indicate"] == true) properties = properties or BluetoothGattCharacteristic.PROPERTY_INDICATE
+
+            // 권한을 지정하지 않으면 속성에서 추론
+            val names = permissionNames ?: listOfNotNull(
+                if (props["read"] == true) "read" else null,
+                if (props["write"] == true || props["writeWithoutResponse"] == true) "write" else null
+            )
+            var permissions = 0
+            names.forEach { name ->
+                permissions = permissions or when (name) {
+                    "read" -> BluetoothGattCharacteristic.PERMISSION_READ
+                    "readEncrypted" -> BluetoothGattCharacteristic.PERMISSION_READ_ENCRYPTED
+                    "write" -> BluetoothGattCharacteristic.PERMISSION_WRITE
+                    "writeEncrypted" -> BluetoothGattCharacteristic.PERMISSION_WRITE_ENCRYPTED
+                    else -> 0
+                }
+            }
+
+            val characteristic = BluetoothGattCharacteristic(
+                UUID.fromString(characteristicDefinition["uuid"] as String),
+                properties,
+                permissions
+            )
+
+            // 알림/표시 특성은 구독 관리를 위해 CCCD 추가
+            if (props["notify"] == true || props["indicate"] == true) {
+                characteristic.addDescriptor(BluetoothGattDescriptor(
+                    CCCD_UUID,
+                    BluetoothGattDescriptor.PERMISSION_READ or BluetoothGattDescriptor.PERMISSION_WRITE
+                ))
+            }
+
+            @Suppress("UNCHECKED_CAST")
+            val descriptors = characteristicDefinition["descriptors"] as? List<Map<String, Any?>> ?: emptyList()
+            descriptors.forEach { descriptorDefinition ->
+                val descriptorUuid = UUID.fromString(descriptorDefinition["uuid"] as String)
+                if (descriptorUuid == CCCD_UUID) return@forEach
+                characteristic.addDescriptor(BluetoothGattDescriptor(descriptorUuid, BluetoothGattDescriptor.PERMISSION_READ))
+                val value = descriptorDefinition["value"] as? String
+                peripheralDescriptorValues["${peripheralKey(serviceUuid, characteristic.uuid)}|$descriptorUuid".lowercase()] =
+                    if (value != null) Base64.decode(value, Base64.DEFAULT) else ByteArray(0)
+            }
+
+            service.addCharacteristic(characteristic)
+        }
+        return service
+    }
+
+    private fun addPeripheralServiceInternal(definition: Map<String, Any?>): Map<String, Any> {
+        val server = gattServer
+            ?: return mapOf("success" to false, "error" to "OPERATION_FAILED", "message" to "Peripheral is not open")
+
+        return try {
+            val service = buildPeripheralService(definition)
+            if (server.addService(service)) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "OPERATION_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        } catch (e: IllegalArgumentException) {
+            mapOf("success" to false, "error" to "INVALID_INPUT", "message" to (e.message ?: "Invalid service definition"))
+        }
+    }
+
+    private fun respondToPeripheralRequestInternal(requestId: String, status: String, value: String?): Map<String, Any> {
+        val server = gattServer
+            ?: return mapOf("success" to false, "error" to "OPERATION_FAILED", "message" to "Peripheral is not open")
+        val request = pendingPeripheralRequests.remove(requestId)
+            ?: return mapOf("success" to false, "error" to "OPERATION_FAILED", "message" to "Unknown request $requestId")
+
+        return try {
+            val data = if (value != null) Base64.decode(value, Base64.DEFAULT) else null
+            val sent = server.sendResponse(request.device, request.requestId, peripheralStatusCode(status), request.offset, data)
+            if (sent) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "OPERATION_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        } catch (e: IllegalArgumentException) {
+            mapOf("success" to false, "error" to "INVALID_INPUT", "message" to "Invalid Base64 value")
+        }
+    }
+
+    private fun notifyPeripheralInternal(
+        serviceUuid: String,
+        characteristicUuid: String,
+        value: String,
+        deviceId: String
+    ): Map<String, Any> {
+        val server = gattServer
+            ?: return mapOf("success" to false, "error" to "OPERATION_FAILED", "message" to "Peripheral is not open")
+        val characteristic = server.getService(UUID.fromString(serviceUuid))
+            ?.getCharacteristic(UUID.fromString(characteristicUuid))
+            ?: return mapOf("success" to false, "error" to "CHARACTERISTIC_NOT_FOUND")
+        val indicate = peripheralSubscriptions[peripheralKey(characteristic.service.uuid, characteristic.uuid)]?.get(deviceId)
+            ?: return mapOf("success" to false, "error" to "DEVICE_NOT_CONNECTED", "message" to "Central is not subscribed")
+        val device = bluetoothAdapter?.getRemoteDevice(deviceId)
+            ?: return mapOf("success" to false, "error" to "BLUETOOTH_UNAVAILABLE")
+
+        return try {
+            val data = Base64.decode(value, Base64.DEFAULT)
+            val started = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+                server.notifyCharacteristicChanged(device, characteristic, indicate, data) == BluetoothGatt.GATT_SUCCESS
+            } else {
+                @Suppress("DEPRECATION")
+                characteristic.value = data
+                @Suppress("DEPRECATION")
+                server.notifyCharacteristicChanged(device, characteristic, indicate)
+            }
+            if (started) {
+                mapOf("success" to true)
+            } else {
+                mapOf("success" to false, "error" to "NOTIFICATION_FAILED")
+            }
+        } catch (e: SecurityException) {
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        } catch (e: IllegalArgumentException) {
+            mapOf("success" to false, "error" to "INVALID_INPUT", "message" to "Invalid Base64 value")
+        }
+    }
+
+    private fun sendPeripheralResponse(device: BluetoothDevice, requestId: Int, status: Int, offset: Int, value: ByteArray?) {
+        try {
+            gattServer?.sendResponse(device, requestId, status, offset, value)
+        } catch (e: SecurityException) {
+            // 권한이 없으면 응답할 수 없음 (central 쪽에서 타임아웃)
+        }
+    }
+
+    private val gattServerCallback = object : BluetoothGattServerCallback() {
+        override fun onConnectionStateChange(device: BluetoothDevice, status: Int, newState: Int) {
+            // 이 앱이 central로 연결한 장치는 제외
+            if (bleConnections.containsKey(device.address)) return
+
+            val connected = newState == BluetoothProfile.STATE_CONNECTED
+            if (!connected) {
+                peripheralSubscriptions.values.forEach { it.remove(device.address) }
+            }
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to if (connected) "centralConnected" else "centralDisconnected",
+                "deviceId" to device.address,
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onServiceAdded(status: Int, service: BluetoothGattService) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "peripheralServiceAdded",
+                "data" to mapOf(
+                    "serviceUuid" to service.uuid.toString(),
+                    "success" to (status == BluetoothGatt.GATT_SUCCESS),
+                    "error" to if (status == BluetoothGatt.GATT_SUCCESS) null else "Failed to add service (status $status)"
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onCharacteristicReadRequest(
+            device: BluetoothDevice,
+            requestId: Int,
+            offset: Int,
+            characteristic: BluetoothGattCharacteristic
+        ) {
+            val id = (nextPeripheralRequestId++).toString()
+            pendingPeripheralRequests[id] = PendingPeripheralRequest(device, requestId, offset)
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "peripheralReadRequest",
+                "deviceId" to device.address,
+                "data" to mapOf(
+                    "request" to mapOf(
+                        "requestId" to id,
+                        "type" to "read",
+                        "deviceId" to device.address,
+                        "serviceUuid" to characteristic.service.uuid.toString(),
+                        "characteristicUuid" to characteristic.uuid.toString(),
+                        "offset" to offset,
+                        "responseNeeded" to true
+                    )
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onCharacteristicWriteRequest(
+            device: BluetoothDevice,
+            requestId: Int,
+            characteristic: BluetoothGattCharacteristic,
+            preparedWrite: Boolean,
+            responseNeeded: Boolean,
+            offset: Int,
+            value: ByteArray?
+        ) {
+            // 긴 쓰기(prepared write)는 지원하지 않음
+            if (preparedWrite) {
+                if (responseNeeded) {
+                    sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_REQUEST_NOT_SUPPORTED, offset, null)
+                }
+                return
+            }
+
+            val id = (nextPeripheralRequestId++).toString()
+            if (responseNeeded) {
+                pendingPeripheralRequests[id] = PendingPeripheralRequest(device, requestId, offset)
+            }
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "peripheralWriteRequest",
+                "deviceId" to device.address,
+                "data" to mapOf(
+                    "request" to mapOf(
+                        "requestId" to id,
+                        "type" to "write",
+                        "deviceId" to device.address,
+                        "serviceUuid" to characteristic.service.uuid.toString(),
+                        "characteristicUuid" to characteristic.uuid.toString(),
+                        "offset" to offset,
+                        "value" to Base64.encodeToString(value ?: ByteArray(0), Base64.NO_WRAP),
+                        "responseNeeded" to responseNeeded
+                    )
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onExecuteWrite(device: BluetoothDevice, requestId: Int, execute: Boolean) {
+            sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_REQUEST_NOT_SUPPORTED, 0, null)
+        }
+
+        override fun onDescriptorReadRequest(
+            device: BluetoothDevice,
+            requestId: Int,
+            offset: Int,
+            descriptor: BluetoothGattDescriptor
+        ) {
+            val characteristic = descriptor.characteristic
+            val key = peripheralKey(characteristic.service.uuid, characteristic.uuid)
+            val value = if (descriptor.uuid == CCCD_UUID) {
+                when (peripheralSubscriptions[key]?.get(device.address)) {
+                    true -> BluetoothGattDescriptor.ENABLE_INDICATION_VALUE
+                    false -> BluetoothGattDescriptor.ENABLE_NOTIFICATION_VALUE
+                    null -> BluetoothGattDescriptor.DISABLE_NOTIFICATION_VALUE
+                }
+            } else {
+                peripheralDescriptorValues["$key|${descriptor.uuid}".lowercase()] ?: ByteArray(0)
+            }
+
+            if (offset > value.size) {
+                sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_INVALID_OFFSET, offset, null)
+            } else {
+                sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_SUCCESS, offset, value.copyOfRange(offset, value.size))
+            }
+        }
+
+        override fun onDescriptorWriteRequest(
+            device: BluetoothDevice,
+            requestId: Int,
+            descriptor: BluetoothGattDescriptor,
+            preparedWrite: Boolean,
+            responseNeeded: Boolean,
+            offset: Int,
+            value: ByteArray?
+        ) {
+            // CCCD 외의 디스크립터는 읽기 전용
+            if (descriptor.uuid != CCCD_UUID || preparedWrite || value == null || value.size != 2) {
+                if (responseNeeded) {
+                    sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_WRITE_NOT_PERMITTED, offset, null)
+                }
+                return
+            }
+
+            val characteristic = descriptor.characteristic
+            val key = peripheralKey(characteristic.service.uuid, characteristic.uuid)
+            val subscribers = peripheralSubscriptions.getOrPut(key) { ConcurrentHashMap() }
+            val subscribed = value.contentEquals(BluetoothGattDescriptor.ENABLE_NOTIFICATION_VALUE) ||
+                value.contentEquals(BluetoothGattDescriptor.ENABLE_INDICATION_VALUE)
+            if (subscribed) {
+                subscribers[device.address] = value.contentEquals(BluetoothGattDescriptor.ENABLE_INDICATION_VALUE)
+            } else {
+                subscribers.remove(device.address)
+            }
+
+            if (responseNeeded) {
+                sendPeripheralResponse(device, requestId, BluetoothGatt.GATT_SUCCESS, offset, value)
+            }
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "peripheralSubscriptionChanged",
+                "deviceId" to device.address,
+                "data" to mapOf(
+                    "subscription" to mapOf(
+                        "deviceId" to device.address,
+                        "serviceUuid" to characteristic.service.uuid.toString(),
+                        "characteristicUuid" to characteristic.uuid.toString(),
+                        "subscribed" to subscribed
+                    )
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onNotificationSent(device: BluetoothDevice, status: Int) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "peripheralNotificationSent",
+                "deviceId" to device.address,
+                "data" to mapOf("success" to (status == BluetoothGatt.GATT_SUCCESS)),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+    }
+
+    // ============================================================================
+    // Advertising
+    // ============================================================================
+
+    private val advertiseCallback = object : AdvertiseCallback() {
+        override fun onStartSuccess(settingsInEffect: AdvertiseSettings) {
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "advertisingStarted",
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+
+        override fun onStartFailure(errorCode: Int) {
+            isAdvertisingActive = false
+            cancelAdvertisingTimeout()
+            restoreAdapterName()
+
+            val code = when (errorCode) {
+                AdvertiseCallback.ADVERTISE_FAILED_DATA_TOO_LARGE -> "DATA_TOO_LARGE"
+                AdvertiseCallback.ADVERTISE_FAILED_TOO_MANY_ADVERTISERS -> "TOO_MANY_ADVERTISERS"
+                AdvertiseCallback.ADVERTISE_FAILED_ALREADY_STARTED -> "ALREADY_STARTED"
+                AdvertiseCallback.ADVERTISE_FAILED_FEATURE_UNSUPPORTED -> "FEATURE_UNSUPPORTED"
+                else -> "INTERNAL_ERROR"
+            }
+            sendEvent("onBluetoothEvent", mapOf(
+                "type" to "advertisingFailed",
+                "data" to mapOf(
+                    "error" to "Advertising failed to start",
+                    "errorCode" to code
+                ),
+                "timestamp" to System.currentTimeMillis()
+            ))
+        }
+    }
+
+    private fun startAdvertisingInternal(options: Map<String, Any?>): Map<String, Any> {
+        val adapter = bluetoothAdapter
+            ?: return mapOf("success" to false, "error" to "BLUETOOTH_UNAVAILABLE")
+        if (!adapter.isEnabled) {
+            return mapOf("success" to false, "error" to "BLUETOOTH_DISABLED")
+        }
+        val advertiser = adapter.bluetoothLeAdvertiser
+            ?: return mapOf("success" to false, "error" to "OPERATION_NOT_SUPPORTED", "message" to "BLE advertising is not supported on this device")
+        if (!hasAdvertisePermission()) {
+            return mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+
+        if (isAdvertisingActive) {
+            stopAdvertisingInternal("stopped")
+        }
+
+        val mode = when (options["mode"] as? String) {
+            "lowPower" -> AdvertiseSettings.ADVERTISE_MODE_LOW_POWER
+            "lowLatency" -> AdvertiseSettings.ADVERTISE_MODE_LOW_LATENCY
+            else -> AdvertiseSettings.ADVERTISE_MODE_BALANCED
+        }
+        val txPowerLevel = when (options["txPowerLevel"] as? String) {
+            "ultraLow" -> AdvertiseSettings.ADVERTISE_TX_POWER_ULTRA_LOW
+            "low" -> AdvertiseSettings.ADVERTISE_TX_POWER_LOW
+            "high" -> AdvertiseSettings.ADVERTISE_TX_POWER_HIGH
+            else -> AdvertiseSettings.ADVERTISE_TX_POWER_MEDIUM
+        }
+        val settings = AdvertiseSettings.Builder()
+            .setAdvertiseMode(mode)
+            .setTxPowerLevel(txPowerLevel)
+            .setConnectable(options["connectable"] as? Boolean ?: true)
+            .build()
+
+        val localName = options["localName"] as? String
+        val timeout = (options["timeout"] as? Number)?.toLong() ?: 0L
+
+        return try {
+            val dataBuilder = AdvertiseData.Builder()
+                .setIncludeDeviceName(false)
+                .setIncludeTxPowerLevel(options["includeTxPower"] as? Boolean ?: false)
+
+            @Suppress("UNCHECKED_CAST")
+            (options["serviceUUIDs"] as? List<String>)?.forEach { uuid ->
+                dataBuilder.addServiceUuid(ParcelUuid.fromString(uuid))
+            }
+            @Suppress("UNCHECKED_CAST")
+            (options["serviceData"] as? List<Map<String, Any?>>)?.forEach { entry ->
+                val data = Base64.decode(entry["data"] as String, Base64.DEFAULT)
+                dataBuilder.addServiceData(ParcelUuid.fromString(entry["uuid"] as String), data)
+            }
+            @Suppress("UNCHECKED_CAST")
+            (options["manufacturerData"] as? List<Map<String, Any?>>)?.forEach { entry ->
+                val data = Base64.decode(entry["data"] as String, Base64.DEFAULT)
+                dataBuilder.addManufacturerData((entry["companyId"] as Number).toInt(), data)
+            }
+
+            // 이름은 광고 패킷 공간을 아끼기 위해 스캔 응답에 담음 (Android는 어댑터 이름만 광고 가능)
+            val scanResponse = localName?.let {
+                if (it != adapter.name) {
+                    originalAdapterName = adapter.name
+                    adapter.name = it
+                }
+                AdvertiseData.Builder().setIncludeDeviceName(true).build()
+            }
+
+            advertiser.startAdvertising(settings, dataBuilder.build(), scanResponse, advertiseCallback)
+            isAdvertisingActive = true
+
+            if (timeout > 0) {
+                val stopOnTimeout = Runnable { stopAdvertisingInternal("timeout") }
+                advertisingTimeout = stopOnTimeout
+                handler.postDelayed(stopOnTimeout, timeout)
+            }
+
+            mapOf("success" to true)
+        } catch (e: SecurityException) {
+            restoreAdapterName()
+            mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        } catch (e: IllegalArgumentException) {
+            restoreAdapterName()
+            mapOf("success" to false, "error" to "INVALID_INPUT", "message" to (e.message ?: ""))
+        }
+    }
+
+    private fun stopAdvertisingInternal(reason: String): Map<String, Any> {
+        cancelAdvertisingTimeout()
+        if (!isAdvertisingActive) {
+            return mapOf("success" to true)
+        }
+
+        try {
+            bluetoothAdapter?.bluetoothLeAdvertiser?.stopAdvertising(advertiseCallback)
+        } catch (e: SecurityException) {
+            return mapOf("success" to false, "error" to "PERMISSION_DENIED")
+        }
+        isAdvertisingActive = false
+        restoreAdapterName()
+
+        sendEvent("onBluetoothEvent", mapOf(
+            "type" to "advertisingStopped",
+            "data" to mapOf("reason" to reason),
+            "timestamp" to System.currentTimeMillis()
+        ))
+        return mapOf("success" to true)
+    }
+
+    private fun cancelAdvertisingTimeout() {
+        advertisingTimeout?.let { handler.removeCallbacks(it) }
+        advertisingTimeout = null
+    }
+
+    private fun restoreAdapterName() {
+        val name = originalAdapterName ?: return
+        originalAdapterName = null
+        try {
+            bluetoothAdapter?.name = name
+        } catch (e: SecurityException) {
+            // Permission revoked, keep the advertised name
+        }
+    }
+
     // ============================================================================
     // Bluetooth State Receiver
     // ============================================================================
@@ -1194,6 +2165,16 @@ class BluetoothModule : Module() {
                         BluetoothAdapter.STATE_TURNING_ON -> "resetting"
                         else -> "unknown"
                     }
+                    // 블루투스가 꺼지면 광고도 함께 중지됨
+                    if (state == BluetoothAdapter.STATE_TURNING_OFF && isAdvertisingActive) {
+                        isAdvertisingActive = false
+                        cancelAdvertisingTimeout()
+                        sendEvent("onBluetoothEvent", mapOf(
+                            "type" to "advertisingStopped",
+                            "data" to mapOf("reason" to "bluetoothDisabled"),
+                            "timestamp" to System.currentTimeMillis()
+                        ))
+                    }
                     sendEvent("onBluetoothEvent", mapOf(
                         "type" to "stateChange",
                         "data" to mapOf("state" to stateString),
@@ -1221,6 +2202,13 @@ class BluetoothModule : Module() {
     // Helpers
     // ============================================================================
 
+    private fun hasAdvertisePermission(): Boolean {
+        val context = appContext.reactContext ?: return false
+
+        return Build.VERSION.SDK_INT < Build.VERSION_CODES.S ||
+            ContextCompat.checkSelfPermission(context, Manifest.permission.BLUETOOTH_ADVERTISE) == PackageManager.PERMISSION_GRANTED
+    }
+
     private fun hasBluetoothPermission(): Boolean {
         val context = appContext.reactContext ?: return false
 
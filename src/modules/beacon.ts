@@ -0,0 +1,360 @@
+/**
+ * 비콘 프레임 디코더
+ * 파싱된 광고 데이터에서 iBeacon과 Eddystone(UID/URL/TLM) 프레임을 인식합니다
+ */
+
+import type {
+  AdvertisingData,
+  BeaconAdvertisement,
+  BeaconFrame,
+  BeaconRegion,
+  ParsedAdvertisement,
+} from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes, utf8Decode } from './encoding';
+import { isSameUuid } from './uuid';
+
+/** Apple Company ID */
+const APPLE_COMPANY_ID = 0x004c;
+/** iBeacon 타입 (0x02) + 길이 (0x15) */
+const IBEACON_PREFIX = [0x02, 0x15];
+/** Eddystone 서비스 UUID (0xFEAA) */
+const EDDYSTONE_SERVICE_UUID = '0000feaa-0000-1000-8000-00805f9b34fb';
+
+const EDDYSTONE_UID = 0x00;
+const EDDYSTONE_URL = 0x10;
+const EDDYSTONE_TLM = 0x20;
+
+/** iBeacon 기본 측정 RSSI (dBm) */
+const DEFAULT_IBEACON_MEASURED_POWER = -59;
+/** Eddystone 기본 0m TX 파워 (dBm) */
+const DEFAULT_EDDYSTONE_TX_POWER = -18;
+/** Eddystone-URL에서 스킴을 제외한 인코딩 URL 최대 길이 (bytes) */
+const EDDYSTONE_URL_MAX_LENGTH = 17;
+
+/** 경로 손실 지수 (실내 평균) */
+const PATH_LOSS_EXPONENT = 2;
+/** Eddystone 0m TX 파워를 1m 기준으로 보정하는 값 (dB) */
+const EDDYSTONE_1M_LOSS = 41;
+
+const EDDYSTONE_URL_SCHEMES = ['http://www.', 'https://www.', 'http://', 'https://'];
+
+const EDDYSTONE_URL_EXPANSIONS = [
+  '.com/',
+  '.org/',
+  '.edu/',
+  '.net/',
+  '.info/',
+  '.biz/',
+  '.gov/',
+  '.com',
+  '.org',
+  '.edu',
+  '.net',
+  '.info',
+  '.biz',
+  '.gov',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toInt8(value: number): number {
+  return (value << 24) >> 24;
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint16BE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = (value >> 8) & 0xff;
+  bytes[offset + 1] = value & 0xff;
+}
+
+function checkInteger(value: number, name: string, min: number, max: number): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new RangeError(`${name} must be an integer between ${min} and ${max}`);
+  }
+}
+
+function parseHexId(value: string, byteLength: number, name: string): Uint8Array {
+  const bytes = hexToBytes(value.replace(/-/g, ''));
+  if (!bytes || bytes.length !== byteLength) {
+    throw new RangeError(`${name} must be ${byteLength} bytes of hex`);
+  }
+  return bytes;
+}
+
+function formatProximityUuid(bytes: Uint8Array): string {
+  const hex = bytesToHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ============================================================================
+// Decoders
+// ============================================================================
+
+/**
+ * iBeacon 제조사 데이터 디코딩 (Company ID 이후 바이트)
+ */
+export function decodeIBeacon(data: Uint8Array): BeaconFrame | null {
+  if (data.length < 23 || data[0] !== IBEACON_PREFIX[0] || data[1] !== IBEACON_PREFIX[1]) return null;
+
+  return {
+    type: 'ibeacon',
+    uuid: formatProximityUuid(data.subarray(2, 18)),
+    major: readUint16BE(data, 18),
+    minor: readUint16BE(data, 20),
+    txPower: toInt8(data[22]),
+  };
+}
+
+/**
+ * Eddystone URL 디코딩
+ */
+function decodeEddystoneUrl(bytes: Uint8Array): string | null {
+  const scheme = EDDYSTONE_URL_SCHEMES[bytes[0]];
+  if (scheme === undefined) return null;
+
+  let url = scheme;
+  for (let i = 1; i < bytes.length; i++) {
+    const expansion = EDDYSTONE_URL_EXPANSIONS[bytes[i]];
+    url += expansion !== undefined ? expansion : utf8Decode(bytes.subarray(i, i + 1));
+  }
+  return url;
+}
+
+/**
+ * Eddystone 서비스 데이터 디코딩
+ */
+export function decodeEddystone(data: Uint8Array): BeaconFrame | null {
+  if (data.length < 1) return null;
+
+  switch (data[0]) {
+    case EDDYSTONE_UID:
+      if (data.length < 18) return null;
+      return {
+        type: 'eddystoneUid',
+        namespace: bytesToHex(data.subarray(2, 12)),
+        instance: bytesToHex(data.subarray(12, 18)),
+        txPower: toInt8(data[1]),
+      };
+
+    case EDDYSTONE_URL: {
+      if (data.length < 3) return null;
+      const url = decodeEddystoneUrl(data.subarray(2));
+      if (url === null) return null;
+      return { type: 'eddystoneUrl', url, txPower: toInt8(data[1]) };
+    }
+
+    case EDDYSTONE_TLM: {
+      // 암호화된 TLM(버전 1)은 해석하지 않음
+      if (data.length < 14 || data[1] !== 0x00) return null;
+      const rawTemperature = readUint16BE(data, 4);
+      return {
+        type: 'eddystoneTlm',
+        version: data[1],
+        batteryVoltage: readUint16BE(data, 2),
+        // 0x8000 = 온도 미지원, 부호 있는 8.8 고정소수점
+        temperature: rawTemperature === 0x8000 ? null : ((rawTemperature << 16) >> 16) / 256,
+        advertisementCount: readUint32BE(data, 6),
+        uptime: readUint32BE(data, 10) / 10,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * 파싱된 광고 데이터에서 비콘 프레임 인식
+ */
+export function parseBeacon(advertisement: ParsedAdvertisement): BeaconFrame | null {
+  for (const entry of advertisement.manufacturerData) {
+    if (entry.companyId !== APPLE_COMPANY_ID) continue;
+    const bytes = base64ToBytes(entry.data);
+    const frame = bytes && decodeIBeacon(bytes);
+    if (frame) return frame;
+  }
+
+  for (const entry of advertisement.serviceData) {
+    if (!isSameUuid(entry.uuid, EDDYSTONE_SERVICE_UUID)) continue;
+    const bytes = base64ToBytes(entry.data);
+    const frame = bytes && decodeEddystone(bytes);
+    if (frame) return frame;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Encoders
+// ============================================================================
+
+/**
+ * Eddystone 서비스 데이터로 광고 데이터 구성
+ */
+function eddystoneAdvertisement(frame: Uint8Array): AdvertisingData {
+  return {
+    serviceUUIDs: [EDDYSTONE_SERVICE_UUID],
+    serviceData: [{ uuid: EDDYSTONE_SERVICE_UUID, data: bytesToBase64(frame) }],
+  };
+}
+
+/**
+ * Eddystone URL 인코딩 (스킴 코드 + 확장 코드로 축약한 URL)
+ */
+function encodeEddystoneUrl(url: string): Uint8Array {
+  const scheme = EDDYSTONE_URL_SCHEMES.findIndex((candidate) => url.startsWith(candidate));
+  if (scheme < 0) {
+    throw new RangeError('url must start with http:// or https://');
+  }
+
+  const encoded = [scheme];
+  let position = EDDYSTONE_URL_SCHEMES[scheme].length;
+  while (position < url.length) {
+    const expansion = EDDYSTONE_URL_EXPANSIONS.findIndex((candidate) => url.startsWith(candidate, position));
+    if (expansion >= 0) {
+      encoded.push(expansion);
+      position += EDDYSTONE_URL_EXPANSIONS[expansion].length;
+      continue;
+    }
+    const code = url.charCodeAt(position);
+    if (code < 0x21 || code > 0x7e) {
+      throw new RangeError('url may only contain printable ASCII characters');
+    }
+    encoded.push(code);
+    position += 1;
+  }
+
+  if (encoded.length - 1 > EDDYSTONE_URL_MAX_LENGTH) {
+    throw new RangeError(`url is longer than ${EDDYSTONE_URL_MAX_LENGTH} bytes after encoding`);
+  }
+  return Uint8Array.from(encoded);
+}
+
+/**
+ * iBeacon 광고 데이터 생성 (Apple 제조사 데이터)
+ */
+export function buildIBeaconAdvertisement(
+  beacon: Extract<BeaconAdvertisement, { type: 'ibeacon' }>
+): AdvertisingData {
+  const measuredPower = beacon.measuredPower ?? DEFAULT_IBEACON_MEASURED_POWER;
+  checkInteger(beacon.major, 'major', 0, 0xffff);
+  checkInteger(beacon.minor, 'minor', 0, 0xffff);
+  checkInteger(measuredPower, 'measuredPower', -128, 127);
+
+  const data = new Uint8Array(23);
+  data.set(IBEACON_PREFIX);
+  data.set(parseHexId(beacon.uuid, 16, 'uuid'), 2);
+  writeUint16BE(data, 18, beacon.major);
+  writeUint16BE(data, 20, beacon.minor);
+  data[22] = measuredPower & 0xff;
+
+  return { manufacturerData: [{ companyId: APPLE_COMPANY_ID, data: bytesToBase64(data) }] };
+}
+
+/**
+ * Eddystone-UID 광고 데이터 생성
+ */
+export function buildEddystoneUidAdvertisement(
+  beacon: Extract<BeaconAdvertisement, { type: 'eddystoneUid' }>
+): AdvertisingData {
+  const txPower = beacon.txPower ?? DEFAULT_EDDYSTONE_TX_POWER;
+  checkInteger(txPower, 'txPower', -128, 127);
+
+  // 마지막 2바이트는 예약 영역 (0)
+  const frame = new Uint8Array(20);
+  frame[0] = EDDYSTONE_UID;
+  frame[1] = txPower & 0xff;
+  frame.set(parseHexId(beacon.namespace, 10, 'namespace'), 2);
+  frame.set(parseHexId(beacon.instance, 6, 'instance'), 12);
+  return eddystoneAdvertisement(frame);
+}
+
+/**
+ * Eddystone-URL 광고 데이터 생성
+ */
+export function buildEddystoneUrlAdvertisement(
+  beacon: Extract<BeaconAdvertisement, { type: 'eddystoneUrl' }>
+): AdvertisingData {
+  const txPower = beacon.txPower ?? DEFAULT_EDDYSTONE_TX_POWER;
+  checkInteger(txPower, 'txPower', -128, 127);
+
+  const url = encodeEddystoneUrl(beacon.url);
+  const frame = new Uint8Array(2 + url.length);
+  frame[0] = EDDYSTONE_URL;
+  frame[1] = txPower & 0xff;
+  frame.set(url, 2);
+  return eddystoneAdvertisement(frame);
+}
+
+/**
+ * 비콘 광고 데이터 생성
+ * 값이 범위를 벗어나거나 URL을 인코딩할 수 없으면 RangeError를 던집니다
+ */
+export function buildBeaconAdvertisement(beacon: BeaconAdvertisement): AdvertisingData {
+  switch (beacon.type) {
+    case 'ibeacon':
+      return buildIBeaconAdvertisement(beacon);
+    case 'eddystoneUid':
+      return buildEddystoneUidAdvertisement(beacon);
+    case 'eddystoneUrl':
+      return buildEddystoneUrlAdvertisement(beacon);
+  }
+}
+
+// ============================================================================
+// Region Matching
+// ============================================================================
+
+/**
+ * 비콘이 영역에 속하는지 확인
+ */
+export function isBeaconInRegion(beacon: BeaconFrame, region: BeaconRegion): boolean {
+  if (region.type === 'ibeacon') {
+    return (
+      beacon.type === 'ibeacon' &&
+      beacon.uuid === region.uuid.toLowerCase() &&
+      (region.major === undefined || beacon.major === region.major) &&
+      (region.minor === undefined || beacon.minor === region.minor)
+    );
+  }
+
+  return (
+    beacon.type === 'eddystoneUid' &&
+    beacon.namespace === region.namespace.toLowerCase() &&
+    (region.instance === undefined || beacon.instance === region.instance.toLowerCase())
+  );
+}
+
+/**
+ * 비콘 식별 키 (같은 비콘의 반복 감지를 묶는 데 사용)
+ */
+export function getBeaconKey(beacon: BeaconFrame, deviceId: string): string {
+  switch (beacon.type) {
+    case 'ibeacon':
+      return `ibeacon:${beacon.uuid}:${beacon.major}:${beacon.minor}`;
+    case 'eddystoneUid':
+      return `eddystone:${beacon.namespace}:${beacon.instance}`;
+    default:
+      return `${beacon.type}:${deviceId}`;
+  }
+}
+
+/**
+ * RSSI와 TX 파워로 거리 추정 (m, 로그 거리 경로 손실 모델)
+ */
+export function estimateDistance(beacon: BeaconFrame, rssi: number): number | undefined {
+  if (rssi === 0 || !('txPower' in beacon)) return undefined;
+
+  const measuredPower = beacon.type === 'ibeacon' ? beacon.txPower : beacon.txPower - EDDYSTONE_1M_LOSS;
+  const distance = Math.pow(10, (measuredPower - rssi) / (10 * PATH_LOSS_EXPONENT));
+  return Math.round(distance * 100) / 100;
+}
@@ -0,0 +1,247 @@
+/**
+ * Classic 명령/응답
+ * 명령을 쓰고 이후 수신 데이터에서 응답(종료 문자열, 정규식, 바이트 수)을 기다립니다
+ * 장치별로 명령을 직렬화해 응답이 다른 명령과 섞이지 않도록 합니다
+ */
+
+import type {
+  BluetoothResult,
+  CommandResponseMatcher,
+  CommandResult,
+  SendCommandOptions,
+} from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from './encoding';
+
+/**
+ * 명령/응답 의존성
+ */
+export interface ClassicCommandDependencies {
+  /** 명령 쓰기 (Base64) */
+  write: (deviceId: string, value: string) => Promise<BluetoothResult>;
+}
+
+/** 기본 응답 판별 방식 */
+const DEFAULT_RESPONSE: CommandResponseMatcher = { type: 'terminator', terminator: '\r\n' };
+
+/** 기본 응답 타임아웃 (ms) */
+const DEFAULT_TIMEOUT = 5000;
+
+/** 기본 최대 응답 크기 (bytes) */
+const DEFAULT_MAX_RESPONSE_SIZE = 4096;
+
+/**
+ * 응답 판별 결과 (응답이 아직 완성되지 않았으면 null)
+ */
+type ResponseMatch = Pick<CommandResult, 'response' | 'text' | 'matches'>;
+
+/**
+ * 수신 데이터에서 응답을 찾는 함수
+ */
+type ResponseReader = (received: Uint8Array) => ResponseMatch | null;
+
+/**
+ * 응답 대기 중인 명령
+ */
+interface PendingCommand {
+  run: () => Promise<void>;
+  /** 수신 데이터 전달 (응답 대기 중일 때만 설정됨) */
+  receive?: (bytes: Uint8Array) => void;
+  fail: (failure: BluetoothResult) => void;
+}
+
+/**
+ * 장치별 명령 큐
+ */
+interface CommandQueue {
+  pending: PendingCommand[];
+  active: PendingCommand | null;
+}
+
+const indexOfBytes = (haystack: Uint8Array, needle: Uint8Array): number => {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return i;
+  }
+  return -1;
+};
+
+/**
+ * 응답 판별 방식에 맞는 응답 판별 함수 생성
+ */
+function createResponseReader(matcher: CommandResponseMatcher): ResponseReader {
+  switch (matcher.type) {
+    case 'terminator': {
+      const terminator = utf8Encode(matcher.terminator);
+      return (received) => {
+        const end = indexOfBytes(received, terminator);
+        if (end < 0) return null;
+        const response = received.subarray(0, end);
+        return { response: bytesToBase64(response), text: utf8Decode(response) };
+      };
+    }
+    case 'pattern': {
+      const pattern = new RegExp(matcher.pattern, (matcher.flags ?? '').replace(/[gy]/g, ''));
+      return (received) => {
+        const text = utf8Decode(received);
+        const match = pattern.exec(text);
+        if (!match) return null;
+        const response = text.slice(0, match.index + match[0].length);
+        return {
+          response: bytesToBase64(utf8Encode(response)),
+          text: response,
+          matches: Array.from(match, (group) => group ?? ''),
+        };
+      };
+    }
+    case 'byteCount':
+      return (received) => {
+        if (received.length < matcher.byteCount) return null;
+        const response = received.subarray(0, matcher.byteCount);
+        return { response: bytesToBase64(response), text: utf8Decode(response) };
+      };
+  }
+}
+
+/**
+ * 명령/응답 실행기 생성
+ */
+export function createClassicCommander(deps: ClassicCommandDependencies) {
+  const queues = new Map<string, CommandQueue>();
+
+  /**
+   * 다음 대기 명령 실행
+   */
+  const processNext = (deviceId: string): void => {
+    const queue = queues.get(deviceId);
+    if (!queue || queue.active) return;
+
+    const command = queue.pending.shift();
+    if (!command) {
+      queues.delete(deviceId);
+      return;
+    }
+    queue.active = command;
+    command.run().finally(() => {
+      if (queue.active === command) {
+        queue.active = null;
+      }
+      processNext(deviceId);
+    });
+  };
+
+  /**
+   * 명령을 쓰고 응답 대기
+   */
+  const send = (deviceId: string, command: string, options: SendCommandOptions = {}): Promise<CommandResult> => {
+    if (options.encoding === 'base64' && !base64ToBytes(command)) {
+      return Promise.resolve({
+        success: false,
+        error: 'INVALID_INPUT',
+        message: 'command: Invalid Base64',
+        field: 'command',
+      });
+    }
+    const value = options.encoding === 'base64' ? command : bytesToBase64(utf8Encode(command));
+
+    let reader: ResponseReader;
+    try {
+      reader = createResponseReader(options.response ?? DEFAULT_RESPONSE);
+    } catch (error) {
+      const message = `options.response.pattern: ${error instanceof Error ? error.message : String(error)}`;
+      return Promise.resolve({ success: false, error: 'INVALID_INPUT', message, field: 'options.response.pattern' });
+    }
+
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const maxResponseSize = options.maxResponseSize ?? DEFAULT_MAX_RESPONSE_SIZE;
+
+    return new Promise<CommandResult>((resolve) => {
+      let settle: (result: CommandResult) => void = resolve;
+
+      const entry: PendingCommand = {
+        fail: (failure) => settle(failure),
+        run: () =>
+          new Promise<void>((done) => {
+            let finished = false;
+            let timer: ReturnType<typeof setTimeout> | null = null;
+            let received = new Uint8Array(0);
+
+            settle = (result) => {
+              if (finished) return;
+              finished = true;
+              if (timer) clearTimeout(timer);
+              entry.receive = undefined;
+              resolve(result);
+              done();
+            };
+
+            // 쓰기 완료 전에 도착한 응답도 받도록 먼저 수신 대기
+            entry.receive = (bytes) => {
+              const merged = new Uint8Array(received.length + bytes.length);
+              merged.set(received);
+              merged.set(bytes, received.length);
+              received = merged;
+
+              const match = reader(received);
+              if (match) {
+                settle({ success: true, ...match });
+              } else if (received.length > maxResponseSize) {
+                settle({
+                  success: false,
+                  error: 'OPERATION_FAILED',
+                  message: `Response exceeded the maximum size of ${maxResponseSize} bytes`,
+                });
+              }
+            };
+
+            if (timeout > 0) {
+              timer = setTimeout(() => {
+                settle({
+                  success: false,
+                  error: 'OPERATION_TIMEOUT',
+                  message: `sendCommand timed out after ${timeout}ms`,
+                });
+              }, timeout);
+            }
+
+            deps.write(deviceId, value).then(
+              (result) => {
+                if (!result.success) settle(result);
+              },
+              (error) => {
+                settle({
+                  success: false,
+                  error: 'WRITE_FAILED',
+                  message: error instanceof Error ? error.message : String(error),
+                });
+              }
+            );
+          }),
+      };
+
+      const queue = queues.get(deviceId) ?? { pending: [], active: null };
+      queues.set(deviceId, queue);
+      queue.pending.push(entry);
+      processNext(deviceId);
+    });
+  };
+
+  /**
+   * Classic 수신 데이터 전달 (응답 대기 중인 명령이 없으면 무시)
+   */
+  const receive = (deviceId: string, bytes: Uint8Array): void => {
+    queues.get(deviceId)?.active?.receive?.(bytes);
+  };
+
+  /**
+   * 장치의 실행 중 + 대기 중 명령을 모두 실패 처리 (연결 해제 시)
+   */
+  const failDevice = (deviceId: string, failure: BluetoothResult): void => {
+    const queue = queues.get(deviceId);
+    if (!queue) return;
+    const commands = [...queue.pending];
+    queue.pending = [];
+    commands.forEach((command) => command.fail(failure));
+    queue.active?.fail(failure);
+  };
+
+  return { send, receive, failDevice };
+}
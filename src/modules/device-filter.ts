@@ -0,0 +1,92 @@
+/**
+ * 장치 필터 매칭
+ * requestDevice 필터(Web Bluetooth BluetoothLEScanFilter와 같은 형태)를 발견된 장치에 적용합니다
+ */
+
+import type {
+  BluetoothDevice,
+  DeviceDataFilter,
+  DeviceFilter,
+  DeviceRequestOptions,
+  ParsedAdvertisement,
+} from '../types/bluetooth-module';
+import { base64ToBytes } from './encoding';
+import { isSameUuid, normalizeUuid } from './uuid';
+
+/**
+ * 데이터가 dataPrefix & mask와 일치하는지 확인
+ */
+export function matchesData(data: string, filter: DeviceDataFilter): boolean {
+  const bytes = base64ToBytes(data);
+  const prefix = filter.dataPrefix ? base64ToBytes(filter.dataPrefix) : new Uint8Array(0);
+  const mask = filter.mask ? base64ToBytes(filter.mask) : null;
+  if (!bytes || !prefix || bytes.length < prefix.length) return false;
+
+  return prefix.every((expected, i) => {
+    const bits = mask && i < mask.length ? mask[i] : 0xff;
+    return (bytes[i] & bits) === (expected & bits);
+  });
+}
+
+/**
+ * 장치 이름 (광고 데이터의 로컬 이름 포함)
+ */
+function getDeviceName(device: BluetoothDevice, advertisement?: ParsedAdvertisement): string | null {
+  return device.name ?? advertisement?.localName ?? device.ble?.localName ?? null;
+}
+
+/**
+ * 장치가 필터 조건을 모두 만족하는지 확인
+ */
+export function matchesDeviceFilter(
+  filter: DeviceFilter,
+  device: BluetoothDevice,
+  advertisement?: ParsedAdvertisement
+): boolean {
+  const name = getDeviceName(device, advertisement);
+  if (filter.name !== undefined && name !== filter.name) return false;
+  if (filter.namePrefix !== undefined && !(name ?? '').startsWith(filter.namePrefix)) return false;
+
+  const services = [...(device.ble?.serviceUUIDs ?? []), ...(advertisement?.serviceUUIDs ?? [])];
+  if (!(filter.services ?? []).every((uuid) => services.some((advertised) => isSameUuid(advertised, uuid)))) {
+    return false;
+  }
+
+  const manufacturerData =
+    advertisement?.manufacturerData ?? (device.ble?.manufacturerData ? [device.ble.manufacturerData] : []);
+  const manufacturerMatches = (filter.manufacturerData ?? []).every((expected) =>
+    manufacturerData.some((entry) => entry.companyId === expected.companyIdentifier && matchesData(entry.data, expected))
+  );
+  if (!manufacturerMatches) return false;
+
+  const serviceData = advertisement?.serviceData ?? [];
+  return (filter.serviceData ?? []).every((expected) =>
+    serviceData.some((entry) => isSameUuid(entry.uuid, expected.service) && matchesData(entry.data, expected))
+  );
+}
+
+/**
+ * 장치가 requestDevice 후보인지 확인 (exclusionFilters 우선)
+ */
+export function matchesDeviceRequest(
+  options: DeviceRequestOptions,
+  device: BluetoothDevice,
+  advertisement?: ParsedAdvertisement
+): boolean {
+  if ((options.exclusionFilters ?? []).some((filter) => matchesDeviceFilter(filter, device, advertisement))) {
+    return false;
+  }
+  if (options.acceptAllDevices) return true;
+  return (options.filters ?? []).some((filter) => matchesDeviceFilter(filter, device, advertisement));
+}
+
+/**
+ * requestDevice로 접근 가능한 서비스 UUID (filters.services + optionalServices)
+ */
+export function getRequestedServices(options: DeviceRequestOptions): string[] {
+  const uuids = [
+    ...(options.filters ?? []).flatMap((filter) => filter.services ?? []),
+    ...(options.optionalServices ?? []),
+  ].map(normalizeUuid);
+  return Array.from(new Set(uuids));
+}
@@ -0,0 +1,238 @@
+/**
+ * 발견 장치 레지스트리
+ * BLE/Classic 스캔 결과를 장치 ID별로 합쳐 감지 시각, RSSI 기록, 이름, 광고 데이터를 보관하고
+ * 오래 감지되지 않은 장치를 제거하며 deviceLost 이벤트를 보냅니다
+ */
+
+import type {
+  BluetoothDevice,
+  BluetoothEvent,
+  DiscoveredDevice,
+  DiscoveredDeviceSortKey,
+  DiscoveredDevicesQuery,
+  DeviceRegistryOptions,
+} from '../types/bluetooth-module';
+import { isSameUuid } from './uuid';
+
+/**
+ * 레지스트리 의존성
+ */
+export interface DeviceRegistryDependencies {
+  /** deviceLost 이벤트 전달 */
+  emit: (event: BluetoothEvent) => void;
+}
+
+/** 기본 레지스트리 옵션 */
+const DEFAULT_OPTIONS: Required<DeviceRegistryOptions> = {
+  staleTimeout: 30000,
+  historySize: 20,
+  maxDevices: 500,
+};
+
+/** 오래된 장치 검사 간격 (ms) */
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * 정렬 기준별 비교 값 (값이 없는 장치는 순서와 관계없이 뒤로)
+ */
+const SORT_VALUES: Record<DiscoveredDeviceSortKey, (device: DiscoveredDevice) => number | string | undefined> = {
+  lastSeen: (device) => device.lastSeen,
+  firstSeen: (device) => device.firstSeen,
+  rssi: (device) => device.rssi,
+  name: (device) => device.name?.toLowerCase(),
+};
+
+/**
+ * 이름이 실제 이름인지 확인 (Android는 이름이 없으면 주소를 이름으로 보냄)
+ */
+const isRealName = (name: string | null | undefined, id: string): name is string => !!name && name !== id;
+
+/**
+ * 장치가 광고한 서비스 UUID 목록
+ */
+const advertisedServices = (entry: DiscoveredDevice): string[] => [
+  ...(entry.device.ble?.serviceUUIDs ?? []),
+  ...(entry.advertisement?.serviceUUIDs ?? []),
+];
+
+/**
+ * 외부로 내보낼 복사본 (내부 기록이 변경되지 않도록)
+ */
+const snapshot = (entry: DiscoveredDevice): DiscoveredDevice => ({ ...entry, rssiHistory: [...entry.rssiHistory] });
+
+/**
+ * 발견 장치 레지스트리 생성
+ */
+export function createDeviceRegistry(deps: DeviceRegistryDependencies) {
+  const devices = new Map<string, DiscoveredDevice>();
+  /** 연결 중인 장치 (광고를 멈추므로 제거하지 않음) */
+  const connectedIds = new Set<string>();
+  let options: Required<DeviceRegistryOptions> = { ...DEFAULT_OPTIONS };
+  let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * 장치 제거 후 deviceLost 전송
+   */
+  const evict = (entry: DiscoveredDevice): void => {
+    devices.delete(entry.id);
+    deps.emit({
+      type: 'deviceLost',
+      deviceId: entry.id,
+      data: { discoveredDevice: snapshot(entry) },
+      timestamp: Date.now(),
+    });
+  };
+
+  /**
+   * staleTimeout 동안 감지되지 않은 장치 제거
+   */
+  const sweep = (): void => {
+    const cutoff = Date.now() - options.staleTimeout;
+    Array.from(devices.values())
+      .filter((entry) => entry.lastSeen < cutoff && !connectedIds.has(entry.id))
+      .forEach(evict);
+    updateSweepTimer();
+  };
+
+  /**
+   * 제거할 장치가 있을 때만 검사 타이머 유지
+   */
+  const updateSweepTimer = (): void => {
+    const needed = options.staleTimeout > 0 && devices.size > 0;
+    if (needed && !sweepTimer) {
+      sweepTimer = setInterval(sweep, SWEEP_INTERVAL);
+    } else if (!needed && sweepTimer) {
+      clearInterval(sweepTimer);
+      sweepTimer = null;
+    }
+  };
+
+  /**
+   * 최대 장치 수를 넘으면 가장 오래전에 감지된 장치부터 제거
+   */
+  const enforceLimit = (): void => {
+    if (devices.size <= options.maxDevices) return;
+    Array.from(devices.values())
+      .sort((a, b) => a.lastSeen - b.lastSeen)
+      .slice(0, devices.size - options.maxDevices)
+      .forEach(evict);
+  };
+
+  /**
+   * 감지 결과 병합
+   */
+  const record = (event: BluetoothEvent, device: BluetoothDevice): void => {
+    const now = Date.now();
+    const existing = devices.get(device.id);
+    const name = isRealName(device.name, device.id) ? device.name : (device.ble?.localName ?? null);
+
+    const entry: DiscoveredDevice = existing ?? {
+      id: device.id,
+      name: null,
+      type: device.type,
+      firstSeen: now,
+      lastSeen: now,
+      seenCount: 0,
+      rssiHistory: [],
+      device,
+    };
+    entry.name = name ?? entry.name;
+    entry.type = device.type;
+    entry.lastSeen = now;
+    entry.seenCount += 1;
+    entry.device = {
+      ...entry.device,
+      ...device,
+      name: entry.name,
+      ble: device.ble ?? entry.device.ble,
+      classic: device.classic ?? entry.device.classic,
+    };
+    entry.advertisement = event.data?.parsedAdvertisement ?? entry.advertisement;
+    entry.beacon = event.data?.beacon ?? entry.beacon;
+
+    if (typeof device.rssi === 'number') {
+      entry.rssi = device.rssi;
+      entry.rssiHistory.push({ rssi: device.rssi, timestamp: now });
+      if (entry.rssiHistory.length > options.historySize) {
+        entry.rssiHistory.splice(0, entry.rssiHistory.length - options.historySize);
+      }
+    }
+
+    if (!existing) {
+      devices.set(device.id, entry);
+      enforceLimit();
+    }
+    updateSweepTimer();
+  };
+
+  /**
+   * 스캔/연결 이벤트 처리
+   */
+  const handleEvent = (event: BluetoothEvent): void => {
+    if (event.type === 'deviceDiscovered' && event.data?.device) {
+      record(event, event.data.device);
+      return;
+    }
+    if (!event.deviceId) return;
+
+    if (event.type === 'connected') {
+      connectedIds.add(event.deviceId);
+    } else if (event.type === 'disconnected') {
+      connectedIds.delete(event.deviceId);
+      // 연결 해제 시점부터 다시 staleTimeout 적용
+      const entry = devices.get(event.deviceId);
+      if (entry) entry.lastSeen = Date.now();
+    }
+  };
+
+  /**
+   * 발견 장치 조회
+   */
+  const query = (filter: DiscoveredDevicesQuery = {}): DiscoveredDevice[] => {
+    const now = Date.now();
+    const nameFilter = filter.nameFilter?.toLowerCase();
+
+    const matched = Array.from(devices.values()).filter((entry) => {
+      if (filter.type && entry.type !== filter.type) return false;
+      if (nameFilter !== undefined && !entry.name?.toLowerCase().includes(nameFilter)) return false;
+      if (filter.minRssi !== undefined && (entry.rssi === undefined || entry.rssi < filter.minRssi)) return false;
+      if (filter.seenWithin !== undefined && now - entry.lastSeen > filter.seenWithin) return false;
+      if (filter.serviceUUIDs) {
+        const services = advertisedServices(entry);
+        if (!filter.serviceUUIDs.some((uuid) => services.some((service) => isSameUuid(service, uuid)))) return false;
+      }
+      return true;
+    });
+
+    const sortBy = filter.sortBy ?? 'lastSeen';
+    const direction = (filter.order ?? (sortBy === 'name' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+    const valueOf = SORT_VALUES[sortBy];
+    matched.sort((a, b) => {
+      const left = valueOf(a);
+      const right = valueOf(b);
+      if (left === undefined || right === undefined) {
+        return (left === undefined ? 1 : 0) - (right === undefined ? 1 : 0);
+      }
+      if (left === right) return 0;
+      return (left < right ? -1 : 1) * direction;
+    });
+
+    return (filter.limit !== undefined ? matched.slice(0, filter.limit) : matched).map(snapshot);
+  };
+
+  /**
+   * 옵션 변경 (기존 기록에도 적용)
+   */
+  const configure = (next: DeviceRegistryOptions): void => {
+    options = { ...options, ...next };
+    devices.forEach((entry) => {
+      if (entry.rssiHistory.length > options.historySize) {
+        entry.rssiHistory.splice(0, entry.rssiHistory.length - options.historySize);
+      }
+    });
+    enforceLimit();
+    updateSweepTimer();
+  };
+
+  return { handleEvent, query, configure };
+}
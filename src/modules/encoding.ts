@@ -0,0 +1,170 @@
+/**
+ * 바이트 인코딩 헬퍼
+ * React Native(Hermes)와 브라우저 모두에서 동작하도록 Buffer/atob/TextDecoder에 의존하지 않습니다
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+}
+
+/**
+ * Base64 문자열을 바이트 배열로 디코딩
+ * 공백과 패딩은 무시하며, 잘못된 문자가 있으면 null을 반환합니다
+ */
+export function base64ToBytes(value: string): Uint8Array | null {
+  const clean = value.replace(/[\s=]/g, '');
+  if (clean.length % 4 === 1) return null;
+
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    const index = BASE64_LOOKUP[clean[i]];
+    if (index === undefined) return null;
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * 바이트 배열을 Base64 문자열로 인코딩
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+
+    result += BASE64_ALPHABET[(triple >> 18) & 0x3f];
+    result += BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return result;
+}
+
+/**
+ * 바이트 배열을 16진수 문자열로 변환
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += bytes[i].toString(16).padStart(2, '0');
+  }
+  return result;
+}
+
+/**
+ * 16진수 문자열을 바이트 배열로 변환 (길이가 홀수이거나 잘못된 문자가 있으면 null)
+ */
+export function hexToBytes(value: string): Uint8Array | null {
+  if (value.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(value)) return null;
+
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** 바이트 수별 최소 코드 포인트 (이보다 작으면 overlong 형식) */
+const UTF8_MIN_CODE_POINT: Record<number, number> = { 2: 0x80, 3: 0x800, 4: 0x10000 };
+
+/**
+ * 선행 바이트로 UTF-8 시퀀스 길이 판단 (선행 바이트로 쓸 수 없으면 0)
+ */
+function utf8SequenceLength(b0: number): number {
+  if (b0 >= 0xc2 && b0 < 0xe0) return 2;
+  if (b0 >= 0xe0 && b0 < 0xf0) return 3;
+  if (b0 >= 0xf0 && b0 < 0xf5) return 4;
+  return 0;
+}
+
+/**
+ * start 위치의 멀티바이트 시퀀스 디코딩
+ * 연속 바이트가 아니거나, overlong 형식, 서로게이트, U+10FFFF 초과이면 null
+ */
+function decodeUtf8Sequence(bytes: Uint8Array, start: number, length: number): number | null {
+  if (start + length > bytes.length) return null;
+
+  let codePoint = bytes[start] & (0xff >> (length + 1));
+  for (let i = 1; i < length; i++) {
+    const b = bytes[start + i];
+    if ((b & 0xc0) !== 0x80) return null;
+    codePoint = (codePoint << 6) | (b & 0x3f);
+  }
+  if (codePoint < UTF8_MIN_CODE_POINT[length] || codePoint > 0x10ffff) return null;
+  if (codePoint >= 0xd800 && codePoint <= 0xdfff) return null;
+  return codePoint;
+}
+
+/**
+ * UTF-8 바이트 배열을 문자열로 디코딩
+ * 잘못된 시퀀스는 예외 없이 U+FFFD로 대체하고 다음 바이트부터 다시 해석합니다
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const b0 = bytes[i];
+    let codePoint = 0xfffd;
+    let length = 1;
+
+    if (b0 < 0x80) {
+      codePoint = b0;
+    } else {
+      const sequenceLength = utf8SequenceLength(b0);
+      const decoded = sequenceLength > 0 ? decodeUtf8Sequence(bytes, i, sequenceLength) : null;
+      if (decoded !== null) {
+        codePoint = decoded;
+        length = sequenceLength;
+      }
+    }
+
+    result += String.fromCodePoint(codePoint);
+    i += length;
+  }
+
+  return result;
+}
+
+/**
+ * 문자열을 UTF-8 바이트 배열로 인코딩
+ */
+export function utf8Encode(value: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    const codePoint = char.codePointAt(0) as number;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,293 @@
+/**
+ * Classic 수신 데이터 프레이밍
+ * 임의 크기로 도착하는 SPP 데이터를 구분자, 길이 접두사, SLIP, COBS 규칙에 따라 완성된 메시지로 조립합니다
+ */
+
+import type { ClassicFraming, DelimiterFraming, LengthPrefixFraming } from '../types/bluetooth-module';
+import { utf8Encode } from './encoding';
+
+/** 기본 최대 프레임 크기 (bytes) */
+const DEFAULT_MAX_FRAME_SIZE = 4096;
+
+/** SLIP 특수 바이트 */
+const SLIP_END = 0xc0;
+const SLIP_ESC = 0xdb;
+const SLIP_ESC_END = 0xdc;
+const SLIP_ESC_ESC = 0xdd;
+
+/**
+ * 프레임 조립 오류
+ */
+export interface FrameError {
+  code: 'FRAME_TOO_LARGE' | 'INVALID_FRAME';
+  message: string;
+}
+
+/**
+ * 수신 데이터 처리 결과
+ */
+export interface FrameDecodeResult {
+  /** 완성된 프레임 */
+  frames: Uint8Array[];
+  /** 버려진 프레임 */
+  errors: FrameError[];
+}
+
+/**
+ * 프레임 조립기
+ */
+export interface FrameDecoder {
+  /** 수신 데이터 추가 */
+  push: (bytes: Uint8Array) => FrameDecodeResult;
+  /** 조립 중인 데이터 버림 (연결 해제 시) */
+  reset: () => void;
+}
+
+const tooLarge = (maxFrameSize: number): FrameError => ({
+  code: 'FRAME_TOO_LARGE',
+  message: `Frame exceeded the maximum size of ${maxFrameSize} bytes and was discarded`,
+});
+
+const invalidFrame = (reason: string): FrameError => ({ code: 'INVALID_FRAME', message: reason });
+
+/**
+ * 구분자 프레이밍 (구분자는 프레임에서 제외)
+ */
+function createDelimiterDecoder(framing: DelimiterFraming, maxFrameSize: number): FrameDecoder {
+  const delimiter = utf8Encode(framing.delimiter ?? '\n');
+  let buffer: number[] = [];
+  let discarding = false;
+
+  const endsWithDelimiter = (): boolean => {
+    if (buffer.length < delimiter.length) return false;
+    const start = buffer.length - delimiter.length;
+    return delimiter.every((byte, i) => buffer[start + i] === byte);
+  };
+
+  const push = (bytes: Uint8Array): FrameDecodeResult => {
+    const result: FrameDecodeResult = { frames: [], errors: [] };
+    bytes.forEach((byte) => {
+      buffer.push(byte);
+      if (endsWithDelimiter()) {
+        if (!discarding) {
+          result.frames.push(Uint8Array.from(buffer.slice(0, buffer.length - delimiter.length)));
+        }
+        buffer = [];
+        discarding = false;
+        return;
+      }
+      // 구분자가 걸쳐 들어올 수 있으므로 구분자 길이 - 1 바이트는 남겨 둠
+      if (buffer.length >= maxFrameSize + delimiter.length) {
+        if (!discarding) result.errors.push(tooLarge(maxFrameSize));
+        discarding = true;
+        buffer = buffer.slice(buffer.length - (delimiter.length - 1));
+      }
+    });
+    return result;
+  };
+
+  return {
+    push,
+    reset: () => {
+      buffer = [];
+      discarding = false;
+    },
+  };
+}
+
+/**
+ * 길이 접두사 프레이밍 (길이 필드는 프레임에서 제외)
+ */
+function createLengthPrefixDecoder(framing: LengthPrefixFraming, maxFrameSize: number): FrameDecoder {
+  const headerSize = framing.lengthBytes ?? 2;
+  const littleEndian = framing.byteOrder === 'little';
+  const includesHeader = framing.lengthIncludesHeader ?? false;
+  let buffer: number[] = [];
+  /** 크기 초과 프레임에서 아직 버려야 할 바이트 수 */
+  let skipRemaining = 0;
+
+  const readLength = (): number => {
+    let length = 0;
+    for (let i = 0; i < headerSize; i++) {
+      length = length * 256 + buffer[littleEndian ? headerSize - 1 - i : i];
+    }
+    return includesHeader ? length - headerSize : length;
+  };
+
+  const push = (bytes: Uint8Array): FrameDecodeResult => {
+    const result: FrameDecodeResult = { frames: [], errors: [] };
+    bytes.forEach((byte) => buffer.push(byte));
+
+    for (;;) {
+      if (skipRemaining > 0) {
+        const skipped = Math.min(skipRemaining, buffer.length);
+        buffer = buffer.slice(skipped);
+        skipRemaining -= skipped;
+        if (skipRemaining > 0) break;
+      }
+      if (buffer.length < headerSize) break;
+
+      const length = readLength();
+      if (length < 0) {
+        result.errors.push(invalidFrame(`Length field is smaller than the ${headerSize}-byte header`));
+        buffer = buffer.slice(headerSize);
+        continue;
+      }
+      if (length > maxFrameSize) {
+        result.errors.push(tooLarge(maxFrameSize));
+        buffer = buffer.slice(headerSize);
+        skipRemaining = length;
+        continue;
+      }
+      if (buffer.length < headerSize + length) break;
+
+      result.frames.push(Uint8Array.from(buffer.slice(headerSize, headerSize + length)));
+      buffer = buffer.slice(headerSize + length);
+    }
+    return result;
+  };
+
+  return {
+    push,
+    reset: () => {
+      buffer = [];
+      skipRemaining = 0;
+    },
+  };
+}
+
+/**
+ * SLIP 프레이밍 (END로 구분, 빈 프레임은 무시)
+ */
+function createSlipDecoder(maxFrameSize: number): FrameDecoder {
+  let buffer: number[] = [];
+  let escaped = false;
+  let discarding = false;
+  let invalid = false;
+
+  const reset = (): void => {
+    buffer = [];
+    escaped = false;
+    discarding = false;
+    invalid = false;
+  };
+
+  const push = (bytes: Uint8Array): FrameDecodeResult => {
+    const result: FrameDecodeResult = { frames: [], errors: [] };
+    bytes.forEach((byte) => {
+      if (byte === SLIP_END) {
+        if (invalid) {
+          result.errors.push(invalidFrame('Invalid SLIP escape sequence'));
+        } else if (!discarding && buffer.length > 0) {
+          result.frames.push(Uint8Array.from(buffer));
+        }
+        reset();
+        return;
+      }
+      if (discarding || invalid) return;
+
+      if (escaped) {
+        escaped = false;
+        if (byte === SLIP_ESC_END) buffer.push(SLIP_END);
+        else if (byte === SLIP_ESC_ESC) buffer.push(SLIP_ESC);
+        else invalid = true;
+      } else if (byte === SLIP_ESC) {
+        escaped = true;
+        return;
+      } else {
+        buffer.push(byte);
+      }
+
+      if (buffer.length > maxFrameSize) {
+        result.errors.push(tooLarge(maxFrameSize));
+        buffer = [];
+        discarding = true;
+      }
+    });
+    return result;
+  };
+
+  return { push, reset };
+}
+
+/**
+ * COBS 블록 디코딩
+ * @returns 잘못된 인코딩이면 null
+ */
+function cobsDecode(encoded: number[]): Uint8Array | null {
+  const decoded: number[] = [];
+  let i = 0;
+  while (i < encoded.length) {
+    const code = encoded[i++];
+    if (code === 0) return null;
+    for (let j = 1; j < code; j++) {
+      if (i >= encoded.length) return null;
+      decoded.push(encoded[i++]);
+    }
+    if (code < 0xff && i < encoded.length) {
+      decoded.push(0);
+    }
+  }
+  return Uint8Array.from(decoded);
+}
+
+/**
+ * COBS 프레이밍 (0x00으로 구분, 빈 프레임은 무시)
+ */
+function createCobsDecoder(maxFrameSize: number): FrameDecoder {
+  // 인코딩 오버헤드: 254 bytes마다 1 byte + 첫 코드 바이트
+  const maxEncodedSize = maxFrameSize + Math.ceil(maxFrameSize / 254) + 1;
+  let buffer: number[] = [];
+  let discarding = false;
+
+  const push = (bytes: Uint8Array): FrameDecodeResult => {
+    const result: FrameDecodeResult = { frames: [], errors: [] };
+    bytes.forEach((byte) => {
+      if (byte === 0) {
+        if (!discarding && buffer.length > 0) {
+          const frame = cobsDecode(buffer);
+          if (!frame) result.errors.push(invalidFrame('Invalid COBS encoding'));
+          else if (frame.length > maxFrameSize) result.errors.push(tooLarge(maxFrameSize));
+          else result.frames.push(frame);
+        }
+        buffer = [];
+        discarding = false;
+        return;
+      }
+      if (discarding) return;
+
+      buffer.push(byte);
+      if (buffer.length > maxEncodedSize) {
+        result.errors.push(tooLarge(maxFrameSize));
+        buffer = [];
+        discarding = true;
+      }
+    });
+    return result;
+  };
+
+  return {
+    push,
+    reset: () => {
+      buffer = [];
+      discarding = false;
+    },
+  };
+}
+
+/**
+ * 프레이밍 설정에 맞는 조립기 생성
+ */
+export function createFrameDecoder(framing: ClassicFraming): FrameDecoder {
+  const maxFrameSize = framing.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+  switch (framing.type) {
+    case 'delimiter':
+      return createDelimiterDecoder(framing, maxFrameSize);
+    case 'lengthPrefix':
+      return createLengthPrefixDecoder(framing, maxFrameSize);
+    case 'slip':
+      return createSlipDecoder(maxFrameSize);
+    case 'cobs':
+      return createCobsDecoder(maxFrameSize);
+  }
+}
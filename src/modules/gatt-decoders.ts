@@ -0,0 +1,222 @@
+/**
+ * 표준 GATT 특성 디코더 레지스트리
+ * 잘 알려진 특성 UUID의 값을 구조화된 JSON으로 해석합니다
+ */
+
+import type {
+  BatteryLevel,
+  CharacteristicDecoder,
+  CharacteristicDecoderContext,
+  CyclingSpeedCadenceMeasurement,
+  DeviceInformationString,
+  HeartRateMeasurement,
+  TemperatureMeasurement,
+} from '../types/bluetooth-module';
+import { base64ToBytes, utf8Decode } from './encoding';
+import { normalizeUuid } from './uuid';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * 리틀 엔디언 바이트 리더 (범위를 벗어나면 RangeError)
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Characteristic value is too short');
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+
+  uint8(): number {
+    return this.bytes[this.take(1)];
+  }
+
+  uint16(): number {
+    const i = this.take(2);
+    return this.bytes[i] | (this.bytes[i + 1] << 8);
+  }
+
+  uint32(): number {
+    const i = this.take(4);
+    return (this.bytes[i] | (this.bytes[i + 1] << 8) | (this.bytes[i + 2] << 16) | (this.bytes[i + 3] << 24)) >>> 0;
+  }
+
+  /**
+   * IEEE-11073 32-bit FLOAT (24-bit 가수, 8-bit 지수)
+   */
+  float32(): number | null {
+    const raw = this.uint32();
+    const mantissa = ((raw & 0xffffff) << 8) >> 8;
+    const exponent = raw >> 24;
+    // NaN, NRes, +INFINITY, -INFINITY, Reserved
+    if (mantissa >= 0x7ffffe || mantissa <= -0x7ffffe) return null;
+    return Number((mantissa * Math.pow(10, exponent)).toPrecision(7));
+  }
+}
+
+// ============================================================================
+// Built-in Decoders
+// ============================================================================
+
+/**
+ * Heart Rate Measurement (0x2A37)
+ */
+function decodeHeartRateMeasurement(value: Uint8Array): HeartRateMeasurement {
+  const reader = new ByteReader(value);
+  const flags = reader.uint8();
+
+  const heartRate = flags & 0x01 ? reader.uint16() : reader.uint8();
+  const sensorContact = flags & 0x04 ? (flags & 0x02) !== 0 : null;
+  const energyExpended = flags & 0x08 ? reader.uint16() : undefined;
+
+  const rrIntervals: number[] = [];
+  if (flags & 0x10) {
+    while (reader.remaining >= 2) {
+      rrIntervals.push(Math.round((reader.uint16() * 1000) / 1024));
+    }
+  }
+
+  return { heartRate, sensorContact, energyExpended, rrIntervals };
+}
+
+/**
+ * Battery Level (0x2A19)
+ */
+function decodeBatteryLevel(value: Uint8Array): BatteryLevel {
+  return { level: new ByteReader(value).uint8() };
+}
+
+/**
+ * Temperature Measurement (0x2A1C) / Intermediate Temperature (0x2A1E)
+ */
+function decodeTemperatureMeasurement(value: Uint8Array): TemperatureMeasurement {
+  const reader = new ByteReader(value);
+  const flags = reader.uint8();
+
+  const result: TemperatureMeasurement = {
+    temperature: reader.float32(),
+    unit: flags & 0x01 ? 'fahrenheit' : 'celsius',
+  };
+
+  if (flags & 0x02) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const year = String(reader.uint16()).padStart(4, '0');
+    const date = `${year}-${pad(reader.uint8())}-${pad(reader.uint8())}`;
+    const time = `${pad(reader.uint8())}:${pad(reader.uint8())}:${pad(reader.uint8())}`;
+    result.timestamp = `${date}T${time}`;
+  }
+  if (flags & 0x04) {
+    result.temperatureType = reader.uint8();
+  }
+
+  return result;
+}
+
+/**
+ * CSC Measurement (0x2A5B)
+ */
+function decodeCscMeasurement(value: Uint8Array): CyclingSpeedCadenceMeasurement {
+  const reader = new ByteReader(value);
+  const flags = reader.uint8();
+  const result: CyclingSpeedCadenceMeasurement = {};
+
+  if (flags & 0x01) {
+    result.cumulativeWheelRevolutions = reader.uint32();
+    result.lastWheelEventTime = reader.uint16();
+  }
+  if (flags & 0x02) {
+    result.cumulativeCrankRevolutions = reader.uint16();
+    result.lastCrankEventTime = reader.uint16();
+  }
+
+  return result;
+}
+
+/**
+ * UTF-8 문자열 특성 (Device Information)
+ */
+function decodeUtf8String(value: Uint8Array): DeviceInformationString {
+  // 일부 장치는 NUL 종료 문자를 포함합니다
+  const end = value.indexOf(0);
+  return { value: utf8Decode(end === -1 ? value : value.subarray(0, end)) };
+}
+
+/** 내장 디코더 (16-bit UUID → 디코더) */
+const BUILT_IN_DECODERS: Record<string, CharacteristicDecoder> = {
+  '2a37': decodeHeartRateMeasurement,
+  '2a19': decodeBatteryLevel,
+  '2a1c': decodeTemperatureMeasurement,
+  '2a1e': decodeTemperatureMeasurement,
+  '2a5b': decodeCscMeasurement,
+  // Device Information
+  '2a29': decodeUtf8String, // Manufacturer Name String
+  '2a24': decodeUtf8String, // Model Number String
+  '2a25': decodeUtf8String, // Serial Number String
+  '2a27': decodeUtf8String, // Hardware Revision String
+  '2a26': decodeUtf8String, // Firmware Revision String
+  '2a28': decodeUtf8String, // Software Revision String
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const builtInDecoders = new Map<string, CharacteristicDecoder>(
+  Object.entries(BUILT_IN_DECODERS).map(([uuid, decoder]) => [normalizeUuid(uuid), decoder])
+);
+
+/** 앱에서 등록한 디코더 (내장 디코더보다 우선) */
+const customDecoders = new Map<string, CharacteristicDecoder>();
+
+/**
+ * 특성 디코더 등록 (같은 UUID의 내장 디코더를 대체)
+ */
+export function registerCharacteristicDecoder(characteristicUuid: string, decoder: CharacteristicDecoder): void {
+  customDecoders.set(normalizeUuid(characteristicUuid), decoder);
+}
+
+/**
+ * 등록한 특성 디코더 제거 (내장 디코더가 있으면 다시 사용됨)
+ */
+export function unregisterCharacteristicDecoder(characteristicUuid: string): boolean {
+  return customDecoders.delete(normalizeUuid(characteristicUuid));
+}
+
+/**
+ * 특성에 사용할 디코더 조회
+ */
+export function getCharacteristicDecoder(characteristicUuid: string): CharacteristicDecoder | undefined {
+  const uuid = normalizeUuid(characteristicUuid);
+  return customDecoders.get(uuid) ?? builtInDecoders.get(uuid);
+}
+
+/**
+ * Base64 특성 값 디코딩
+ * @returns 해석 값 (디코더가 없거나 해석에 실패하면 undefined)
+ */
+export function decodeCharacteristicValue(value: string, context: CharacteristicDecoderContext): unknown {
+  const decoder = getCharacteristicDecoder(context.characteristicUuid);
+  if (!decoder) return undefined;
+
+  const bytes = base64ToBytes(value);
+  if (!bytes) return undefined;
+
+  try {
+    return decoder(bytes, context);
+  } catch {
+    return undefined;
+  }
+}
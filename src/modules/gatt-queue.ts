@@ -0,0 +1,148 @@
+/**
+ * GATT 작업 큐
+ * 장치별로 GATT 작업을 직렬화하고 작업마다 타임아웃을 적용합니다
+ * (Android BluetoothGatt는 진행 중인 작업이 있으면 새 작업을 무시함)
+ */
+
+import type { BluetoothResult } from '../types/bluetooth-module';
+
+/**
+ * GATT 작업 종류
+ */
+export type GattOperationType = 'discover' | 'read' | 'write' | 'notification' | 'mtu' | 'priority' | 'rssi';
+
+/**
+ * 큐에 대기 중인 작업
+ */
+interface QueuedOperation {
+  type: GattOperationType;
+  timeout: number;
+  run: () => Promise<unknown>;
+  succeed: (value: unknown) => void;
+  fail: (failure: BluetoothResult) => void;
+  reject: (error: unknown) => void;
+  /** 실행 중인 작업 강제 종료 (실행 시작 후 설정됨) */
+  abort?: (failure: BluetoothResult) => void;
+}
+
+/**
+ * 장치별 큐 상태
+ */
+interface DeviceQueue {
+  pending: QueuedOperation[];
+  active: QueuedOperation | null;
+}
+
+/** 장치 ID별 큐 */
+const queues = new Map<string, DeviceQueue>();
+
+/**
+ * 다음 대기 작업 실행
+ */
+function processNext(deviceId: string): void {
+  const queue = queues.get(deviceId);
+  if (!queue || queue.active) return;
+
+  const operation = queue.pending.shift();
+  if (!operation) {
+    queues.delete(deviceId);
+    return;
+  }
+  queue.active = operation;
+
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (settle: () => void): void => {
+    if (finished) return;
+    finished = true;
+    if (timer) clearTimeout(timer);
+    if (queue.active === operation) {
+      queue.active = null;
+    }
+    settle();
+    processNext(deviceId);
+  };
+
+  operation.abort = (failure) => finish(() => operation.fail(failure));
+
+  if (operation.timeout > 0) {
+    timer = setTimeout(() => {
+      finish(() =>
+        operation.fail({
+          success: false,
+          error: 'OPERATION_TIMEOUT',
+          message: `GATT ${operation.type} timed out after ${operation.timeout}ms`,
+        })
+      );
+    }, operation.timeout);
+  }
+
+  operation.run().then(
+    (value) => finish(() => operation.succeed(value)),
+    (error) => finish(() => operation.reject(error))
+  );
+}
+
+/**
+ * GATT 작업을 장치 큐에 추가합니다
+ * 앞선 작업이 끝난 뒤 실행되며, 실행 시작 후 timeout(ms)이 지나면 OPERATION_TIMEOUT으로 실패합니다
+ * @param toFailure 타임아웃/연결 해제 시 실패 결과를 호출자 결과 타입으로 변환
+ */
+export function enqueueGattOperation<T extends BluetoothResult>(
+  deviceId: string,
+  type: GattOperationType,
+  timeout: number,
+  run: () => Promise<T>,
+  toFailure: (failure: BluetoothResult) => T
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let queue = queues.get(deviceId);
+    if (!queue) {
+      queue = { pending: [], active: null };
+      queues.set(deviceId, queue);
+    }
+
+    queue.pending.push({
+      type,
+      timeout,
+      run,
+      succeed: (value) => resolve(value as T),
+      fail: (failure) => resolve(toFailure(failure)),
+      reject,
+    });
+    processNext(deviceId);
+  });
+}
+
+/**
+ * 장치의 실행 중/대기 중 작업을 모두 실패 처리합니다
+ */
+export function failGattOperations(deviceId: string, failure: BluetoothResult): void {
+  const queue = queues.get(deviceId);
+  if (!queue) return;
+  queues.delete(deviceId);
+
+  const pending = queue.pending.splice(0);
+  queue.active?.abort?.(failure);
+  pending.forEach((operation) => operation.fail(failure));
+}
+
+/**
+ * 큐 깊이 (실행 중 + 대기 중 작업 수)
+ * deviceId를 생략하면 모든 장치의 합계를 반환합니다
+ */
+export function getGattQueueDepth(deviceId?: string): number {
+  const depthOf = (queue: DeviceQueue): number => queue.pending.length + (queue.active ? 1 : 0);
+
+  if (deviceId !== undefined) {
+    const queue = queues.get(deviceId);
+    return queue ? depthOf(queue) : 0;
+  }
+
+  let total = 0;
+  queues.forEach((queue) => {
+    total += depthOf(queue);
+  });
+  return total;
+}
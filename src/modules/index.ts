@@ -8,6 +8,7 @@ import { requireNativeModule } from 'expo-modules-core';
 import { Platform } from 'react-native';
 import type {
   BluetoothDevice,
+  BluetoothDeviceType,
   BleDevice,
   ClassicDevice,
   BleService,
@@ -16,9 +17,19 @@ import type {
   BleScanOptions,
   ClassicScanOptions,
   ConnectionOptions,
+  ConnectionPriority,
+  ConnectionSetupStepResult,
   ClassicConnectionOptions,
+  ClassicFraming,
   WriteOptions,
+  LongWriteOptions,
+  LongWriteResult,
+  SendCommandOptions,
+  CommandResult,
+  ReadOptions,
+  GattOperationOptions,
   ReadResult,
+  NotificationEvent,
   BluetoothPermissionStatus,
   BluetoothState,
   BluetoothEvent,
@@ -30,7 +41,37 @@ import type {
   DevicesResult,
   ConnectedDevicesResult,
   BondedDevicesResult,
+  BeaconRegion,
+  RegionMonitoringOptions,
+  RssiMonitoringOptions,
+  RssiResult,
+  PeripheralServiceDefinition,
+  PeripheralOptions,
+  PeripheralResponse,
+  PeripheralNotifyResult,
+  AdvertisingOptions,
+  DeviceRegistryOptions,
+  DiscoveredDevice,
+  DiscoveredDevicesQuery,
 } from '../types/bluetooth-module';
+import { enqueueGattOperation, failGattOperations, getGattQueueDepth as getQueueDepth } from './gatt-queue';
+import type { GattOperationType } from './gatt-queue';
+import { createReconnectionManager } from './reconnection';
+import { createLongWriter } from './long-write';
+import { createFrameDecoder } from './framing';
+import { createClassicCommander } from './classic-command';
+import type { FrameDecoder } from './framing';
+import { base64ToBytes, bytesToBase64, utf8Decode } from './encoding';
+import { parseAdvertisement } from './advertisement';
+import { buildBeaconAdvertisement, parseBeacon } from './beacon';
+import { decodeCharacteristicValue } from './gatt-decoders';
+import { isSameUuid, normalizeUuid } from './uuid';
+import { createRegionMonitor } from './region-monitor';
+import { createRssiMonitor } from './rssi-monitor';
+import { createPeripheralServer } from './peripheral';
+import { createDeviceRegistry } from './device-registry';
+import { compileScanFilter } from './scan-filter';
+import type { CompiledScanFilter } from './scan-filter';
 
 // Lazy 모듈 로드 (크래시 방지)
 let BluetoothModule: any = null;
@@ -53,6 +94,219 @@ function getBluetoothModule() {
   return BluetoothModule === undefined ? null : BluetoothModule;
 }
 
+// ============================================================================
+// Event Correlation
+// ============================================================================
+
+/** 기본 GATT 작업 타임아웃 (ms) */
+const DEFAULT_GATT_TIMEOUT = 10000;
+
+/** 기본 연결 타임아웃 (ms) */
+const DEFAULT_CONNECTION_TIMEOUT = 10000;
+
+/** 기본 ATT MTU */
+const DEFAULT_MTU = 23;
+
+/**
+ * 조건에 맞는 이벤트를 한 번 기다립니다
+ * 네이티브 작업을 시작하기 전에 호출해야 응답 이벤트를 놓치지 않습니다
+ * 타임아웃 또는 cancel 시 null로 resolve 됩니다 (timeout <= 0 이면 무제한)
+ */
+function waitForEvent(
+  predicate: (event: BluetoothEvent) => boolean,
+  timeout: number
+): { promise: Promise<BluetoothEvent | null>; cancel: () => void } {
+  let settled = false;
+  let subscription: { remove: () => void } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let resolvePromise: (event: BluetoothEvent | null) => void = () => {};
+
+  const promise = new Promise<BluetoothEvent | null>((resolve) => {
+    resolvePromise = resolve;
+  });
+
+  const settle = (event: BluetoothEvent | null): void => {
+    if (settled) return;
+    settled = true;
+    if (timer) clearTimeout(timer);
+    subscription?.remove();
+    resolvePromise(event);
+  };
+
+  subscription = addBluetoothEventListener((event) => {
+    if (predicate(event)) {
+      settle(event);
+    }
+  });
+  if (timeout > 0) {
+    timer = setTimeout(() => settle(null), timeout);
+  }
+
+  return { promise, cancel: () => settle(null) };
+}
+
+/**
+ * 네이티브 작업을 시작하고 완료 이벤트를 기다립니다
+ * 시작이 실패하거나 isImmediate(result)가 true면 event는 null,
+ * 타임아웃이면 result.success는 true이고 event는 null
+ */
+async function startAndWait(
+  start: () => Promise<BluetoothResult>,
+  predicate: (event: BluetoothEvent) => boolean,
+  timeout: number,
+  isImmediate?: (result: BluetoothResult) => boolean
+): Promise<{ result: BluetoothResult; event: BluetoothEvent | null }> {
+  const waiter = waitForEvent(predicate, timeout);
+
+  let result: BluetoothResult;
+  try {
+    result = await start();
+  } catch (error) {
+    waiter.cancel();
+    throw error;
+  }
+  if (!result.success || isImmediate?.(result)) {
+    waiter.cancel();
+    return { result, event: null };
+  }
+
+  return { result, event: await waiter.promise };
+}
+
+/**
+ * 특정 특성에 대한 이벤트인지 확인 (data.serviceUuid / data.characteristicUuid 기준)
+ */
+function isCharacteristicEvent(
+  event: BluetoothEvent,
+  deviceId: string,
+  serviceUuid: string,
+  characteristicUuid: string
+): boolean {
+  return (
+    event.deviceId === deviceId &&
+    isSameUuid(event.data?.serviceUuid as string | undefined, serviceUuid) &&
+    isSameUuid(event.data?.characteristicUuid as string | undefined, characteristicUuid)
+  );
+}
+
+/**
+ * 타임아웃 실패 결과
+ */
+function timeoutFailure(operation: string, timeout: number): BluetoothResult {
+  return { success: false, error: 'OPERATION_TIMEOUT', message: `${operation} timed out after ${timeout}ms` };
+}
+
+// ============================================================================
+// GATT Operation Queue
+// ============================================================================
+
+/** 내부 상태 갱신용 구독 (GATT 큐, 재연결, MTU, RSSI 모니터링, 발견 장치 레지스트리) */
+let internalEventSubscription: { remove: () => void } | null = null;
+
+/** 장치별 협상된 MTU (mtuChanged, requestMtu, 연결 정보) */
+const deviceMtus = new Map<string, number>();
+
+/**
+ * 내부 이벤트 리스너 초기화
+ * 연결 해제 시 대기 중인 GATT 작업과 Classic 명령을 실패 처리하고 RSSI 모니터링을 중지하며,
+ * 재연결 관리자와 발견 장치 레지스트리에 이벤트를 전달하고 협상된 MTU를 기록합니다
+ */
+function ensureInternalEventListener(): void {
+  if (internalEventSubscription) return;
+  internalEventSubscription = addBluetoothEventListener((event) => {
+    if (event.type === 'disconnected' && event.deviceId) {
+      const failure: BluetoothResult = {
+        success: false,
+        error: 'DEVICE_NOT_CONNECTED',
+        message: 'Device disconnected',
+      };
+      deviceMtus.delete(event.deviceId);
+      failGattOperations(event.deviceId, failure);
+      classicCommander.failDevice(event.deviceId, failure);
+      rssiMonitor.handleEvent(event);
+    }
+    if (event.type === 'mtuChanged' && event.deviceId && typeof event.data?.mtu === 'number') {
+      deviceMtus.set(event.deviceId, event.data.mtu);
+    }
+    reconnection.handleEvent(event);
+    deviceRegistry.handleEvent(event);
+  });
+}
+
+/**
+ * 장치의 현재 MTU (협상 전이면 23)
+ */
+export function getMtu(deviceId: string): number {
+  return deviceMtus.get(deviceId) ?? DEFAULT_MTU;
+}
+
+/**
+ * 장치 큐에 GATT 작업 추가
+ */
+function queueGattOperation<T extends BluetoothResult>(
+  deviceId: string,
+  type: GattOperationType,
+  timeout: number,
+  run: () => Promise<T>,
+  toFailure: (failure: BluetoothResult) => T
+): Promise<T> {
+  ensureInternalEventListener();
+  return enqueueGattOperation(deviceId, type, timeout, run, toFailure);
+}
+
+/**
+ * GATT 큐 깊이 조회 (실행 중 + 대기 중 작업 수)
+ * deviceId를 생략하면 모든 장치의 합계
+ */
+export function getGattQueueDepth(deviceId?: string): number {
+  return getQueueDepth(deviceId);
+}
+
+// ============================================================================
+// Reconnection
+// ============================================================================
+
+/**
+ * 자동 재연결 관리자
+ */
+const reconnection = createReconnectionManager({
+  connect: (deviceId, type, options) =>
+    type === 'ble' ? connectBle(deviceId, options) : connectClassic(deviceId, options),
+  cancel: async (deviceId) => {
+    const module = getBluetoothModule();
+    if (module) {
+      await cancelConnectionAttempt(module, deviceId);
+    }
+  },
+  setNotification: (deviceId, serviceUuid, characteristicUuid, enable) =>
+    setNotification(deviceId, serviceUuid, characteristicUuid, enable),
+  emit: emitLocalEvent,
+});
+
+/**
+ * 연결 성공 후 재연결 정책 등록
+ */
+function manageReconnection(deviceId: string, type: BluetoothDeviceType, options?: ConnectionOptions): void {
+  if (!options?.reconnect) return;
+  ensureInternalEventListener();
+  reconnection.manage(deviceId, type, options);
+}
+
+/**
+ * 자동 재연결 중지 (진행 중인 재연결 시도 취소 포함)
+ * @returns 재연결 관리 대상이었는지 여부
+ */
+export function stopReconnection(deviceId: string): boolean {
+  return reconnection.release(deviceId);
+}
+
+/**
+ * 재연결 진행 중 여부
+ */
+export function isReconnecting(deviceId: string): boolean {
+  return reconnection.isReconnecting(deviceId);
+}
+
 // ============================================================================
 // State & Permission
 // ============================================================================
@@ -119,28 +373,191 @@ export async function requestEnableBluetooth(): Promise<BluetoothResult> {
 // BLE Scanning
 // ============================================================================
 
+/**
+ * 진행 중인 사용자 스캔
+ * 네이티브 스캐너는 하나뿐이므로 사용자 스캔(startBleScan)과 영역 모니터의 스캔을 여기서 조정합니다
+ * 영역 모니터링 중에 시작한 사용자 스캔은 모니터의 스캔을 잠시 대신하고, 끝나면 모니터의 스캔을 다시 시작합니다
+ * 스캔 시간은 네이티브 타이머 대신 TS에서 처리합니다 (교체된 스캔의 타이머가 다음 스캔을 멈추지 않도록)
+ */
+interface UserScan {
+  options: BleScanOptions;
+  /** 발견 이벤트를 TS에서 다시 평가할 필터 (스캔이 끝나면 함께 해제) */
+  filter: CompiledScanFilter;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** 진행 중인 사용자 스캔 (없으면 null) */
+let userScan: UserScan | null = null;
+
+/** 영역 모니터의 스캔 옵션 (모니터링 중이 아니면 null) */
+let regionScanOptions: BleScanOptions | null = null;
+
+/** 영역 모니터의 스캔이 네이티브에서 진행 중인지 */
+let isRegionScanActive = false;
+
+/** 스캔 교체로 네이티브가 보내는, Web에 전달하지 않을 scanStopped 이벤트 수 */
+let replacedScanStops = 0;
+
 /**
  * BLE 장치 스캔 시작
+ * 필터 조건은 양쪽 플랫폼 모두 TS에서 평가하며, 가능한 조건은 네이티브 스캐너에도 전달합니다
+ * (Android는 ScanFilter, iOS는 서비스 UUID만)
+ * 영역 모니터링 중에는 비콘 감지가 끊기지 않도록 네이티브 필터 없이 중복 허용 모드로 스캔합니다
  */
-export async function startBleScan(options?: BleScanOptions): Promise<ScanStartResult> {
+export async function startBleScan(options: BleScanOptions = {}): Promise<ScanStartResult> {
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.startBleScan(options || {});
+
+  let filter: CompiledScanFilter;
+  try {
+    filter = compileScanFilter(options);
+  } catch (error) {
+    const message = `filter: ${error instanceof Error ? error.message : String(error)}`;
+    return { success: false, error: 'INVALID_INPUT', message, field: 'filter' };
+  }
+
+  if (userScan?.timer) clearTimeout(userScan.timer);
+  const scan: UserScan = { options, filter, timer: null };
+  userScan = scan;
+
+  // 영역 모니터의 스캔을 대신하는 것이므로 사용자에게 scanStopped를 보내지 않음
+  if (isRegionScanActive) {
+    isRegionScanActive = false;
+    replacedScanStops++;
+  }
+  const { scanMode, allowDuplicates } = options;
+  const nativeOptions = regionScanOptions
+    ? { timeout: 0, scanMode, allowDuplicates: true }
+    : {
+        timeout: 0,
+        scanMode,
+        allowDuplicates,
+        serviceUUIDs: filter.nativeServiceUUIDs ?? undefined,
+        filters: filter.nativeFilters ?? undefined,
+      };
+  ensureInternalEventListener();
+  const result: ScanStartResult = await module.startBleScan(nativeOptions);
+  if (userScan !== scan) return result;
+
+  if (!result.success) {
+    userScan = null;
+    if (regionScanOptions) await resumeRegionScan();
+    return result;
+  }
+  if (options.timeout && options.timeout > 0) {
+    scan.timer = setTimeout(() => {
+      if (userScan === scan) stopBleScan().catch(() => undefined);
+    }, options.timeout);
+  }
+  return result;
+}
+
+/**
+ * 진행 중인 사용자 스캔의 필터와 일치하지 않는 BLE 발견 이벤트인지 확인
+ */
+function isExcludedByScanFilter(event: BluetoothEvent): boolean {
+  const device = event.data?.device;
+  if (!userScan || event.type !== 'deviceDiscovered' || device?.type !== 'ble') return false;
+  return !userScan.filter.matches(device, event.data?.parsedAdvertisement);
 }
 
 /**
  * BLE 장치 스캔 중지
+ * 영역 모니터의 스캔은 중지하지 않습니다 (사용자 스캔이 끝나면 모니터의 스캔을 다시 시작)
  */
 export async function stopBleScan(): Promise<BluetoothResult> {
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
+
+  const scan = userScan;
+  userScan = null;
+  if (scan?.timer) clearTimeout(scan.timer);
+
+  if (regionScanOptions) {
+    if (scan) await resumeRegionScan();
+    return { success: true };
+  }
+  return await module.stopBleScan();
+}
+
+/**
+ * 영역 모니터의 스캔 시작 (사용자 스캔이 진행 중이면 그 스캔이 끝난 뒤 시작)
+ */
+async function startRegionScan(options: BleScanOptions): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  regionScanOptions = options;
+  if (userScan) return { success: true };
+
+  const result: ScanStartResult = await module.startBleScan({ ...options, timeout: 0 });
+  isRegionScanActive = result.success;
+  if (!result.success) regionScanOptions = null;
+  return result;
+}
+
+/**
+ * 영역 모니터의 스캔 중지 (사용자 스캔은 유지)
+ */
+async function stopRegionScan(): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  regionScanOptions = null;
+  if (!isRegionScanActive) return { success: true };
+  isRegionScanActive = false;
   return await module.stopBleScan();
 }
 
+/**
+ * 사용자 스캔이 끝난 뒤 영역 모니터의 스캔 재개 (실패하면 error 이벤트로 알림)
+ */
+async function resumeRegionScan(): Promise<void> {
+  const module = getBluetoothModule();
+  const options = regionScanOptions;
+  if (!module || !options) return;
+
+  const result: ScanStartResult = await module
+    .startBleScan({ ...options, timeout: 0 })
+    .catch((error: unknown): ScanStartResult => ({
+      success: false,
+      error: 'SCAN_FAILED',
+      message: error instanceof Error ? error.message : undefined,
+    }));
+  // 재개하는 동안 새 사용자 스캔이 시작되었거나 모니터링이 중지됨
+  if (userScan || regionScanOptions !== options) return;
+
+  isRegionScanActive = result.success;
+  if (!result.success) {
+    emitLocalEvent({
+      type: 'error',
+      data: {
+        operation: 'regionMonitoring',
+        errorCode: result.error ?? 'SCAN_FAILED',
+        error: result.message || 'Failed to resume the region monitoring scan',
+      },
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * 스캔 교체로 발생한 scanStopped 이벤트인지 확인 (확인된 이벤트는 한 번만 걸러냄)
+ */
+function isReplacedScanStop(event: BluetoothEvent): boolean {
+  if (event.type !== 'scanStopped' || replacedScanStops === 0) return false;
+  replacedScanStops--;
+  return true;
+}
+
 /**
  * BLE 스캔 중 여부
  */
@@ -152,6 +569,70 @@ export async function isScanning(): Promise<boolean> {
   return await module.isScanning();
 }
 
+// ============================================================================
+// Beacon Region Monitoring
+// ============================================================================
+
+/**
+ * 비콘 영역 모니터
+ */
+const regionMonitor = createRegionMonitor({
+  startScan: startRegionScan,
+  stopScan: stopRegionScan,
+  startBeaconRanging:
+    Platform.OS === 'ios'
+      ? async (uuids) => {
+          const module = getBluetoothModule();
+          if (!module) {
+            return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+          }
+          return await module.startBeaconRanging(uuids);
+        }
+      : undefined,
+  stopBeaconRanging:
+    Platform.OS === 'ios'
+      ? async () => {
+          const module = getBluetoothModule();
+          if (!module) {
+            return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+          }
+          return await module.stopBeaconRanging();
+        }
+      : undefined,
+  addListener: addUnfilteredEventListener,
+  emit: emitLocalEvent,
+});
+
+/**
+ * 비콘 영역 모니터링 시작
+ * BLE 스캔을 중복 허용 모드로 시작하며, iOS에서는 iBeacon 영역에 CoreLocation 레인징을 함께 사용합니다
+ */
+export async function startRegionMonitoring(
+  regions: BeaconRegion[],
+  options?: RegionMonitoringOptions
+): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+  return await regionMonitor.start(regions, options);
+}
+
+/**
+ * 비콘 영역 모니터링 중지 (identifiers 생략 시 전체)
+ * 모니터링 중인 영역이 남지 않으면 스캔도 중지합니다
+ */
+export async function stopRegionMonitoring(identifiers?: string[]): Promise<BluetoothResult> {
+  return await regionMonitor.stop(identifiers);
+}
+
+/**
+ * 모니터링 중인 영역 목록 (inside = 현재 영역 안에 있는지)
+ */
+export function getMonitoredRegions(): Array<{ region: BeaconRegion; inside: boolean }> {
+  return regionMonitor.getRegions();
+}
+
 // ============================================================================
 // Classic Bluetooth Scanning (Android only)
 // ============================================================================
@@ -167,6 +648,7 @@ export async function startClassicScan(options?: ClassicScanOptions): Promise<Sc
   if (Platform.OS !== 'android') {
     return { success: false, error: 'OPERATION_NOT_SUPPORTED', message: 'Classic Bluetooth scan is only supported on Android' };
   }
+  ensureInternalEventListener();
   return await module.startClassicScan(options || {});
 }
 
@@ -198,23 +680,211 @@ export async function getBondedDevices(): Promise<BondedDevicesResult> {
   return await module.getBondedDevices();
 }
 
+// ============================================================================
+// Device Registry
+// ============================================================================
+
+/**
+ * 발견 장치 레지스트리 (BLE/Classic 스캔 결과를 장치별로 보관)
+ */
+const deviceRegistry = createDeviceRegistry({ emit: emitLocalEvent });
+
+/**
+ * 스캔으로 발견된 장치 조회 (페이지를 다시 불러와도 유지됨)
+ */
+export function getDiscoveredDevices(query?: DiscoveredDevicesQuery): DiscoveredDevice[] {
+  return deviceRegistry.query(query);
+}
+
+/**
+ * 발견 장치 레지스트리 설정 (제거 시간, RSSI 기록 개수, 최대 장치 수)
+ */
+export function configureDeviceRegistry(options: DeviceRegistryOptions): void {
+  deviceRegistry.configure(options);
+}
+
 // ============================================================================
 // Connection
 // ============================================================================
 
+/**
+ * 연결 시도를 시작하고 'connected' 이벤트를 기다립니다
+ * 타임아웃이 지나면 연결 시도를 취소하고 CONNECTION_TIMEOUT을 반환합니다
+ */
+async function awaitConnection(
+  module: any,
+  deviceId: string,
+  type: BluetoothDeviceType,
+  start: () => Promise<ConnectResult>,
+  timeout: number
+): Promise<ConnectResult> {
+  const { result, event } = await startAndWait(
+    start,
+    (e) =>
+      e.deviceId === deviceId &&
+      (e.type === 'connected' || e.type === 'connectionFailed' || e.type === 'disconnected'),
+    timeout
+  );
+  if (!result.success) return result;
+
+  if (!event) {
+    await cancelConnectionAttempt(module, deviceId);
+    return { success: false, error: 'CONNECTION_TIMEOUT', message: `Connection timed out after ${timeout}ms` };
+  }
+  if (event.type !== 'connected') {
+    return { success: false, error: 'CONNECTION_FAILED', message: event.data?.error ?? 'Connection failed' };
+  }
+
+  return {
+    success: true,
+    connection: {
+      deviceId,
+      state: 'connected',
+      type,
+      connectedAt: event.timestamp,
+    },
+  };
+}
+
+/**
+ * 진행 중인 연결 시도 취소 (연결된 경우 연결 해제)
+ */
+async function cancelConnectionAttempt(module: any, deviceId: string): Promise<void> {
+  try {
+    await module.cancelConnection(deviceId);
+  } catch (error) {
+    console.warn('[CustomBluetooth] Failed to cancel connection:', error);
+  }
+}
+
+/**
+ * 연결 후 설정 파이프라인 결과
+ */
+interface ConnectionSetupOutcome {
+  steps: ConnectionSetupStepResult[];
+  mtu?: number;
+  services?: DiscoverServicesResult['services'];
+  /** 연결을 포기해야 하는 실패 (타임아웃, 서비스 발견 실패) */
+  failure?: ConnectResult;
+}
+
+/**
+ * 연결 후 설정 파이프라인 실행
+ * requestMtu → connectionPriority → discoverServices → subscribe 순서로 실행하며,
+ * 연결 타임아웃(deadline)을 넘기면 CONNECTION_TIMEOUT으로 중단합니다
+ * MTU/우선순위/알림 단계의 실패는 단계 결과에만 기록합니다
+ */
+async function runConnectionSetup(
+  deviceId: string,
+  options: ConnectionOptions,
+  deadline: number,
+  timeout: number
+): Promise<ConnectionSetupOutcome> {
+  const steps: ConnectionSetupStepResult[] = [];
+  const outcome: ConnectionSetupOutcome = { steps };
+  const timedOut: ConnectResult = {
+    success: false,
+    error: 'CONNECTION_TIMEOUT',
+    message: `Connection timed out after ${timeout}ms`,
+  };
+  const stepOptions = (): GattOperationOptions => ({
+    timeout: timeout > 0 ? Math.max(deadline - Date.now(), 1) : DEFAULT_GATT_TIMEOUT,
+  });
+  const isDeadlineExceeded = (result: BluetoothResult): boolean =>
+    timeout > 0 && result.error === 'OPERATION_TIMEOUT';
+
+  if (options.requestMtu !== undefined) {
+    const result = await requestMtu(deviceId, options.requestMtu, stepOptions());
+    if (isDeadlineExceeded(result)) return { ...outcome, failure: timedOut };
+    steps.push({ step: 'requestMtu', ...result });
+    outcome.mtu = result.mtu;
+  }
+
+  if (options.connectionPriority !== undefined) {
+    const result = await requestConnectionPriority(deviceId, options.connectionPriority, stepOptions());
+    if (isDeadlineExceeded(result)) return { ...outcome, failure: timedOut };
+    steps.push({ step: 'connectionPriority', ...result });
+  }
+
+  const subscriptions = options.subscribe ?? [];
+  if (options.discoverServices || subscriptions.length > 0) {
+    const result = await discoverServices(deviceId, stepOptions());
+    if (isDeadlineExceeded(result)) return { ...outcome, failure: timedOut };
+    if (!result.success) return { ...outcome, failure: result };
+    steps.push({ step: 'discoverServices', success: true });
+    outcome.services = result.services;
+  }
+
+  for (const { serviceUuid, characteristicUuid } of subscriptions) {
+    const result = await setNotification(deviceId, serviceUuid, characteristicUuid, true, stepOptions());
+    if (isDeadlineExceeded(result)) return { ...outcome, failure: timedOut };
+    steps.push({
+      step: 'subscribe',
+      serviceUuid: normalizeUuid(serviceUuid),
+      characteristicUuid: normalizeUuid(characteristicUuid),
+      ...result,
+    });
+  }
+
+  return outcome;
+}
+
 /**
  * BLE 장치 연결
+ * 'connected' 이벤트를 기다린 뒤 연결 후 설정(requestMtu, connectionPriority, discoverServices, subscribe)을
+ * 모두 마치고 resolve 합니다
  */
 export async function connectBle(deviceId: string, options?: ConnectionOptions): Promise<ConnectResult> {
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.connectBle(deviceId, options || {});
+
+  // 연결 직후 mtuChanged도 기록되도록 내부 리스너 먼저 등록
+  ensureInternalEventListener();
+
+  const connectOptions = options || {};
+  const timeout = connectOptions.timeout ?? DEFAULT_CONNECTION_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  const connected = await awaitConnection(
+    module,
+    deviceId,
+    'ble',
+    () => module.connectBle(deviceId, connectOptions),
+    timeout
+  );
+  if (!connected.success) {
+    return connected;
+  }
+
+  const setup = await runConnectionSetup(deviceId, connectOptions, deadline, timeout);
+  if (setup.failure) {
+    await cancelConnectionAttempt(module, deviceId);
+    return { ...setup.failure, setup: setup.steps };
+  }
+
+  manageReconnection(deviceId, 'ble', connectOptions);
+
+  const result: ConnectResult = { ...connected };
+  if (result.connection && setup.mtu !== undefined) {
+    result.connection = { ...result.connection, mtu: setup.mtu };
+  }
+  if (result.connection?.mtu !== undefined) {
+    deviceMtus.set(deviceId, result.connection.mtu);
+  }
+  if (setup.services) {
+    result.services = setup.services;
+  }
+  if (setup.steps.length > 0) {
+    result.setup = setup.steps;
+  }
+  return result;
 }
 
 /**
  * Classic Bluetooth 장치 연결 (Android only)
+ * 'connected' 이벤트까지 기다린 뒤 resolve 합니다
  */
 export async function connectClassic(address: string, options?: ClassicConnectionOptions): Promise<ConnectResult> {
   const module = getBluetoothModule();
@@ -224,18 +894,47 @@ export async function connectClassic(address: string, options?: ClassicConnectio
   if (Platform.OS !== 'android') {
     return { success: false, error: 'OPERATION_NOT_SUPPORTED', message: 'Classic Bluetooth is only supported on Android' };
   }
-  return await module.connectClassic(address, options || {});
+
+  const timeout = options?.timeout ?? DEFAULT_CONNECTION_TIMEOUT;
+  const { framing, ...classicOptions } = { ...options };
+  if (classicOptions.uuid) {
+    classicOptions.uuid = normalizeUuid(classicOptions.uuid);
+  }
+
+  // 연결 직후 수신 데이터도 조립되도록 연결 전에 프레이밍 설정
+  setClassicFraming(address, framing);
+  const connected = await awaitConnection(
+    module,
+    address,
+    'classic',
+    () => module.connectClassic(address, classicOptions),
+    timeout
+  );
+  if (connected.success) {
+    manageReconnection(address, 'classic', options);
+  } else {
+    setClassicFraming(address, undefined);
+  }
+  return connected;
 }
 
 /**
  * 장치 연결 해제
+ * 사용자가 직접 해제하는 것이므로 자동 재연결도 중지합니다
  */
 export async function disconnect(deviceId: string): Promise<BluetoothResult> {
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.disconnect(deviceId);
+  const wasReconnecting = reconnection.isReconnecting(deviceId);
+  reconnection.release(deviceId);
+  const result: BluetoothResult = await module.disconnect(deviceId);
+  // 재연결 대기 중에는 연결이 없으므로 재연결 취소를 성공으로 간주
+  if (!result.success && result.error === 'DEVICE_NOT_CONNECTED' && wasReconnecting) {
+    return { success: true };
+  }
+  return result;
 }
 
 /**
@@ -246,6 +945,7 @@ export async function disconnectAll(): Promise<BluetoothResult> {
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
+  reconnection.releaseAll();
   return await module.disconnectAll();
 }
 
@@ -277,32 +977,105 @@ export async function getConnectedDevices(): Promise<ConnectedDevicesResult> {
 
 /**
  * BLE 서비스 발견
+ * 'servicesDiscovered' 이벤트를 기다려 발견된 서비스 목록으로 resolve 합니다
  */
-export async function discoverServices(deviceId: string): Promise<DiscoverServicesResult> {
+export async function discoverServices(
+  deviceId: string,
+  options?: GattOperationOptions
+): Promise<DiscoverServicesResult> {
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.discoverServices(deviceId);
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation<DiscoverServicesResult>(
+    deviceId,
+    'discover',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.discoverServices(deviceId),
+        (e) => e.deviceId === deviceId && (e.type === 'servicesDiscovered' || e.type === 'disconnected'),
+        timeout
+      );
+      if (!result.success) return result;
+      if (!event) return timeoutFailure('Service discovery', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      return { success: true, services: event.data?.services ?? [] };
+    },
+    (failure) => failure
+  );
 }
 
 /**
  * BLE 특성 읽기
+ * 네이티브 읽기를 시작한 뒤 같은 장치/서비스/특성의 'characteristicRead' 이벤트를 기다려 실제 값으로 resolve 합니다
  */
 export async function readCharacteristic(
   deviceId: string,
   serviceUuid: string,
-  characteristicUuid: string
+  characteristicUuid: string,
+  options?: ReadOptions
 ): Promise<ReadResult & BluetoothResult> {
+  serviceUuid = normalizeUuid(serviceUuid);
+  characteristicUuid = normalizeUuid(characteristicUuid);
+
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE', deviceId, value: '', timestamp: 0 };
   }
-  return await module.readCharacteristic(deviceId, serviceUuid, characteristicUuid);
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  const toFailure = (failure: BluetoothResult): ReadResult & BluetoothResult => ({
+    ...failure,
+    deviceId,
+    value: '',
+    timestamp: 0,
+  });
+
+  return queueGattOperation(
+    deviceId,
+    'read',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.readCharacteristic(deviceId, serviceUuid, characteristicUuid),
+        (e) => {
+          if (e.deviceId !== deviceId) return false;
+          if (e.type === 'characteristicRead') {
+            const read = e.data?.result;
+            return isSameUuid(read?.serviceUuid, serviceUuid) && isSameUuid(read?.characteristicUuid, characteristicUuid);
+          }
+          if (e.type === 'error' && e.data?.errorCode === 'READ_FAILED') {
+            return isCharacteristicEvent(e, deviceId, serviceUuid, characteristicUuid);
+          }
+          return e.type === 'disconnected';
+        },
+        timeout
+      );
+      if (!result.success) return toFailure(result);
+      if (!event) return toFailure(timeoutFailure('Read', timeout));
+      if (event.type === 'disconnected') {
+        return { ...toFailure({ success: false, error: 'DEVICE_NOT_CONNECTED' }), timestamp: event.timestamp };
+      }
+      if (event.type === 'error') {
+        return {
+          ...toFailure({ success: false, error: 'READ_FAILED', message: event.data?.error }),
+          timestamp: event.timestamp,
+        };
+      }
+
+      const read = event.data?.result as ReadResult;
+      return { success: true, ...read };
+    },
+    toFailure
+  );
 }
 
 /**
  * BLE 특성 쓰기
+ * Write with response는 'characteristicWritten' 이벤트까지 기다립니다
  */
 export async function writeCharacteristic(
   deviceId: string,
@@ -311,44 +1084,472 @@ export async function writeCharacteristic(
   value: string,
   options?: WriteOptions
 ): Promise<BluetoothResult> {
+  serviceUuid = normalizeUuid(serviceUuid);
+  characteristicUuid = normalizeUuid(characteristicUuid);
+
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.writeCharacteristic(deviceId, serviceUuid, characteristicUuid, value, options || {});
+
+  const { timeout = DEFAULT_GATT_TIMEOUT, ...writeOptions } = options || {};
+  const withResponse = writeOptions.withResponse ?? true;
+
+  return queueGattOperation(
+    deviceId,
+    'write',
+    timeout,
+    async () => {
+      if (!withResponse) {
+        return await module.writeCharacteristic(deviceId, serviceUuid, characteristicUuid, value, writeOptions);
+      }
+
+      const { result, event } = await startAndWait(
+        () => module.writeCharacteristic(deviceId, serviceUuid, characteristicUuid, value, writeOptions),
+        (e) =>
+          (e.type === 'characteristicWritten' && isCharacteristicEvent(e, deviceId, serviceUuid, characteristicUuid)) ||
+          (e.type === 'disconnected' && e.deviceId === deviceId),
+        timeout
+      );
+      if (!result.success) return result;
+      if (!event) return timeoutFailure('Write', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      if (event.data?.success === false) {
+        return { success: false, error: 'WRITE_FAILED', message: event.data?.error };
+      }
+      return { success: true };
+    },
+    (failure) => failure
+  );
 }
 
 /**
- * BLE 알림 활성화/비활성화
+ * 특정 디스크립터에 대한 이벤트인지 확인 (data.serviceUuid / characteristicUuid / descriptorUuid 기준)
  */
-export async function setNotification(
+function isDescriptorEvent(
+  event: BluetoothEvent,
   deviceId: string,
   serviceUuid: string,
   characteristicUuid: string,
-  enable: boolean
-): Promise<BluetoothResult> {
+  descriptorUuid: string
+): boolean {
+  return (
+    isCharacteristicEvent(event, deviceId, serviceUuid, characteristicUuid) &&
+    isSameUuid(event.data?.descriptorUuid as string | undefined, descriptorUuid)
+  );
+}
+
+/**
+ * BLE 디스크립터 읽기
+ * 'descriptorRead' 이벤트를 기다려 실제 값으로 resolve 합니다
+ */
+export async function readDescriptor(
+  deviceId: string,
+  serviceUuid: string,
+  characteristicUuid: string,
+  descriptorUuid: string,
+  options?: ReadOptions
+): Promise<ReadResult & BluetoothResult> {
+  serviceUuid = normalizeUuid(serviceUuid);
+  characteristicUuid = normalizeUuid(characteristicUuid);
+  descriptorUuid = normalizeUuid(descriptorUuid);
+
   const module = getBluetoothModule();
   if (!module) {
-    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE', deviceId, value: '', timestamp: 0 };
   }
-  return await module.setNotification(deviceId, serviceUuid, characteristicUuid, enable);
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  const toFailure = (failure: BluetoothResult): ReadResult & BluetoothResult => ({
+    ...failure,
+    deviceId,
+    value: '',
+    timestamp: 0,
+  });
+
+  return queueGattOperation(
+    deviceId,
+    'read',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.readDescriptor(deviceId, serviceUuid, characteristicUuid, descriptorUuid),
+        (e) => {
+          if (e.deviceId !== deviceId) return false;
+          if (e.type === 'descriptorRead') {
+            const read = e.data?.result;
+            return (
+              isSameUuid(read?.serviceUuid, serviceUuid) &&
+              isSameUuid(read?.characteristicUuid, characteristicUuid) &&
+              isSameUuid(read?.descriptorUuid, descriptorUuid)
+            );
+          }
+          if (e.type === 'error' && e.data?.errorCode === 'READ_FAILED') {
+            return isDescriptorEvent(e, deviceId, serviceUuid, characteristicUuid, descriptorUuid);
+          }
+          return e.type === 'disconnected';
+        },
+        timeout
+      );
+      if (!result.success) return toFailure(result);
+      if (!event) return toFailure(timeoutFailure('Descriptor read', timeout));
+      if (event.type === 'disconnected') {
+        return { ...toFailure({ success: false, error: 'DEVICE_NOT_CONNECTED' }), timestamp: event.timestamp };
+      }
+      if (event.type === 'error') {
+        return {
+          ...toFailure({ success: false, error: 'READ_FAILED', message: event.data?.error }),
+          timestamp: event.timestamp,
+        };
+      }
+
+      const read = event.data?.result as ReadResult;
+      return { success: true, ...read };
+    },
+    toFailure
+  );
 }
 
 /**
- * MTU 크기 요청 (Android only)
+ * BLE 디스크립터 쓰기
+ * 'descriptorWritten' 이벤트까지 기다립니다 (CCCD는 setNotification 사용)
  */
-export async function requestMtu(deviceId: string, mtu: number): Promise<MtuResult> {
+export async function writeDescriptor(
+  deviceId: string,
+  serviceUuid: string,
+  characteristicUuid: string,
+  descriptorUuid: string,
+  value: string,
+  options?: GattOperationOptions
+): Promise<BluetoothResult> {
+  serviceUuid = normalizeUuid(serviceUuid);
+  characteristicUuid = normalizeUuid(characteristicUuid);
+  descriptorUuid = normalizeUuid(descriptorUuid);
+
   const module = getBluetoothModule();
   if (!module) {
     return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
   }
-  return await module.requestMtu(deviceId, mtu);
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation(
+    deviceId,
+    'write',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.writeDescriptor(deviceId, serviceUuid, characteristicUuid, descriptorUuid, value),
+        (e) =>
+          (e.type === 'descriptorWritten' &&
+            isDescriptorEvent(e, deviceId, serviceUuid, characteristicUuid, descriptorUuid)) ||
+          (e.type === 'disconnected' && e.deviceId === deviceId),
+        timeout
+      );
+      if (!result.success) return result;
+      if (!event) return timeoutFailure('Descriptor write', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      if (event.data?.success === false) {
+        return { success: false, error: 'WRITE_FAILED', message: event.data?.error };
+      }
+      return { success: true };
+    },
+    (failure) => failure
+  );
 }
 
-// ============================================================================
+/**
+ * 긴 쓰기 실행기
+ */
+const longWriter = createLongWriter({
+  write: writeCharacteristic,
+  getMtu,
+  emit: emitLocalEvent,
+});
+
+/**
+ * BLE 긴 쓰기
+ * 현재 MTU(또는 prepared 방식은 512 bytes) 단위로 나눠 순서대로 쓰며, 진행 상황을 'writeProgress' 이벤트로 보냅니다
+ * 청크는 각각 GATT 큐를 거치므로 다른 작업이 사이에 실행될 수 있습니다
+ */
+export async function writeLong(
+  deviceId: string,
+  serviceUuid: string,
+  characteristicUuid: string,
+  value: string,
+  options?: LongWriteOptions
+): Promise<LongWriteResult> {
+  if (!getBluetoothModule()) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+  return longWriter.write(deviceId, normalizeUuid(serviceUuid), normalizeUuid(characteristicUuid), value, options);
+}
+
+/**
+ * BLE 알림 활성화/비활성화
+ * 'notificationStateChanged' 이벤트(CCCD 쓰기 완료)까지 기다립니다
+ */
+export async function setNotification(
+  deviceId: string,
+  serviceUuid: string,
+  characteristicUuid: string,
+  enable: boolean,
+  options?: GattOperationOptions
+): Promise<BluetoothResult> {
+  serviceUuid = normalizeUuid(serviceUuid);
+  characteristicUuid = normalizeUuid(characteristicUuid);
+
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation(
+    deviceId,
+    'notification',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.setNotification(deviceId, serviceUuid, characteristicUuid, enable),
+        (e) =>
+          (e.type === 'notificationStateChanged' && isCharacteristicEvent(e, deviceId, serviceUuid, characteristicUuid)) ||
+          (e.type === 'disconnected' && e.deviceId === deviceId),
+        timeout
+      );
+      if (!result.success) return result;
+      if (!event) return timeoutFailure('Notification setup', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      if (event.data?.success === false) {
+        return { success: false, error: 'NOTIFICATION_FAILED', message: event.data?.error };
+      }
+      reconnection.trackNotification(deviceId, serviceUuid, characteristicUuid, enable);
+      return { success: true };
+    },
+    (failure) => failure
+  );
+}
+
+/**
+ * MTU 크기 요청 (Android only, iOS는 현재 MTU 반환)
+ * Android는 'mtuChanged' 이벤트를 기다려 협상된 MTU로 resolve 합니다
+ */
+export async function requestMtu(deviceId: string, mtu: number, options?: GattOperationOptions): Promise<MtuResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation<MtuResult>(
+    deviceId,
+    'mtu',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.requestMtu(deviceId, mtu),
+        (e) =>
+          e.deviceId === deviceId &&
+          (e.type === 'mtuChanged' ||
+            e.type === 'disconnected' ||
+            (e.type === 'error' && e.data?.operation === 'requestMtu')),
+        timeout,
+        (started) => (started as MtuResult).mtu !== undefined
+      );
+      // iOS는 협상 과정 없이 현재 MTU를 즉시 반환
+      if (!result.success) return result;
+      if ((result as MtuResult).mtu !== undefined) {
+        deviceMtus.set(deviceId, (result as MtuResult).mtu as number);
+        return result;
+      }
+      if (!event) return timeoutFailure('MTU request', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      if (event.type === 'error') return { success: false, error: 'OPERATION_FAILED', message: event.data?.error };
+      return { success: true, mtu: event.data?.mtu };
+    },
+    (failure) => failure
+  );
+}
+
+/**
+ * 연결 우선순위 요청 (Android only)
+ */
+export async function requestConnectionPriority(
+  deviceId: string,
+  priority: ConnectionPriority,
+  options?: GattOperationOptions
+): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation(
+    deviceId,
+    'priority',
+    timeout,
+    () => module.requestConnectionPriority(deviceId, priority),
+    (failure) => failure
+  );
+}
+
+// ============================================================================
+// Signal Strength
+// ============================================================================
+
+/**
+ * 연결된 BLE 장치의 RSSI 읽기
+ * 'rssiRead' 이벤트를 기다려 측정값으로 resolve 합니다
+ */
+export async function readRssi(deviceId: string, options?: GattOperationOptions): Promise<RssiResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = options?.timeout ?? DEFAULT_GATT_TIMEOUT;
+  return queueGattOperation<RssiResult>(
+    deviceId,
+    'rssi',
+    timeout,
+    async () => {
+      const { result, event } = await startAndWait(
+        () => module.readRssi(deviceId),
+        (e) =>
+          e.deviceId === deviceId &&
+          (e.type === 'rssiRead' ||
+            e.type === 'disconnected' ||
+            (e.type === 'error' && e.data?.operation === 'readRssi')),
+        timeout
+      );
+      if (!result.success) return result;
+      if (!event) return timeoutFailure('RSSI read', timeout);
+      if (event.type === 'disconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+      if (event.type === 'error') return { success: false, error: 'OPERATION_FAILED', message: event.data?.error };
+      return { success: true, rssi: event.data?.rssi };
+    },
+    (failure) => failure
+  );
+}
+
+/**
+ * RSSI 모니터
+ */
+const rssiMonitor = createRssiMonitor({
+  readRssi: (deviceId) => readRssi(deviceId),
+  emit: emitLocalEvent,
+});
+
+/**
+ * RSSI 모니터링 시작
+ * 주기적으로 RSSI를 읽어 평활화한 값을 'rssiChanged' 이벤트로 전달하며, 연결이 끊기면 중지됩니다
+ * 첫 측정값으로 resolve 합니다
+ */
+export async function startRssiMonitoring(deviceId: string, options?: RssiMonitoringOptions): Promise<RssiResult> {
+  ensureInternalEventListener();
+  return await rssiMonitor.start(deviceId, options);
+}
+
+/**
+ * RSSI 모니터링 중지 (deviceId 생략 시 전체)
+ * @returns 모니터링 중이던 장치가 있었는지 여부
+ */
+export function stopRssiMonitoring(deviceId?: string): boolean {
+  return rssiMonitor.stop(deviceId);
+}
+
+/**
+ * RSSI 모니터링 중인 장치 ID 목록
+ */
+export function getRssiMonitoredDevices(): string[] {
+  return rssiMonitor.getDevices();
+}
+
+// ============================================================================
 // Classic Bluetooth Data (Android only)
 // ============================================================================
 
+/**
+ * 프레이밍이 설정된 Classic 연결
+ */
+interface ClassicFramer {
+  framing: ClassicFraming;
+  decoder: FrameDecoder;
+}
+
+/** 장치별 Classic 프레이밍 */
+const classicFramers = new Map<string, ClassicFramer>();
+
+/**
+ * Classic 연결의 프레이밍 설정 (undefined면 해제)
+ */
+function setClassicFraming(deviceId: string, framing: ClassicFraming | undefined): void {
+  if (framing) {
+    classicFramers.set(deviceId, { framing, decoder: createFrameDecoder(framing) });
+  } else {
+    classicFramers.delete(deviceId);
+  }
+}
+
+/**
+ * Classic 데이터 알림의 수신 데이터 (Classic 데이터 알림은 서비스/특성이 없음)
+ */
+function getClassicData(event: BluetoothEvent): Uint8Array | null {
+  const notification = event.data?.notification;
+  if (event.type !== 'notification' || !notification || notification.characteristicUuid) return null;
+  return base64ToBytes(notification.value);
+}
+
+/**
+ * Classic 수신 데이터를 프레임으로 조립해 frameReceived / error 이벤트로 전달
+ * @returns 프레이밍 대상 이벤트였는지 여부
+ */
+function dispatchClassicFrames(event: BluetoothEvent): boolean {
+  const framer = event.deviceId ? classicFramers.get(event.deviceId) : undefined;
+  if (!framer || !event.deviceId) return false;
+
+  // 연결 해제 시 조립 중인 데이터는 버리고 설정도 해제 (재연결 시 connectClassic이 다시 설정)
+  if (event.type === 'disconnected') {
+    classicFramers.delete(event.deviceId);
+    return false;
+  }
+
+  const bytes = getClassicData(event);
+  if (!bytes) return false;
+
+  const deviceId = event.deviceId;
+  const timestamp = event.data?.notification?.timestamp ?? event.timestamp;
+  const { frames, errors } = framer.decoder.push(bytes);
+
+  if (framer.framing.emitRawData) {
+    dispatchEvent(event);
+  }
+  frames.forEach((frame) => {
+    dispatchEvent({
+      type: 'frameReceived',
+      deviceId,
+      data: {
+        frame: {
+          deviceId,
+          value: bytesToBase64(frame),
+          text: framer.framing.type === 'delimiter' ? utf8Decode(frame) : undefined,
+          timestamp,
+        },
+      },
+      timestamp,
+    });
+  });
+  errors.forEach((error) => {
+    dispatchEvent({
+      type: 'error',
+      deviceId,
+      data: { error: error.message, errorCode: error.code, operation: 'framing' },
+      timestamp,
+    });
+  });
+  return true;
+}
+
 /**
  * Classic Bluetooth 데이터 쓰기 (Android only)
  */
@@ -363,6 +1564,21 @@ export async function writeClassic(deviceId: string, value: string): Promise<Blu
   return await module.writeClassic(deviceId, value);
 }
 
+const classicCommander = createClassicCommander({ write: writeClassic });
+
+/**
+ * Classic 명령을 쓰고 응답 대기 (Android only)
+ * 장치별로 한 번에 하나의 명령만 실행하며, 응답은 수신 데이터 notification / frameReceived 이벤트로도 그대로 전달됩니다
+ */
+export async function sendCommand(
+  deviceId: string,
+  command: string,
+  options?: SendCommandOptions
+): Promise<CommandResult> {
+  ensureInternalEventListener();
+  return classicCommander.send(deviceId, command, options);
+}
+
 // ============================================================================
 // Bonding (Android only)
 // ============================================================================
@@ -395,19 +1611,544 @@ export async function removeBond(deviceId: string): Promise<BluetoothResult> {
   return await module.removeBond(deviceId);
 }
 
+// ============================================================================
+// Peripheral (GATT Server)
+// ============================================================================
+
+/** 블루투스 상태별 GATT 서버 열기 실패 */
+const PERIPHERAL_STATE_ERRORS: Partial<Record<BluetoothState, BluetoothResult['error']>> = {
+  unsupported: 'BLUETOOTH_UNAVAILABLE',
+  unauthorized: 'PERMISSION_DENIED',
+  poweredOff: 'BLUETOOTH_DISABLED',
+};
+
+/**
+ * 네이티브 GATT 서버 열기
+ * iOS는 CBPeripheralManager가 준비될 때까지 'peripheralStateChanged' 이벤트를 기다립니다
+ */
+async function openPeripheral(): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = DEFAULT_GATT_TIMEOUT;
+  const { result, event } = await startAndWait(
+    () => module.openPeripheral(),
+    (e) => e.type === 'peripheralStateChanged' && e.data?.state !== 'unknown' && e.data?.state !== 'resetting',
+    timeout,
+    (started) => (started as { ready?: boolean }).ready === true
+  );
+  if (!result.success || (result as { ready?: boolean }).ready) return result;
+  if (!event) return timeoutFailure('Opening the GATT server', timeout);
+
+  const state = event.data?.state ?? 'unknown';
+  if (state === 'poweredOn') return { success: true };
+  return { success: false, error: PERIPHERAL_STATE_ERRORS[state] ?? 'OPERATION_FAILED' };
+}
+
+/**
+ * 네이티브 GATT 서버에 서비스 등록 ('peripheralServiceAdded' 이벤트까지 대기)
+ */
+async function addPeripheralService(service: PeripheralServiceDefinition): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = DEFAULT_GATT_TIMEOUT;
+  const { result, event } = await startAndWait(
+    () => module.addPeripheralService(service),
+    (e) => e.type === 'peripheralServiceAdded' && isSameUuid(e.data?.serviceUuid as string | undefined, service.uuid),
+    timeout
+  );
+  if (!result.success) return result;
+  if (!event) return timeoutFailure('Adding a peripheral service', timeout);
+  if (!event.data?.success) return { success: false, error: 'OPERATION_FAILED', message: event.data?.error };
+  return { success: true };
+}
+
+/**
+ * central 하나에 알림 전송
+ * Android는 'peripheralNotificationSent' 이벤트를 기다리고,
+ * iOS는 전송 큐가 가득 차면 'peripheralReady' 이벤트 후 다시 시도합니다
+ */
+async function notifyCentral(
+  serviceUuid: string,
+  characteristicUuid: string,
+  value: string,
+  deviceId: string
+): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  const timeout = DEFAULT_GATT_TIMEOUT;
+  for (;;) {
+    const ready = waitForEvent((e) => e.type === 'peripheralReady', timeout);
+    const { result, event } = await startAndWait(
+      () => module.notifyPeripheral(serviceUuid, characteristicUuid, value, deviceId),
+      (e) =>
+        e.deviceId === deviceId && (e.type === 'peripheralNotificationSent' || e.type === 'centralDisconnected'),
+      timeout,
+      (started) => (started as { sent?: boolean }).sent === true
+    );
+
+    if ((result as { queueFull?: boolean }).queueFull) {
+      if (!(await ready.promise)) return timeoutFailure('Notification', timeout);
+      continue;
+    }
+    ready.cancel();
+
+    if (!result.success || (result as { sent?: boolean }).sent) return result;
+    if (!event) return timeoutFailure('Notification', timeout);
+    if (event.type === 'centralDisconnected') return { success: false, error: 'DEVICE_NOT_CONNECTED' };
+    return event.data?.success ? { success: true } : { success: false, error: 'NOTIFICATION_FAILED' };
+  }
+}
+
+/**
+ * 로컬 GATT 서버
+ */
+const peripheralServer = createPeripheralServer({
+  open: openPeripheral,
+  close: async () => {
+    const module = getBluetoothModule();
+    if (!module) {
+      return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+    }
+    return await module.closePeripheral();
+  },
+  addService: addPeripheralService,
+  respond: async (requestId, status, value) => {
+    const module = getBluetoothModule();
+    if (!module) {
+      return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+    }
+    return await module.respondToPeripheralRequest(requestId, status, value);
+  },
+  notify: notifyCentral,
+  addListener: addBluetoothEventListener,
+});
+
+/**
+ * 로컬 GATT 서버 시작 (peripheral 모드)
+ * 서비스를 순서대로 등록하며, 실행 중이면 기존 서비스를 제거하고 다시 시작합니다
+ * central 요청은 'peripheralReadRequest' / 'peripheralWriteRequest' 이벤트로도 전달됩니다
+ */
+export async function startPeripheral(
+  services: PeripheralServiceDefinition[],
+  options?: PeripheralOptions
+): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+  return await peripheralServer.start(services, options);
+}
+
+/**
+ * 로컬 GATT 서버 중지
+ */
+export async function stopPeripheral(): Promise<BluetoothResult> {
+  return await peripheralServer.stop();
+}
+
+/**
+ * 로컬 GATT 서버 실행 중 여부
+ */
+export function isPeripheralRunning(): boolean {
+  return peripheralServer.isRunning();
+}
+
+/**
+ * manual 방식 특성의 central 요청에 응답
+ */
+export async function respondToPeripheralRequest(
+  requestId: string,
+  response?: PeripheralResponse
+): Promise<BluetoothResult> {
+  return await peripheralServer.respond(requestId, response);
+}
+
+/**
+ * 로컬 특성 값 변경 (알림은 보내지 않음)
+ */
+export function setPeripheralValue(serviceUuid: string, characteristicUuid: string, value: string): BluetoothResult {
+  return peripheralServer.setValue(serviceUuid, characteristicUuid, value);
+}
+
+/**
+ * 로컬 특성 값을 변경하고 구독 중인 central에 알림 전송 (deviceIds 지정 시 해당 central만)
+ */
+export async function notifyPeripheral(
+  serviceUuid: string,
+  characteristicUuid: string,
+  value: string,
+  deviceIds?: string[]
+): Promise<PeripheralNotifyResult> {
+  return await peripheralServer.notify(serviceUuid, characteristicUuid, value, deviceIds);
+}
+
+// ============================================================================
+// Advertising
+// ============================================================================
+
+/** 광고 실패 코드별 에러 (Android AdvertiseCallback 에러, iOS 블루투스 상태) */
+const ADVERTISING_ERRORS: Partial<Record<string, BluetoothResult['error']>> = {
+  ...PERIPHERAL_STATE_ERRORS,
+  DATA_TOO_LARGE: 'INVALID_INPUT',
+  FEATURE_UNSUPPORTED: 'OPERATION_NOT_SUPPORTED',
+};
+
+/**
+ * 비콘 데이터를 합치고 UUID를 정규화한 네이티브 광고 옵션
+ */
+function buildNativeAdvertisingOptions(options: AdvertisingOptions): Omit<AdvertisingOptions, 'beacon'> {
+  const { beacon, ...rest } = options;
+  const beaconData = beacon ? buildBeaconAdvertisement(beacon) : {};
+
+  const serviceUUIDs = [...(rest.serviceUUIDs ?? []), ...(beaconData.serviceUUIDs ?? [])].map(normalizeUuid);
+  return {
+    ...rest,
+    serviceUUIDs: Array.from(new Set(serviceUUIDs)),
+    serviceData: [...(rest.serviceData ?? []), ...(beaconData.serviceData ?? [])].map((entry) => ({
+      ...entry,
+      uuid: normalizeUuid(entry.uuid),
+    })),
+    manufacturerData: [...(rest.manufacturerData ?? []), ...(beaconData.manufacturerData ?? [])],
+    connectable: rest.connectable ?? !beacon,
+  };
+}
+
+/**
+ * BLE 광고 시작 ('advertisingStarted' / 'advertisingFailed' 이벤트까지 대기)
+ * 광고 중이면 기존 광고를 중지하고 새 옵션으로 다시 시작합니다
+ */
+export async function startAdvertising(options: AdvertisingOptions = {}): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+
+  let nativeOptions: Omit<AdvertisingOptions, 'beacon'>;
+  try {
+    nativeOptions = buildNativeAdvertisingOptions(options);
+  } catch (error) {
+    const message = `beacon: ${error instanceof Error ? error.message : String(error)}`;
+    return { success: false, error: 'INVALID_INPUT', message, field: 'beacon' };
+  }
+
+  const timeout = DEFAULT_GATT_TIMEOUT;
+  const { result, event } = await startAndWait(
+    () => module.startAdvertising(nativeOptions),
+    (e) => e.type === 'advertisingStarted' || e.type === 'advertisingFailed',
+    timeout
+  );
+  if (!result.success) return result;
+  if (!event) return timeoutFailure('Starting advertising', timeout);
+  if (event.type === 'advertisingStarted') return { success: true };
+
+  const errorCode = event.data?.errorCode;
+  return {
+    success: false,
+    error: (errorCode && ADVERTISING_ERRORS[errorCode]) || 'ADVERTISING_FAILED',
+    message: errorCode ? `${event.data?.error} (${errorCode})` : event.data?.error,
+  };
+}
+
+/**
+ * BLE 광고 중지
+ */
+export async function stopAdvertising(): Promise<BluetoothResult> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return { success: false, error: 'BLUETOOTH_UNAVAILABLE' };
+  }
+  return await module.stopAdvertising();
+}
+
+/**
+ * BLE 광고 중 여부
+ */
+export async function isAdvertising(): Promise<boolean> {
+  const module = getBluetoothModule();
+  if (!module) {
+    return false;
+  }
+  return await module.isAdvertising();
+}
+
 // ============================================================================
 // Event Listener
 // ============================================================================
 
+/** 등록된 이벤트 리스너 */
+const eventListeners = new Set<(event: BluetoothEvent) => void>();
+
+/** 스캔 필터를 적용하기 전의 네이티브 이벤트를 받는 내부 리스너 (영역 모니터) */
+const unfilteredEventListeners = new Set<(event: BluetoothEvent) => void>();
+
+/** 네이티브 이벤트 구독 (리스너가 있을 때만 유지) */
+let nativeEventSubscription: { remove: () => void } | null = null;
+
+/**
+ * notification / characteristicRead 값에 디코딩 결과 추가
+ */
+function withDecodedValue<T extends ReadResult | NotificationEvent>(entry: T | undefined): T | undefined {
+  if (!entry?.characteristicUuid || typeof entry.value !== 'string') return entry;
+
+  const decoded = decodeCharacteristicValue(entry.value, {
+    deviceId: entry.deviceId,
+    serviceUuid: entry.serviceUuid,
+    characteristicUuid: entry.characteristicUuid,
+  });
+  return decoded === undefined ? entry : { ...entry, decoded };
+}
+
+/**
+ * 네이티브 값이 문자열일 때만 UUID 정규화
+ */
+function normalizeNativeUuid<T>(uuid: T): T {
+  return typeof uuid === 'string' ? (normalizeUuid(uuid) as T) : uuid;
+}
+
+/**
+ * 서비스/특성/디스크립터 UUID 정규화
+ */
+function normalizeServiceUuids(service: BleService): BleService {
+  return {
+    ...service,
+    uuid: normalizeNativeUuid(service.uuid),
+    characteristics: service.characteristics?.map((characteristic) => ({
+      ...characteristic,
+      uuid: normalizeNativeUuid(characteristic.uuid),
+      serviceUuid: normalizeNativeUuid(characteristic.serviceUuid),
+      descriptors: characteristic.descriptors?.map((descriptor) => ({
+        ...descriptor,
+        uuid: normalizeNativeUuid(descriptor.uuid),
+        characteristicUuid: normalizeNativeUuid(descriptor.characteristicUuid),
+      })),
+    })),
+  };
+}
+
+/**
+ * 네이티브 이벤트의 UUID를 소문자 128-bit 형식으로 통일
+ * iOS는 표준 UUID를 대문자 축약형('180D')으로, Android는 소문자 128-bit 형식으로 전달합니다
+ */
+function normalizeEventUuids(event: BluetoothEvent): BluetoothEvent {
+  const data = event.data;
+  if (!data) return event;
+
+  const normalized: NonNullable<BluetoothEvent['data']> = { ...data };
+  if (data.serviceUuid !== undefined) {
+    normalized.serviceUuid = normalizeNativeUuid(data.serviceUuid);
+  }
+  if (data.characteristicUuid !== undefined) {
+    normalized.characteristicUuid = normalizeNativeUuid(data.characteristicUuid);
+  }
+  if (data.descriptorUuid !== undefined) {
+    normalized.descriptorUuid = normalizeNativeUuid(data.descriptorUuid);
+  }
+  if (data.result) {
+    normalized.result = {
+      ...data.result,
+      serviceUuid: normalizeNativeUuid(data.result.serviceUuid),
+      characteristicUuid: normalizeNativeUuid(data.result.characteristicUuid),
+      descriptorUuid: normalizeNativeUuid(data.result.descriptorUuid),
+    };
+  }
+  if (data.notification) {
+    normalized.notification = {
+      ...data.notification,
+      serviceUuid: normalizeNativeUuid(data.notification.serviceUuid),
+      characteristicUuid: normalizeNativeUuid(data.notification.characteristicUuid),
+    };
+  }
+  if (data.services) {
+    normalized.services = data.services.map(normalizeServiceUuids);
+  }
+  if (data.request) {
+    normalized.request = {
+      ...data.request,
+      serviceUuid: normalizeNativeUuid(data.request.serviceUuid),
+      characteristicUuid: normalizeNativeUuid(data.request.characteristicUuid),
+    };
+  }
+  if (data.subscription) {
+    normalized.subscription = {
+      ...data.subscription,
+      serviceUuid: normalizeNativeUuid(data.subscription.serviceUuid),
+      characteristicUuid: normalizeNativeUuid(data.subscription.characteristicUuid),
+    };
+  }
+  if (data.device?.ble?.serviceUUIDs) {
+    normalized.device = {
+      ...data.device,
+      ble: { ...data.device.ble, serviceUUIDs: data.device.ble.serviceUUIDs.map(normalizeUuid) },
+    };
+  }
+  return { ...event, data: normalized };
+}
+
+/**
+ * 네이티브 이벤트 보강
+ * UUID를 정규화한 뒤, deviceDiscovered 이벤트에 파싱된 광고 데이터와 인식된 비콘 프레임을 추가하고 비어 있는 장치 필드를 채우며,
+ * notification / characteristicRead 이벤트에는 등록된 디코더의 해석 값을 추가합니다
+ */
+function enrichNativeEvent(nativeEvent: BluetoothEvent): BluetoothEvent {
+  const event = normalizeEventUuids(nativeEvent);
+  if (event.type === 'notification' && event.data?.notification) {
+    return { ...event, data: { ...event.data, notification: withDecodedValue(event.data.notification) } };
+  }
+  if (event.type === 'characteristicRead' && event.data?.result) {
+    return { ...event, data: { ...event.data, result: withDecodedValue(event.data.result) } };
+  }
+  if (event.type !== 'deviceDiscovered') return event;
+
+  const device = event.data?.device;
+  const ble = device?.ble;
+  if (!device || !ble?.advertisementData) return event;
+
+  const parsedAdvertisement = parseAdvertisement(ble.advertisementData);
+  if (!parsedAdvertisement) return event;
+
+  const enrichedBle = { ...ble };
+  if (!enrichedBle.manufacturerData && parsedAdvertisement.manufacturerData.length > 0) {
+    enrichedBle.manufacturerData = parsedAdvertisement.manufacturerData[0];
+  }
+  if (!enrichedBle.localName && parsedAdvertisement.localName) {
+    enrichedBle.localName = parsedAdvertisement.localName;
+  }
+  if ((!enrichedBle.serviceUUIDs || enrichedBle.serviceUUIDs.length === 0) && parsedAdvertisement.serviceUUIDs.length > 0) {
+    enrichedBle.serviceUUIDs = parsedAdvertisement.serviceUUIDs;
+  }
+
+  return {
+    ...event,
+    data: {
+      ...event.data,
+      device: { ...device, ble: enrichedBle },
+      parsedAdvertisement,
+      beacon: parseBeacon(parsedAdvertisement) ?? undefined,
+    },
+  };
+}
+
+/**
+ * 이벤트를 모든 리스너에 전달
+ */
+function dispatchEvent(event: BluetoothEvent): void {
+  Array.from(eventListeners).forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[CustomBluetooth] Event listener error:', error);
+    }
+  });
+}
+
+/**
+ * 스캔 필터를 적용하기 전의 네이티브 이벤트를 내부 리스너에 전달
+ */
+function dispatchUnfilteredEvent(event: BluetoothEvent): void {
+  Array.from(unfilteredEventListeners).forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[CustomBluetooth] Event listener error:', error);
+    }
+  });
+}
+
+/**
+ * JS 측에서 생성한 이벤트(재연결 등)를 리스너에 전달
+ */
+function emitLocalEvent(event: BluetoothEvent): void {
+  dispatchEvent(event);
+}
+
+/**
+ * 네이티브 이벤트 구독 시작 (이미 구독 중이면 무시)
+ * 스캔 필터는 영역 모니터 같은 내부 리스너에 전달한 뒤에 적용합니다
+ */
+function ensureNativeEventSubscription(): void {
+  if (nativeEventSubscription) return;
+  const module = getBluetoothModule();
+  if (!module || !module.addListener) return;
+
+  nativeEventSubscription = module.addListener('onBluetoothEvent', (event: BluetoothEvent) => {
+    if (isReplacedScanStop(event)) return;
+    const enriched = enrichNativeEvent(event);
+    dispatchUnfilteredEvent(enriched);
+    if (isExcludedByScanFilter(enriched)) return;
+    const classicData = enriched.deviceId ? getClassicData(enriched) : null;
+    if (enriched.deviceId && classicData) {
+      classicCommander.receive(enriched.deviceId, classicData);
+    }
+    if (!dispatchClassicFrames(enriched)) {
+      dispatchEvent(enriched);
+    }
+  });
+}
+
+/**
+ * 남은 리스너가 없으면 네이티브 이벤트 구독 해제
+ */
+function releaseNativeEventSubscription(): void {
+  if (eventListeners.size > 0 || unfilteredEventListeners.size > 0 || !nativeEventSubscription) return;
+  nativeEventSubscription.remove();
+  nativeEventSubscription = null;
+}
+
 /**
  * Bluetooth 이벤트 리스너 등록
+ * 네이티브 이벤트(보강된 형태)와 JS 측에서 생성한 이벤트(reconnecting 등)를 모두 수신합니다
  */
 export function addBluetoothEventListener(
   listener: (event: BluetoothEvent) => void
 ): { remove: () => void } {
-  const module = getBluetoothModule();
-  if (!module || !module.addListener) {
-    return { remove: () => {} };
-  }
-  return module.addListener('onBluetoothEvent', listener);
+  const entry = (event: BluetoothEvent) => listener(event);
+  eventListeners.add(entry);
+  ensureNativeEventSubscription();
+
+  return {
+    remove: () => {
+      eventListeners.delete(entry);
+      releaseNativeEventSubscription();
+    },
+  };
 }
+
+/**
+ * 사용자 스캔의 필터를 적용하지 않은 네이티브 이벤트 리스너 등록 (영역 모니터용)
+ */
+function addUnfilteredEventListener(
+  listener: (event: BluetoothEvent) => void
+): { remove: () => void } {
+  const entry = (event: BluetoothEvent) => listener(event);
+  unfilteredEventListeners.add(entry);
+  ensureNativeEventSubscription();
+
+  return {
+    remove: () => {
+      unfilteredEventListeners.delete(entry);
+      releaseNativeEventSubscription();
+    },
+  };
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+export { parseAdvertisement, parseAdvertisementBytes } from './advertisement';
+export { parseBeacon, buildBeaconAdvertisement } from './beacon';
+export { parseUuid, isValidUuid, normalizeUuid, isSameUuid } from './uuid';
+export {
+  registerCharacteristicDecoder,
+  unregisterCharacteristicDecoder,
+  decodeCharacteristicValue,
+} from './gatt-decoders';
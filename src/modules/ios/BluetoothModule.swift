@@ -1,5 +1,6 @@
 import ExpoModulesCore
 import CoreBluetooth
+import CoreLocation
 
 public class BluetoothModule: Module {
     private var centralManager: CBCentralManager?
@@ -12,10 +13,37 @@ public class BluetoothModule: Module {
     // Discovered services cache
     private var discoveredServices: [String: [CBService]] = [:]
 
+    // Pending read requests (deviceId|characteristicUuid)
+    private var pendingReads: Set<String> = []
+
+    // Characteristics awaiting descriptor discovery (deviceId -> count)
+    private var pendingDescriptorDiscoveries: [String: Int] = [:]
+
     // Scanning state
     private var isScanning = false
     private var scanTimer: Timer?
 
+    // iBeacon ranging (CoreBluetooth does not deliver iBeacon advertisements)
+    private var locationManager: CLLocationManager?
+    private var locationDelegate: BeaconRangingDelegate?
+    private var rangedConstraints: [CLBeaconIdentityConstraint] = []
+
+    // Peripheral mode (GATT server)
+    private var peripheralManager: CBPeripheralManager?
+    private var peripheralManagerDelegate: PeripheralManagerDelegate?
+    private var localCharacteristics: [String: CBMutableCharacteristic] = [:]
+    // serviceUuid|characteristicUuid -> centralId -> central
+    private var peripheralSubscribers: [String: [String: CBCentral]] = [:]
+    private var pendingPeripheralRequests: [String: PendingPeripheralRequest] = [:]
+    private var nextPeripheralRequestId = 1
+
+    // Advertising (peripheralManager 공유)
+    private var isAdvertisingActive = false
+    private var advertisingTimer: Timer?
+    private var advertisingTimeout: Double = 0
+    /// peripheralManager가 준비되면 시작할 광고 데이터
+    private var pendingAdvertisement: [String: Any]?
+
     public func definition() -> ModuleDefinition {
         Name("CustomBluetooth")
 
@@ -27,6 +55,9 @@ public class BluetoothModule: Module {
         }
 
         OnDestroy {
+            _ = stopAdvertisingInternal(reason: "stopped")
+            _ = closePeripheralInternal()
+            stopBeaconRangingInternal()
             stopScanInternal()
             disconnectAllInternal()
             centralManager = nil
@@ -79,6 +110,18 @@ public class BluetoothModule: Module {
             return self.isScanning
         }
 
+        // ============================================================================
+        // iBeacon Ranging (CoreLocation)
+        // ============================================================================
+
+        AsyncFunction("startBeaconRanging") { (uuids: [String]) -> [String: Any] in
+            return self.startBeaconRangingInternal(uuids: uuids)
+        }.runOnQueue(.main)
+
+        AsyncFunction("stopBeaconRanging") { () -> [String: Any] in
+            return self.stopBeaconRangingInternal()
+        }.runOnQueue(.main)
+
         // ============================================================================
         // Classic Bluetooth (Not supported on iOS)
         // ============================================================================
@@ -126,6 +169,10 @@ public class BluetoothModule: Module {
             return self.disconnectInternal(deviceId: deviceId)
         }
 
+        AsyncFunction("cancelConnection") { (deviceId: String) -> [String: Any] in
+            return self.cancelConnectionInternal(deviceId: deviceId)
+        }
+
         AsyncFunction("disconnectAll") { () -> [String: Any] in
             return self.disconnectAllInternal()
         }
@@ -154,6 +201,14 @@ public class BluetoothModule: Module {
             return self.writeCharacteristicInternal(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, value: value, options: options)
         }
 
+        AsyncFunction("readDescriptor") { (deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String) -> [String: Any] in
+            return self.readDescriptorInternal(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, descriptorUuid: descriptorUuid)
+        }
+
+        AsyncFunction("writeDescriptor") { (deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String, value: String) -> [String: Any] in
+            return self.writeDescriptorInternal(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, descriptorUuid: descriptorUuid, value: value)
+        }
+
         AsyncFunction("setNotification") { (deviceId: String, serviceUuid: String, characteristicUuid: String, enable: Bool) -> [String: Any] in
             return self.setNotificationInternal(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, enable: enable)
         }
@@ -167,6 +222,23 @@ public class BluetoothModule: Module {
             return ["success": false, "error": "DEVICE_NOT_CONNECTED"]
         }
 
+        AsyncFunction("readRssi") { (deviceId: String) -> [String: Any] in
+            guard let peripheral = self.connectedPeripherals[deviceId] else {
+                return ["success": false, "error": "DEVICE_NOT_CONNECTED"]
+            }
+            peripheral.readRSSI()
+            return ["success": true]
+        }
+
+        AsyncFunction("requestConnectionPriority") { (deviceId: String, priority: String) -> [String: Any] in
+            // iOS doesn't expose connection interval control
+            return [
+                "success": false,
+                "error": "OPERATION_NOT_SUPPORTED",
+                "message": "Connection priority is managed by iOS"
+            ]
+        }
+
         // ============================================================================
         // Classic Bluetooth Data (Not supported)
         // ============================================================================
@@ -197,6 +269,46 @@ public class BluetoothModule: Module {
                 "message": "Manual bonding removal is not supported on iOS"
             ]
         }
+
+        // ============================================================================
+        // Peripheral (GATT Server) Functions
+        // ============================================================================
+
+        AsyncFunction("openPeripheral") { () -> [String: Any] in
+            return self.openPeripheralInternal()
+        }
+
+        AsyncFunction("closePeripheral") { () -> [String: Any] in
+            return self.closePeripheralInternal()
+        }
+
+        AsyncFunction("addPeripheralService") { (service: [String: Any]) -> [String: Any] in
+            return self.addPeripheralServiceInternal(definition: service)
+        }
+
+        AsyncFunction("respondToPeripheralRequest") { (requestId: String, status: String, value: String?) -> [String: Any] in
+            return self.respondToPeripheralRequestInternal(requestId: requestId, status: status, value: value)
+        }
+
+        AsyncFunction("notifyPeripheral") { (serviceUuid: String, characteristicUuid: String, value: String, deviceId: String) -> [String: Any] in
+            return self.notifyPeripheralInternal(serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, value: value, deviceId: deviceId)
+        }
+
+        // ============================================================================
+        // Advertising Functions
+        // ============================================================================
+
+        AsyncFunction("startAdvertising") { (options: [String: Any]) -> [String: Any] in
+            return self.startAdvertisingInternal(options: options)
+        }
+
+        AsyncFunction("stopAdvertising") { () -> [String: Any] in
+            return self.stopAdvertisingInternal(reason: "stopped")
+        }
+
+        AsyncFunction("isAdvertising") { () -> Bool in
+            return self.isAdvertisingActive
+        }
     }
 
     // ============================================================================
@@ -338,6 +450,56 @@ public class BluetoothModule: Module {
         return ["success": true]
     }
 
+    // ============================================================================
+    // iBeacon Ranging
+    // ============================================================================
+
+    private func startBeaconRangingInternal(uuids: [String]) -> [String: Any] {
+        var proximityUuids: [UUID] = []
+        for value in uuids {
+            guard let uuid = UUID(uuidString: value) else {
+                return ["success": false, "error": "INVALID_INPUT", "message": "Invalid beacon UUID: \(value)"]
+            }
+            proximityUuids.append(uuid)
+        }
+
+        if !CLLocationManager.isRangingAvailable() {
+            return ["success": false, "error": "OPERATION_NOT_SUPPORTED", "message": "Beacon ranging is not available"]
+        }
+
+        if locationManager == nil {
+            locationDelegate = BeaconRangingDelegate(module: self)
+            locationManager = CLLocationManager()
+            locationManager?.delegate = locationDelegate
+        }
+        guard let manager = locationManager else {
+            return ["success": false, "error": "UNKNOWN"]
+        }
+
+        let status = manager.authorizationStatus
+        if status == .denied || status == .restricted {
+            return ["success": false, "error": "PERMISSION_DENIED", "message": "Location permission is required for iBeacon ranging"]
+        }
+        if status == .notDetermined {
+            manager.requestWhenInUseAuthorization()
+        }
+
+        rangedConstraints.forEach { manager.stopRangingBeacons(satisfying: $0) }
+        rangedConstraints = proximityUuids.map { CLBeaconIdentityConstraint(uuid: $0) }
+        rangedConstraints.forEach { manager.startRangingBeacons(satisfying: $0) }
+
+        return ["success": true]
+    }
+
+    @discardableResult
+    private func stopBeaconRangingInternal() -> [String: Any] {
+        if let manager = locationManager {
+            rangedConstraints.forEach { manager.stopRangingBeacons(satisfying: $0) }
+        }
+        rangedConstraints = []
+        return ["success": true]
+    }
+
     // ============================================================================
     // Connection
     // ============================================================================
@@ -381,6 +543,20 @@ public class BluetoothModule: Module {
         return ["success": true]
     }
 
+    private func cancelConnectionInternal(deviceId: String) -> [String: Any] {
+        if let peripheral = connectedPeripherals[deviceId] {
+            centralManager?.cancelPeripheralConnection(peripheral)
+            return ["success": true]
+        }
+
+        // 연결 시도 중인 장치 취소
+        if let peripheral = centralDelegate?.discoveredPeripherals[deviceId] {
+            centralManager?.cancelPeripheralConnection(peripheral)
+            peripheralDelegates.removeValue(forKey: deviceId)
+        }
+        return ["success": true]
+    }
+
     @discardableResult
     private func disconnectAllInternal() -> [String: Any] {
         for (_, peripheral) in connectedPeripherals {
@@ -442,6 +618,7 @@ public class BluetoothModule: Module {
             return ["success": false, "error": "CHARACTERISTIC_NOT_FOUND"]
         }
 
+        pendingReads.insert("\(deviceId)|\(characteristic.uuid.uuidString)")
         peripheral.readValue(for: characteristic)
         return ["success": true]
     }
@@ -465,6 +642,57 @@ public class BluetoothModule: Module {
         return ["success": true]
     }
 
+    private func findDescriptor(deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String) -> (CBPeripheral, CBDescriptor)? {
+        guard let (peripheral, characteristic) = findCharacteristic(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid) else {
+            return nil
+        }
+
+        let descriptorUUID = CBUUID(string: descriptorUuid)
+        guard let descriptor = characteristic.descriptors?.first(where: { $0.uuid == descriptorUUID }) else {
+            return nil
+        }
+
+        return (peripheral, descriptor)
+    }
+
+    /// 디스크립터 조회 실패 원인
+    private func descriptorLookupFailure(deviceId: String, serviceUuid: String, characteristicUuid: String) -> [String: Any] {
+        if connectedPeripherals[deviceId] == nil {
+            return ["success": false, "error": "DEVICE_NOT_CONNECTED"]
+        }
+        if findCharacteristic(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid) == nil {
+            return ["success": false, "error": "CHARACTERISTIC_NOT_FOUND"]
+        }
+        return ["success": false, "error": "DESCRIPTOR_NOT_FOUND"]
+    }
+
+    private func readDescriptorInternal(deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String) -> [String: Any] {
+        guard let (peripheral, descriptor) = findDescriptor(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, descriptorUuid: descriptorUuid) else {
+            return descriptorLookupFailure(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid)
+        }
+
+        peripheral.readValue(for: descriptor)
+        return ["success": true]
+    }
+
+    private func writeDescriptorInternal(deviceId: String, serviceUuid: String, characteristicUuid: String, descriptorUuid: String, value: String) -> [String: Any] {
+        guard let (peripheral, descriptor) = findDescriptor(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid, descriptorUuid: descriptorUuid) else {
+            return descriptorLookupFailure(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid)
+        }
+
+        // CoreBluetooth는 CCCD 쓰기를 허용하지 않음 (예외 발생)
+        if descriptor.uuid.uuidString == CBUUIDClientCharacteristicConfigurationString {
+            return ["success": false, "error": "OPERATION_NOT_SUPPORTED", "message": "Use setNotification to configure notifications"]
+        }
+
+        guard let data = Data(base64Encoded: value) else {
+            return ["success": false, "error": "INVALID_INPUT", "message": "Invalid Base64 value"]
+        }
+
+        peripheral.writeValue(data, for: descriptor)
+        return ["success": true]
+    }
+
     private func setNotificationInternal(deviceId: String, serviceUuid: String, characteristicUuid: String, enable: Bool) -> [String: Any] {
         guard let (peripheral, characteristic) = findCharacteristic(deviceId: deviceId, serviceUuid: serviceUuid, characteristicUuid: characteristicUuid) else {
             if connectedPeripherals[deviceId] == nil {
@@ -489,10 +717,7 @@ public class BluetoothModule: Module {
             serviceUUIDs = uuids.map { $0.uuidString }
         }
 
-        var advertisementDataBase64 = ""
-        if let manufacturerData = advertisementData[CBAdvertisementDataManufacturerDataKey] as? Data {
-            advertisementDataBase64 = manufacturerData.base64EncodedString()
-        }
+        let advertisementDataBase64 = buildAdvertisementStructures(advertisementData).base64EncodedString()
 
         let isConnectable = advertisementData[CBAdvertisementDataIsConnectable] as? Bool ?? true
         let localName = advertisementData[CBAdvertisementDataLocalNameKey] as? String
@@ -523,6 +748,58 @@ public class BluetoothModule: Module {
         ])
     }
 
+    /// CoreBluetooth는 원본 광고 패킷을 제공하지 않으므로 제공되는 필드로 AD 구조(length, type, data)를 재구성
+    /// (Flags, Appearance, URI는 iOS에서 제공되지 않음)
+    private func buildAdvertisementStructures(_ advertisementData: [String: Any]) -> Data {
+        var result = Data()
+
+        func append(_ type: UInt8, _ payload: Data) {
+            guard payload.count <= 254 else { return }
+            result.append(UInt8(payload.count + 1))
+            result.append(type)
+            result.append(payload)
+        }
+
+        if let localName = advertisementData[CBAdvertisementDataLocalNameKey] as? String,
+           let nameData = localName.data(using: .utf8) {
+            append(0x09, nameData)
+        }
+
+        if let txPower = advertisementData[CBAdvertisementDataTxPowerLevelKey] as? NSNumber {
+            append(0x0A, Data([UInt8(bitPattern: txPower.int8Value)]))
+        }
+
+        // CBUUID.data는 빅 엔디언이므로 AD 형식(리틀 엔디언)으로 뒤집음
+        if let uuids = advertisementData[CBAdvertisementDataServiceUUIDsKey] as? [CBUUID] {
+            for (size, type) in [(2, UInt8(0x03)), (4, UInt8(0x05)), (16, UInt8(0x07))] {
+                let payload = uuids
+                    .filter { $0.data.count == size }
+                    .reduce(Data()) { $0 + Data($1.data.reversed()) }
+                if !payload.isEmpty {
+                    append(type, payload)
+                }
+            }
+        }
+
+        if let serviceData = advertisementData[CBAdvertisementDataServiceDataKey] as? [CBUUID: Data] {
+            for (uuid, data) in serviceData {
+                let type: UInt8
+                switch uuid.data.count {
+                case 2: type = 0x16
+                case 4: type = 0x20
+                default: type = 0x21
+                }
+                append(type, Data(uuid.data.reversed()) + data)
+            }
+        }
+
+        if let manufacturerData = advertisementData[CBAdvertisementDataManufacturerDataKey] as? Data {
+            append(0xFF, manufacturerData)
+        }
+
+        return result
+    }
+
     func onPeripheralConnected(peripheral: CBPeripheral) {
         let deviceId = peripheral.identifier.uuidString
         connectedPeripherals[deviceId] = peripheral
@@ -540,6 +817,8 @@ public class BluetoothModule: Module {
         connectedPeripherals.removeValue(forKey: deviceId)
         peripheralDelegates.removeValue(forKey: deviceId)
         discoveredServices.removeValue(forKey: deviceId)
+        pendingReads = pendingReads.filter { !$0.hasPrefix("\(deviceId)|") }
+        pendingDescriptorDiscoveries.removeValue(forKey: deviceId)
 
         sendEvent("onBluetoothEvent", [
             "type": "disconnected",
@@ -563,51 +842,90 @@ public class BluetoothModule: Module {
 
     func onServicesDiscovered(peripheral: CBPeripheral) {
         let deviceId = peripheral.identifier.uuidString
+        pendingDescriptorDiscoveries[deviceId] = 0
 
         // Discover characteristics for each service
         peripheral.services?.forEach { service in
             peripheral.discoverCharacteristics(nil, for: service)
         }
+        sendServicesDiscoveredIfComplete(peripheral: peripheral)
     }
 
     func onCharacteristicsDiscovered(peripheral: CBPeripheral, service: CBService) {
         let deviceId = peripheral.identifier.uuidString
 
-        // Check if all services have characteristics discovered
-        let allDiscovered = peripheral.services?.allSatisfy { $0.characteristics != nil } ?? false
+        // Discover descriptors for each characteristic
+        service.characteristics?.forEach { characteristic in
+            pendingDescriptorDiscoveries[deviceId, default: 0] += 1
+            peripheral.discoverDescriptors(for: characteristic)
+        }
+        sendServicesDiscoveredIfComplete(peripheral: peripheral)
+    }
 
-        if allDiscovered {
-            let services = peripheral.services?.map { service -> [String: Any] in
-                let characteristics = service.characteristics?.map { char -> [String: Any] in
-                    return [
-                        "uuid": char.uuid.uuidString,
-                        "serviceUuid": service.uuid.uuidString,
-                        "properties": [
-                            "broadcast": char.properties.contains(.broadcast),
-                            "read": char.properties.contains(.read),
-                            "writeWithoutResponse": char.properties.contains(.writeWithoutResponse),
-                            "write": char.properties.contains(.write),
-                            "notify": char.properties.contains(.notify),
-                            "indicate": char.properties.contains(.indicate),
-                            "authenticatedSignedWrites": char.properties.contains(.authenticatedSignedWrites),
-                            "extendedProperties": char.properties.contains(.extendedProperties)
-                        ]
-                    ]
-                } ?? []
+    func onDescriptorsDiscovered(peripheral: CBPeripheral, characteristic: CBCharacteristic) {
+        let deviceId = peripheral.identifier.uuidString
+        pendingDescriptorDiscoveries[deviceId] = max((pendingDescriptorDiscoveries[deviceId] ?? 0) - 1, 0)
+        sendServicesDiscoveredIfComplete(peripheral: peripheral)
+    }
 
+    /// 모든 서비스의 특성과 디스크립터 발견이 끝나면 servicesDiscovered 전송
+    private func sendServicesDiscoveredIfComplete(peripheral: CBPeripheral) {
+        let deviceId = peripheral.identifier.uuidString
+
+        // Check if all services have characteristics and descriptors discovered
+        let allDiscovered = peripheral.services?.allSatisfy { $0.characteristics != nil } ?? false
+        guard allDiscovered, pendingDescriptorDiscoveries[deviceId] == 0 else {
+            return
+        }
+        pendingDescriptorDiscoveries.removeValue(forKey: deviceId)
+
+        let services = peripheral.services?.map { service -> [String: Any] in
+            let characteristics = service.characteristics?.map { char -> [String: Any] in
                 return [
-                    "uuid": service.uuid.uuidString,
-                    "isPrimary": service.isPrimary,
-                    "characteristics": characteristics
+                    "uuid": char.uuid.uuidString,
+                    "serviceUuid": service.uuid.uuidString,
+                    "properties": [
+                        "broadcast": char.properties.contains(.broadcast),
+                        "read": char.properties.contains(.read),
+                        "writeWithoutResponse": char.properties.contains(.writeWithoutResponse),
+                        "write": char.properties.contains(.write),
+                        "notify": char.properties.contains(.notify),
+                        "indicate": char.properties.contains(.indicate),
+                        "authenticatedSignedWrites": char.properties.contains(.authenticatedSignedWrites),
+                        "extendedProperties": char.properties.contains(.extendedProperties)
+                    ],
+                    "descriptors": char.descriptors?.map { descriptor -> [String: Any] in
+                        return [
+                            "uuid": descriptor.uuid.uuidString,
+                            "characteristicUuid": char.uuid.uuidString
+                        ]
+                    } ?? []
                 ]
             } ?? []
 
-            sendEvent("onBluetoothEvent", [
-                "type": "servicesDiscovered",
-                "deviceId": deviceId,
-                "data": ["services": services],
-                "timestamp": Date().timeIntervalSince1970 * 1000
-            ])
+            return [
+                "uuid": service.uuid.uuidString,
+                "isPrimary": service.isPrimary,
+                "characteristics": characteristics
+            ]
+        } ?? []
+
+        sendEvent("onBluetoothEvent", [
+            "type": "servicesDiscovered",
+            "deviceId": deviceId,
+            "data": ["services": services],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onCharacteristicValueUpdated(peripheral: CBPeripheral, characteristic: CBCharacteristic, error: Error?) {
+        let key = "\(peripheral.identifier.uuidString)|\(characteristic.uuid.uuidString)"
+
+        // 알림이 켜져 있어도 요청한 읽기 응답은 characteristicRead로 전달
+        if pendingReads.remove(key) != nil || !characteristic.isNotifying {
+            onCharacteristicRead(peripheral: peripheral, characteristic: characteristic, error: error)
+        } else {
+            onCharacteristicNotification(peripheral: peripheral, characteristic: characteristic)
         }
     }
 
@@ -618,7 +936,12 @@ public class BluetoothModule: Module {
             sendEvent("onBluetoothEvent", [
                 "type": "error",
                 "deviceId": deviceId,
-                "data": ["error": error.localizedDescription, "errorCode": "READ_FAILED"],
+                "data": [
+                    "error": error.localizedDescription,
+                    "errorCode": "READ_FAILED",
+                    "serviceUuid": characteristic.service?.uuid.uuidString ?? "",
+                    "characteristicUuid": characteristic.uuid.uuidString
+                ],
                 "timestamp": Date().timeIntervalSince1970 * 1000
             ])
             return
@@ -658,6 +981,101 @@ public class BluetoothModule: Module {
         ])
     }
 
+    /// CoreBluetooth는 디스크립터 값을 타입별 객체(Data, String, NSNumber)로 제공하므로 원본 바이트로 변환
+    private func descriptorData(_ descriptor: CBDescriptor) -> Data {
+        switch descriptor.value {
+        case let data as Data:
+            return data
+        case let string as String:
+            return Data(string.utf8)
+        case let number as NSNumber:
+            var value = number.uint16Value.littleEndian
+            return Data(bytes: &value, count: MemoryLayout<UInt16>.size)
+        default:
+            return Data()
+        }
+    }
+
+    func onDescriptorRead(peripheral: CBPeripheral, descriptor: CBDescriptor, error: Error?) {
+        let deviceId = peripheral.identifier.uuidString
+        let characteristic = descriptor.characteristic
+
+        if let error = error {
+            sendEvent("onBluetoothEvent", [
+                "type": "error",
+                "deviceId": deviceId,
+                "data": [
+                    "error": error.localizedDescription,
+                    "errorCode": "READ_FAILED",
+                    "serviceUuid": characteristic?.service?.uuid.uuidString ?? "",
+                    "characteristicUuid": characteristic?.uuid.uuidString ?? "",
+                    "descriptorUuid": descriptor.uuid.uuidString
+                ],
+                "timestamp": Date().timeIntervalSince1970 * 1000
+            ])
+            return
+        }
+
+        sendEvent("onBluetoothEvent", [
+            "type": "descriptorRead",
+            "deviceId": deviceId,
+            "data": [
+                "result": [
+                    "deviceId": deviceId,
+                    "serviceUuid": characteristic?.service?.uuid.uuidString ?? "",
+                    "characteristicUuid": characteristic?.uuid.uuidString ?? "",
+                    "descriptorUuid": descriptor.uuid.uuidString,
+                    "value": descriptorData(descriptor).base64EncodedString(),
+                    "timestamp": Date().timeIntervalSince1970 * 1000
+                ]
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onDescriptorWritten(peripheral: CBPeripheral, descriptor: CBDescriptor, error: Error?) {
+        let deviceId = peripheral.identifier.uuidString
+        let characteristic = descriptor.characteristic
+
+        sendEvent("onBluetoothEvent", [
+            "type": "descriptorWritten",
+            "deviceId": deviceId,
+            "data": [
+                "serviceUuid": characteristic?.service?.uuid.uuidString ?? "",
+                "characteristicUuid": characteristic?.uuid.uuidString ?? "",
+                "descriptorUuid": descriptor.uuid.uuidString,
+                "success": error == nil,
+                "error": error?.localizedDescription as Any
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onRssiRead(peripheral: CBPeripheral, rssi: NSNumber, error: Error?) {
+        let deviceId = peripheral.identifier.uuidString
+
+        if let error = error {
+            sendEvent("onBluetoothEvent", [
+                "type": "error",
+                "deviceId": deviceId,
+                "data": [
+                    "error": error.localizedDescription,
+                    "errorCode": "OPERATION_FAILED",
+                    "operation": "readRssi"
+                ],
+                "timestamp": Date().timeIntervalSince1970 * 1000
+            ])
+            return
+        }
+
+        sendEvent("onBluetoothEvent", [
+            "type": "rssiRead",
+            "deviceId": deviceId,
+            "data": ["rssi": rssi.intValue],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
     func onCharacteristicNotification(peripheral: CBPeripheral, characteristic: CBCharacteristic) {
         let deviceId = peripheral.identifier.uuidString
         let value = characteristic.value?.base64EncodedString() ?? ""
@@ -678,6 +1096,53 @@ public class BluetoothModule: Module {
         ])
     }
 
+    func onNotificationStateChanged(peripheral: CBPeripheral, characteristic: CBCharacteristic, error: Error?) {
+        let deviceId = peripheral.identifier.uuidString
+
+        sendEvent("onBluetoothEvent", [
+            "type": "notificationStateChanged",
+            "deviceId": deviceId,
+            "data": [
+                "serviceUuid": characteristic.service?.uuid.uuidString ?? "",
+                "characteristicUuid": characteristic.uuid.uuidString,
+                "enabled": characteristic.isNotifying,
+                "success": error == nil,
+                "error": error?.localizedDescription as Any
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onBeaconsRanged(beacons: [CLBeacon]) {
+        let beaconList: [[String: Any]] = beacons.map { beacon in
+            [
+                "uuid": beacon.uuid.uuidString.lowercased(),
+                "major": beacon.major.intValue,
+                "minor": beacon.minor.intValue,
+                "rssi": beacon.rssi,
+                "accuracy": beacon.accuracy
+            ]
+        }
+
+        sendEvent("onBluetoothEvent", [
+            "type": "beaconRanged",
+            "data": ["rangedBeacons": beaconList],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onBeaconRangingFailed(error: Error) {
+        sendEvent("onBluetoothEvent", [
+            "type": "error",
+            "data": [
+                "errorCode": "OPERATION_FAILED",
+                "operation": "beaconRanging",
+                "error": error.localizedDescription
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
     func onBluetoothStateChanged(state: CBManagerState) {
         let stateString: String
         switch state {
@@ -705,6 +1170,555 @@ public class BluetoothModule: Module {
     }
 }
 
+// ============================================================================
+// Peripheral (GATT Server)
+// ============================================================================
+
+/// 응답 대기 중인 요청 (여러 쓰기 요청은 첫 요청에 한 번만 응답)
+class PendingPeripheralRequest {
+    let request: CBATTRequest
+    let group: PeripheralWriteGroup?
+
+    init(request: CBATTRequest, group: PeripheralWriteGroup?) {
+        self.request = request
+        self.group = group
+    }
+}
+
+class PeripheralWriteGroup {
+    let first: CBATTRequest
+    var remaining: Int
+    var failure: CBATTError.Code?
+
+    init(first: CBATTRequest, count: Int) {
+        self.first = first
+        self.remaining = count
+    }
+}
+
+extension BluetoothModule {
+    private func managerStateString(_ state: CBManagerState) -> String {
+        switch state {
+        case .unknown:
+            return "unknown"
+        case .resetting:
+            return "resetting"
+        case .unsupported:
+            return "unsupported"
+        case .unauthorized:
+            return "unauthorized"
+        case .poweredOff:
+            return "poweredOff"
+        case .poweredOn:
+            return "poweredOn"
+        @unknown default:
+            return "unknown"
+        }
+    }
+
+    private func localCharacteristicKey(_ serviceUuid: CBUUID, _ characteristicUuid: CBUUID) -> String {
+        return "\(serviceUuid.uuidString)|\(characteristicUuid.uuidString)".lowercased()
+    }
+
+    private func attError(_ status: String) -> CBATTError.Code {
+        switch status {
+        case "success": return .success
+        case "invalidOffset": return .invalidOffset
+        case "readNotPermitted": return .readNotPermitted
+        case "writeNotPermitted": return .writeNotPermitted
+        case "invalidAttributeValueLength": return .invalidAttributeValueLength
+        case "insufficientAuthentication": return .insufficientAuthentication
+        case "requestNotSupported": return .requestNotSupported
+        case "attributeNotFound": return .attributeNotFound
+        default: return .unlikelyError
+        }
+    }
+
+    /// GATT 서버와 광고가 함께 쓰는 peripheralManager (없으면 생성)
+    private func ensurePeripheralManager() -> CBPeripheralManager {
+        if let manager = peripheralManager {
+            return manager
+        }
+
+        let delegate = PeripheralManagerDelegate(module: self)
+        peripheralManagerDelegate = delegate
+        let manager = CBPeripheralManager(delegate: delegate, queue: nil)
+        peripheralManager = manager
+        return manager
+    }
+
+    func openPeripheralInternal() -> [String: Any] {
+        let manager = ensurePeripheralManager()
+        // 상태는 peripheralStateChanged 이벤트로 전달
+        return ["success": true, "ready": manager.state == .poweredOn]
+    }
+
+    func closePeripheralInternal() -> [String: Any] {
+        peripheralManager?.removeAllServices()
+        // 광고 중이면 manager는 유지
+        if !isAdvertisingActive {
+            peripheralManager?.delegate = nil
+            peripheralManager = nil
+            peripheralManagerDelegate = nil
+        }
+        localCharacteristics.removeAll()
+        peripheralSubscribers.removeAll()
+        pendingPeripheralRequests.removeAll()
+        return ["success": true]
+    }
+
+    func addPeripheralServiceInternal(definition: [String: Any]) -> [String: Any] {
+        guard let manager = peripheralManager else {
+            return ["success": false, "error": "OPERATION_FAILED", "message": "Peripheral is not open"]
+        }
+        guard manager.state == .poweredOn else {
+            return ["success": false, "error": "BLUETOOTH_DISABLED"]
+        }
+        guard let serviceUuidString = definition["uuid"] as? String else {
+            return ["success": false, "error": "INVALID_INPUT", "message": "Service UUID is required"]
+        }
+
+        let serviceUuid = CBUUID(string: serviceUuidString)
+        let service = CBMutableService(type: serviceUuid, primary: (definition["isPrimary"] as? Bool) ?? true)
+        var characteristics: [CBMutableCharacteristic] = []
+
+        for characteristicDefinition in (definition["characteristics"] as? [[String: Any]]) ?? [] {
+            guard let uuidString = characteristicDefinition["uuid"] as? String else { continue }
+            let props = (characteristicDefinition["properties"] as? [String: Any]) ?? [:]
+
+            var properties: CBCharacteristicProperties = []
+            if props["read"] as? Bool == true { properties.insert(.read) }
+            if props["write"] as? Bool == true { properties.insert(.write) }
+            if props["writeWithoutResponse"] as? Bool == true { properties.insert(.writeWithoutResponse) }
+            if props["notify"] as? Bool == true { properties.insert(.notify) }
+            if props["indicate"] as? Bool == true { properties.insert(.indicate) }
+
+            // 권한을 지정하지 않으면 속성에서 추론
+            var permissionNames = characteristicDefinition["permissions"] as? [String] ?? []
+            if characteristicDefinition["permissions"] == nil {
+                if properties.contains(.read) { permissionNames.append("read") }
+                if properties.contains(.write) || properties.contains(.writeWithoutResponse) { permissionNames.append("write") }
+            }
+            var permissions: CBAttributePermissions = []
+            for name in permissionNames {
+                switch name {
+                case "read": permissions.insert(.readable)
+                case "readEncrypted": permissions.insert(.readEncryptionRequired)
+                case "write": permissions.insert(.writeable)
+                case "writeEncrypted": permissions.insert(.writeEncryptionRequired)
+                default: break
+                }
+            }
+
+            // 값은 지정하지 않아 모든 읽기 요청이 didReceiveRead로 전달되도록 함
+            let characteristic = CBMutableCharacteristic(type: CBUUID(string: uuidString), properties: properties, value: nil, permissions: permissions)
+
+            // CoreBluetooth는 User Description(2901)과 Presentation Format(2904) 디스크립터만 허용
+            var descriptors: [CBMutableDescriptor] = []
+            for descriptorDefinition in (characteristicDefinition["descriptors"] as? [[String: Any]]) ?? [] {
+                guard let descriptorUuidString = descriptorDefinition["uuid"] as? String else { continue }
+                let descriptorUuid = CBUUID(string: descriptorUuidString)
+                let data = (descriptorDefinition["value"] as? String).flatMap { Data(base64Encoded: $0) } ?? Data()
+                if descriptorUuid == CBUUID(string: CBUUIDCharacteristicUserDescriptionString) {
+                    descriptors.append(CBMutableDescriptor(type: descriptorUuid, value: String(data: data, encoding: .utf8) ?? ""))
+                } else if descriptorUuid == CBUUID(string: CBUUIDCharacteristicFormatString) {
+                    descriptors.append(CBMutableDescriptor(type: descriptorUuid, value: data))
+                }
+            }
+            if !descriptors.isEmpty {
+                characteristic.descriptors = descriptors
+            }
+
+            characteristics.append(characteristic)
+            localCharacteristics[localCharacteristicKey(serviceUuid, characteristic.uuid)] = characteristic
+        }
+
+        service.characteristics = characteristics
+        manager.add(service)
+        return ["success": true]
+    }
+
+    func respondToPeripheralRequestInternal(requestId: String, status: String, value: String?) -> [String: Any] {
+        guard let manager = peripheralManager else {
+            return ["success": false, "error": "OPERATION_FAILED", "message": "Peripheral is not open"]
+        }
+        guard let pending = pendingPeripheralRequests.removeValue(forKey: requestId) else {
+            return ["success": false, "error": "OPERATION_FAILED", "message": "Unknown request \(requestId)"]
+        }
+
+        let result = attError(status)
+        guard let group = pending.group else {
+            if let value = value {
+                guard let data = Data(base64Encoded: value) else {
+                    manager.respond(to: pending.request, withResult: .unlikelyError)
+                    return ["success": false, "error": "INVALID_INPUT", "message": "Invalid Base64 value"]
+                }
+                pending.request.value = data
+            }
+            manager.respond(to: pending.request, withResult: result)
+            return ["success": true]
+        }
+
+        // 묶인 쓰기 요청은 모두 응답받은 뒤 첫 요청에 한 번 응답 (첫 실패 우선)
+        if result != .success && group.failure == nil {
+            group.failure = result
+        }
+        group.remaining -= 1
+        if group.remaining == 0 {
+            manager.respond(to: group.first, withResult: group.failure ?? .success)
+        }
+        return ["success": true]
+    }
+
+    func notifyPeripheralInternal(serviceUuid: String, characteristicUuid: String, value: String, deviceId: String) -> [String: Any] {
+        guard let manager = peripheralManager else {
+            return ["success": false, "error": "OPERATION_FAILED", "message": "Peripheral is not open"]
+        }
+        let key = localCharacteristicKey(CBUUID(string: serviceUuid), CBUUID(string: characteristicUuid))
+        guard let characteristic = localCharacteristics[key] else {
+            return ["success": false, "error": "CHARACTERISTIC_NOT_FOUND"]
+        }
+        guard let central = peripheralSubscribers[key]?[deviceId] else {
+            return ["success": false, "error": "DEVICE_NOT_CONNECTED", "message": "Central is not subscribed"]
+        }
+        guard let data = Data(base64Encoded: value) else {
+            return ["success": false, "error": "INVALID_INPUT", "message": "Invalid Base64 value"]
+        }
+
+        if manager.updateValue(data, for: characteristic, onSubscribedCentrals: [central]) {
+            return ["success": true, "sent": true]
+        }
+        // 전송 큐가 가득 참 (peripheralReady 이후 다시 시도)
+        return ["success": false, "error": "OPERATION_FAILED", "queueFull": true]
+    }
+
+    func onPeripheralStateChanged(state: CBManagerState) {
+        handleAdvertisingStateChange(state)
+        sendEvent("onBluetoothEvent", [
+            "type": "peripheralStateChanged",
+            "data": ["state": managerStateString(state)],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onPeripheralServiceAdded(service: CBService, error: Error?) {
+        sendEvent("onBluetoothEvent", [
+            "type": "peripheralServiceAdded",
+            "data": [
+                "serviceUuid": service.uuid.uuidString,
+                "success": error == nil,
+                "error": error?.localizedDescription as Any
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    private func registerPeripheralRequest(_ request: CBATTRequest, group: PeripheralWriteGroup?) -> String {
+        let requestId = String(nextPeripheralRequestId)
+        nextPeripheralRequestId += 1
+        pendingPeripheralRequests[requestId] = PendingPeripheralRequest(request: request, group: group)
+        return requestId
+    }
+
+    func onPeripheralReadRequest(request: CBATTRequest) {
+        let requestId = registerPeripheralRequest(request, group: nil)
+        let centralId = request.central.identifier.uuidString
+
+        sendEvent("onBluetoothEvent", [
+            "type": "peripheralReadRequest",
+            "deviceId": centralId,
+            "data": [
+                "request": [
+                    "requestId": requestId,
+                    "type": "read",
+                    "deviceId": centralId,
+                    "serviceUuid": request.characteristic.service?.uuid.uuidString ?? "",
+                    "characteristicUuid": request.characteristic.uuid.uuidString,
+                    "offset": request.offset,
+                    "responseNeeded": true
+                ]
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onPeripheralWriteRequests(requests: [CBATTRequest]) {
+        guard let first = requests.first else { return }
+        let group = PeripheralWriteGroup(first: first, count: requests.count)
+
+        for request in requests {
+            let requestId = registerPeripheralRequest(request, group: group)
+            let centralId = request.central.identifier.uuidString
+
+            sendEvent("onBluetoothEvent", [
+                "type": "peripheralWriteRequest",
+                "deviceId": centralId,
+                "data": [
+                    "request": [
+                        "requestId": requestId,
+                        "type": "write",
+                        "deviceId": centralId,
+                        "serviceUuid": request.characteristic.service?.uuid.uuidString ?? "",
+                        "characteristicUuid": request.characteristic.uuid.uuidString,
+                        "offset": request.offset,
+                        "value": request.value?.base64EncodedString() ?? "",
+                        "responseNeeded": true
+                    ]
+                ],
+                "timestamp": Date().timeIntervalSince1970 * 1000
+            ])
+        }
+    }
+
+    func onPeripheralSubscriptionChanged(central: CBCentral, characteristic: CBCharacteristic, subscribed: Bool) {
+        let serviceUuid = characteristic.service?.uuid ?? CBUUID(string: "0000")
+        let key = localCharacteristicKey(serviceUuid, characteristic.uuid)
+        let centralId = central.identifier.uuidString
+        if subscribed {
+            peripheralSubscribers[key, default: [:]][centralId] = central
+        } else {
+            peripheralSubscribers[key]?.removeValue(forKey: centralId)
+        }
+
+        sendEvent("onBluetoothEvent", [
+            "type": "peripheralSubscriptionChanged",
+            "deviceId": centralId,
+            "data": [
+                "subscription": [
+                    "deviceId": centralId,
+                    "serviceUuid": serviceUuid.uuidString,
+                    "characteristicUuid": characteristic.uuid.uuidString,
+                    "subscribed": subscribed
+                ]
+            ],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func onPeripheralReady() {
+        sendEvent("onBluetoothEvent", [
+            "type": "peripheralReady",
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+}
+
+// ============================================================================
+// Advertising
+// ============================================================================
+
+extension BluetoothModule {
+    /// iBeacon 형식의 Apple 제조사 데이터를 CoreLocation 광고 데이터로 변환
+    private func iBeaconAdvertisement(_ entry: [String: Any]) -> [String: Any]? {
+        guard (entry["companyId"] as? Int) == 0x004C,
+              let encoded = entry["data"] as? String,
+              let data = Data(base64Encoded: encoded),
+              data.count == 23, data[0] == 0x02, data[1] == 0x15 else {
+            return nil
+        }
+
+        let bytes = [UInt8](data)
+        let uuid = NSUUID(uuidBytes: Array(bytes[2..<18])) as UUID
+        let major = CLBeaconMajorValue(UInt16(bytes[18]) << 8 | UInt16(bytes[19]))
+        let minor = CLBeaconMinorValue(UInt16(bytes[20]) << 8 | UInt16(bytes[21]))
+        let measuredPower = NSNumber(value: Int8(bitPattern: bytes[22]))
+
+        let region = CLBeaconRegion(uuid: uuid, major: major, minor: minor, identifier: "advertising")
+        return region.peripheralData(withMeasuredPower: measuredPower) as? [String: Any]
+    }
+
+    func startAdvertisingInternal(options: [String: Any]) -> [String: Any] {
+        let serviceData = options["serviceData"] as? [[String: Any]] ?? []
+        let manufacturerData = options["manufacturerData"] as? [[String: Any]] ?? []
+        if !serviceData.isEmpty {
+            return ["success": false, "error": "OPERATION_NOT_SUPPORTED", "message": "Service data can't be advertised on iOS"]
+        }
+
+        var advertisement: [String: Any] = [:]
+        if let entry = manufacturerData.first {
+            // iOS는 임의의 제조사 데이터를 광고할 수 없고 iBeacon만 CoreLocation으로 광고 가능
+            guard manufacturerData.count == 1, let beacon = iBeaconAdvertisement(entry) else {
+                return ["success": false, "error": "OPERATION_NOT_SUPPORTED", "message": "Only iBeacon manufacturer data can be advertised on iOS"]
+            }
+            advertisement = beacon
+        } else {
+            if let localName = options["localName"] as? String {
+                advertisement[CBAdvertisementDataLocalNameKey] = localName
+            }
+            if let uuids = options["serviceUUIDs"] as? [String], !uuids.isEmpty {
+                advertisement[CBAdvertisementDataServiceUUIDsKey] = uuids.map { CBUUID(string: $0) }
+            }
+        }
+
+        if isAdvertisingActive {
+            _ = stopAdvertisingInternal(reason: "stopped")
+        }
+
+        let manager = ensurePeripheralManager()
+        isAdvertisingActive = true
+        advertisingTimeout = Double((options["timeout"] as? Int) ?? 0)
+
+        if manager.state == .poweredOn {
+            beginAdvertising(manager, advertisement)
+        } else {
+            // 상태가 확정되면 handleAdvertisingStateChange에서 시작 또는 실패 처리
+            pendingAdvertisement = advertisement
+        }
+        return ["success": true]
+    }
+
+    private func beginAdvertising(_ manager: CBPeripheralManager, _ advertisement: [String: Any]) {
+        manager.startAdvertising(advertisement)
+
+        if advertisingTimeout > 0 {
+            advertisingTimer?.invalidate()
+            advertisingTimer = Timer.scheduledTimer(withTimeInterval: advertisingTimeout / 1000.0, repeats: false) { [weak self] _ in
+                _ = self?.stopAdvertisingInternal(reason: "timeout")
+            }
+        }
+    }
+
+    func stopAdvertisingInternal(reason: String) -> [String: Any] {
+        advertisingTimer?.invalidate()
+        advertisingTimer = nil
+        pendingAdvertisement = nil
+
+        if isAdvertisingActive {
+            peripheralManager?.stopAdvertising()
+            isAdvertisingActive = false
+
+            sendEvent("onBluetoothEvent", [
+                "type": "advertisingStopped",
+                "data": ["reason": reason],
+                "timestamp": Date().timeIntervalSince1970 * 1000
+            ])
+        }
+
+        return ["success": true]
+    }
+
+    private func sendAdvertisingFailed(error: String, errorCode: String) {
+        isAdvertisingActive = false
+        advertisingTimer?.invalidate()
+        advertisingTimer = nil
+        pendingAdvertisement = nil
+
+        sendEvent("onBluetoothEvent", [
+            "type": "advertisingFailed",
+            "data": ["error": error, "errorCode": errorCode],
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+
+    func handleAdvertisingStateChange(_ state: CBManagerState) {
+        guard isAdvertisingActive else { return }
+
+        if let advertisement = pendingAdvertisement {
+            switch state {
+            case .poweredOn:
+                pendingAdvertisement = nil
+                if let manager = peripheralManager {
+                    beginAdvertising(manager, advertisement)
+                }
+            case .unknown, .resetting:
+                break
+            default:
+                sendAdvertisingFailed(error: "Bluetooth is not available for advertising", errorCode: managerStateString(state))
+            }
+            return
+        }
+
+        // 블루투스가 꺼지면 광고도 함께 중지됨
+        if state == .poweredOff {
+            advertisingTimer?.invalidate()
+            advertisingTimer = nil
+            isAdvertisingActive = false
+
+            sendEvent("onBluetoothEvent", [
+                "type": "advertisingStopped",
+                "data": ["reason": "bluetoothDisabled"],
+                "timestamp": Date().timeIntervalSince1970 * 1000
+            ])
+        }
+    }
+
+    func onAdvertisingStarted(error: Error?) {
+        if let error = error {
+            sendAdvertisingFailed(error: error.localizedDescription, errorCode: "INTERNAL_ERROR")
+            return
+        }
+
+        sendEvent("onBluetoothEvent", [
+            "type": "advertisingStarted",
+            "timestamp": Date().timeIntervalSince1970 * 1000
+        ])
+    }
+}
+
+// ============================================================================
+// Peripheral Manager Delegate
+// ============================================================================
+
+class PeripheralManagerDelegate: NSObject, CBPeripheralManagerDelegate {
+    weak var module: BluetoothModule?
+
+    init(module: BluetoothModule) {
+        self.module = module
+    }
+
+    func peripheralManagerDidUpdateState(_ peripheral: CBPeripheralManager) {
+        module?.onPeripheralStateChanged(state: peripheral.state)
+    }
+
+    func peripheralManager(_ peripheral: CBPeripheralManager, didAdd service: CBService, error: Error?) {
+        module?.onPeripheralServiceAdded(service: service, error: error)
+    }
+
+    func peripheralManager(_ peripheral: CBPeripheralManager, didReceiveRead request: CBATTRequest) {
+        module?.onPeripheralReadRequest(request: request)
+    }
+
+    func peripheralManager(_ peripheral: CBPeripheralManager, didReceiveWrite requests: [CBATTRequest]) {
+        module?.onPeripheralWriteRequests(requests: requests)
+    }
+
+    func peripheralManager(_ peripheral: CBPeripheralManager, central: CBCentral, didSubscribeTo characteristic: CBCharacteristic) {
+        module?.onPeripheralSubscriptionChanged(central: central, characteristic: characteristic, subscribed: true)
+    }
+
+    func peripheralManager(_ peripheral: CBPeripheralManager, central: CBCentral, didUnsubscribeFrom characteristic: CBCharacteristic) {
+        module?.onPeripheralSubscriptionChanged(central: central, characteristic: characteristic, subscribed: false)
+    }
+
+    func peripheralManagerIsReady(toUpdateSubscribers peripheral: CBPeripheralManager) {
+        module?.onPeripheralReady()
+    }
+
+    func peripheralManagerDidStartAdvertising(_ peripheral: CBPeripheralManager, error: Error?) {
+        module?.onAdvertisingStarted(error: error)
+    }
+}
+
+// ============================================================================
+// Beacon Ranging Delegate
+// ============================================================================
+
+class BeaconRangingDelegate: NSObject, CLLocationManagerDelegate {
+    weak var module: BluetoothModule?
+
+    init(module: BluetoothModule) {
+        self.module = module
+    }
+
+    func locationManager(_ manager: CLLocationManager, didRange beacons: [CLBeacon], satisfying beaconConstraint: CLBeaconIdentityConstraint) {
+        module?.onBeaconsRanged(beacons: beacons)
+    }
+
+    func locationManager(_ manager: CLLocationManager, didFailRangingFor beaconConstraint: CLBeaconIdentityConstraint, error: Error) {
+        module?.onBeaconRangingFailed(error: error)
+    }
+}
+
 // ============================================================================
 // Central Manager Delegate
 // ============================================================================
@@ -766,14 +1780,31 @@ class PeripheralDelegate: NSObject, CBPeripheralDelegate {
     }
 
     func peripheral(_ peripheral: CBPeripheral, didUpdateValueFor characteristic: CBCharacteristic, error: Error?) {
-        if characteristic.isNotifying {
-            module?.onCharacteristicNotification(peripheral: peripheral, characteristic: characteristic)
-        } else {
-            module?.onCharacteristicRead(peripheral: peripheral, characteristic: characteristic, error: error)
-        }
+        module?.onCharacteristicValueUpdated(peripheral: peripheral, characteristic: characteristic, error: error)
     }
 
     func peripheral(_ peripheral: CBPeripheral, didWriteValueFor characteristic: CBCharacteristic, error: Error?) {
         module?.onCharacteristicWritten(peripheral: peripheral, characteristic: characteristic, error: error)
     }
+
+    func peripheral(_ peripheral: CBPeripheral, didUpdateNotificationStateFor characteristic: CBCharacteristic, error: Error?) {
+        module?.onNotificationStateChanged(peripheral: peripheral, characteristic: characteristic, error: error)
+    }
+
+    // 실패해도 대기 수를 줄여 servicesDiscovered가 전송되도록 항상 전달
+    func peripheral(_ peripheral: CBPeripheral, didDiscoverDescriptorsFor characteristic: CBCharacteristic, error: Error?) {
+        module?.onDescriptorsDiscovered(peripheral: peripheral, characteristic: characteristic)
+    }
+
+    func peripheral(_ peripheral: CBPeripheral, didUpdateValueFor descriptor: CBDescriptor, error: Error?) {
+        module?.onDescriptorRead(peripheral: peripheral, descriptor: descriptor, error: error)
+    }
+
+    func peripheral(_ peripheral: CBPeripheral, didWriteValueFor descriptor: CBDescriptor, error: Error?) {
+        module?.onDescriptorWritten(peripheral: peripheral, descriptor: descriptor, error: error)
+    }
+
+    func peripheral(_ peripheral: CBPeripheral, didReadRSSI RSSI: NSNumber, error: Error?) {
+        module?.onRssiRead(peripheral: peripheral, rssi: RSSI, error: error)
+    }
 }
@@ -0,0 +1,148 @@
+/**
+ * 긴 쓰기 (writeLong)
+ * MTU보다 큰 값을 청크로 나눠 순서대로 쓰고, 진행 상황을 writeProgress 이벤트로 알립니다
+ * 청크가 실패하면 재시도 후 실패한 청크의 시작 위치를 bytesWritten으로 돌려주어 offset으로 이어쓸 수 있습니다
+ */
+
+import type {
+  BluetoothEvent,
+  BluetoothResult,
+  LongWriteMode,
+  LongWriteOptions,
+  LongWriteResult,
+  WriteOptions,
+} from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { normalizeUuid } from './uuid';
+
+/**
+ * 긴 쓰기 의존성
+ */
+export interface LongWriteDependencies {
+  /** 청크 쓰기 */
+  write: (
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string,
+    options: WriteOptions
+  ) => Promise<BluetoothResult>;
+  /** 장치의 현재 MTU */
+  getMtu: (deviceId: string) => number;
+  /** 진행 이벤트 전달 */
+  emit: (event: BluetoothEvent) => void;
+}
+
+/** ATT 헤더 크기 (opcode + handle) */
+const ATT_HEADER_SIZE = 3;
+
+/** 특성 값 최대 길이 (prepared 청크 크기) */
+const MAX_ATTRIBUTE_LENGTH = 512;
+
+/** 기본 청크 재시도 횟수 */
+const DEFAULT_RETRIES = 2;
+
+/** withoutResponse 기본 청크 간격 (ms) */
+const DEFAULT_INTERVAL = 10;
+
+/** 진행 이벤트 최소 간격 (ms, 마지막 청크는 항상 전달) */
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * 쓰기 방식별 최대 청크 크기
+ */
+function getMaxChunkSize(mode: LongWriteMode, mtu: number): number {
+  return mode === 'prepared' ? MAX_ATTRIBUTE_LENGTH : Math.max(1, mtu - ATT_HEADER_SIZE);
+}
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 긴 쓰기 실행기 생성
+ */
+export function createLongWriter(deps: LongWriteDependencies) {
+  let nextWriteId = 1;
+
+  /**
+   * 값을 청크로 나눠 쓰기
+   */
+  const write = async (
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string,
+    options: LongWriteOptions = {}
+  ): Promise<LongWriteResult> => {
+    const bytes = base64ToBytes(value);
+    if (!bytes) {
+      return { success: false, error: 'INVALID_INPUT', message: 'value: Invalid Base64', field: 'value' };
+    }
+
+    const totalBytes = bytes.length;
+    const start = options.offset ?? 0;
+    if (start > totalBytes) {
+      return {
+        success: false,
+        error: 'INVALID_INPUT',
+        message: `options.offset: Must be at most ${totalBytes}`,
+        field: 'options.offset',
+      };
+    }
+
+    const writeId = `write-${nextWriteId++}`;
+    const mode = options.mode ?? 'withResponse';
+    const maxChunkSize = getMaxChunkSize(mode, deps.getMtu(deviceId));
+    const chunkSize = Math.min(options.chunkSize ?? maxChunkSize, maxChunkSize);
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    const interval = options.interval ?? DEFAULT_INTERVAL;
+    const writeOptions: WriteOptions = { timeout: options.timeout, withResponse: mode !== 'withoutResponse' };
+
+    let lastProgressAt = 0;
+    const emitProgress = (bytesWritten: number): void => {
+      const now = Date.now();
+      if (bytesWritten < totalBytes && now - lastProgressAt < PROGRESS_INTERVAL) return;
+      lastProgressAt = now;
+      deps.emit({
+        type: 'writeProgress',
+        deviceId,
+        data: {
+          progress: {
+            writeId,
+            deviceId,
+            serviceUuid: normalizeUuid(serviceUuid),
+            characteristicUuid: normalizeUuid(characteristicUuid),
+            bytesWritten,
+            totalBytes,
+          },
+        },
+        timestamp: now,
+      });
+    };
+
+    let offset = start;
+    while (offset < totalBytes) {
+      const chunk = bytesToBase64(bytes.subarray(offset, offset + chunkSize));
+
+      let result: BluetoothResult = { success: false };
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        result = await deps.write(deviceId, serviceUuid, characteristicUuid, chunk, writeOptions);
+        // 연결이 끊기면 재시도하지 않음
+        if (result.success || result.error === 'DEVICE_NOT_CONNECTED') break;
+      }
+      if (!result.success) {
+        return { ...result, writeId, bytesWritten: offset, totalBytes };
+      }
+
+      offset = Math.min(offset + chunkSize, totalBytes);
+      emitProgress(offset);
+
+      if (mode === 'withoutResponse' && offset < totalBytes && interval > 0) {
+        await delay(interval);
+      }
+    }
+
+    return { success: true, writeId, bytesWritten: totalBytes, totalBytes };
+  };
+
+  return { write };
+}
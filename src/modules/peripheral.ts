@@ -0,0 +1,366 @@
+/**
+ * 로컬 GATT 서버 (peripheral 모드)
+ * 서비스 정의를 네이티브 GATT 서버에 등록하고, central의 읽기/쓰기 요청에 저장된 값이나 콜백/수동 응답으로 답하며,
+ * 구독한 central에 알림을 보냅니다
+ */
+
+import type {
+  BluetoothEvent,
+  BluetoothResult,
+  PeripheralCharacteristicDefinition,
+  PeripheralNotifyResult,
+  PeripheralOptions,
+  PeripheralRequest,
+  PeripheralResponse,
+  PeripheralResponseStatus,
+  PeripheralServiceDefinition,
+} from '../types/bluetooth-module';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { normalizeUuid } from './uuid';
+
+/**
+ * 로컬 GATT 서버 의존성
+ */
+export interface PeripheralDependencies {
+  /** 네이티브 GATT 서버 열기 (사용 가능해질 때까지 대기) */
+  open: () => Promise<BluetoothResult>;
+  /** 네이티브 GATT 서버 닫기 */
+  close: () => Promise<BluetoothResult>;
+  /** 서비스 등록 (등록 완료까지 대기) */
+  addService: (service: PeripheralServiceDefinition) => Promise<BluetoothResult>;
+  /** 요청 응답 */
+  respond: (requestId: string, status: PeripheralResponseStatus, value: string | null) => Promise<BluetoothResult>;
+  /** central 하나에 알림 전송 (전송 완료까지 대기) */
+  notify: (serviceUuid: string, characteristicUuid: string, value: string, deviceId: string) => Promise<BluetoothResult>;
+  /** 네이티브 요청 이벤트 구독 */
+  addListener: (listener: (event: BluetoothEvent) => void) => { remove: () => void };
+}
+
+/** 기본 manual 요청 응답 대기 시간 (ms) */
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * 등록된 특성
+ */
+interface LocalCharacteristic {
+  definition: PeripheralCharacteristicDefinition;
+  value: Uint8Array;
+  /** 구독 중인 central ID */
+  subscribers: Set<string>;
+}
+
+/**
+ * manual 응답 대기 중인 요청
+ */
+interface PendingRequest {
+  request: PeripheralRequest;
+  characteristic: LocalCharacteristic;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const characteristicKey = (serviceUuid: string, characteristicUuid: string): string =>
+  `${normalizeUuid(serviceUuid)}|${normalizeUuid(characteristicUuid)}`;
+
+/**
+ * 정의의 UUID를 정규화
+ */
+function normalizeService(service: PeripheralServiceDefinition): PeripheralServiceDefinition {
+  return {
+    ...service,
+    uuid: normalizeUuid(service.uuid),
+    characteristics: service.characteristics.map((characteristic) => ({
+      ...characteristic,
+      uuid: normalizeUuid(characteristic.uuid),
+      descriptors: characteristic.descriptors?.map((descriptor) => ({
+        ...descriptor,
+        uuid: normalizeUuid(descriptor.uuid),
+      })),
+    })),
+  };
+}
+
+/**
+ * 정의의 Base64 값 검사
+ * @returns 잘못된 필드 경로 (모두 올바르면 null)
+ */
+function findInvalidValue(services: PeripheralServiceDefinition[]): string | null {
+  for (let i = 0; i < services.length; i++) {
+    const characteristics = services[i].characteristics;
+    for (let j = 0; j < characteristics.length; j++) {
+      const path = `services.${i}.characteristics.${j}`;
+      const { value, descriptors = [] } = characteristics[j];
+      if (value !== undefined && !base64ToBytes(value)) return `${path}.value`;
+      const descriptor = descriptors.findIndex((entry) => entry.value !== undefined && !base64ToBytes(entry.value));
+      if (descriptor >= 0) return `${path}.descriptors.${descriptor}.value`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 쓰기 요청을 현재 값에 반영 (offset 이후는 새 값으로 교체)
+ * @returns offset이 현재 값보다 길거나 값이 잘못되었으면 null
+ */
+function applyWrite(current: Uint8Array, request: PeripheralRequest): Uint8Array | null {
+  const data = base64ToBytes(request.value ?? '');
+  if (!data || request.offset > current.length) return null;
+
+  const next = new Uint8Array(request.offset + data.length);
+  next.set(current.subarray(0, request.offset));
+  next.set(data, request.offset);
+  return next;
+}
+
+/**
+ * 로컬 GATT 서버 생성
+ */
+export function createPeripheralServer(deps: PeripheralDependencies) {
+  const characteristics = new Map<string, LocalCharacteristic>();
+  const pending = new Map<string, PendingRequest>();
+  let options: PeripheralOptions = {};
+  let subscription: { remove: () => void } | null = null;
+  /** 알림 전송 직렬화 (네이티브는 이전 전송이 끝나야 다음 전송 가능) */
+  let notifyChain: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 요청에 응답하고, 쓰기 요청이 성공하면 값을 저장
+   */
+  const finish = async (
+    request: PeripheralRequest,
+    characteristic: LocalCharacteristic,
+    response: PeripheralResponse
+  ): Promise<BluetoothResult> => {
+    let status = response.status ?? 'success';
+
+    if (request.type === 'read') {
+      if (status !== 'success') return deps.respond(request.requestId, status, null);
+
+      const value = response.value !== undefined ? base64ToBytes(response.value) : characteristic.value;
+      if (!value) return deps.respond(request.requestId, 'unlikelyError', null);
+      if (request.offset > value.length) return deps.respond(request.requestId, 'invalidOffset', null);
+      return deps.respond(request.requestId, 'success', bytesToBase64(value.subarray(request.offset)));
+    }
+
+    if (status === 'success') {
+      const next = applyWrite(characteristic.value, request);
+      if (next) {
+        characteristic.value = next;
+      } else {
+        status = 'invalidOffset';
+      }
+    }
+    return request.responseNeeded ? deps.respond(request.requestId, status, null) : { success: true };
+  };
+
+  /**
+   * central 요청 처리
+   */
+  const handleRequest = async (request: PeripheralRequest): Promise<void> => {
+    const characteristic = characteristics.get(characteristicKey(request.serviceUuid, request.characteristicUuid));
+    if (!characteristic) {
+      if (request.responseNeeded) await deps.respond(request.requestId, 'attributeNotFound', null);
+      return;
+    }
+
+    if (characteristic.definition.responseMode === 'manual') {
+      // 응답이 필요 없는 쓰기는 바로 저장
+      if (!request.responseNeeded) {
+        await finish(request, characteristic, {});
+        return;
+      }
+      const timeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+      const entry: PendingRequest = { request, characteristic, timer: null };
+      if (timeout > 0) {
+        entry.timer = setTimeout(() => {
+          pending.delete(request.requestId);
+          deps.respond(request.requestId, 'unlikelyError', null).catch(() => undefined);
+        }, timeout);
+      }
+      pending.set(request.requestId, entry);
+      return;
+    }
+
+    const handler = request.type === 'read' ? options.onReadRequest : options.onWriteRequest;
+    let response: PeripheralResponse = {};
+    try {
+      response = (await handler?.(request)) ?? {};
+    } catch {
+      response = { status: 'unlikelyError' };
+    }
+    await finish(request, characteristic, response);
+  };
+
+  const handleEvent = (event: BluetoothEvent): void => {
+    const request = event.data?.request;
+    if ((event.type === 'peripheralReadRequest' || event.type === 'peripheralWriteRequest') && request) {
+      handleRequest(request).catch(() => undefined);
+      return;
+    }
+
+    const change = event.data?.subscription;
+    if (event.type === 'peripheralSubscriptionChanged' && change) {
+      const characteristic = characteristics.get(characteristicKey(change.serviceUuid, change.characteristicUuid));
+      if (change.subscribed) characteristic?.subscribers.add(change.deviceId);
+      else characteristic?.subscribers.delete(change.deviceId);
+      return;
+    }
+
+    if (event.type === 'centralDisconnected' && event.deviceId) {
+      const deviceId = event.deviceId;
+      characteristics.forEach((characteristic) => characteristic.subscribers.delete(deviceId));
+    }
+  };
+
+  /**
+   * 상태 초기화 (대기 중인 manual 요청은 버림)
+   */
+  const reset = (): void => {
+    subscription?.remove();
+    subscription = null;
+    pending.forEach((entry) => {
+      if (entry.timer) clearTimeout(entry.timer);
+    });
+    pending.clear();
+    characteristics.clear();
+    options = {};
+  };
+
+  /**
+   * GATT 서버 중지 (모든 서비스 제거)
+   */
+  const stop = async (): Promise<BluetoothResult> => {
+    if (!subscription) return { success: true };
+    reset();
+    return deps.close();
+  };
+
+  /**
+   * GATT 서버 시작 (실행 중이면 중지 후 새 정의로 다시 시작)
+   */
+  const start = async (
+    services: PeripheralServiceDefinition[],
+    startOptions: PeripheralOptions = {}
+  ): Promise<BluetoothResult> => {
+    const invalid = findInvalidValue(services);
+    if (invalid) {
+      return { success: false, error: 'INVALID_INPUT', message: `${invalid}: Invalid Base64`, field: invalid };
+    }
+
+    await stop();
+
+    const opened = await deps.open();
+    if (!opened.success) return opened;
+
+    options = startOptions;
+    subscription = deps.addListener(handleEvent);
+
+    const normalized = services.map(normalizeService);
+    for (const service of normalized) {
+      const added = await deps.addService(service);
+      if (!added.success) {
+        await stop();
+        return added;
+      }
+      service.characteristics.forEach((definition) => {
+        characteristics.set(characteristicKey(service.uuid, definition.uuid), {
+          definition,
+          value: base64ToBytes(definition.value ?? '') ?? new Uint8Array(0),
+          subscribers: new Set(),
+        });
+      });
+    }
+    return { success: true };
+  };
+
+  /**
+   * manual 요청에 응답
+   */
+  const respond = async (requestId: string, response: PeripheralResponse = {}): Promise<BluetoothResult> => {
+    const entry = pending.get(requestId);
+    if (!entry) {
+      return {
+        success: false,
+        error: 'INVALID_INPUT',
+        message: `requestId: Unknown or expired request ${requestId}`,
+        field: 'requestId',
+      };
+    }
+    if (response.value !== undefined && !base64ToBytes(response.value)) {
+      return { success: false, error: 'INVALID_INPUT', message: 'value: Invalid Base64', field: 'value' };
+    }
+
+    pending.delete(requestId);
+    if (entry.timer) clearTimeout(entry.timer);
+    return finish(entry.request, entry.characteristic, response);
+  };
+
+  const findCharacteristic = (
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string
+  ): { characteristic: LocalCharacteristic; bytes: Uint8Array } | BluetoothResult => {
+    const characteristic = characteristics.get(characteristicKey(serviceUuid, characteristicUuid));
+    if (!characteristic) return { success: false, error: 'CHARACTERISTIC_NOT_FOUND' };
+    const bytes = base64ToBytes(value);
+    if (!bytes) return { success: false, error: 'INVALID_INPUT', message: 'value: Invalid Base64', field: 'value' };
+    return { characteristic, bytes };
+  };
+
+  /**
+   * 특성 값 변경 (이후 auto 방식 읽기 요청에 사용, 알림은 보내지 않음)
+   */
+  const setValue = (serviceUuid: string, characteristicUuid: string, value: string): BluetoothResult => {
+    const found = findCharacteristic(serviceUuid, characteristicUuid, value);
+    if (!('characteristic' in found)) return found;
+    found.characteristic.value = found.bytes;
+    return { success: true };
+  };
+
+  /**
+   * 특성 값을 변경하고 구독 중인 central에 알림 전송 (deviceIds 지정 시 해당 central만)
+   */
+  const notify = async (
+    serviceUuid: string,
+    characteristicUuid: string,
+    value: string,
+    deviceIds?: string[]
+  ): Promise<PeripheralNotifyResult> => {
+    const found = findCharacteristic(serviceUuid, characteristicUuid, value);
+    if (!('characteristic' in found)) return found;
+
+    const { characteristic, bytes } = found;
+    const { notify: canNotify, indicate: canIndicate } = characteristic.definition.properties;
+    if (!canNotify && !canIndicate) {
+      return { success: false, error: 'OPERATION_NOT_SUPPORTED', message: 'Characteristic does not support notify' };
+    }
+    characteristic.value = bytes;
+
+    const targets = Array.from(characteristic.subscribers).filter((id) => !deviceIds || deviceIds.includes(id));
+    const service = normalizeUuid(serviceUuid);
+    const uuid = normalizeUuid(characteristicUuid);
+
+    const run = async (): Promise<PeripheralNotifyResult> => {
+      const sent: string[] = [];
+      const failed: string[] = [];
+      for (const deviceId of targets) {
+        const result = await deps.notify(service, uuid, value, deviceId);
+        (result.success ? sent : failed).push(deviceId);
+      }
+      if (failed.length > 0) {
+        return { success: false, error: 'NOTIFICATION_FAILED', sent, failed };
+      }
+      return { success: true, sent, failed };
+    };
+
+    const result = notifyChain.then(run);
+    notifyChain = result.catch(() => undefined);
+    return result;
+  };
+
+  /**
+   * 실행 중 여부
+   */
+  const isRunning = (): boolean => subscription !== null;
+
+  return { start, stop, respond, setValue, notify, isRunning };
+}
@@ -0,0 +1,276 @@
+/**
+ * 자동 재연결 관리자
+ * 의도하지 않은 연결 해제 시 백오프 정책에 따라 재연결하고, 활성화되어 있던 알림을 복원합니다
+ */
+
+import type {
+  BluetoothDeviceType,
+  BluetoothEvent,
+  BluetoothResult,
+  ConnectResult,
+  ConnectionOptions,
+  ReconnectionPolicy,
+} from '../types/bluetooth-module';
+import { normalizeUuid } from './uuid';
+
+/**
+ * 재연결 관리자 의존성
+ */
+export interface ReconnectionDependencies {
+  /** 재연결 시도 (reconnect 옵션은 제거된 상태로 전달) */
+  connect: (deviceId: string, type: BluetoothDeviceType, options: ConnectionOptions) => Promise<ConnectResult>;
+  /** 재연결 취소 시 연결 정리 */
+  cancel: (deviceId: string) => Promise<void>;
+  /** 알림 복원 */
+  setNotification: (
+    deviceId: string,
+    serviceUuid: string,
+    characteristicUuid: string,
+    enable: boolean
+  ) => Promise<BluetoothResult>;
+  /** 재연결 이벤트 전달 */
+  emit: (event: BluetoothEvent) => void;
+}
+
+/**
+ * 재연결 관리 대상 장치
+ */
+interface ManagedDevice {
+  type: BluetoothDeviceType;
+  options: ConnectionOptions;
+  policy: Required<ReconnectionPolicy>;
+  reconnecting: boolean;
+  cancelled: boolean;
+  /** 대기 중인 백오프 타이머 */
+  timer: ReturnType<typeof setTimeout> | null;
+  /** 백오프 대기를 즉시 끝내는 함수 */
+  wake: (() => void) | null;
+}
+
+/**
+ * 활성화된 알림
+ */
+interface TrackedNotification {
+  serviceUuid: string;
+  characteristicUuid: string;
+}
+
+/** 기본 재연결 정책 */
+const DEFAULT_POLICY: Required<ReconnectionPolicy> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * 정책 기본값 적용
+ */
+export function resolveReconnectionPolicy(policy: boolean | ReconnectionPolicy | undefined): Required<ReconnectionPolicy> | null {
+  if (!policy) return null;
+  return { ...DEFAULT_POLICY, ...(policy === true ? {} : policy) };
+}
+
+/**
+ * n번째 시도의 백오프 지연 (ms)
+ */
+export function getReconnectionDelay(policy: Required<ReconnectionPolicy>, attempt: number): number {
+  const base = Math.min(policy.initialDelay * Math.pow(policy.multiplier, attempt - 1), policy.maxDelay);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  const offset = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + offset));
+}
+
+/**
+ * 재연결 관리자를 생성합니다
+ */
+export function createReconnectionManager(deps: ReconnectionDependencies) {
+  const devices = new Map<string, ManagedDevice>();
+  const notifications = new Map<string, Map<string, TrackedNotification>>();
+
+  const emit = (type: BluetoothEvent['type'], deviceId: string, data: Record<string, unknown>): void => {
+    deps.emit({ type, deviceId, data, timestamp: Date.now() });
+  };
+
+  /**
+   * 백오프 대기 (release 시 즉시 종료)
+   */
+  const sleep = (device: ManagedDevice, delay: number): Promise<void> =>
+    new Promise((resolve) => {
+      device.wake = () => {
+        if (device.timer) clearTimeout(device.timer);
+        device.timer = null;
+        device.wake = null;
+        resolve();
+      };
+      device.timer = setTimeout(() => device.wake?.(), delay);
+    });
+
+  /**
+   * 기록된 알림 재활성화
+   */
+  const restoreNotifications = async (deviceId: string) => {
+    const tracked = Array.from(notifications.get(deviceId)?.values() ?? []);
+    const failed: Array<TrackedNotification & { error?: string }> = [];
+
+    for (const notification of tracked) {
+      const result = await deps.setNotification(deviceId, notification.serviceUuid, notification.characteristicUuid, true);
+      if (!result.success) {
+        failed.push({ ...notification, error: result.error });
+      }
+    }
+
+    return { restored: tracked.length - failed.length, failed };
+  };
+
+  /**
+   * 재연결 루프
+   */
+  const reconnect = async (deviceId: string, device: ManagedDevice): Promise<void> => {
+    device.reconnecting = true;
+    const { policy } = device;
+    let lastError: string | undefined;
+
+    for (let attempt = 1; policy.maxAttempts === 0 || attempt <= policy.maxAttempts; attempt++) {
+      const delay = getReconnectionDelay(policy, attempt);
+      emit('reconnecting', deviceId, { attempt, maxAttempts: policy.maxAttempts, delay });
+
+      await sleep(device, delay);
+      if (device.cancelled) return;
+
+      const result: ConnectResult = await deps.connect(deviceId, device.type, device.options).catch((error) => ({
+        success: false,
+        error: 'CONNECTION_FAILED',
+        message: error instanceof Error ? error.message : 'Reconnection failed',
+      }));
+      if (device.cancelled) {
+        if (result.success) {
+          await deps.cancel(deviceId);
+        }
+        return;
+      }
+
+      if (result.success) {
+        const { restored, failed } = await restoreNotifications(deviceId);
+        device.reconnecting = false;
+        emit('reconnected', deviceId, {
+          attempt,
+          connection: result.connection,
+          restoredNotifications: restored,
+          failedNotifications: failed,
+        });
+        return;
+      }
+      lastError = result.error;
+    }
+
+    devices.delete(deviceId);
+    notifications.delete(deviceId);
+    emit('reconnectFailed', deviceId, {
+      attempts: policy.maxAttempts,
+      error: 'Reconnection attempts exhausted',
+      errorCode: lastError,
+    });
+  };
+
+  /**
+   * 재연결 관리 해제 (사용자가 직접 연결을 해제한 경우)
+   */
+  const release = (deviceId: string): boolean => {
+    const device = devices.get(deviceId);
+    devices.delete(deviceId);
+    notifications.delete(deviceId);
+    if (!device) return false;
+
+    device.cancelled = true;
+    device.wake?.();
+    return true;
+  };
+
+  return {
+    /**
+     * 장치를 재연결 관리 대상으로 등록
+     */
+    manage(deviceId: string, type: BluetoothDeviceType, options: ConnectionOptions): void {
+      const policy = resolveReconnectionPolicy(options.reconnect);
+      if (!policy) return;
+
+      const { reconnect: _reconnect, ...connectOptions } = options;
+      const existing = devices.get(deviceId);
+      if (existing) {
+        existing.type = type;
+        existing.options = connectOptions;
+        existing.policy = policy;
+        return;
+      }
+
+      devices.set(deviceId, {
+        type,
+        options: connectOptions,
+        policy,
+        reconnecting: false,
+        cancelled: false,
+        timer: null,
+        wake: null,
+      });
+    },
+
+    release,
+
+    /**
+     * 모든 장치 재연결 관리 해제
+     */
+    releaseAll(): void {
+      Array.from(devices.keys()).forEach(release);
+      notifications.clear();
+    },
+
+    /**
+     * setNotification 결과 기록 (재연결 후 복원용)
+     */
+    trackNotification(deviceId: string, serviceUuid: string, characteristicUuid: string, enabled: boolean): void {
+      const key = `${normalizeUuid(serviceUuid)}|${normalizeUuid(characteristicUuid)}`;
+      let tracked = notifications.get(deviceId);
+
+      if (enabled) {
+        if (!tracked) {
+          tracked = new Map();
+          notifications.set(deviceId, tracked);
+        }
+        tracked.set(key, { serviceUuid, characteristicUuid });
+      } else if (tracked) {
+        tracked.delete(key);
+        if (tracked.size === 0) {
+          notifications.delete(deviceId);
+        }
+      }
+    },
+
+    /**
+     * 재연결 진행 중 여부
+     */
+    isReconnecting(deviceId: string): boolean {
+      return devices.get(deviceId)?.reconnecting ?? false;
+    },
+
+    /**
+     * 네이티브 이벤트 처리
+     */
+    handleEvent(event: BluetoothEvent): void {
+      if (event.type !== 'disconnected' || !event.deviceId) return;
+
+      const deviceId = event.deviceId;
+      const device = devices.get(deviceId);
+      if (!device) {
+        notifications.delete(deviceId);
+        return;
+      }
+      if (device.reconnecting) return;
+
+      reconnect(deviceId, device).catch(() => {
+        device.reconnecting = false;
+      });
+    },
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * 비콘 영역 모니터링
+ * BLE 스캔(및 iOS CoreLocation 레인징)으로 감지한 비콘을 영역별로 추적하여
+ * regionEnter / regionExit / beaconsInRange 이벤트를 생성합니다
+ */
+
+import type {
+  BeaconFrame,
+  BeaconRegion,
+  BleScanOptions,
+  BluetoothEvent,
+  BluetoothResult,
+  IBeaconFrame,
+  RangedBeacon,
+  RegionMonitoringOptions,
+} from '../types/bluetooth-module';
+import { estimateDistance, getBeaconKey, isBeaconInRegion } from './beacon';
+
+/**
+ * 영역 모니터 의존성
+ */
+export interface RegionMonitorDependencies {
+  /** 비콘 수신용 BLE 스캔 시작 (다른 스캔이 끝나도 유지되는 모니터 전용 스캔) */
+  startScan: (options: BleScanOptions) => Promise<BluetoothResult>;
+  /** 모니터가 시작한 BLE 스캔 중지 */
+  stopScan: () => Promise<BluetoothResult>;
+  /**
+   * 네이티브 iBeacon 레인징 시작 (iOS)
+   * iOS CoreBluetooth는 iBeacon 광고를 전달하지 않으므로 CoreLocation으로 보완합니다
+   */
+  startBeaconRanging?: (uuids: string[]) => Promise<BluetoothResult>;
+  /** 네이티브 iBeacon 레인징 중지 */
+  stopBeaconRanging?: () => Promise<BluetoothResult>;
+  /** 스캔 이벤트 구독 */
+  addListener: (listener: (event: BluetoothEvent) => void) => { remove: () => void };
+  /** 영역 이벤트 전달 */
+  emit: (event: BluetoothEvent) => void;
+}
+
+/**
+ * 모니터링 중인 영역
+ */
+interface MonitoredRegion {
+  region: BeaconRegion;
+  inside: boolean;
+  /** 비콘 키 → 마지막 감지 정보 */
+  beacons: Map<string, RangedBeacon>;
+}
+
+/** 기본 모니터링 옵션 */
+const DEFAULT_OPTIONS: Required<RegionMonitoringOptions> = {
+  exitTimeout: 10000,
+  rangingInterval: 1000,
+  scanMode: 'lowLatency',
+};
+
+/**
+ * 네이티브 레인징 이벤트(beaconRanged)의 rangedBeacons 항목
+ */
+interface NativeRangedBeacon {
+  uuid: string;
+  major: number;
+  minor: number;
+  rssi: number;
+  /** CoreLocation 추정 거리 (m, 알 수 없으면 음수) */
+  accuracy?: number;
+}
+
+/**
+ * 영역 모니터를 생성합니다
+ */
+export function createRegionMonitor(deps: RegionMonitorDependencies) {
+  const regions = new Map<string, MonitoredRegion>();
+  let options: Required<RegionMonitoringOptions> = { ...DEFAULT_OPTIONS };
+  let subscription: { remove: () => void } | null = null;
+  /** 모니터가 직접 시작한 스캔이 진행 중인지 */
+  let scanning = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let rangingUuids: string[] = [];
+
+  const emit = (type: BluetoothEvent['type'], data: Record<string, unknown>): void => {
+    deps.emit({ type, data, timestamp: Date.now() });
+  };
+
+  /**
+   * 비콘 감지 처리
+   */
+  const handleSighting = (deviceId: string, beacon: BeaconFrame, rssi: number, distance?: number): void => {
+    if (beacon.type !== 'ibeacon' && beacon.type !== 'eddystoneUid') return;
+
+    const ranged: RangedBeacon = {
+      deviceId,
+      beacon,
+      rssi,
+      distance: distance ?? estimateDistance(beacon, rssi),
+      lastSeen: Date.now(),
+    };
+    const key = getBeaconKey(beacon, deviceId);
+
+    regions.forEach((monitored) => {
+      if (!isBeaconInRegion(beacon, monitored.region)) return;
+
+      monitored.beacons.set(key, ranged);
+      if (!monitored.inside) {
+        monitored.inside = true;
+        emit('regionEnter', { region: monitored.region, beacon: ranged });
+      }
+    });
+  };
+
+  /**
+   * 스캔/레인징 이벤트 처리
+   */
+  const handleEvent = (event: BluetoothEvent): void => {
+    if (event.type === 'deviceDiscovered') {
+      const device = event.data?.device;
+      const beacon = event.data?.beacon;
+      if (device && beacon) {
+        handleSighting(device.id, beacon, device.rssi ?? 0);
+      }
+      return;
+    }
+
+    if (event.type === 'beaconRanged') {
+      const ranged = (event.data?.rangedBeacons as NativeRangedBeacon[] | undefined) ?? [];
+      ranged.forEach((entry) => {
+        // rssi 0 = 이번 주기에 신호를 받지 못함
+        if (entry.rssi === 0) return;
+        const beacon: IBeaconFrame = {
+          type: 'ibeacon',
+          uuid: entry.uuid.toLowerCase(),
+          major: entry.major,
+          minor: entry.minor,
+          txPower: 0,
+        };
+        const distance = entry.accuracy !== undefined && entry.accuracy >= 0 ? entry.accuracy : undefined;
+        handleSighting(getBeaconKey(beacon, ''), beacon, entry.rssi, distance);
+      });
+    }
+  };
+
+  /**
+   * 주기적으로 이탈 판정 및 beaconsInRange 전송
+   */
+  const tick = (): void => {
+    const threshold = Date.now() - options.exitTimeout;
+
+    regions.forEach((monitored) => {
+      monitored.beacons.forEach((ranged, key) => {
+        if (ranged.lastSeen < threshold) monitored.beacons.delete(key);
+      });
+
+      if (!monitored.inside) return;
+
+      if (monitored.beacons.size === 0) {
+        monitored.inside = false;
+        emit('regionExit', { region: monitored.region });
+        return;
+      }
+
+      const beacons = Array.from(monitored.beacons.values()).sort((a, b) => b.rssi - a.rssi);
+      emit('beaconsInRange', { region: monitored.region, beacons });
+    });
+  };
+
+  /**
+   * 모니터링 중인 iBeacon UUID 목록
+   */
+  const collectIBeaconUuids = (): string[] => {
+    const uuids = new Set<string>();
+    regions.forEach(({ region }) => {
+      if (region.type === 'ibeacon') uuids.add(region.uuid.toLowerCase());
+    });
+    return Array.from(uuids);
+  };
+
+  /**
+   * 네이티브 레인징 대상 갱신
+   */
+  const updateRanging = async (): Promise<BluetoothResult> => {
+    if (!deps.startBeaconRanging || !deps.stopBeaconRanging) return { success: true };
+
+    const uuids = collectIBeaconUuids();
+    if (uuids.join(',') === rangingUuids.join(',')) return { success: true };
+
+    if (uuids.length === 0) {
+      rangingUuids = [];
+      return await deps.stopBeaconRanging();
+    }
+
+    const result = await deps.startBeaconRanging(uuids);
+    if (result.success) rangingUuids = uuids;
+    return result;
+  };
+
+  /**
+   * 스캔, 레인징, 타이머 정리 (모니터링 중이 아니면 아무것도 하지 않음)
+   * 스캔은 모니터가 직접 시작한 경우에만 중지합니다
+   */
+  const teardown = async (): Promise<void> => {
+    if (subscription === null) return;
+    if (timer) clearInterval(timer);
+    timer = null;
+    subscription.remove();
+    subscription = null;
+
+    if (scanning) {
+      scanning = false;
+      await deps.stopScan().catch(() => undefined);
+    }
+    if (rangingUuids.length > 0 && deps.stopBeaconRanging) {
+      rangingUuids = [];
+      await deps.stopBeaconRanging().catch(() => undefined);
+    }
+  };
+
+  /**
+   * 타이머 재시작 (rangingInterval 변경 반영)
+   */
+  const restartTimer = (): void => {
+    if (timer) clearInterval(timer);
+    timer = setInterval(tick, Math.max(100, options.rangingInterval));
+  };
+
+  return {
+    /**
+     * 영역 모니터링 시작
+     * 같은 identifier의 영역은 교체되며, 옵션은 마지막 호출 기준으로 적용됩니다
+     */
+    async start(newRegions: BeaconRegion[], newOptions?: RegionMonitoringOptions): Promise<BluetoothResult> {
+      const previous = new Map(regions);
+      const wasRunning = subscription !== null;
+
+      newRegions.forEach((region) => {
+        regions.set(region.identifier, { region, inside: false, beacons: new Map() });
+      });
+      options = { ...DEFAULT_OPTIONS, ...newOptions };
+
+      if (!wasRunning) {
+        subscription = deps.addListener(handleEvent);
+        const scanResult = await deps
+          .startScan({ scanMode: options.scanMode, allowDuplicates: true, timeout: 0 })
+          .catch((error): BluetoothResult => ({
+            success: false,
+            error: 'SCAN_FAILED',
+            message: error instanceof Error ? error.message : 'Failed to start scan',
+          }));
+        if (!scanResult.success) {
+          regions.clear();
+          previous.forEach((value, key) => regions.set(key, value));
+          await teardown();
+          return scanResult;
+        }
+        scanning = true;
+      }
+
+      const rangingResult = await updateRanging().catch((error): BluetoothResult => ({
+        success: false,
+        error: 'OPERATION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to start beacon ranging',
+      }));
+      if (!rangingResult.success) {
+        regions.clear();
+        previous.forEach((value, key) => regions.set(key, value));
+        if (regions.size === 0) {
+          await teardown();
+        }
+        return rangingResult;
+      }
+
+      restartTimer();
+      return { success: true };
+    },
+
+    /**
+     * 영역 모니터링 중지 (identifiers 생략 시 전체)
+     * 중지된 영역에 대해서는 regionExit를 보내지 않으며, 모니터링 중이 아니면 아무것도 하지 않습니다
+     */
+    async stop(identifiers?: string[]): Promise<BluetoothResult> {
+      if (subscription === null) return { success: true };
+
+      if (identifiers) {
+        identifiers.forEach((identifier) => regions.delete(identifier));
+      } else {
+        regions.clear();
+      }
+
+      if (regions.size === 0) {
+        await teardown();
+        return { success: true };
+      }
+      return await updateRanging();
+    },
+
+    /**
+     * 모니터링 중인 영역 목록
+     */
+    getRegions(): Array<{ region: BeaconRegion; inside: boolean }> {
+      return Array.from(regions.values()).map(({ region, inside }) => ({ region, inside }));
+    },
+  };
+}
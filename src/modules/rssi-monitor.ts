@@ -0,0 +1,215 @@
+/**
+ * RSSI 모니터링
+ * 연결된 장치의 RSSI를 주기적으로 읽어 이동 평균 또는 Kalman 필터로 평활화하고,
+ * 변화와 근접 기준 통과(히스테리시스 적용)를 rssiChanged 이벤트로 알립니다
+ */
+
+import type {
+  BluetoothEvent,
+  RssiFilter,
+  RssiMonitoringOptions,
+  RssiReading,
+  RssiResult,
+  RssiZone,
+} from '../types/bluetooth-module';
+
+/**
+ * RSSI 모니터 의존성
+ */
+export interface RssiMonitorDependencies {
+  /** RSSI 읽기 */
+  readRssi: (deviceId: string) => Promise<RssiResult>;
+  /** rssiChanged 이벤트 전달 */
+  emit: (event: BluetoothEvent) => void;
+}
+
+/** 기본 모니터링 옵션 (threshold 제외) */
+const DEFAULT_OPTIONS: Required<Omit<RssiMonitoringOptions, 'threshold'>> = {
+  interval: 1000,
+  filter: 'movingAverage',
+  windowSize: 5,
+  processNoise: 0.5,
+  measurementNoise: 4,
+  hysteresis: 5,
+  minChange: 1,
+};
+
+/**
+ * 측정값을 받아 평활화된 값을 돌려주는 필터
+ */
+type SmoothingFilter = (rssi: number) => number;
+
+/**
+ * 모니터링 중인 장치
+ */
+interface MonitoredDevice {
+  options: RssiMonitoringOptions & typeof DEFAULT_OPTIONS;
+  smooth: SmoothingFilter;
+  zone?: RssiZone;
+  /** 마지막으로 전송한 평활화 값 */
+  lastReported?: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * 이동 평균 필터
+ */
+function createMovingAverage(windowSize: number): SmoothingFilter {
+  const samples: number[] = [];
+  return (rssi) => {
+    samples.push(rssi);
+    if (samples.length > windowSize) samples.shift();
+    return samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+  };
+}
+
+/**
+ * 1차원 Kalman 필터 (RSSI가 천천히 변한다고 가정)
+ */
+function createKalmanFilter(processNoise: number, measurementNoise: number): SmoothingFilter {
+  let estimate: number | null = null;
+  let errorCovariance = measurementNoise;
+  return (rssi) => {
+    if (estimate === null) {
+      estimate = rssi;
+      return estimate;
+    }
+    errorCovariance += processNoise;
+    const gain = errorCovariance / (errorCovariance + measurementNoise);
+    estimate += gain * (rssi - estimate);
+    errorCovariance *= 1 - gain;
+    return estimate;
+  };
+}
+
+/**
+ * 필터 종류에 맞는 평활화 필터 생성
+ */
+function createSmoothingFilter(filter: RssiFilter, options: typeof DEFAULT_OPTIONS): SmoothingFilter {
+  switch (filter) {
+    case 'none':
+      return (rssi) => rssi;
+    case 'movingAverage':
+      return createMovingAverage(options.windowSize);
+    case 'kalman':
+      return createKalmanFilter(options.processNoise, options.measurementNoise);
+  }
+}
+
+/**
+ * 히스테리시스를 적용한 근접 상태 판단
+ * near → far: threshold 미만, far → near: threshold + hysteresis 이상
+ */
+function nextZone(current: RssiZone | undefined, smoothed: number, threshold: number, hysteresis: number): RssiZone {
+  if (current === 'far') {
+    return smoothed >= threshold + hysteresis ? 'near' : 'far';
+  }
+  return smoothed >= threshold ? 'near' : 'far';
+}
+
+/**
+ * RSSI 모니터 생성
+ */
+export function createRssiMonitor(deps: RssiMonitorDependencies) {
+  const devices = new Map<string, MonitoredDevice>();
+
+  /**
+   * 측정값 반영 후 필요하면 rssiChanged 전송
+   */
+  const record = (deviceId: string, device: MonitoredDevice, rssi: number): void => {
+    const smoothed = Math.round(device.smooth(rssi) * 10) / 10;
+    const { threshold, hysteresis, minChange } = device.options;
+
+    const previousZone = device.zone;
+    if (threshold !== undefined) {
+      device.zone = nextZone(previousZone, smoothed, threshold, hysteresis);
+    }
+    const crossed = previousZone !== undefined && device.zone !== previousZone;
+    const changed = device.lastReported === undefined || Math.abs(smoothed - device.lastReported) >= minChange;
+    if (!crossed && !changed) return;
+
+    device.lastReported = smoothed;
+    const reading: RssiReading = { deviceId, rssi, smoothed, zone: device.zone, crossed, timestamp: Date.now() };
+    deps.emit({ type: 'rssiChanged', deviceId, data: { reading }, timestamp: reading.timestamp });
+  };
+
+  /**
+   * 다음 읽기 예약 (이전 읽기가 끝난 뒤 interval 만큼 대기)
+   */
+  const schedule = (deviceId: string, device: MonitoredDevice): void => {
+    device.timer = setTimeout(async () => {
+      device.timer = null;
+      const result = await deps.readRssi(deviceId);
+      // 읽는 동안 중지되었거나 새 설정으로 교체됨
+      if (devices.get(deviceId) !== device) return;
+
+      if (result.success && result.rssi !== undefined) {
+        record(deviceId, device, result.rssi);
+      } else if (result.error === 'DEVICE_NOT_CONNECTED') {
+        stop(deviceId);
+        return;
+      }
+      // 일시적인 읽기 실패는 건너뛰고 계속 모니터링
+      schedule(deviceId, device);
+    }, device.options.interval);
+  };
+
+  /**
+   * 모니터링 시작 (이미 모니터링 중이면 새 옵션으로 다시 시작)
+   * 첫 읽기가 실패하면 모니터링을 시작하지 않습니다
+   */
+  const start = async (deviceId: string, options: RssiMonitoringOptions = {}): Promise<RssiResult> => {
+    stop(deviceId);
+
+    const first = await deps.readRssi(deviceId);
+    if (!first.success || first.rssi === undefined) {
+      return first.success ? { success: false, error: 'OPERATION_FAILED', message: 'RSSI unavailable' } : first;
+    }
+    // 첫 읽기 중에 다른 설정으로 시작됨
+    if (devices.has(deviceId)) return first;
+
+    const merged = { ...DEFAULT_OPTIONS, ...options };
+    const device: MonitoredDevice = {
+      options: merged,
+      smooth: createSmoothingFilter(merged.filter, merged),
+      timer: null,
+    };
+    devices.set(deviceId, device);
+    record(deviceId, device, first.rssi);
+    schedule(deviceId, device);
+    return first;
+  };
+
+  /**
+   * 모니터링 중지 (deviceId 생략 시 전체)
+   * @returns 모니터링 중이던 장치가 있었는지 여부
+   */
+  const stop = (deviceId?: string): boolean => {
+    const targets = deviceId === undefined ? Array.from(devices.keys()) : [deviceId];
+    let stopped = false;
+    targets.forEach((id) => {
+      const device = devices.get(id);
+      if (!device) return;
+      if (device.timer) clearTimeout(device.timer);
+      devices.delete(id);
+      stopped = true;
+    });
+    return stopped;
+  };
+
+  /**
+   * 연결 해제 시 해당 장치 모니터링 중지
+   */
+  const handleEvent = (event: BluetoothEvent): void => {
+    if (event.type === 'disconnected' && event.deviceId) {
+      stop(event.deviceId);
+    }
+  };
+
+  /**
+   * 모니터링 중인 장치 ID 목록
+   */
+  const getDevices = (): string[] => Array.from(devices.keys());
+
+  return { start, stop, handleEvent, getDevices };
+}
@@ -0,0 +1,282 @@
+/**
+ * BLE 스캔 필터
+ * 스캔 옵션의 조건(서비스 UUID, 이름, RSSI, 고급 필터 식)을 양쪽 플랫폼에서 같은 기준으로 평가하고,
+ * 네이티브 스캐너가 처리할 수 있는 조건은 배터리 절약을 위해 네이티브 필터로 변환합니다
+ */
+
+import type {
+  BleScanOptions,
+  BluetoothDevice,
+  DeviceDataFilter,
+  ParsedAdvertisement,
+  ScanFilterCondition,
+  ScanFilterExpression,
+} from '../types/bluetooth-module';
+import { matchesData } from './device-filter';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { isSameUuid, normalizeUuid } from './uuid';
+
+/**
+ * 네이티브 스캐너 필터 (Android ScanFilter와 같은 형태, 지정한 항목을 모두 만족해야 일치)
+ */
+export interface NativeScanFilter {
+  serviceUuid?: string;
+  deviceAddress?: string;
+  manufacturerId?: number;
+  /** 데이터 접두사 (Base64) */
+  manufacturerData?: string;
+  /** 비트 마스크 (Base64, manufacturerData와 같은 길이) */
+  manufacturerDataMask?: string;
+  serviceDataUuid?: string;
+  /** 데이터 접두사 (Base64) */
+  serviceData?: string;
+  /** 비트 마스크 (Base64, serviceData와 같은 길이) */
+  serviceDataMask?: string;
+}
+
+/**
+ * 변환된 스캔 필터
+ */
+export interface CompiledScanFilter {
+  /** 발견된 BLE 장치가 모든 조건을 만족하는지 확인 */
+  matches: (device: BluetoothDevice, advertisement?: ParsedAdvertisement) => boolean;
+  /** Android 네이티브 필터 (하나라도 일치하면 전달, null이면 모든 장치) */
+  nativeFilters: NativeScanFilter[] | null;
+  /** iOS 네이티브 서비스 UUID 필터 (모든 네이티브 필터가 서비스 UUID를 지정한 경우에만) */
+  nativeServiceUUIDs: string[] | null;
+}
+
+/**
+ * 필터 평가 대상 (장치와 광고 데이터에서 추출)
+ */
+interface ScanCandidate {
+  id: string;
+  names: string[];
+  services: string[];
+  manufacturerData: ParsedAdvertisement['manufacturerData'];
+  serviceData: ParsedAdvertisement['serviceData'];
+  connectable: boolean;
+  rssi: number;
+}
+
+type CandidateMatcher = (candidate: ScanCandidate) => boolean;
+
+/** 네이티브 필터 최대 개수 (하드웨어 필터 슬롯이 적은 기기를 고려) */
+const MAX_NATIVE_FILTERS = 16;
+
+/** Android ScanFilter가 허용하는 주소 형식 */
+const MAC_ADDRESS_PATTERN = /^[0-9A-F]{2}(?::[0-9A-F]{2}){5}$/;
+
+/**
+ * 장치와 광고 데이터에서 평가 대상 추출
+ * 이름은 장치 이름, 광고의 로컬 이름을 모두 후보로 사용합니다 (Android는 이름이 없으면 주소를 이름으로 보냄)
+ */
+function toCandidate(device: BluetoothDevice, advertisement?: ParsedAdvertisement): ScanCandidate {
+  const ble = device.ble;
+  const names = [device.name !== device.id ? device.name : null, ble?.name, ble?.localName, advertisement?.localName];
+  return {
+    id: device.id,
+    names: names.filter((name): name is string => typeof name === 'string'),
+    services: [...(ble?.serviceUUIDs ?? []), ...(advertisement?.serviceUUIDs ?? [])],
+    manufacturerData: advertisement?.manufacturerData ?? (ble?.manufacturerData ? [ble.manufacturerData] : []),
+    serviceData: advertisement?.serviceData ?? [],
+    connectable: ble?.isConnectable ?? true,
+    rssi: device.rssi ?? ble?.rssi ?? -127,
+  };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * 조건을 평가 함수로 변환 (정규식이 잘못되면 SyntaxError)
+ */
+function compileCondition(condition: ScanFilterCondition): CandidateMatcher {
+  const checks: CandidateMatcher[] = [];
+
+  const { serviceUUIDs, manufacturerData, serviceData, name, namePattern, addresses } = condition;
+  if (serviceUUIDs?.length) {
+    checks.push((candidate) =>
+      serviceUUIDs.some((uuid) => candidate.services.some((service) => isSameUuid(service, uuid)))
+    );
+  }
+  if (manufacturerData) {
+    checks.push((candidate) =>
+      candidate.manufacturerData.some(
+        (entry) => entry.companyId === manufacturerData.companyIdentifier && matchesData(entry.data, manufacturerData)
+      )
+    );
+  }
+  if (serviceData) {
+    checks.push((candidate) =>
+      candidate.serviceData.some(
+        (entry) => isSameUuid(entry.uuid, serviceData.service) && matchesData(entry.data, serviceData)
+      )
+    );
+  }
+  if (name !== undefined) {
+    checks.push((candidate) => candidate.names.includes(name));
+  }
+  if (namePattern !== undefined) {
+    const pattern = new RegExp(namePattern, (condition.namePatternFlags ?? '').replace(/[gy]/g, ''));
+    checks.push((candidate) => candidate.names.some((candidateName) => pattern.test(candidateName)));
+  }
+  if (addresses?.length) {
+    const allowed = new Set(addresses.map((address) => address.toLowerCase()));
+    checks.push((candidate) => allowed.has(candidate.id.toLowerCase()));
+  }
+  if (condition.connectable) {
+    checks.push((candidate) => candidate.connectable);
+  }
+
+  return (candidate) => checks.every((check) => check(candidate));
+}
+
+/**
+ * 필터 식을 평가 함수로 변환
+ */
+function compileExpression(expression: ScanFilterExpression): CandidateMatcher {
+  if ('allOf' in expression) {
+    const matchers = expression.allOf.map(compileExpression);
+    return (candidate) => matchers.every((matcher) => matcher(candidate));
+  }
+  if ('anyOf' in expression) {
+    const matchers = expression.anyOf.map(compileExpression);
+    return (candidate) => matchers.some((matcher) => matcher(candidate));
+  }
+  return compileCondition(expression);
+}
+
+// ============================================================================
+// Native Pushdown
+// ============================================================================
+
+/**
+ * 데이터 필터를 네이티브 형식으로 변환 (마스크는 접두사 길이에 맞추고 부족한 부분은 0xff)
+ */
+function toNativeData(filter: DeviceDataFilter): { data: string; mask: string } {
+  const prefix = (filter.dataPrefix ? base64ToBytes(filter.dataPrefix) : null) ?? new Uint8Array(0);
+  const mask = (filter.mask ? base64ToBytes(filter.mask) : null) ?? new Uint8Array(0);
+  return {
+    data: bytesToBase64(prefix),
+    mask: bytesToBase64(prefix.map((_, i) => (i < mask.length ? mask[i] : 0xff))),
+  };
+}
+
+/**
+ * 조건을 네이티브 필터로 변환
+ * 서비스 UUID와 주소 목록은 항목별 필터로 펼치며, 개수가 너무 많으면 목록 조건을 빼고 나머지만 넘깁니다
+ * 이름 조건은 넘기지 않습니다. 하드웨어로 필터링하는 컨트롤러는 광고 패킷의 로컬 이름만 비교하므로
+ * 스캔 응답이나 캐시된 장치 이름으로만 일치하는 장치를 TS에 도달하기 전에 걸러낼 수 있습니다
+ * 정규식, 연결 가능 여부도 네이티브에서 처리할 수 없어 TS에서만 평가합니다
+ * @returns 조건보다 넓거나 같은 범위의 필터 (넘길 조건이 없으면 null)
+ */
+function conditionToNative(condition: ScanFilterCondition): NativeScanFilter[] | null {
+  const base: NativeScanFilter = {};
+  if (condition.manufacturerData) {
+    const { data, mask } = toNativeData(condition.manufacturerData);
+    base.manufacturerId = condition.manufacturerData.companyIdentifier;
+    base.manufacturerData = data;
+    base.manufacturerDataMask = mask;
+  }
+  if (condition.serviceData) {
+    const { data, mask } = toNativeData(condition.serviceData);
+    base.serviceDataUuid = normalizeUuid(condition.serviceData.service);
+    base.serviceData = data;
+    base.serviceDataMask = mask;
+  }
+
+  const services = (condition.serviceUUIDs ?? []).map(normalizeUuid);
+  const addresses = (condition.addresses ?? []).map((address) => address.toUpperCase());
+  const canUseAddresses = addresses.length > 0 && addresses.every((address) => MAC_ADDRESS_PATTERN.test(address));
+
+  const expand = (useServices: boolean, useAddresses: boolean): NativeScanFilter[] => {
+    let filters = [base];
+    if (useServices) {
+      filters = services.flatMap((serviceUuid) => filters.map((filter) => ({ ...filter, serviceUuid })));
+    }
+    if (useAddresses) {
+      filters = addresses.flatMap((deviceAddress) => filters.map((filter) => ({ ...filter, deviceAddress })));
+    }
+    return filters;
+  };
+
+  const attempts: Array<[boolean, boolean]> = [
+    [services.length > 0, canUseAddresses],
+    [services.length > 0, false],
+    [false, canUseAddresses],
+    [false, false],
+  ];
+  for (const [useServices, useAddresses] of attempts) {
+    const filters = expand(useServices, useAddresses);
+    if (filters.length <= MAX_NATIVE_FILTERS && Object.keys(filters[0]).length > 0) {
+      return filters;
+    }
+  }
+  return null;
+}
+
+/**
+ * 필터 식을 네이티브 필터로 변환
+ * anyOf는 모든 하위 식을 넘길 수 있을 때만 합치고, allOf는 하위 식 중 필터 수가 가장 적은 것을 사용합니다
+ */
+function expressionToNative(expression: ScanFilterExpression): NativeScanFilter[] | null {
+  if ('anyOf' in expression) {
+    const parts = expression.anyOf.map(expressionToNative);
+    if (parts.length === 0 || parts.some((part) => part === null)) return null;
+    const merged = parts.flatMap((part) => part ?? []);
+    return merged.length <= MAX_NATIVE_FILTERS ? merged : null;
+  }
+  if ('allOf' in expression) {
+    const parts = expression.allOf
+      .map(expressionToNative)
+      .filter((part): part is NativeScanFilter[] => part !== null);
+    if (parts.length === 0) return null;
+    return parts.reduce((best, part) => (part.length < best.length ? part : best));
+  }
+  return conditionToNative(expression);
+}
+
+/**
+ * iOS에 넘길 서비스 UUID (CoreBluetooth는 서비스 UUID 필터만 지원)
+ */
+function toNativeServiceUuids(filters: NativeScanFilter[] | null): string[] | null {
+  if (!filters || !filters.every((filter) => filter.serviceUuid !== undefined)) return null;
+  return Array.from(new Set(filters.map((filter) => filter.serviceUuid as string)));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * 스캔 옵션의 필터 조건 변환
+ * serviceUUIDs, nameFilter, rssiThreshold, filter를 모두 만족해야 일치합니다
+ * @throws {SyntaxError} namePattern이 잘못된 정규식인 경우
+ */
+export function compileScanFilter(options: BleScanOptions = {}): CompiledScanFilter {
+  const expressions: ScanFilterExpression[] = [];
+  if (options.serviceUUIDs?.length) {
+    expressions.push({ serviceUUIDs: options.serviceUUIDs });
+  }
+  if (options.filter) {
+    expressions.push(options.filter);
+  }
+  const expression: ScanFilterExpression = { allOf: expressions };
+  const matchExpression = compileExpression(expression);
+  const nameFilter = options.nameFilter?.toLowerCase();
+  const { rssiThreshold } = options;
+
+  const nativeFilters = expressionToNative(expression);
+  return {
+    matches: (device, advertisement) => {
+      const candidate = toCandidate(device, advertisement);
+      if (nameFilter && !candidate.names.some((name) => name.toLowerCase().includes(nameFilter))) return false;
+      if (rssiThreshold !== undefined && candidate.rssi < rssiThreshold) return false;
+      return matchExpression(candidate);
+    },
+    nativeFilters,
+    nativeServiceUUIDs: toNativeServiceUuids(nativeFilters),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Bluetooth UUID 정규화
+ * 16/32-bit 축약형('180D', '0x2A37')을 Bluetooth Base UUID로 확장하고 소문자 128-bit 형식으로 통일합니다
+ */
+
+/** Bluetooth Base UUID (00000000-0000-1000-8000-00805f9b34fb)의 공통 접미사 */
+const BLUETOOTH_BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+const SHORT_UUID_PATTERN = /^(?:0x)?([0-9a-f]{4}|[0-9a-f]{8})$/;
+const FULL_UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const COMPACT_UUID_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * UUID를 소문자 128-bit 형식으로 변환
+ * @returns 정규화된 UUID (형식이 잘못된 경우 null)
+ */
+export function parseUuid(uuid: unknown): string | null {
+  if (typeof uuid !== 'string') return null;
+  const value = uuid.trim().toLowerCase();
+
+  const short = SHORT_UUID_PATTERN.exec(value);
+  if (short) {
+    return short[1].padStart(8, '0') + BLUETOOTH_BASE_UUID_SUFFIX;
+  }
+  if (FULL_UUID_PATTERN.test(value)) {
+    return value;
+  }
+  if (COMPACT_UUID_PATTERN.test(value)) {
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`;
+  }
+  return null;
+}
+
+/**
+ * UUID 유효성 검사 (16-bit, 32-bit, 128-bit)
+ */
+export function isValidUuid(uuid: unknown): uuid is string {
+  return parseUuid(uuid) !== null;
+}
+
+/**
+ * UUID 정규화
+ * 네이티브 이벤트처럼 형식을 보장할 수 없는 값에 사용하며, 해석할 수 없으면 소문자로만 변환합니다
+ */
+export function normalizeUuid(uuid: string): string {
+  return parseUuid(uuid) ?? uuid.trim().toLowerCase();
+}
+
+/**
+ * 두 UUID가 같은지 비교 (축약형과 128-bit 형식 간 비교 포함)
+ */
+export function isSameUuid(a: string | undefined, b: string | undefined): boolean {
+  return typeof a === 'string' && typeof b === 'string' && normalizeUuid(a) === normalizeUuid(b);
+}
@@ -38,6 +38,67 @@ export interface BleDevice {
   txPowerLevel?: number;
 }
 
+/**
+ * 광고 Flags (AD type 0x01)
+ */
+export interface AdvertisementFlags {
+  /** 원본 값 */
+  raw: number;
+  /** LE Limited Discoverable Mode */
+  leLimitedDiscoverable: boolean;
+  /** LE General Discoverable Mode */
+  leGeneralDiscoverable: boolean;
+  /** BR/EDR Not Supported */
+  brEdrNotSupported: boolean;
+  /** LE + BR/EDR 동시 지원 (Controller) */
+  simultaneousLeBrEdrController: boolean;
+  /** LE + BR/EDR 동시 지원 (Host) */
+  simultaneousLeBrEdrHost: boolean;
+}
+
+/**
+ * 파싱된 광고 데이터 (AD 구조)
+ */
+export interface ParsedAdvertisement {
+  /** Flags */
+  flags?: AdvertisementFlags;
+  /** 로컬 이름 (Complete 우선, 없으면 Shortened) */
+  localName?: string;
+  /** 로컬 이름이 축약형인지 여부 */
+  isShortenedLocalName?: boolean;
+  /** 광고된 서비스 UUID 목록 (16/32/128-bit, 128-bit 형식으로 확장) */
+  serviceUUIDs: string[];
+  /** 서비스 UUID 목록이 완전한지 여부 (Complete List AD 타입 사용) */
+  isServiceUUIDListComplete: boolean;
+  /** 서비스 데이터 */
+  serviceData: Array<{
+    /** 서비스 UUID */
+    uuid: string;
+    /** 데이터 (Base64) */
+    data: string;
+  }>;
+  /** 제조사 데이터 */
+  manufacturerData: Array<{
+    /** Company Identifier */
+    companyId: number;
+    /** Company ID 이후 데이터 (Base64) */
+    data: string;
+  }>;
+  /** TX 파워 레벨 (dBm) */
+  txPowerLevel?: number;
+  /** Appearance */
+  appearance?: number;
+  /** URI */
+  uri?: string;
+  /** 모든 AD 구조 원본 (알 수 없는 타입 포함) */
+  structures: Array<{
+    /** AD 타입 */
+    type: number;
+    /** 데이터 (Base64) */
+    data: string;
+  }>;
+}
+
 /**
  * Classic Bluetooth 장치 정보
  */
@@ -145,24 +206,149 @@ export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'dis
  * 연결 옵션
  */
 export interface ConnectionOptions {
-  /** 연결 타임아웃 (ms) */
+  /** 연결 타임아웃 (ms, 기본 10000, 0 = 무제한). 초과 시 연결 시도를 취소하고 CONNECTION_TIMEOUT 반환 */
   timeout?: number;
+  /** 연결 후 서비스 발견까지 완료한 뒤 응답 (BLE) */
+  discoverServices?: boolean;
   /** 자동 재연결 여부 (BLE) */
   autoConnect?: boolean;
-  /** MTU 크기 요청 (BLE, Android) */
+  /** 연결 후 MTU 크기 요청 (BLE, Android. iOS는 현재 MTU 반환) */
   requestMtu?: number;
-  /** 연결 우선순위 (BLE, Android) */
-  connectionPriority?: 'balanced' | 'high' | 'lowPower';
+  /** 연결 후 연결 우선순위 설정 (BLE, Android) */
+  connectionPriority?: ConnectionPriority;
+  /** 연결 후 알림을 활성화할 특성 목록 (BLE, 서비스 발견 자동 수행) */
+  subscribe?: ConnectionSubscription[];
+  /** 연결이 끊기면 자동 재연결 (true = 기본 정책) */
+  reconnect?: boolean | ReconnectionPolicy;
+}
+
+/**
+ * 연결 우선순위
+ */
+export type ConnectionPriority = 'balanced' | 'high' | 'lowPower';
+
+/**
+ * 연결 후 알림을 활성화할 특성
+ */
+export interface ConnectionSubscription {
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+}
+
+/**
+ * 연결 후 설정 단계
+ * requestMtu → connectionPriority → discoverServices → subscribe 순서로 실행
+ */
+export type ConnectionSetupStep = 'requestMtu' | 'connectionPriority' | 'discoverServices' | 'subscribe';
+
+/**
+ * 연결 후 설정 단계 결과
+ */
+export interface ConnectionSetupStepResult extends BluetoothResult {
+  /** 설정 단계 */
+  step: ConnectionSetupStep;
+  /** 협상된 MTU (requestMtu) */
+  mtu?: number;
+  /** 서비스 UUID (subscribe) */
+  serviceUuid?: string;
+  /** 특성 UUID (subscribe) */
+  characteristicUuid?: string;
+}
+
+/**
+ * 자동 재연결 정책
+ * 지연 = min(initialDelay * multiplier^(attempt - 1), maxDelay) ± jitter
+ */
+export interface ReconnectionPolicy {
+  /** 최대 재연결 시도 횟수 (기본 5, 0 = 무제한) */
+  maxAttempts?: number;
+  /** 첫 재시도 지연 (ms, 기본 1000) */
+  initialDelay?: number;
+  /** 최대 지연 (ms, 기본 30000) */
+  maxDelay?: number;
+  /** 지연 증가 배수 (기본 2, 1 = 고정 간격) */
+  multiplier?: number;
+  /** 지연에 더할 무작위 편차 비율 (0~1, 기본 0.2) */
+  jitter?: number;
 }
 
 /**
  * Classic Bluetooth 연결 옵션
  */
-export interface ClassicConnectionOptions extends ConnectionOptions {
+export interface ClassicConnectionOptions extends Pick<ConnectionOptions, 'timeout' | 'reconnect'> {
   /** SPP UUID (기본값: 00001101-0000-1000-8000-00805F9B34FB) */
   uuid?: string;
   /** 보안 연결 사용 여부 */
   secure?: boolean;
+  /** 수신 데이터 프레이밍 (설정 시 완성된 메시지를 frameReceived 이벤트로 전달) */
+  framing?: ClassicFraming;
+}
+
+/**
+ * 프레이밍 공통 옵션
+ */
+interface ClassicFramingOptions {
+  /** 최대 프레임 크기 (bytes, 기본 4096). 초과한 프레임은 버리고 error 이벤트(FRAME_TOO_LARGE) 발생 */
+  maxFrameSize?: number;
+  /** 프레임과 별도로 수신 데이터 notification 이벤트도 전달 (기본 false) */
+  emitRawData?: boolean;
+}
+
+/**
+ * 구분자 프레이밍 (예: '\r\n')
+ */
+export interface DelimiterFraming extends ClassicFramingOptions {
+  type: 'delimiter';
+  /** 구분자 (UTF-8, 기본 '\n') */
+  delimiter?: string;
+}
+
+/**
+ * 길이 접두사 프레이밍
+ */
+export interface LengthPrefixFraming extends ClassicFramingOptions {
+  type: 'lengthPrefix';
+  /** 길이 필드 크기 (bytes, 기본 2) */
+  lengthBytes?: 1 | 2 | 4;
+  /** 길이 필드 바이트 순서 (기본 'big') */
+  byteOrder?: 'big' | 'little';
+  /** 길이 값에 길이 필드 자체가 포함되는지 여부 (기본 false) */
+  lengthIncludesHeader?: boolean;
+}
+
+/**
+ * SLIP (RFC 1055) 프레이밍
+ */
+export interface SlipFraming extends ClassicFramingOptions {
+  type: 'slip';
+}
+
+/**
+ * COBS 프레이밍 (0x00 구분)
+ */
+export interface CobsFraming extends ClassicFramingOptions {
+  type: 'cobs';
+}
+
+/**
+ * Classic 수신 데이터 프레이밍
+ */
+export type ClassicFraming = DelimiterFraming | LengthPrefixFraming | SlipFraming | CobsFraming;
+
+/**
+ * 수신된 프레임 (frameReceived)
+ */
+export interface ClassicFrame {
+  /** 장치 ID */
+  deviceId: string;
+  /** 프레임 데이터 (Base64, 구분자/길이 필드/이스케이프 제외) */
+  value: string;
+  /** UTF-8 텍스트 (delimiter 프레이밍) */
+  text?: string;
+  /** 수신 시각 (프레임 마지막 데이터 기준) */
+  timestamp: number;
 }
 
 /**
@@ -202,12 +388,44 @@ export interface BleScanOptions {
   serviceUUIDs?: string[];
   /** 중복 장치 허용 여부 */
   allowDuplicates?: boolean;
-  /** 이름 필터 (부분 일치) */
+  /** 이름 필터 (부분 일치, 대소문자 무시) */
   nameFilter?: string;
-  /** RSSI 임계값 (이 값보다 강한 신호만) */
+  /** RSSI 임계값 (이 값 이상인 신호만) */
   rssiThreshold?: number;
+  /** 고급 필터 (위 조건과 함께 모두 만족해야 전달) */
+  filter?: ScanFilterExpression;
 }
 
+/**
+ * 스캔 필터 조건 (지정한 항목을 모두 만족해야 일치)
+ */
+export interface ScanFilterCondition {
+  /** 광고한 서비스 UUID (하나라도 일치) */
+  serviceUUIDs?: string[];
+  /** 제조사 데이터 (Company ID, 데이터 접두사와 마스크) */
+  manufacturerData?: DeviceManufacturerDataFilter;
+  /** 서비스 데이터 (서비스 UUID, 데이터 접두사와 마스크) */
+  serviceData?: DeviceServiceDataFilter;
+  /** 장치 이름 (정확히 일치, 네이티브 스캐너에는 전달하지 않고 TS에서만 평가) */
+  name?: string;
+  /** 장치 이름 정규식 */
+  namePattern?: string;
+  /** 정규식 플래그 (g, y 제외) */
+  namePatternFlags?: string;
+  /** 허용할 장치 ID (Android는 MAC 주소, iOS는 장치 UUID, 대소문자 무시) */
+  addresses?: string[];
+  /** 연결 가능한 장치만 */
+  connectable?: boolean;
+}
+
+/**
+ * 스캔 필터 식 (조건, 모두 만족, 하나라도 만족)
+ */
+export type ScanFilterExpression =
+  | ScanFilterCondition
+  | { allOf: ScanFilterExpression[] }
+  | { anyOf: ScanFilterExpression[] };
+
 /**
  * Classic Bluetooth 스캔 옵션
  */
@@ -222,14 +440,69 @@ export interface ClassicScanOptions {
 // Data Transfer Types
 // ============================================================================
 
+/**
+ * GATT 작업 공통 옵션
+ */
+export interface GattOperationOptions {
+  /** 작업 타임아웃 (ms, 기본 10000). 큐에서 실행이 시작된 시점부터 측정 */
+  timeout?: number;
+}
+
 /**
  * 데이터 쓰기 옵션
  */
-export interface WriteOptions {
+export interface WriteOptions extends GattOperationOptions {
   /** 응답 대기 여부 (BLE write with/without response) */
   withResponse?: boolean;
 }
 
+/**
+ * 긴 쓰기 방식
+ * - withResponse: MTU - 3 bytes 단위로 응답을 기다리며 쓰기
+ * - prepared: 512 bytes 단위로 쓰기 (각 청크는 스택이 Prepare/Execute Write로 전송)
+ * - withoutResponse: MTU - 3 bytes 단위로 간격을 두고 응답 없이 쓰기
+ */
+export type LongWriteMode = 'withResponse' | 'prepared' | 'withoutResponse';
+
+/**
+ * 긴 쓰기 옵션 (timeout은 청크별 적용)
+ */
+export interface LongWriteOptions extends GattOperationOptions {
+  /** 쓰기 방식 (기본 'withResponse') */
+  mode?: LongWriteMode;
+  /** 청크 크기 (bytes, 방식별 최대값 이하로 제한) */
+  chunkSize?: number;
+  /** 쓰기 시작 위치 (bytes, 실패 후 이어쓰기 시 결과의 bytesWritten 사용) */
+  offset?: number;
+  /** 청크 실패 시 재시도 횟수 (기본 2) */
+  retries?: number;
+  /** withoutResponse 청크 간격 (ms, 기본 10) */
+  interval?: number;
+}
+
+/**
+ * 긴 쓰기 진행 상황 (writeProgress)
+ */
+export interface LongWriteProgress {
+  /** 긴 쓰기 ID */
+  writeId: string;
+  /** 장치 ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+  /** 쓰기 완료된 위치 (bytes) */
+  bytesWritten: number;
+  /** 전체 크기 (bytes) */
+  totalBytes: number;
+}
+
+/**
+ * 데이터 읽기 옵션
+ */
+export interface ReadOptions extends GattOperationOptions {}
+
 /**
  * 데이터 읽기 결과
  */
@@ -240,12 +513,78 @@ export interface ReadResult {
   characteristicUuid?: string;
   /** 서비스 UUID (BLE) */
   serviceUuid?: string;
+  /** 디스크립터 UUID (readDescriptor) */
+  descriptorUuid?: string;
   /** 데이터 (Base64) */
   value: string;
+  /** 디코더가 등록된 특성의 해석 값 */
+  decoded?: unknown;
   /** 타임스탬프 */
   timestamp: number;
 }
 
+/**
+ * 알림 설정 옵션
+ */
+export interface NotificationOptions extends GattOperationOptions {
+  /** Web 전달 시 알림을 묶어서 notificationBatch 이벤트로 전달 (활성화 시에만 적용) */
+  batch?: NotificationBatchOptions;
+}
+
+/**
+ * 알림 묶음 전달 옵션
+ */
+export interface NotificationBatchOptions {
+  /** 첫 샘플 이후 전달까지 최대 대기 시간 (ms, 기본 100) */
+  interval?: number;
+  /** 이 개수가 모이면 즉시 전달 (기본 50) */
+  maxSamples?: number;
+  /** 확인(ackNotificationBatch)되지 않은 묶음이 이 개수 이상이면 전달 보류 (기본 0 = 확인 없이 전달) */
+  maxUnacked?: number;
+  /** 전달 보류 중 보관할 최대 샘플 수 (overflow: 'drop', 기본 1000) */
+  bufferSize?: number;
+  /**
+   * 전달 보류 중(Web이 처리를 따라가지 못할 때) 처리 방식 (기본 'drop')
+   * - drop: bufferSize까지 보관하고 이후 새 샘플을 버림
+   * - latest: 최신 샘플 하나만 유지
+   */
+  overflow?: 'drop' | 'latest';
+}
+
+/**
+ * 묶음 내 알림 샘플
+ */
+export interface NotificationSample {
+  /** 데이터 (Base64) */
+  value: string;
+  /** 디코더가 등록된 특성의 해석 값 */
+  decoded?: unknown;
+  /** 수신 시각 */
+  timestamp: number;
+}
+
+/**
+ * 알림 묶음 (notificationBatch)
+ */
+export interface NotificationBatch {
+  /** 묶음 ID (ackNotificationBatch에 사용) */
+  batchId: number;
+  /** 장치 ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+  /** 샘플 (수신 순) */
+  samples: NotificationSample[];
+  /** 이전 묶음 이후 버려진 샘플 수 */
+  dropped: number;
+  /** 알림 활성화 이후 버려진 샘플 수 */
+  totalDropped: number;
+  /** 알림 활성화 이후 수신한 샘플 수 */
+  totalReceived: number;
+}
+
 /**
  * 알림/표시 이벤트
  */
@@ -258,10 +597,782 @@ export interface NotificationEvent {
   characteristicUuid: string;
   /** 데이터 (Base64) */
   value: string;
+  /** 디코더가 등록된 특성의 해석 값 */
+  decoded?: unknown;
   /** 타임스탬프 */
   timestamp: number;
 }
 
+/**
+ * Classic 명령 응답 판별 방식
+ */
+export type CommandResponseMatcher =
+  | {
+      /** 종료 문자열까지 (종료 문자열은 응답에서 제외) */
+      type: 'terminator';
+      /** 종료 문자열 (UTF-8, 예: '\r\nOK\r\n') */
+      terminator: string;
+    }
+  | {
+      /** 수신 텍스트가 정규식과 일치할 때까지 (일치한 부분의 끝까지가 응답) */
+      type: 'pattern';
+      /** 정규식 (예: '\r\n(OK|ERROR)\r\n') */
+      pattern: string;
+      /** 정규식 플래그 (g, y 제외) */
+      flags?: string;
+    }
+  | {
+      /** 지정한 바이트 수를 받을 때까지 */
+      type: 'byteCount';
+      byteCount: number;
+    };
+
+/**
+ * Classic 명령 옵션
+ */
+export interface SendCommandOptions {
+  /** 응답 판별 방식 (기본 { type: 'terminator', terminator: '\r\n' }) */
+  response?: CommandResponseMatcher;
+  /** command 인코딩 (기본 'utf8') */
+  encoding?: 'utf8' | 'base64';
+  /** 응답 대기 타임아웃 (ms, 기본 5000, 0 = 무제한). 앞선 명령을 기다리는 시간은 제외 */
+  timeout?: number;
+  /** 최대 응답 크기 (bytes, 기본 4096) */
+  maxResponseSize?: number;
+}
+
+// ============================================================================
+// Characteristic Decoder Types
+// ============================================================================
+
+/**
+ * 디코더 호출 정보
+ */
+export interface CharacteristicDecoderContext {
+  /** 장치 ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid?: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+}
+
+/**
+ * 특성 값 디코더
+ * JSON으로 직렬화 가능한 값을 반환해야 하며, undefined를 반환하거나 예외를 던지면 decoded가 생략됩니다
+ */
+export type CharacteristicDecoder = (value: Uint8Array, context: CharacteristicDecoderContext) => unknown;
+
+/**
+ * Heart Rate Measurement (0x2A37)
+ */
+export interface HeartRateMeasurement {
+  /** 심박수 (bpm) */
+  heartRate: number;
+  /** 센서 접촉 여부 (미지원 시 null) */
+  sensorContact: boolean | null;
+  /** 누적 소모 에너지 (kJ) */
+  energyExpended?: number;
+  /** RR 간격 (ms) */
+  rrIntervals: number[];
+}
+
+/**
+ * Battery Level (0x2A19)
+ */
+export interface BatteryLevel {
+  /** 배터리 잔량 (%) */
+  level: number;
+}
+
+/**
+ * Temperature Measurement (0x2A1C) / Intermediate Temperature (0x2A1E)
+ */
+export interface TemperatureMeasurement {
+  /** 온도 (측정 불가 시 null) */
+  temperature: number | null;
+  unit: 'celsius' | 'fahrenheit';
+  /** 측정 시각 (YYYY-MM-DDTHH:mm:ss, 장치 로컬 시간) */
+  timestamp?: string;
+  /** 측정 부위 (Temperature Type 코드) */
+  temperatureType?: number;
+}
+
+/**
+ * CSC Measurement (0x2A5B)
+ * 속도/케이던스는 연속된 두 측정값의 차이로 계산합니다
+ */
+export interface CyclingSpeedCadenceMeasurement {
+  /** 누적 휠 회전 수 */
+  cumulativeWheelRevolutions?: number;
+  /** 마지막 휠 이벤트 시각 (1/1024초 단위, 16비트 순환) */
+  lastWheelEventTime?: number;
+  /** 누적 크랭크 회전 수 */
+  cumulativeCrankRevolutions?: number;
+  /** 마지막 크랭크 이벤트 시각 (1/1024초 단위, 16비트 순환) */
+  lastCrankEventTime?: number;
+}
+
+/**
+ * Device Information 문자열 특성 (0x2A24-0x2A29)
+ */
+export interface DeviceInformationString {
+  value: string;
+}
+
+// ============================================================================
+// Beacon Types
+// ============================================================================
+
+/**
+ * iBeacon 프레임 (Apple Company ID 0x004C)
+ */
+export interface IBeaconFrame {
+  type: 'ibeacon';
+  /** Proximity UUID (소문자) */
+  uuid: string;
+  major: number;
+  minor: number;
+  /** 1m 거리 기준 측정 RSSI (dBm, iOS CoreLocation 감지 시 0) */
+  txPower: number;
+}
+
+/**
+ * Eddystone-UID 프레임
+ */
+export interface EddystoneUidFrame {
+  type: 'eddystoneUid';
+  /** Namespace ID (10바이트, 16진수 소문자) */
+  namespace: string;
+  /** Instance ID (6바이트, 16진수 소문자) */
+  instance: string;
+  /** 0m 거리 기준 TX 파워 (dBm) */
+  txPower: number;
+}
+
+/**
+ * Eddystone-URL 프레임
+ */
+export interface EddystoneUrlFrame {
+  type: 'eddystoneUrl';
+  /** 디코딩된 URL */
+  url: string;
+  /** 0m 거리 기준 TX 파워 (dBm) */
+  txPower: number;
+}
+
+/**
+ * Eddystone-TLM 프레임 (암호화되지 않은 버전 0)
+ */
+export interface EddystoneTlmFrame {
+  type: 'eddystoneTlm';
+  version: number;
+  /** 배터리 전압 (mV, 0 = 미지원) */
+  batteryVoltage: number;
+  /** 온도 (°C, 미지원 시 null) */
+  temperature: number | null;
+  /** 부팅 후 광고 횟수 */
+  advertisementCount: number;
+  /** 부팅 후 경과 시간 (초) */
+  uptime: number;
+}
+
+/**
+ * 비콘 프레임
+ */
+export type BeaconFrame = IBeaconFrame | EddystoneUidFrame | EddystoneUrlFrame | EddystoneTlmFrame;
+
+/**
+ * 모니터링할 비콘 영역
+ * 생략된 식별자(major/minor/instance)는 모든 값과 일치합니다
+ */
+export type BeaconRegion =
+  | {
+      /** 영역 식별자 */
+      identifier: string;
+      type: 'ibeacon';
+      uuid: string;
+      major?: number;
+      minor?: number;
+    }
+  | {
+      /** 영역 식별자 */
+      identifier: string;
+      type: 'eddystone';
+      /** Namespace ID (16진수 20자) */
+      namespace: string;
+      /** Instance ID (16진수 12자) */
+      instance?: string;
+    };
+
+/**
+ * 영역 모니터링 옵션
+ */
+export interface RegionMonitoringOptions {
+  /** 마지막 감지 후 영역 이탈로 판단하기까지의 시간 (ms, 기본 10000) */
+  exitTimeout?: number;
+  /** beaconsInRange 이벤트 전송 간격 (ms, 기본 1000) */
+  rangingInterval?: number;
+  /** 스캔 모드 (기본 lowLatency) */
+  scanMode?: ScanMode;
+}
+
+/**
+ * 영역 내에서 감지된 비콘
+ */
+export interface RangedBeacon {
+  /** 장치 ID (iOS CoreLocation 감지 시 'ibeacon:<uuid>:<major>:<minor>') */
+  deviceId: string;
+  /** 비콘 프레임 */
+  beacon: IBeaconFrame | EddystoneUidFrame;
+  /** RSSI */
+  rssi: number;
+  /** 추정 거리 (m) */
+  distance?: number;
+  /** 마지막 감지 시각 */
+  lastSeen: number;
+}
+
+// ============================================================================
+// Signal Strength Types
+// ============================================================================
+
+/**
+ * RSSI 평활화 필터
+ */
+export type RssiFilter = 'none' | 'movingAverage' | 'kalman';
+
+/**
+ * RSSI 모니터링 옵션
+ */
+export interface RssiMonitoringOptions {
+  /** 읽기 간격 (ms, 기본 1000) */
+  interval?: number;
+  /** 평활화 필터 (기본 movingAverage) */
+  filter?: RssiFilter;
+  /** 이동 평균 샘플 수 (기본 5) */
+  windowSize?: number;
+  /** Kalman 프로세스 잡음 (기본 0.5, 클수록 변화를 빠르게 따라감) */
+  processNoise?: number;
+  /** Kalman 측정 잡음 (기본 4, 클수록 더 부드러움) */
+  measurementNoise?: number;
+  /** 근접 판단 기준 (dBm, 지정 시 zone 판단) */
+  threshold?: number;
+  /** 히스테리시스 (dB, 기본 5, far 상태는 threshold + hysteresis 이상이어야 near로 복귀) */
+  hysteresis?: number;
+  /** rssiChanged 전송 최소 변화량 (dB, 기본 1, 0이면 매 읽기마다 전송, 경계 통과는 항상 전송) */
+  minChange?: number;
+}
+
+/**
+ * RSSI 근접 상태
+ */
+export type RssiZone = 'near' | 'far';
+
+/**
+ * RSSI 측정 결과 (rssiChanged)
+ */
+export interface RssiReading {
+  /** 장치 ID */
+  deviceId: string;
+  /** 측정된 RSSI (dBm) */
+  rssi: number;
+  /** 평활화된 RSSI (dBm, 소수점 첫째 자리) */
+  smoothed: number;
+  /** 근접 상태 (threshold 지정 시) */
+  zone?: RssiZone;
+  /** 이번 측정에서 근접 상태가 바뀌었는지 여부 */
+  crossed: boolean;
+  /** 측정 시각 */
+  timestamp: number;
+}
+
+// ============================================================================
+// Peripheral Types
+// ============================================================================
+
+/**
+ * 로컬 GATT 서버 특성 속성
+ */
+export type PeripheralCharacteristicProperties = Partial<
+  Pick<CharacteristicProperties, 'read' | 'write' | 'writeWithoutResponse' | 'notify' | 'indicate'>
+>;
+
+/**
+ * 로컬 GATT 서버 접근 권한
+ */
+export type PeripheralPermission = 'read' | 'readEncrypted' | 'write' | 'writeEncrypted';
+
+/**
+ * 로컬 GATT 서버 디스크립터 정의 (읽기 전용)
+ */
+export interface PeripheralDescriptorDefinition {
+  /** 디스크립터 UUID */
+  uuid: string;
+  /** 값 (Base64) */
+  value?: string;
+}
+
+/**
+ * 로컬 GATT 서버 특성 정의
+ */
+export interface PeripheralCharacteristicDefinition {
+  /** 특성 UUID */
+  uuid: string;
+  /** 속성 */
+  properties: PeripheralCharacteristicProperties;
+  /** 접근 권한 (생략 시 속성에서 추론) */
+  permissions?: PeripheralPermission[];
+  /** 초기 값 (Base64) */
+  value?: string;
+  /**
+   * 요청 응답 방식 (기본 auto)
+   * auto: 저장된 값으로 읽기에 응답하고 쓰기를 저장, manual: respondToPeripheralRequest로 직접 응답
+   */
+  responseMode?: 'auto' | 'manual';
+  /** 디스크립터 목록 (CCCD는 알림/표시 속성에 맞춰 자동 추가) */
+  descriptors?: PeripheralDescriptorDefinition[];
+}
+
+/**
+ * 로컬 GATT 서버 서비스 정의
+ */
+export interface PeripheralServiceDefinition {
+  /** 서비스 UUID */
+  uuid: string;
+  /** 기본 서비스 여부 (기본 true) */
+  isPrimary?: boolean;
+  /** 특성 목록 */
+  characteristics: PeripheralCharacteristicDefinition[];
+}
+
+/**
+ * central이 보낸 읽기/쓰기 요청
+ */
+export interface PeripheralRequest {
+  /** 요청 ID (respondToPeripheralRequest에 사용) */
+  requestId: string;
+  /** 요청 종류 */
+  type: 'read' | 'write';
+  /** 요청한 central ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+  /** 값 위치 (bytes) */
+  offset: number;
+  /** 쓰려는 값 (Base64, write) */
+  value?: string;
+  /** 응답이 필요한지 여부 (write without response는 false) */
+  responseNeeded: boolean;
+}
+
+/**
+ * 요청 응답 상태 (ATT 에러 코드)
+ */
+export type PeripheralResponseStatus =
+  | 'success'
+  | 'invalidOffset'
+  | 'readNotPermitted'
+  | 'writeNotPermitted'
+  | 'invalidAttributeValueLength'
+  | 'insufficientAuthentication'
+  | 'requestNotSupported'
+  | 'attributeNotFound'
+  | 'unlikelyError';
+
+/**
+ * 요청 응답
+ */
+export interface PeripheralResponse {
+  /** 응답 상태 (기본 success) */
+  status?: PeripheralResponseStatus;
+  /** 읽기 응답 값 (Base64, offset 적용 전 전체 값) */
+  value?: string;
+}
+
+/**
+ * 요청 처리 콜백 (undefined를 돌려주면 auto 방식으로 처리)
+ */
+export type PeripheralRequestHandler = (
+  request: PeripheralRequest
+) => PeripheralResponse | undefined | void | Promise<PeripheralResponse | undefined | void>;
+
+/**
+ * 로컬 GATT 서버 옵션
+ */
+export interface PeripheralOptions {
+  /** manual 요청 응답 대기 시간 (ms, 기본 5000, 초과 시 unlikelyError로 응답) */
+  requestTimeout?: number;
+  /** auto 방식 특성의 읽기 요청 콜백 (React Native 전용) */
+  onReadRequest?: PeripheralRequestHandler;
+  /** auto 방식 특성의 쓰기 요청 콜백 (React Native 전용) */
+  onWriteRequest?: PeripheralRequestHandler;
+}
+
+/**
+ * 알림 구독 변경 (peripheralSubscriptionChanged)
+ */
+export interface PeripheralSubscription {
+  /** central ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid: string;
+  /** 구독 여부 */
+  subscribed: boolean;
+}
+
+// ============================================================================
+// Advertising Types
+// ============================================================================
+
+/**
+ * 광고 모드 (광고 간격, Android only)
+ */
+export type AdvertiseMode = 'lowPower' | 'balanced' | 'lowLatency';
+
+/**
+ * 광고 송신 세기 (Android only)
+ */
+export type AdvertiseTxPower = 'ultraLow' | 'low' | 'medium' | 'high';
+
+/**
+ * 광고 데이터
+ */
+export interface AdvertisingData {
+  /** 로컬 이름 (Android는 어댑터 이름을 바꿔 광고) */
+  localName?: string;
+  /** 광고할 서비스 UUID 목록 */
+  serviceUUIDs?: string[];
+  /** 서비스 데이터 (Android only) */
+  serviceData?: ParsedAdvertisement['serviceData'];
+  /** 제조사 데이터 (Android only) */
+  manufacturerData?: ParsedAdvertisement['manufacturerData'];
+  /** TX 파워 레벨 포함 여부 (Android only) */
+  includeTxPower?: boolean;
+}
+
+/**
+ * 비콘 광고 정의
+ */
+export type BeaconAdvertisement =
+  | {
+      type: 'ibeacon';
+      /** Proximity UUID */
+      uuid: string;
+      major: number;
+      minor: number;
+      /** 1m 거리 기준 측정 RSSI (dBm, 기본 -59) */
+      measuredPower?: number;
+    }
+  | {
+      type: 'eddystoneUid';
+      /** Namespace ID (16진수 20자) */
+      namespace: string;
+      /** Instance ID (16진수 12자) */
+      instance: string;
+      /** 0m 거리 기준 TX 파워 (dBm, 기본 -18) */
+      txPower?: number;
+    }
+  | {
+      type: 'eddystoneUrl';
+      /** URL (인코딩 후 17 bytes 이하) */
+      url: string;
+      /** 0m 거리 기준 TX 파워 (dBm, 기본 -18) */
+      txPower?: number;
+    };
+
+/**
+ * 광고 옵션
+ */
+export interface AdvertisingOptions extends AdvertisingData {
+  /** 비콘 광고 (지정 시 비콘 데이터를 광고 데이터에 더함) */
+  beacon?: BeaconAdvertisement;
+  /** 연결 허용 여부 (기본 true, beacon 지정 시 기본 false. iOS는 항상 연결 가능) */
+  connectable?: boolean;
+  /** 광고 모드 (기본 balanced) */
+  mode?: AdvertiseMode;
+  /** 송신 세기 (기본 medium) */
+  txPowerLevel?: AdvertiseTxPower;
+  /** 광고 시간 (ms, 0 = 무제한, 기본 0) */
+  timeout?: number;
+}
+
+/**
+ * 광고 중지 이유 (advertisingStopped)
+ */
+export type AdvertisingStopReason = 'stopped' | 'timeout' | 'bluetoothDisabled';
+
+// ============================================================================
+// Device Registry Types
+// ============================================================================
+
+/**
+ * 발견 장치 레지스트리 옵션
+ */
+export interface DeviceRegistryOptions {
+  /** 마지막 감지 후 장치를 제거하기까지의 시간 (ms, 0 = 제거 안 함, 기본 30000, 연결된 장치는 제외) */
+  staleTimeout?: number;
+  /** 장치별 RSSI 기록 개수 (기본 20) */
+  historySize?: number;
+  /** 최대 장치 수 (초과 시 가장 오래전에 감지된 장치부터 제거, 기본 500) */
+  maxDevices?: number;
+}
+
+/**
+ * RSSI 기록 항목
+ */
+export interface RssiSample {
+  rssi: number;
+  timestamp: number;
+}
+
+/**
+ * 스캔으로 발견된 장치 (같은 ID의 감지를 하나로 합침)
+ */
+export interface DiscoveredDevice {
+  /** 장치 ID */
+  id: string;
+  /** 알려진 장치 이름 (이름 없는 감지로 지워지지 않음) */
+  name: string | null;
+  /** 마지막 감지 장치 타입 */
+  type: BluetoothDeviceType;
+  /** 처음 감지 시각 */
+  firstSeen: number;
+  /** 마지막 감지 시각 */
+  lastSeen: number;
+  /** 감지 횟수 */
+  seenCount: number;
+  /** 마지막 RSSI */
+  rssi?: number;
+  /** RSSI 기록 (오래된 순) */
+  rssiHistory: RssiSample[];
+  /** 장치 정보 (BLE/Classic 정보 병합) */
+  device: BluetoothDevice;
+  /** 마지막으로 파싱된 광고 데이터 (BLE) */
+  advertisement?: ParsedAdvertisement;
+  /** 마지막으로 인식된 비콘 프레임 */
+  beacon?: BeaconFrame;
+}
+
+/**
+ * 발견 장치 정렬 기준
+ */
+export type DiscoveredDeviceSortKey = 'lastSeen' | 'firstSeen' | 'rssi' | 'name';
+
+/**
+ * 발견 장치 조회 옵션
+ */
+export interface DiscoveredDevicesQuery {
+  /** 장치 타입 */
+  type?: BluetoothDeviceType;
+  /** 이름 필터 (부분 일치, 대소문자 무시) */
+  nameFilter?: string;
+  /** 광고된 서비스 UUID (하나라도 일치) */
+  serviceUUIDs?: string[];
+  /** 최소 RSSI (마지막 RSSI 기준) */
+  minRssi?: number;
+  /** 최근 감지 기준 (ms, 마지막 감지가 이 시간 이내인 장치만) */
+  seenWithin?: number;
+  /** 정렬 기준 (기본 lastSeen) */
+  sortBy?: DiscoveredDeviceSortKey;
+  /** 정렬 순서 (기본: name은 asc, 나머지는 desc) */
+  order?: 'asc' | 'desc';
+  /** 최대 개수 */
+  limit?: number;
+}
+
+// ============================================================================
+// Device Request Types
+// ============================================================================
+
+/**
+ * 광고 데이터 필터 (dataPrefix & mask 비교)
+ */
+export interface DeviceDataFilter {
+  /** 데이터 접두사 (Base64) */
+  dataPrefix?: string;
+  /** 비트 마스크 (Base64, dataPrefix와 같은 길이) */
+  mask?: string;
+}
+
+/**
+ * 제조사 데이터 필터
+ */
+export interface DeviceManufacturerDataFilter extends DeviceDataFilter {
+  /** Company Identifier */
+  companyIdentifier: number;
+}
+
+/**
+ * 서비스 데이터 필터
+ */
+export interface DeviceServiceDataFilter extends DeviceDataFilter {
+  /** 서비스 UUID */
+  service: string;
+}
+
+/**
+ * 장치 필터 (지정한 조건을 모두 만족해야 일치)
+ */
+export interface DeviceFilter {
+  /** 광고해야 하는 서비스 UUID */
+  services?: string[];
+  /** 장치 이름 */
+  name?: string;
+  /** 장치 이름 접두사 */
+  namePrefix?: string;
+  /** 제조사 데이터 */
+  manufacturerData?: DeviceManufacturerDataFilter[];
+  /** 서비스 데이터 */
+  serviceData?: DeviceServiceDataFilter[];
+}
+
+/**
+ * 장치 선택 요청 옵션
+ */
+export interface DeviceRequestOptions {
+  /** 장치 필터 (하나라도 일치하면 후보, acceptAllDevices와 함께 사용 불가) */
+  filters?: DeviceFilter[];
+  /** 제외 필터 */
+  exclusionFilters?: DeviceFilter[];
+  /** 필터 외에 접근할 서비스 UUID */
+  optionalServices?: string[];
+  /** 모든 장치를 후보로 표시 */
+  acceptAllDevices?: boolean;
+  /** 스캔 시간 (ms, 기본 10000) */
+  timeout?: number;
+}
+
+/**
+ * 장치 선택 화면에 전달되는 요청
+ */
+export interface DeviceChooserRequest {
+  /** 요청한 페이지 origin */
+  origin: string;
+  /** 요청 옵션 */
+  options: DeviceRequestOptions;
+  /** 현재까지 발견된 후보 장치 (발견 순) */
+  devices: BluetoothDevice[];
+  /**
+   * 후보 목록 변경 구독 (새 장치 발견, RSSI 갱신)
+   * @returns 구독 해제 함수
+   */
+  onDevicesChanged: (listener: (devices: BluetoothDevice[]) => void) => () => void;
+  /**
+   * 스캔 종료 구독 (스캔 시간 경과)
+   * @returns 구독 해제 함수
+   */
+  onScanComplete: (listener: () => void) => () => void;
+}
+
+/**
+ * 장치 선택 화면
+ * 선택한 장치 ID를 반환합니다 (취소 시 null)
+ */
+export type DeviceChooser = (request: DeviceChooserRequest) => Promise<string | null> | string | null;
+
+/**
+ * 페이지에 허용된 장치
+ */
+export interface DeviceGrant {
+  /** 페이지 origin */
+  origin: string;
+  /** 장치 ID */
+  deviceId: string;
+  /** 장치 이름 */
+  name: string | null;
+  /** 접근 가능한 서비스 UUID (filters.services + optionalServices) */
+  services: string[];
+  /** 허용 시각 */
+  grantedAt: number;
+}
+
+// ============================================================================
+// Access Policy Types
+// ============================================================================
+
+/**
+ * 정책 검사 대상 GATT 작업
+ */
+export type GattOperation = 'discover' | 'read' | 'write' | 'notify';
+
+/**
+ * GATT blocklist 제한 (Web Bluetooth GATT blocklist의 exclude, exclude-reads, exclude-writes)
+ */
+export type GattBlocklistRestriction = 'exclude' | 'excludeReads' | 'excludeWrites';
+
+/**
+ * GATT blocklist 항목 (서비스, 특성 또는 디스크립터 UUID)
+ */
+export interface GattBlocklistEntry {
+  /** 서비스, 특성 또는 디스크립터 UUID */
+  uuid: string;
+  /** 제한 (기본 'exclude') */
+  restriction?: GattBlocklistRestriction;
+}
+
+/**
+ * 앱 정의 접근 수준
+ * - blocked: 모든 작업 거부, 서비스 발견 결과에서 제외
+ * - readOnly: 읽기만 허용 (쓰기, 알림 설정 거부)
+ * - writeDenied: 쓰기만 거부 (읽기, 알림 허용)
+ */
+export type GattAccessLevel = 'blocked' | 'readOnly' | 'writeDenied';
+
+/**
+ * 앱 정의 접근 규칙
+ */
+export interface GattAccessRule {
+  /** 서비스 UUID */
+  service: string;
+  /** 특성 UUID (생략 시 서비스 전체) */
+  characteristic?: string;
+  /** 접근 수준 */
+  access: GattAccessLevel;
+  /** 규칙을 적용할 origin (생략 시 모든 페이지) */
+  origins?: string[];
+}
+
+/**
+ * GATT 접근 정책
+ */
+export interface GattAccessPolicy {
+  /** 내장 blocklist 사용 (HID, DFU, FIDO 등, 기본 true) */
+  useDefaultBlocklist?: boolean;
+  /** 추가 blocklist */
+  blocklist?: GattBlocklistEntry[];
+  /** 앱 정의 규칙 */
+  rules?: GattAccessRule[];
+}
+
+/**
+ * 정책에 의한 거부 정보
+ */
+export interface GattAccessDenial {
+  /** 거부된 작업 */
+  operation: GattOperation;
+  /** 요청한 페이지 origin */
+  origin: string;
+  /** 장치 ID */
+  deviceId: string;
+  /** 서비스 UUID */
+  serviceUuid: string;
+  /** 특성 UUID */
+  characteristicUuid?: string;
+  /** 디스크립터 UUID */
+  descriptorUuid?: string;
+  /** 거부 근거 */
+  source: 'blocklist' | 'rule';
+  /** 적용된 제한 또는 접근 수준 */
+  restriction: GattBlocklistRestriction | GattAccessLevel;
+  /** 일치한 UUID (blocklist) 또는 규칙 */
+  matched: string | GattAccessRule;
+}
+
 // ============================================================================
 // Permission Types
 // ============================================================================
@@ -301,17 +1412,46 @@ export type BluetoothState = 'unknown' | 'resetting' | 'unsupported' | 'unauthor
 export type BluetoothEventType =
   | 'stateChange'
   | 'deviceDiscovered'
+  | 'deviceLost'
   | 'scanStarted'
   | 'scanStopped'
   | 'connected'
   | 'disconnected'
   | 'connectionFailed'
+  | 'reconnecting'
+  | 'reconnected'
+  | 'reconnectFailed'
   | 'servicesDiscovered'
   | 'characteristicRead'
   | 'characteristicWritten'
+  | 'descriptorRead'
+  | 'descriptorWritten'
+  | 'writeProgress'
+  | 'frameReceived'
   | 'notification'
+  | 'notificationStateChanged'
+  | 'notificationBatch'
   | 'mtuChanged'
+  | 'rssiRead'
+  | 'rssiChanged'
   | 'bondStateChanged'
+  | 'beaconRanged'
+  | 'regionEnter'
+  | 'regionExit'
+  | 'beaconsInRange'
+  | 'peripheralStateChanged'
+  | 'peripheralServiceAdded'
+  | 'peripheralReadRequest'
+  | 'peripheralWriteRequest'
+  | 'peripheralSubscriptionChanged'
+  | 'peripheralNotificationSent'
+  | 'peripheralReady'
+  | 'centralConnected'
+  | 'centralDisconnected'
+  | 'advertisingStarted'
+  | 'advertisingStopped'
+  | 'advertisingFailed'
+  | 'accessDenied'
   | 'error';
 
 /**
@@ -328,16 +1468,44 @@ export interface BluetoothEvent {
     state?: BluetoothState;
     /** 발견된 장치 */
     device?: BluetoothDevice;
+    /** 레지스트리에서 제거된 장치 (deviceLost) */
+    discoveredDevice?: DiscoveredDevice;
+    /** 파싱된 광고 데이터 (deviceDiscovered, BLE) */
+    parsedAdvertisement?: ParsedAdvertisement;
+    /** 인식된 비콘 프레임 (deviceDiscovered, BLE) */
+    beacon?: BeaconFrame;
+    /** 비콘 영역 (regionEnter, regionExit, beaconsInRange) */
+    region?: BeaconRegion;
+    /** 영역 내 비콘 목록 (beaconsInRange) */
+    beacons?: RangedBeacon[];
     /** 서비스 목록 */
     services?: BleService[];
     /** 읽기/쓰기 결과 */
     result?: ReadResult;
     /** 알림 데이터 */
     notification?: NotificationEvent;
+    /** 알림 묶음 (notificationBatch) */
+    batch?: NotificationBatch;
+    /** 긴 쓰기 진행 상황 (writeProgress) */
+    progress?: LongWriteProgress;
+    /** 수신된 프레임 (frameReceived) */
+    frame?: ClassicFrame;
     /** MTU 크기 */
     mtu?: number;
+    /** RSSI (rssiRead) */
+    rssi?: number;
+    /** RSSI 측정 결과 (rssiChanged) */
+    reading?: RssiReading;
     /** 본딩 상태 */
     bondState?: 'none' | 'bonding' | 'bonded';
+    /** central 요청 (peripheralReadRequest, peripheralWriteRequest) */
+    request?: PeripheralRequest;
+    /** 알림 구독 변경 (peripheralSubscriptionChanged) */
+    subscription?: PeripheralSubscription;
+    /** 광고 중지 이유 (advertisingStopped) */
+    reason?: AdvertisingStopReason;
+    /** 정책에 의한 거부 정보 (accessDenied) */
+    denial?: GattAccessDenial;
     /** 에러 메시지 */
     error?: string;
     /** 에러 코드 */
@@ -347,6 +1515,8 @@ export interface BluetoothEvent {
   };
   /** 타임스탬프 */
   timestamp: number;
+  /** 일치한 이벤트 구독 ID (subscribeEvents 사용 시, Web으로 전달되는 이벤트) */
+  subscriptionIds?: string[];
 }
 
 /**
@@ -354,6 +1524,18 @@ export interface BluetoothEvent {
  */
 export type BluetoothEventCallback = (event: BluetoothEvent) => void | Promise<void>;
 
+/**
+ * 이벤트 구독 필터 (지정한 조건을 모두 만족하는 이벤트만 전달)
+ */
+export interface EventSubscriptionFilter {
+  /** 이벤트 타입 (생략 시 모든 타입) */
+  types?: BluetoothEventType[];
+  /** 장치 ID (지정 시 장치 ID가 없는 이벤트는 제외) */
+  deviceIds?: string[];
+  /** 특성 UUID (지정 시 특성 UUID가 없는 이벤트는 제외) */
+  characteristicUuids?: string[];
+}
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -375,12 +1557,15 @@ export type BluetoothError =
   | 'DESCRIPTOR_NOT_FOUND'
   | 'OPERATION_FAILED'
   | 'OPERATION_NOT_SUPPORTED'
+  | 'OPERATION_TIMEOUT'
   | 'WRITE_FAILED'
   | 'READ_FAILED'
   | 'NOTIFICATION_FAILED'
   | 'SCAN_FAILED'
+  | 'ADVERTISING_FAILED'
   | 'BONDING_FAILED'
   | 'INVALID_INPUT'
+  | 'ACCESS_DENIED'
   | 'UNKNOWN';
 
 // ============================================================================
@@ -394,6 +1579,10 @@ export interface BluetoothResult {
   success: boolean;
   error?: BluetoothError;
   message?: string;
+  /** 검증에 실패한 필드 경로 (INVALID_INPUT, 예: 'options.timeout') */
+  field?: string;
+  /** 정책에 의한 거부 정보 (ACCESS_DENIED) */
+  denial?: GattAccessDenial;
 }
 
 /**
@@ -410,6 +1599,10 @@ export interface ScanStartResult extends BluetoothResult {
 export interface ConnectResult extends BluetoothResult {
   /** 연결 정보 */
   connection?: ConnectionInfo;
+  /** 발견된 서비스 목록 (discoverServices 옵션 사용 시) */
+  services?: BleService[];
+  /** 연결 후 설정 단계별 결과 (설정 옵션 사용 시) */
+  setup?: ConnectionSetupStepResult[];
 }
 
 /**
@@ -428,6 +1621,56 @@ export interface MtuResult extends BluetoothResult {
   mtu?: number;
 }
 
+/**
+ * RSSI 읽기 결과
+ */
+export interface RssiResult extends BluetoothResult {
+  /** RSSI (dBm) */
+  rssi?: number;
+}
+
+/**
+ * 로컬 GATT 서버 알림 결과
+ */
+export interface PeripheralNotifyResult extends BluetoothResult {
+  /** 알림을 보낸 central ID 목록 */
+  sent?: string[];
+  /** 전송에 실패한 central ID 목록 */
+  failed?: string[];
+}
+
+/**
+ * 긴 쓰기 결과
+ */
+export interface LongWriteResult extends BluetoothResult {
+  /** 긴 쓰기 ID */
+  writeId?: string;
+  /** 쓰기 완료된 위치 (bytes, 실패 시 이어쓰기 offset) */
+  bytesWritten?: number;
+  /** 전체 크기 (bytes) */
+  totalBytes?: number;
+}
+
+/**
+ * Classic 명령 결과
+ */
+export interface CommandResult extends BluetoothResult {
+  /** 응답 데이터 (Base64) */
+  response?: string;
+  /** 응답 텍스트 (UTF-8) */
+  text?: string;
+  /** 정규식 일치 결과 (pattern, [전체 일치, ...그룹]) */
+  matches?: string[];
+}
+
+/**
+ * GATT 큐 깊이 결과
+ */
+export interface GattQueueDepthResult extends BluetoothResult {
+  /** 실행 중 + 대기 중 작업 수 */
+  depth?: number;
+}
+
 /**
  * 장치 목록 결과
  */
@@ -436,6 +1679,14 @@ export interface DevicesResult extends BluetoothResult {
   devices?: BluetoothDevice[];
 }
 
+/**
+ * 발견 장치 목록 결과
+ */
+export interface DiscoveredDevicesResult extends BluetoothResult {
+  /** 발견된 장치 목록 */
+  devices?: DiscoveredDevice[];
+}
+
 /**
  * 연결 장치 목록 결과
  */
@@ -451,3 +1702,29 @@ export interface BondedDevicesResult extends BluetoothResult {
   /** 본딩된 장치 목록 */
   devices?: ClassicDevice[];
 }
+
+/**
+ * 장치 선택 결과
+ */
+export interface RequestDeviceResult extends BluetoothResult {
+  /** 선택된 장치 */
+  device?: BluetoothDevice;
+  /** 부여된 권한 */
+  grant?: DeviceGrant;
+}
+
+/**
+ * 장치 권한 목록 결과
+ */
+export interface DeviceGrantsResult extends BluetoothResult {
+  /** 현재 페이지에 허용된 장치 */
+  grants?: DeviceGrant[];
+}
+
+/**
+ * 이벤트 구독 결과
+ */
+export interface EventSubscriptionResult extends BluetoothResult {
+  /** 구독 ID */
+  subscriptionId?: string;
+}
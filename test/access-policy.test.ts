@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createGattAccessPolicy } from '../src/bridge/access-policy';
+import type { BleService, CharacteristicProperties } from '../src/types/bluetooth-module';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+const MEASUREMENT = '00002a37-0000-1000-8000-00805f9b34fb';
+const CONTROL_POINT = '00002a39-0000-1000-8000-00805f9b34fb';
+const GAP = '00001800-0000-1000-8000-00805f9b34fb';
+const PRIVACY_FLAG = '00002a02-0000-1000-8000-00805f9b34fb';
+
+const ORIGIN = 'https://a.example';
+const target = (serviceUuid: string, characteristicUuid?: string) => ({
+  origin: ORIGIN,
+  deviceId: 'dev',
+  serviceUuid,
+  characteristicUuid,
+});
+
+const properties: CharacteristicProperties = {
+  broadcast: false,
+  read: true,
+  writeWithoutResponse: false,
+  write: true,
+  notify: true,
+  indicate: false,
+  authenticatedSignedWrites: false,
+  extendedProperties: false,
+};
+
+const service = (uuid: string, characteristics: string[]): BleService => ({
+  uuid,
+  isPrimary: true,
+  characteristics: characteristics.map((characteristic) => ({
+    uuid: characteristic,
+    serviceUuid: uuid,
+    properties,
+  })),
+});
+
+describe('createGattAccessPolicy blocklist', () => {
+  it('내장 blocklist는 HID 서비스의 모든 작업을 거부', () => {
+    const policy = createGattAccessPolicy();
+    const denial = policy.check('discover', target('1812'));
+    assert.equal(denial?.source, 'blocklist');
+    assert.equal(denial?.restriction, 'exclude');
+    assert.equal(denial?.matched, '00001812-0000-1000-8000-00805f9b34fb');
+    assert.equal(policy.check('read', target(HEART_RATE, MEASUREMENT)), null);
+  });
+
+  it('excludeWrites는 쓰기만 거부', () => {
+    const policy = createGattAccessPolicy();
+    assert.equal(policy.check('write', target(GAP, PRIVACY_FLAG))?.restriction, 'excludeWrites');
+    assert.equal(policy.check('read', target(GAP, PRIVACY_FLAG)), null);
+    assert.equal(policy.check('discover', target(GAP, PRIVACY_FLAG)), null);
+  });
+
+  it('excludeReads는 읽기와 알림을 거부하고 쓰기는 허용', () => {
+    const policy = createGattAccessPolicy({ blocklist: [{ uuid: '2A37', restriction: 'excludeReads' }] });
+    assert.equal(policy.check('read', target(HEART_RATE, MEASUREMENT))?.restriction, 'excludeReads');
+    assert.equal(policy.check('notify', target(HEART_RATE, MEASUREMENT))?.restriction, 'excludeReads');
+    assert.equal(policy.check('write', target(HEART_RATE, MEASUREMENT)), null);
+  });
+
+  it('useDefaultBlocklist: false면 내장 blocklist 미적용', () => {
+    const policy = createGattAccessPolicy({ useDefaultBlocklist: false });
+    assert.equal(policy.check('discover', target('1812')), null);
+  });
+});
+
+describe('createGattAccessPolicy rules', () => {
+  it('접근 수준별로 거부 작업이 다름', () => {
+    const policy = createGattAccessPolicy({
+      rules: [
+        { service: '180d', characteristic: '2a37', access: 'readOnly' },
+        { service: '180d', characteristic: '2a39', access: 'writeDenied' },
+      ],
+    });
+
+    assert.equal(policy.check('write', target(HEART_RATE, MEASUREMENT))?.restriction, 'readOnly');
+    assert.equal(policy.check('notify', target(HEART_RATE, MEASUREMENT))?.restriction, 'readOnly');
+    assert.equal(policy.check('read', target(HEART_RATE, MEASUREMENT)), null);
+
+    assert.equal(policy.check('write', target(HEART_RATE, CONTROL_POINT))?.source, 'rule');
+    assert.equal(policy.check('notify', target(HEART_RATE, CONTROL_POINT)), null);
+  });
+
+  it('origins를 지정한 규칙은 해당 페이지에만 적용', () => {
+    const rule = { service: '180d', access: 'blocked' as const, origins: ['https://b.example'] };
+    const policy = createGattAccessPolicy({ rules: [rule] });
+    assert.equal(policy.check('read', target(HEART_RATE, MEASUREMENT)), null);
+    const other = { ...target(HEART_RATE, MEASUREMENT), origin: 'https://b.example' };
+    assert.deepEqual(policy.check('read', other)?.matched, rule);
+  });
+
+  it('서비스 규칙은 서비스와 그 특성 모두에 적용', () => {
+    const policy = createGattAccessPolicy({ rules: [{ service: '180d', access: 'blocked' }] });
+    assert.notEqual(policy.check('discover', target(HEART_RATE)), null);
+    assert.notEqual(policy.check('read', target(HEART_RATE, MEASUREMENT)), null);
+  });
+
+  it('특성 규칙은 서비스 자체의 발견을 막지 않음', () => {
+    const policy = createGattAccessPolicy({
+      rules: [{ service: '180d', characteristic: '2a39', access: 'blocked' }],
+    });
+    assert.equal(policy.check('discover', target(HEART_RATE)), null);
+    assert.notEqual(policy.check('discover', target(HEART_RATE, CONTROL_POINT)), null);
+
+    const services = policy.filterServices(ORIGIN, 'dev', [service(HEART_RATE, [MEASUREMENT, CONTROL_POINT])]);
+    assert.deepEqual(
+      services.map((item) => [item.uuid, item.characteristics?.map((characteristic) => characteristic.uuid)]),
+      [[HEART_RATE, [MEASUREMENT]]]
+    );
+  });
+
+  it('filterServices는 발견이 거부된 서비스를 제외', () => {
+    const policy = createGattAccessPolicy({ rules: [{ service: '180d', access: 'blocked' }] });
+    const services = policy.filterServices(ORIGIN, 'dev', [
+      service(HEART_RATE, [MEASUREMENT]),
+      service('1812', []),
+      service(GAP, [PRIVACY_FLAG]),
+    ]);
+    assert.deepEqual(
+      services.map((item) => item.uuid),
+      [GAP]
+    );
+    // excludeWrites 특성은 발견 결과에 남음
+    assert.deepEqual(services[0].characteristics?.map((characteristic) => characteristic.uuid), [PRIVACY_FLAG]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseAdvertisement, parseAdvertisementBytes } from '../src/modules/advertisement';
+import { bytesToBase64 } from '../src/modules/encoding';
+
+const parse = (...values: number[]) => parseAdvertisementBytes(Uint8Array.from(values));
+
+describe('parseAdvertisementBytes', () => {
+  it('Flags, 서비스 UUID, 이름, TX 파워', () => {
+    const result = parse(
+      0x02, 0x01, 0x06,
+      0x03, 0x03, 0x0d, 0x18,
+      0x05, 0x09, 0x48, 0x52, 0x2d, 0x31,
+      0x02, 0x0a, 0xf4
+    );
+    assert.equal(result.flags?.raw, 0x06);
+    assert.equal(result.flags?.leGeneralDiscoverable, true);
+    assert.equal(result.flags?.brEdrNotSupported, true);
+    assert.deepEqual(result.serviceUUIDs, ['0000180d-0000-1000-8000-00805f9b34fb']);
+    assert.equal(result.isServiceUUIDListComplete, true);
+    assert.equal(result.localName, 'HR-1');
+    assert.equal(result.isShortenedLocalName, false);
+    assert.equal(result.txPowerLevel, -12);
+    assert.equal(result.structures.length, 4);
+  });
+
+  it('Complete 이름이 Shortened 이름보다 우선', () => {
+    const result = parse(0x03, 0x09, 0x41, 0x42, 0x02, 0x08, 0x41);
+    assert.equal(result.localName, 'AB');
+    assert.equal(result.isShortenedLocalName, false);
+  });
+
+  it('128-bit UUID는 리틀 엔디언으로 해석', () => {
+    const uuid = [0xfb, 0x34, 0x9b, 0x5f, 0x80, 0x00, 0x00, 0x80, 0x00, 0x10, 0x00, 0x00, 0x0f, 0x18, 0x00, 0x00];
+    const result = parse(0x11, 0x06, ...uuid);
+    assert.deepEqual(result.serviceUUIDs, ['0000180f-0000-1000-8000-00805f9b34fb']);
+    assert.equal(result.isServiceUUIDListComplete, false);
+  });
+
+  it('서비스 데이터와 제조사 데이터', () => {
+    const result = parse(0x05, 0x16, 0xaa, 0xfe, 0x10, 0x00, 0x05, 0xff, 0x4c, 0x00, 0x02, 0x15);
+    assert.deepEqual(result.serviceData, [
+      { uuid: '0000feaa-0000-1000-8000-00805f9b34fb', data: bytesToBase64(Uint8Array.from([0x10, 0x00])) },
+    ]);
+    assert.deepEqual(result.manufacturerData, [
+      { companyId: 0x004c, data: bytesToBase64(Uint8Array.from([0x02, 0x15])) },
+    ]);
+  });
+
+  it('URI 스킴 코드', () => {
+    const result = parse(0x05, 0x24, 0x17, 0x2f, 0x2f, 0x61);
+    assert.equal(result.uri, 'https://a');
+  });
+
+  it('길이가 잘못된 구조 이전까지만 파싱', () => {
+    const result = parse(0x02, 0x01, 0x06, 0x09, 0x09, 0x41);
+    assert.equal(result.flags?.raw, 0x06);
+    assert.equal(result.localName, undefined);
+    assert.equal(result.structures.length, 1);
+  });
+
+  it('길이 0 이후는 패딩으로 무시', () => {
+    const result = parse(0x02, 0x01, 0x06, 0x00, 0x03, 0x09, 0x41);
+    assert.equal(result.structures.length, 1);
+  });
+
+  it('잘못된 UTF-8 이름이나 URI에서도 예외 없음', () => {
+    const name = parse(0x05, 0x09, 0xf4, 0x90, 0x80, 0x80);
+    assert.equal(name.localName, '����');
+    const uri = parse(0x04, 0x24, 0x17, 0xed, 0xa0);
+    assert.equal(uri.uri, 'https:��');
+  });
+});
+
+describe('parseAdvertisement', () => {
+  it('Base64 입력 파싱', () => {
+    assert.equal(parseAdvertisement('AgEG')?.flags?.raw, 0x06);
+  });
+
+  it('잘못된 Base64는 null', () => {
+    assert.equal(parseAdvertisement('A*'), null);
+  });
+});
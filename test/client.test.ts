@@ -0,0 +1,117 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BluetoothClient } from '../src/client/client';
+import { BLUETOOTH_EVENT_NAME } from '../src/client/protocol';
+import { createMemoryTransport } from '../src/client/transport';
+import type { BluetoothEvent } from '../src/types/bluetooth-module';
+
+/** 응답을 직접 보낼 수 있도록 요청을 모아두는 핸들러 */
+function setup(timeout?: number) {
+  const { transport, bridge } = createMemoryTransport();
+  const client = new BluetoothClient({ transport, timeout });
+  const pending: Array<{ action: string; payload: unknown; respond: (data: unknown) => void }> = [];
+  const hold = (action: string): void =>
+    bridge.registerHandler(action, (payload, respond) => {
+      pending.push({ action, payload, respond });
+    });
+  return { client, bridge, pending, hold };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('BluetoothClient', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('응답 순서와 관계없이 요청별 결과로 resolve', async () => {
+    const { client, pending, hold } = setup();
+    hold('isConnected');
+
+    const first = client.isConnected('a');
+    const second = client.isConnected('b');
+    assert.deepEqual(
+      pending.map((request) => request.payload),
+      [{ deviceId: 'a' }, { deviceId: 'b' }]
+    );
+
+    pending[1].respond({ success: true, isConnected: false });
+    pending[0].respond({ success: true, isConnected: true });
+    assert.deepEqual(await first, { success: true, isConnected: true });
+    assert.deepEqual(await second, { success: true, isConnected: false });
+  });
+
+  it('같은 요청에 대한 중복 응답은 무시', async () => {
+    const { client, pending, hold } = setup();
+    hold('isScanning');
+
+    const result = client.isScanning();
+    pending[0].respond({ success: true, isScanning: true });
+    pending[0].respond({ success: true, isScanning: false });
+    assert.deepEqual(await result, { success: true, isScanning: true });
+  });
+
+  it('등록되지 않은 핸들러는 OPERATION_NOT_SUPPORTED', async () => {
+    const { client } = setup();
+    const result = await client.stopBleScan();
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'OPERATION_NOT_SUPPORTED');
+  });
+
+  it('응답이 없으면 timeout 후 OPERATION_TIMEOUT', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const { client, pending, hold } = setup(500);
+    hold('getBluetoothState');
+
+    const result = client.getBluetoothState();
+    mock.timers.tick(500);
+    const timedOut = await result;
+    assert.equal(timedOut.success, false);
+    assert.equal(timedOut.error, 'OPERATION_TIMEOUT');
+    assert.match(timedOut.message ?? '', /getBluetoothState did not respond within 500ms/);
+
+    // 늦게 도착한 응답은 무시
+    pending[0].respond({ success: true });
+    await flush();
+  });
+
+  it('전송이 실패하면 UNKNOWN으로 resolve', async () => {
+    const client = new BluetoothClient({
+      transport: {
+        send: () => {
+          throw new Error('bridge unavailable');
+        },
+        subscribe: () => () => undefined,
+      },
+    });
+    assert.deepEqual(await client.stopBleScan(), { success: false, error: 'UNKNOWN', message: 'bridge unavailable' });
+  });
+
+  it('Bluetooth 이벤트를 전체/타입별로 전달', async () => {
+    const { client, bridge } = setup();
+    const all: BluetoothEvent['type'][] = [];
+    const connected: Array<string | undefined> = [];
+    client.onBluetoothEvent((event) => all.push(event.type));
+    const off = client.on('connected', (event) => connected.push(event.deviceId));
+
+    bridge.sendToWeb(BLUETOOTH_EVENT_NAME, { type: 'scanStarted', timestamp: 0 });
+    bridge.sendToWeb(BLUETOOTH_EVENT_NAME, { type: 'connected', deviceId: 'a', timestamp: 0 });
+    bridge.sendToWeb('otherEvent', { type: 'connected', deviceId: 'b', timestamp: 0 });
+    await flush();
+    off();
+    bridge.sendToWeb(BLUETOOTH_EVENT_NAME, { type: 'connected', deviceId: 'c', timestamp: 0 });
+    await flush();
+
+    assert.deepEqual(all, ['scanStarted', 'connected', 'connected']);
+    assert.deepEqual(connected, ['a']);
+  });
+
+  it('dispose는 대기 중인 요청을 실패 처리하고 이후 요청을 거부', async () => {
+    const { client, hold } = setup();
+    hold('getConnectedDevices');
+
+    const result = client.getConnectedDevices();
+    client.dispose();
+    assert.equal((await result).error, 'OPERATION_FAILED');
+    assert.equal((await client.getConnectedDevices()).error, 'OPERATION_FAILED');
+  });
+});
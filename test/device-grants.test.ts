@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createDeviceAccess, createDeviceGrantStore } from '../src/bridge/device-grants';
+import type { BluetoothDevice, BluetoothEvent } from '../src/types/bluetooth-module';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+const BATTERY = '0000180f-0000-1000-8000-00805f9b34fb';
+
+const device = (id: string, name: string | null = null): BluetoothDevice => ({ id, name, type: 'ble' });
+
+describe('createDeviceGrantStore', () => {
+  it('origin별로 권한을 기록하고 서비스는 128-bit로 합침', () => {
+    const grants = createDeviceGrantStore();
+    const first = grants.grant('https://a.example', device('band', 'Band'), ['180d']);
+    const second = grants.grant('https://a.example', device('band'), ['180F', '180d']);
+
+    assert.deepEqual(second.services, [HEART_RATE, BATTERY]);
+    assert.equal(second.name, 'Band');
+    assert.equal(second.grantedAt, first.grantedAt);
+    assert.equal(grants.has('https://a.example', 'band'), true);
+    assert.equal(grants.has('https://b.example', 'band'), false);
+    assert.deepEqual(grants.list('https://a.example'), [second]);
+  });
+
+  it('revoke는 지정한 장치 또는 origin의 모든 권한을 취소', () => {
+    const grants = createDeviceGrantStore();
+    grants.grant('https://a.example', device('band'), []);
+    grants.grant('https://a.example', device('scale'), []);
+    grants.grant('https://b.example', device('band'), []);
+
+    assert.deepEqual(
+      grants.revoke('https://a.example', 'band').map((grant) => grant.deviceId),
+      ['band']
+    );
+    assert.deepEqual(grants.revoke('https://a.example', 'band'), []);
+    assert.equal(grants.isGrantedAnywhere('band'), true);
+
+    assert.deepEqual(
+      grants.revoke('https://a.example').map((grant) => grant.deviceId),
+      ['scale']
+    );
+    assert.deepEqual(grants.list('https://a.example'), []);
+
+    grants.clear();
+    assert.equal(grants.isGrantedAnywhere('band'), false);
+  });
+});
+
+describe('createDeviceAccess', () => {
+  const setup = (enforce: boolean, allowDevice?: (origin: string, deviceId: string) => boolean) => {
+    const grants = createDeviceGrantStore();
+    let origin = 'https://a.example';
+    const access = createDeviceAccess(grants, { enforce, getOrigin: () => origin, allowDevice });
+    return { grants, access, setOrigin: (next: string) => (origin = next) };
+  };
+
+  const event = (overrides: Partial<BluetoothEvent>): BluetoothEvent => ({
+    type: 'connected',
+    timestamp: 0,
+    ...overrides,
+  });
+
+  it('검사하지 않으면 모든 장치를 허용', () => {
+    const { access } = setup(false);
+    assert.equal(access.isAllowed('band'), true);
+    assert.equal(access.check('band'), null);
+  });
+
+  it('현재 origin에 허용되지 않은 장치는 PERMISSION_DENIED', () => {
+    const { grants, access, setOrigin } = setup(true);
+    assert.equal(access.check('band')?.error, 'PERMISSION_DENIED');
+
+    grants.grant('https://a.example', device('band'), []);
+    assert.equal(access.check('band'), null);
+
+    setOrigin('https://b.example');
+    assert.equal(access.check('band')?.error, 'PERMISSION_DENIED');
+  });
+
+  it('revoke 후에는 다시 거부', () => {
+    const { grants, access } = setup(true);
+    grants.grant('https://a.example', device('band'), []);
+    grants.revoke('https://a.example', 'band');
+    assert.equal(access.isAllowed('band'), false);
+  });
+
+  it('allowDevice로 requestDevice 없이 Classic 장치 허용', () => {
+    const calls: string[] = [];
+    const { access } = setup(true, (origin, deviceId) => {
+      calls.push(`${origin} ${deviceId}`);
+      return deviceId === 'AA:BB:CC:DD:EE:FF';
+    });
+
+    assert.equal(access.check('AA:BB:CC:DD:EE:FF'), null);
+    assert.equal(access.check('11:22:33:44:55:66')?.error, 'PERMISSION_DENIED');
+    assert.deepEqual(calls, ['https://a.example AA:BB:CC:DD:EE:FF', 'https://a.example 11:22:33:44:55:66']);
+  });
+
+  it('허용되지 않은 장치의 이벤트는 전달하지 않음', () => {
+    const { grants, access } = setup(true);
+    grants.grant('https://a.example', device('band'), []);
+
+    assert.equal(access.canForward(event({ deviceId: 'band' })), true);
+    assert.equal(access.canForward(event({ deviceId: 'scale' })), false);
+    assert.equal(
+      access.canForward(event({ type: 'deviceDiscovered', data: { device: device('scale') } })),
+      false
+    );
+    assert.equal(access.canForward(event({ type: 'stateChange', data: { state: 'poweredOn' } })), true);
+    // 주변기기 모드의 central은 권한 대상이 아님
+    assert.equal(access.canForward(event({ type: 'centralConnected', deviceId: 'central' })), true);
+  });
+});
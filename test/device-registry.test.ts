@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createDeviceRegistry } from '../src/modules/device-registry';
+import type { BluetoothDevice, BluetoothEvent } from '../src/types/bluetooth-module';
+
+function setup() {
+  const lost: string[] = [];
+  const registry = createDeviceRegistry({
+    emit: (event) => {
+      if (event.type === 'deviceLost' && event.deviceId) lost.push(event.deviceId);
+    },
+  });
+  /** BLE 장치 감지 이벤트 전달 */
+  const discover = (id: string, rssi: number, extra: Partial<BluetoothDevice> = {}): void => {
+    const device: BluetoothDevice = { id, name: id, type: 'ble', rssi, ...extra };
+    registry.handleEvent({ type: 'deviceDiscovered', data: { device }, timestamp: Date.now() });
+  };
+  const send = (type: BluetoothEvent['type'], deviceId: string): void =>
+    registry.handleEvent({ type, deviceId, timestamp: Date.now() });
+  return { registry, lost, discover, send };
+}
+
+describe('createDeviceRegistry', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date', 'setInterval'], now: 10000 }));
+  afterEach(() => mock.timers.reset());
+
+  it('같은 장치의 감지 결과를 합침', () => {
+    const { registry, discover } = setup();
+    discover('AA', -70, { name: 'Sensor' });
+    mock.timers.tick(500);
+    // 이름 대신 주소가 오면 기존 이름 유지
+    discover('AA', -60);
+
+    const [entry] = registry.query();
+    assert.equal(entry.name, 'Sensor');
+    assert.equal(entry.device.name, 'Sensor');
+    assert.equal(entry.firstSeen, 10000);
+    assert.equal(entry.lastSeen, 10500);
+    assert.equal(entry.seenCount, 2);
+    assert.equal(entry.rssi, -60);
+    assert.deepEqual(entry.rssiHistory, [
+      { rssi: -70, timestamp: 10000 },
+      { rssi: -60, timestamp: 10500 },
+    ]);
+  });
+
+  it('이름이 없으면 광고의 로컬 이름 사용', () => {
+    const { registry, discover } = setup();
+    discover('AA', -70, { name: null, ble: { id: 'AA', name: null, rssi: -70, localName: 'Local' } });
+    assert.equal(registry.query()[0].name, 'Local');
+  });
+
+  it('RSSI 기록은 historySize만큼만 유지', () => {
+    const { registry, discover } = setup();
+    registry.configure({ historySize: 2 });
+    [-50, -51, -52].forEach((rssi) => discover('AA', rssi));
+    assert.deepEqual(registry.query()[0].rssiHistory.map((sample) => sample.rssi), [-51, -52]);
+  });
+
+  it('조회 결과는 내부 기록의 복사본', () => {
+    const { registry, discover } = setup();
+    discover('AA', -50);
+    registry.query()[0].rssiHistory.push({ rssi: 0, timestamp: 0 });
+    assert.equal(registry.query()[0].rssiHistory.length, 1);
+  });
+
+  it('staleTimeout 동안 감지되지 않으면 제거하고 deviceLost 전송', () => {
+    const { registry, lost, discover } = setup();
+    registry.configure({ staleTimeout: 5000 });
+    discover('AA', -50);
+    mock.timers.tick(3000);
+    discover('BB', -50);
+
+    mock.timers.tick(3000);
+    assert.deepEqual(lost, ['AA']);
+    assert.deepEqual(registry.query().map((entry) => entry.id), ['BB']);
+
+    mock.timers.tick(3000);
+    assert.deepEqual(lost, ['AA', 'BB']);
+  });
+
+  it('연결 중인 장치는 제거하지 않고 연결 해제 시점부터 다시 계산', () => {
+    const { registry, lost, discover, send } = setup();
+    registry.configure({ staleTimeout: 5000 });
+    discover('AA', -50);
+    send('connected', 'AA');
+
+    mock.timers.tick(10000);
+    assert.deepEqual(lost, []);
+
+    send('disconnected', 'AA');
+    mock.timers.tick(4000);
+    assert.deepEqual(lost, []);
+    mock.timers.tick(2000);
+    assert.deepEqual(lost, ['AA']);
+  });
+
+  it('staleTimeout 0이면 제거하지 않음', () => {
+    const { registry, lost, discover } = setup();
+    registry.configure({ staleTimeout: 0 });
+    discover('AA', -50);
+    mock.timers.tick(100000);
+    assert.deepEqual(lost, []);
+  });
+
+  it('maxDevices를 넘으면 가장 오래전에 감지된 장치부터 제거', () => {
+    const { registry, lost, discover } = setup();
+    registry.configure({ maxDevices: 2 });
+    discover('AA', -50);
+    mock.timers.tick(10);
+    discover('BB', -50);
+    mock.timers.tick(10);
+    discover('AA', -50);
+    mock.timers.tick(10);
+    discover('CC', -50);
+
+    assert.deepEqual(lost, ['BB']);
+    assert.deepEqual(registry.query({ sortBy: 'name' }).map((entry) => entry.id), ['AA', 'CC']);
+  });
+
+  it('조건으로 거르고 정렬', () => {
+    const { registry, discover } = setup();
+    discover('AA', -80, { name: 'Thermo', ble: { id: 'AA', name: 'Thermo', rssi: -80, serviceUUIDs: ['181a'] } });
+    mock.timers.tick(1000);
+    discover('BB', -40, { name: 'Heart' });
+    mock.timers.tick(1000);
+    discover('CC', -60, { name: null, type: 'classic' });
+
+    const ids = (query: Parameters<typeof registry.query>[0]) => registry.query(query).map((entry) => entry.id);
+    assert.deepEqual(ids({}), ['CC', 'BB', 'AA']);
+    assert.deepEqual(ids({ sortBy: 'rssi' }), ['BB', 'CC', 'AA']);
+    assert.deepEqual(ids({ sortBy: 'rssi', order: 'asc', limit: 2 }), ['AA', 'CC']);
+    // 이름이 없는 장치는 정렬 방향과 관계없이 뒤로
+    assert.deepEqual(ids({ sortBy: 'name' }), ['BB', 'AA', 'CC']);
+    assert.deepEqual(ids({ sortBy: 'name', order: 'desc' }), ['AA', 'BB', 'CC']);
+
+    assert.deepEqual(ids({ type: 'classic' }), ['CC']);
+    assert.deepEqual(ids({ nameFilter: 'THER' }), ['AA']);
+    assert.deepEqual(ids({ minRssi: -60 }), ['CC', 'BB']);
+    assert.deepEqual(ids({ seenWithin: 1500 }), ['CC', 'BB']);
+    assert.deepEqual(ids({ serviceUUIDs: ['0000181a-0000-1000-8000-00805f9b34fb'] }), ['AA']);
+  });
+});
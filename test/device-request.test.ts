@@ -0,0 +1,162 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { requestDevice } from '../src/bridge/device-request';
+import type { DeviceRequestDependencies } from '../src/bridge/device-request';
+import type {
+  BleScanOptions,
+  BluetoothDevice,
+  BluetoothEvent,
+  BluetoothResult,
+  DeviceChooser,
+} from '../src/types/bluetooth-module';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+
+const bleDevice = (id: string, name: string, serviceUUIDs: string[] = []): BluetoothDevice => ({
+  id,
+  name,
+  type: 'ble',
+  ble: { id, name, rssi: -50, serviceUUIDs },
+});
+
+/**
+ * 이벤트를 직접 발생시킬 수 있는 가짜 스캐너
+ */
+function createScanner(startResult: BluetoothResult = { success: true }) {
+  const listeners = new Set<(event: BluetoothEvent) => void>();
+  const scans: BleScanOptions[] = [];
+  let stops = 0;
+
+  const deps = (chooser?: DeviceChooser): DeviceRequestDependencies => ({
+    startScan: async (options) => {
+      scans.push(options);
+      return startResult;
+    },
+    stopScan: async () => {
+      stops++;
+      return { success: true };
+    },
+    addListener: (listener) => {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+    chooser,
+  });
+
+  const emit = (event: Omit<BluetoothEvent, 'timestamp'>): void =>
+    listeners.forEach((listener) => listener({ ...event, timestamp: Date.now() }));
+  const discover = (device: BluetoothDevice): void => emit({ type: 'deviceDiscovered', data: { device } });
+
+  return { deps, emit, discover, scans, listeners, stops: () => stops };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('requestDevice', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('chooser 없이 처음 일치하는 장치를 선택하고 스캔 중지', async () => {
+    const scanner = createScanner();
+    const result = requestDevice(scanner.deps(), 'origin', { filters: [{ namePrefix: 'Band' }] });
+    await flush();
+
+    scanner.discover(bleDevice('speaker', 'Speaker'));
+    scanner.discover(bleDevice('band', 'Band'));
+    assert.deepEqual((await result).device?.id, 'band');
+    assert.equal(scanner.stops(), 1);
+    assert.equal(scanner.listeners.size, 0);
+  });
+
+  it('모든 필터가 서비스를 지정하면 네이티브 스캔 필터로 사용', async () => {
+    const scanner = createScanner();
+    const result = requestDevice(scanner.deps(), 'origin', {
+      filters: [{ services: [HEART_RATE] }],
+      timeout: 5000,
+    });
+    await flush();
+    scanner.discover(bleDevice('band', 'Band', [HEART_RATE]));
+    await result;
+
+    assert.deepEqual(scanner.scans, [{ timeout: 5000, allowDuplicates: false, serviceUUIDs: [HEART_RATE] }]);
+  });
+
+  it('chooser는 후보 목록 변경을 구독하고 선택한 장치를 반환', async () => {
+    const scanner = createScanner();
+    const offered: string[][] = [];
+    const chooser: DeviceChooser = (request) =>
+      new Promise((resolve) => {
+        assert.equal(request.origin, 'https://a.example');
+        request.onDevicesChanged((devices) => {
+          offered.push(devices.map((device) => device.id));
+          if (devices.length === 2) resolve(devices[1].id);
+        });
+      });
+
+    const result = requestDevice(scanner.deps(chooser), 'https://a.example', { acceptAllDevices: true });
+    await flush();
+    scanner.discover(bleDevice('a', 'A'));
+    scanner.discover({ id: 'AA:BB', name: 'Classic', type: 'classic' });
+    scanner.discover(bleDevice('b', 'B'));
+
+    assert.equal((await result).device?.id, 'b');
+    assert.deepEqual(offered, [['a'], ['a', 'b']]);
+  });
+
+  it('chooser가 취소하면 DEVICE_NOT_FOUND', async () => {
+    const scanner = createScanner();
+    const result = await requestDevice(scanner.deps(() => null), 'origin', { acceptAllDevices: true });
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'DEVICE_NOT_FOUND');
+    assert.equal(result.message, 'User cancelled the device chooser');
+  });
+
+  it('후보로 제시되지 않은 장치를 고르면 DEVICE_NOT_FOUND', async () => {
+    const scanner = createScanner();
+    const result = await requestDevice(scanner.deps(() => 'unknown'), 'origin', { acceptAllDevices: true });
+    assert.equal(result.error, 'DEVICE_NOT_FOUND');
+    assert.equal(result.message, 'Device unknown was not offered to the chooser');
+  });
+
+  it('스캔 시간이 지나면 onScanComplete 알림 후 선택을 기다림', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const scanner = createScanner();
+    let completed = false;
+    const chooser: DeviceChooser = (request) =>
+      new Promise((resolve) => {
+        request.onScanComplete(() => {
+          completed = true;
+          resolve(request.devices[0]?.id ?? null);
+        });
+      });
+
+    const result = requestDevice(scanner.deps(chooser), 'origin', { acceptAllDevices: true, timeout: 1000 });
+    await flush();
+    scanner.discover(bleDevice('a', 'A'));
+    mock.timers.tick(1000);
+
+    assert.equal(completed, true);
+    assert.equal((await result).device?.id, 'a');
+    // 스캔 시간 경과 이후 발견은 후보에 추가하지 않음
+    assert.equal(scanner.stops(), 1);
+  });
+
+  it('chooser 없이 일치하는 장치가 없으면 scanStopped에서 종료', async () => {
+    const scanner = createScanner();
+    const result = requestDevice(scanner.deps(), 'origin', { filters: [{ name: 'Band' }] });
+    await flush();
+    scanner.discover(bleDevice('speaker', 'Speaker'));
+    scanner.emit({ type: 'scanStopped' });
+
+    const resolved = await result;
+    assert.equal(resolved.error, 'DEVICE_NOT_FOUND');
+    assert.equal(resolved.message, 'No matching device found');
+  });
+
+  it('스캔 시작 실패는 그대로 반환', async () => {
+    const scanner = createScanner({ success: false, error: 'PERMISSION_DENIED' });
+    const result = await requestDevice(scanner.deps(() => 'a'), 'origin', { acceptAllDevices: true });
+    assert.deepEqual(result, { success: false, error: 'PERMISSION_DENIED' });
+    assert.equal(scanner.listeners.size, 0);
+  });
+});
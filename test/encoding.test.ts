@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes, utf8Decode, utf8Encode } from '../src/modules/encoding';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+describe('base64', () => {
+  it('인코딩/디코딩 왕복', () => {
+    for (const length of [0, 1, 2, 3, 4, 5, 31]) {
+      const value = Uint8Array.from({ length }, (_, i) => (i * 37 + 11) & 0xff);
+      assert.deepEqual(base64ToBytes(bytesToBase64(value)), value);
+    }
+  });
+
+  it('패딩과 공백 무시', () => {
+    assert.deepEqual(base64ToBytes('AhU='), bytes(0x02, 0x15));
+    assert.deepEqual(base64ToBytes('Ah U'), bytes(0x02, 0x15));
+  });
+
+  it('잘못된 문자나 길이는 null', () => {
+    assert.equal(base64ToBytes('A'), null);
+    assert.equal(base64ToBytes('Ah*='), null);
+  });
+});
+
+describe('hex', () => {
+  it('변환 왕복', () => {
+    assert.equal(bytesToHex(bytes(0x00, 0x0f, 0xab)), '000fab');
+    assert.deepEqual(hexToBytes('000FAB'), bytes(0x00, 0x0f, 0xab));
+  });
+
+  it('길이가 홀수이거나 잘못된 문자는 null', () => {
+    assert.equal(hexToBytes('abc'), null);
+    assert.equal(hexToBytes('zz'), null);
+  });
+});
+
+describe('utf8Decode', () => {
+  const cases: Array<[string, number[], string]> = [
+    ['ASCII', [0x48, 0x52], 'HR'],
+    ['2바이트', [0xc3, 0xa9], 'é'],
+    ['3바이트', [0xed, 0x95, 0x9c], '한'],
+    ['4바이트', [0xf0, 0x9f, 0x92, 0x93], '💓'],
+    ['U+10FFFF', [0xf4, 0x8f, 0xbf, 0xbf], '\u{10ffff}'],
+    ['U+10FFFF 초과', [0xf4, 0x90, 0x80, 0x80], '����'],
+    ['overlong 2바이트', [0xc0, 0xaf], '��'],
+    ['overlong 3바이트', [0xe0, 0x80, 0xaf], '���'],
+    ['overlong 4바이트', [0xf0, 0x80, 0x80, 0xaf], '����'],
+    ['서로게이트', [0xed, 0xa0, 0x80], '���'],
+    ['연속 바이트가 아님', [0xe2, 0x41, 0x42], '�AB'],
+    ['4바이트 중간이 연속 바이트가 아님', [0xf0, 0x9f, 0x41, 0x93], '��A�'],
+    ['잘린 시퀀스', [0x41, 0xf0, 0x9f], 'A��'],
+    ['단독 연속 바이트', [0x80], '�'],
+    ['선행 바이트로 쓸 수 없는 값', [0xf5, 0xff], '��'],
+  ];
+
+  for (const [name, input, expected] of cases) {
+    it(name, () => {
+      assert.equal(utf8Decode(Uint8Array.from(input)), expected);
+    });
+  }
+
+  it('모든 4바이트 조합에서 예외 없음', () => {
+    for (let b0 = 0xf0; b0 <= 0xff; b0++) {
+      for (let b1 = 0x00; b1 <= 0xff; b1 += 0x0f) {
+        assert.doesNotThrow(() => utf8Decode(bytes(b0, b1, 0x80, 0x80)));
+      }
+    }
+  });
+
+  it('utf8Encode 결과와 왕복', () => {
+    const value = 'Sensor 센서 💓 é';
+    assert.equal(utf8Decode(utf8Encode(value)), value);
+  });
+});
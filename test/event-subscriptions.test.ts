@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createEventSubscriptionStore, matchesEventFilter } from '../src/bridge/event-subscriptions';
+import type { BluetoothEvent } from '../src/types/bluetooth-module';
+
+const event = (overrides: Partial<BluetoothEvent>): BluetoothEvent => ({
+  type: 'connected',
+  timestamp: 0,
+  ...overrides,
+});
+
+const notification = (deviceId: string, characteristicUuid: string): BluetoothEvent =>
+  event({
+    type: 'notification',
+    deviceId,
+    data: {
+      notification: { deviceId, serviceUuid: '180d', characteristicUuid, value: 'AA==', timestamp: 0 },
+    },
+  });
+
+describe('matchesEventFilter', () => {
+  it('빈 필터는 모든 이벤트와 일치', () => {
+    assert.equal(matchesEventFilter({}, event({ type: 'stateChange' })), true);
+  });
+
+  it('types는 이벤트 타입으로 거름', () => {
+    const filter = { types: ['notification' as const] };
+    assert.equal(matchesEventFilter(filter, notification('band', '2a37')), true);
+    assert.equal(matchesEventFilter(filter, event({ type: 'connected', deviceId: 'band' })), false);
+  });
+
+  it('deviceIds는 deviceId 또는 발견된 장치 ID로 거르고, 장치 ID가 없는 이벤트는 제외', () => {
+    const filter = { deviceIds: ['band'] };
+    assert.equal(matchesEventFilter(filter, event({ deviceId: 'band' })), true);
+    const discovered = event({ type: 'deviceDiscovered', data: { device: { id: 'band', name: null, type: 'ble' } } });
+    assert.equal(matchesEventFilter(filter, discovered), true);
+    assert.equal(matchesEventFilter(filter, event({ deviceId: 'scale' })), false);
+    assert.equal(matchesEventFilter(filter, event({ type: 'stateChange' })), false);
+  });
+
+  it('characteristicUuids는 16-bit와 128-bit UUID를 같게 취급', () => {
+    const filter = { characteristicUuids: ['00002a37-0000-1000-8000-00805f9b34fb'] };
+    assert.equal(matchesEventFilter(filter, notification('band', '2A37')), true);
+    assert.equal(matchesEventFilter(filter, notification('band', '2a38')), false);
+    assert.equal(matchesEventFilter(filter, event({ deviceId: 'band' })), false);
+  });
+
+  it('모든 조건을 만족해야 일치', () => {
+    const filter = { types: ['notification' as const], deviceIds: ['band'], characteristicUuids: ['2a37'] };
+    assert.equal(matchesEventFilter(filter, notification('band', '2a37')), true);
+    assert.equal(matchesEventFilter(filter, notification('scale', '2a37')), false);
+  });
+});
+
+describe('createEventSubscriptionStore', () => {
+  it('구독이 없으면 null (모든 이벤트 전달)', () => {
+    const store = createEventSubscriptionStore();
+    assert.equal(store.match(event({})), null);
+  });
+
+  it('일치하는 구독 ID 목록 반환', () => {
+    const store = createEventSubscriptionStore();
+    const band = store.add({ deviceIds: ['band'] });
+    const notifications = store.add({ types: ['notification'] });
+
+    assert.deepEqual(store.match(notification('band', '2a37')), [band, notifications]);
+    assert.deepEqual(store.match(event({ deviceId: 'band' })), [band]);
+    assert.deepEqual(store.match(event({ deviceId: 'scale' })), []);
+  });
+
+  it('remove는 지정한 구독 또는 모든 구독을 해제', () => {
+    const store = createEventSubscriptionStore();
+    const first = store.add({ types: ['connected'] });
+    store.add({ types: ['disconnected'] });
+
+    assert.equal(store.remove(first), true);
+    assert.equal(store.remove(first), false);
+    assert.equal(store.remove(), true);
+    assert.equal(store.remove(), false);
+    assert.equal(store.match(event({})), null);
+  });
+});
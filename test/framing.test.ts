@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createFrameDecoder } from '../src/modules/framing';
+import type { FrameDecoder } from '../src/modules/framing';
+import { utf8Decode, utf8Encode } from '../src/modules/encoding';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+/** 데이터를 chunkSize씩 나눠 넣고 결과를 합침 */
+function pushInChunks(decoder: FrameDecoder, data: Uint8Array, chunkSize: number) {
+  const frames: number[][] = [];
+  const errors: string[] = [];
+  for (let i = 0; i < data.length; i += chunkSize) {
+    const result = decoder.push(data.subarray(i, i + chunkSize));
+    result.frames.forEach((frame) => frames.push(Array.from(frame)));
+    result.errors.forEach((error) => errors.push(error.code));
+  }
+  return { frames, errors };
+}
+
+describe('delimiter', () => {
+  it('조각나서 도착한 구분자도 인식', () => {
+    const decoder = createFrameDecoder({ type: 'delimiter', delimiter: '\r\n' });
+    for (const chunkSize of [1, 2, 3, 100]) {
+      decoder.reset();
+      const { frames } = pushInChunks(decoder, utf8Encode('OK\r\n+CSQ: 20\r\n\r\npartial'), chunkSize);
+      assert.deepEqual(
+        frames.map((frame) => utf8Decode(Uint8Array.from(frame))),
+        ['OK', '+CSQ: 20', ''],
+        `chunkSize ${chunkSize}`
+      );
+    }
+  });
+
+  it('기본 구분자는 \\n', () => {
+    const decoder = createFrameDecoder({ type: 'delimiter' });
+    assert.deepEqual(decoder.push(utf8Encode('a\nb\n')).frames.map((frame) => utf8Decode(frame)), ['a', 'b']);
+  });
+
+  it('최대 크기를 넘은 프레임은 구분자까지 버리고 다음 프레임부터 다시 조립', () => {
+    const decoder = createFrameDecoder({ type: 'delimiter', delimiter: '\r\n', maxFrameSize: 4 });
+    const result = pushInChunks(decoder, utf8Encode('12345678\r\nabcd\r\n'), 1);
+    assert.deepEqual(result.errors, ['FRAME_TOO_LARGE']);
+    assert.deepEqual(result.frames.map((frame) => utf8Decode(Uint8Array.from(frame))), ['abcd']);
+  });
+
+  it('reset은 조립 중인 데이터를 버림', () => {
+    const decoder = createFrameDecoder({ type: 'delimiter' });
+    decoder.push(utf8Encode('stale'));
+    decoder.reset();
+    assert.deepEqual(decoder.push(utf8Encode('new\n')).frames.map((frame) => utf8Decode(frame)), ['new']);
+  });
+});
+
+describe('lengthPrefix', () => {
+  it('빅 엔디언 2바이트 길이 (기본)', () => {
+    const decoder = createFrameDecoder({ type: 'lengthPrefix' });
+    const { frames } = pushInChunks(decoder, bytes(0x00, 0x02, 0xaa, 0xbb, 0x00, 0x00, 0x00, 0x01, 0xcc), 1);
+    assert.deepEqual(frames, [[0xaa, 0xbb], [], [0xcc]]);
+  });
+
+  it('리틀 엔디언, 길이에 헤더 포함', () => {
+    const decoder = createFrameDecoder({
+      type: 'lengthPrefix',
+      lengthBytes: 4,
+      byteOrder: 'little',
+      lengthIncludesHeader: true,
+    });
+    assert.deepEqual(
+      Array.from(decoder.push(bytes(0x05, 0x00, 0x00, 0x00, 0x7f)).frames, (frame) => Array.from(frame)),
+      [[0x7f]]
+    );
+  });
+
+  it('헤더보다 작은 길이는 INVALID_FRAME', () => {
+    const decoder = createFrameDecoder({ type: 'lengthPrefix', lengthBytes: 1, lengthIncludesHeader: true });
+    const result = decoder.push(bytes(0x00, 0x02, 0x01));
+    assert.deepEqual(result.errors.map((error) => error.code), ['INVALID_FRAME']);
+    assert.deepEqual(Array.from(result.frames, (frame) => Array.from(frame)), [[0x01]]);
+  });
+
+  it('최대 크기를 넘은 프레임은 본문까지 건너뜀', () => {
+    const decoder = createFrameDecoder({ type: 'lengthPrefix', lengthBytes: 1, maxFrameSize: 2 });
+    const result = pushInChunks(decoder, bytes(0x03, 0x01, 0x02, 0x03, 0x01, 0x09), 2);
+    assert.deepEqual(result.errors, ['FRAME_TOO_LARGE']);
+    assert.deepEqual(result.frames, [[0x09]]);
+  });
+});
+
+describe('slip', () => {
+  it('이스케이프 해제, 빈 프레임 무시', () => {
+    const decoder = createFrameDecoder({ type: 'slip' });
+    const { frames } = pushInChunks(decoder, bytes(0xc0, 0x01, 0xdb, 0xdc, 0xdb, 0xdd, 0x02, 0xc0, 0xc0), 1);
+    assert.deepEqual(frames, [[0x01, 0xc0, 0xdb, 0x02]]);
+  });
+
+  it('잘못된 이스케이프는 INVALID_FRAME', () => {
+    const decoder = createFrameDecoder({ type: 'slip' });
+    const result = decoder.push(bytes(0x01, 0xdb, 0x00, 0xc0, 0x02, 0xc0));
+    assert.deepEqual(result.errors.map((error) => error.code), ['INVALID_FRAME']);
+    assert.deepEqual(Array.from(result.frames, (frame) => Array.from(frame)), [[0x02]]);
+  });
+
+  it('최대 크기 초과', () => {
+    const decoder = createFrameDecoder({ type: 'slip', maxFrameSize: 2 });
+    const result = decoder.push(bytes(0x01, 0x02, 0x03, 0xc0, 0x04, 0xc0));
+    assert.deepEqual(result.errors.map((error) => error.code), ['FRAME_TOO_LARGE']);
+    assert.deepEqual(Array.from(result.frames, (frame) => Array.from(frame)), [[0x04]]);
+  });
+});
+
+describe('cobs', () => {
+  it('0x00 복원', () => {
+    const decoder = createFrameDecoder({ type: 'cobs' });
+    // [0x11, 0x00, 0x00, 0x22] → 02 11 01 02 22 00
+    const { frames } = pushInChunks(decoder, bytes(0x02, 0x11, 0x01, 0x02, 0x22, 0x00, 0x00), 1);
+    assert.deepEqual(frames, [[0x11, 0x00, 0x00, 0x22]]);
+  });
+
+  it('254바이트 블록 (코드 0xff) 뒤에는 0x00을 넣지 않음', () => {
+    const payload = Array.from({ length: 254 }, (_, i) => i + 1);
+    const decoder = createFrameDecoder({ type: 'cobs' });
+    const result = decoder.push(bytes(0xff, ...payload, 0x01, 0x00));
+    assert.deepEqual(Array.from(result.frames, (frame) => Array.from(frame)), [payload]);
+  });
+
+  it('코드가 남은 데이터보다 길면 INVALID_FRAME', () => {
+    const decoder = createFrameDecoder({ type: 'cobs' });
+    const result = decoder.push(bytes(0x05, 0x01, 0x00));
+    assert.deepEqual(result.errors.map((error) => error.code), ['INVALID_FRAME']);
+  });
+
+  it('최대 크기 초과', () => {
+    const decoder = createFrameDecoder({ type: 'cobs', maxFrameSize: 2 });
+    const result = decoder.push(bytes(0x04, 0x01, 0x02, 0x03, 0x00));
+    assert.deepEqual(result.errors.map((error) => error.code), ['FRAME_TOO_LARGE']);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { enqueueGattOperation, failGattOperations, getGattQueueDepth } from '../src/modules/gatt-queue';
+import type { BluetoothResult } from '../src/types/bluetooth-module';
+
+/** 외부에서 완료시킬 수 있는 작업 */
+function deferred() {
+  let resolve: (result: BluetoothResult) => void = () => undefined;
+  let reject: (error: unknown) => void = () => undefined;
+  const promise = new Promise<BluetoothResult>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const toFailure = (failure: BluetoothResult): BluetoothResult => failure;
+const succeed = async (): Promise<BluetoothResult> => ({ success: true });
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('enqueueGattOperation', () => {
+  it('같은 장치의 작업은 앞선 작업이 끝난 뒤 순서대로 실행', async () => {
+    const started: string[] = [];
+    const first = deferred();
+    const second = deferred();
+
+    const a = enqueueGattOperation('serial', 'read', 0, () => (started.push('a'), first.promise), toFailure);
+    const b = enqueueGattOperation('serial', 'write', 0, () => (started.push('b'), second.promise), toFailure);
+    await tick();
+    assert.deepEqual(started, ['a']);
+    assert.equal(getGattQueueDepth('serial'), 2);
+
+    first.resolve({ success: true, message: 'a' });
+    assert.equal((await a).message, 'a');
+    await tick();
+    assert.deepEqual(started, ['a', 'b']);
+
+    second.resolve({ success: true, message: 'b' });
+    assert.equal((await b).message, 'b');
+    assert.equal(getGattQueueDepth('serial'), 0);
+  });
+
+  it('다른 장치의 작업은 동시에 실행', async () => {
+    const started: string[] = [];
+    const x = deferred();
+    const y = deferred();
+    const a = enqueueGattOperation('parallel-1', 'read', 0, () => (started.push('x'), x.promise), toFailure);
+    const b = enqueueGattOperation('parallel-2', 'read', 0, () => (started.push('y'), y.promise), toFailure);
+    await tick();
+    assert.deepEqual(started, ['x', 'y']);
+
+    x.resolve({ success: true });
+    y.resolve({ success: true });
+    await Promise.all([a, b]);
+  });
+
+  it('타임아웃이 지나면 OPERATION_TIMEOUT으로 실패하고 다음 작업을 실행', async () => {
+    const hanging = deferred();
+    const timedOut = enqueueGattOperation('timeout', 'discover', 10, () => hanging.promise, (failure) => ({
+      ...failure,
+      message: `wrapped: ${failure.message}`,
+    }));
+    const next = enqueueGattOperation('timeout', 'read', 0, succeed, toFailure);
+
+    const result = await timedOut;
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'OPERATION_TIMEOUT');
+    assert.match(result.message ?? '', /^wrapped: GATT discover timed out after 10ms/);
+    assert.equal((await next).success, true);
+
+    // 타임아웃 후 늦게 도착한 결과는 무시
+    hanging.resolve({ success: true });
+    await tick();
+    assert.equal(getGattQueueDepth('timeout'), 0);
+  });
+
+  it('작업이 예외를 던지면 호출자에게 전달하고 다음 작업을 실행', async () => {
+    const failing = enqueueGattOperation('throws', 'write', 0, async () => {
+      throw new Error('native crash');
+    }, toFailure);
+    const next = enqueueGattOperation('throws', 'read', 0, succeed, toFailure);
+
+    await assert.rejects(failing, /native crash/);
+    assert.equal((await next).success, true);
+  });
+});
+
+describe('failGattOperations', () => {
+  it('실행 중/대기 중 작업을 모두 실패 처리', async () => {
+    const active = deferred();
+    let secondStarted = false;
+    const a = enqueueGattOperation('disconnect', 'read', 0, () => active.promise, toFailure);
+    const b = enqueueGattOperation('disconnect', 'write', 0, () => {
+      secondStarted = true;
+      return succeed();
+    }, toFailure);
+    await tick();
+
+    const failure: BluetoothResult = { success: false, error: 'DEVICE_NOT_CONNECTED' };
+    failGattOperations('disconnect', failure);
+
+    assert.deepEqual(await a, failure);
+    assert.deepEqual(await b, failure);
+    assert.equal(secondStarted, false);
+    assert.equal(getGattQueueDepth('disconnect'), 0);
+  });
+
+  it('실패 처리 후 새 작업은 정상 실행', async () => {
+    const active = deferred();
+    enqueueGattOperation('reconnect', 'read', 0, () => active.promise, toFailure);
+    failGattOperations('reconnect', { success: false, error: 'DEVICE_NOT_CONNECTED' });
+
+    const result = await enqueueGattOperation('reconnect', 'read', 0, succeed, toFailure);
+    assert.equal(result.success, true);
+  });
+});
+
+describe('getGattQueueDepth', () => {
+  it('장치를 생략하면 모든 장치의 합계', async () => {
+    const pending = [deferred(), deferred(), deferred()];
+    const results = [
+      enqueueGattOperation('depth-1', 'read', 0, () => pending[0].promise, toFailure),
+      enqueueGattOperation('depth-1', 'read', 0, () => pending[1].promise, toFailure),
+      enqueueGattOperation('depth-2', 'read', 0, () => pending[2].promise, toFailure),
+    ];
+    assert.equal(getGattQueueDepth('depth-1'), 2);
+    assert.equal(getGattQueueDepth('depth-2'), 1);
+    assert.equal(getGattQueueDepth(), 3);
+
+    pending.forEach((operation) => operation.resolve({ success: true }));
+    await Promise.all(results);
+    assert.equal(getGattQueueDepth(), 0);
+  });
+});
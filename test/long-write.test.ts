@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createLongWriter } from '../src/modules/long-write';
+import { base64ToBytes, bytesToBase64 } from '../src/modules/encoding';
+import type { BluetoothEvent, BluetoothResult, WriteOptions } from '../src/types/bluetooth-module';
+
+const SERVICE = '180d';
+const CHARACTERISTIC = '2a39';
+
+/** 쓰기를 기록하는 가짜 의존성 (results 순서대로 응답, 없으면 성공) */
+function setup(mtu: number, results: BluetoothResult[] = []) {
+  const chunks: number[][] = [];
+  const writeOptions: WriteOptions[] = [];
+  const events: BluetoothEvent[] = [];
+  const writer = createLongWriter({
+    write: async (_deviceId, _service, _characteristic, value, options) => {
+      chunks.push(Array.from(base64ToBytes(value) ?? []));
+      writeOptions.push(options);
+      return results.shift() ?? { success: true };
+    },
+    getMtu: () => mtu,
+    emit: (event) => events.push(event),
+  });
+  return { writer, chunks, writeOptions, events };
+}
+
+const payload = (length: number) => bytesToBase64(Uint8Array.from({ length }, (_, i) => i));
+
+describe('createLongWriter', () => {
+  it('MTU - 3 크기의 청크로 순서대로 쓰기', async () => {
+    const { writer, chunks, writeOptions, events } = setup(23);
+    const result = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(45));
+
+    assert.equal(result.success, true);
+    assert.equal(result.bytesWritten, 45);
+    assert.deepEqual(chunks.map((chunk) => chunk.length), [20, 20, 5]);
+    assert.deepEqual(chunks.flat(), Array.from({ length: 45 }, (_, i) => i));
+    assert.ok(writeOptions.every((options) => options.withResponse === true));
+
+    // 마지막 진행 이벤트는 항상 전달
+    const last = events[events.length - 1];
+    assert.equal(last.type, 'writeProgress');
+    assert.equal(last.data?.progress?.bytesWritten, 45);
+    assert.equal(last.data?.progress?.characteristicUuid, '00002a39-0000-1000-8000-00805f9b34fb');
+  });
+
+  it('chunkSize는 최대 청크 크기를 넘지 않음', async () => {
+    const { writer, chunks } = setup(23);
+    await writer.write('dev', SERVICE, CHARACTERISTIC, payload(30), { chunkSize: 100 });
+    assert.deepEqual(chunks.map((chunk) => chunk.length), [20, 10]);
+
+    const small = setup(23);
+    await small.writer.write('dev', SERVICE, CHARACTERISTIC, payload(30), { chunkSize: 8 });
+    assert.deepEqual(small.chunks.map((chunk) => chunk.length), [8, 8, 8, 6]);
+  });
+
+  it('prepared 모드는 MTU와 관계없이 512바이트 청크', async () => {
+    const { writer, chunks } = setup(23);
+    await writer.write('dev', SERVICE, CHARACTERISTIC, payload(600), { mode: 'prepared' });
+    assert.deepEqual(chunks.map((chunk) => chunk.length), [512, 88]);
+  });
+
+  it('withoutResponse 모드는 응답 없이 쓰기', async () => {
+    const { writer, writeOptions } = setup(23);
+    await writer.write('dev', SERVICE, CHARACTERISTIC, payload(30), { mode: 'withoutResponse', interval: 0 });
+    assert.ok(writeOptions.every((options) => options.withResponse === false));
+  });
+
+  it('offset부터 이어쓰기', async () => {
+    const { writer, chunks } = setup(23);
+    const result = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(30), { offset: 25 });
+    assert.equal(result.success, true);
+    assert.deepEqual(chunks, [[25, 26, 27, 28, 29]]);
+  });
+
+  it('실패한 청크는 재시도', async () => {
+    const { writer, chunks } = setup(23, [{ success: true }, { success: false, error: 'WRITE_FAILED' }]);
+    const result = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(30));
+    assert.equal(result.success, true);
+    assert.equal(chunks.length, 3);
+  });
+
+  it('재시도가 모두 실패하면 실패한 청크의 시작 위치를 돌려줌', async () => {
+    const failure: BluetoothResult = { success: false, error: 'WRITE_FAILED' };
+    const { writer, chunks } = setup(23, [{ success: true }, failure, failure, failure]);
+    const result = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(45));
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'WRITE_FAILED');
+    assert.equal(result.bytesWritten, 20);
+    assert.equal(result.totalBytes, 45);
+    assert.equal(chunks.length, 4);
+  });
+
+  it('연결이 끊기면 재시도하지 않음', async () => {
+    const { writer, chunks } = setup(23, [{ success: false, error: 'DEVICE_NOT_CONNECTED' }]);
+    const result = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(45));
+    assert.equal(result.error, 'DEVICE_NOT_CONNECTED');
+    assert.equal(result.bytesWritten, 0);
+    assert.equal(chunks.length, 1);
+  });
+
+  it('잘못된 입력', async () => {
+    const { writer, chunks } = setup(23);
+    const invalid = await writer.write('dev', SERVICE, CHARACTERISTIC, '@@@');
+    assert.equal(invalid.error, 'INVALID_INPUT');
+    assert.equal(invalid.field, 'value');
+
+    const outOfRange = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(4), { offset: 5 });
+    assert.equal(outOfRange.error, 'INVALID_INPUT');
+    assert.equal(outOfRange.field, 'options.offset');
+    assert.equal(chunks.length, 0);
+  });
+
+  it('쓰기마다 다른 writeId', async () => {
+    const { writer } = setup(23);
+    const first = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(1));
+    const second = await writer.write('dev', SERVICE, CHARACTERISTIC, payload(1));
+    assert.notEqual(first.writeId, second.writeId);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createNotificationBatcher } from '../src/bridge/notification-batcher';
+import type { BluetoothEvent, NotificationBatch } from '../src/types/bluetooth-module';
+
+const SERVICE = '180d';
+const CHARACTERISTIC = '2a37';
+
+function setup() {
+  const batches: NotificationBatch[] = [];
+  const batcher = createNotificationBatcher({
+    send: (event) => {
+      if (event.data?.batch) batches.push(event.data.batch);
+    },
+  });
+  let sequence = 0;
+  /** 알림 이벤트 추가 (값은 순번) */
+  const notify = (deviceId = 'dev', characteristicUuid = CHARACTERISTIC): boolean => {
+    const value = String(sequence++);
+    const event: BluetoothEvent = {
+      type: 'notification',
+      deviceId,
+      data: { notification: { deviceId, serviceUuid: SERVICE, characteristicUuid, value, timestamp: 0 } },
+      timestamp: 0,
+    };
+    return batcher.push(event);
+  };
+  const values = (batch: NotificationBatch) => batch.samples.map((sample) => sample.value);
+  return { batcher, batches, notify, values };
+}
+
+describe('createNotificationBatcher', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('설정되지 않은 특성과 Classic 알림은 묶지 않음', () => {
+    const { batcher, notify } = setup();
+    assert.equal(notify(), false);
+
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, {});
+    assert.equal(notify('other'), false);
+    assert.equal(
+      batcher.push({ type: 'notification', deviceId: 'dev', data: { notification: undefined }, timestamp: 0 }),
+      false
+    );
+  });
+
+  it('간격마다 모인 샘플을 한 묶음으로 전달', () => {
+    const { batcher, batches, notify, values } = setup();
+    // UUID 형식이 달라도 같은 특성
+    batcher.configure('dev', '0000180d-0000-1000-8000-00805f9b34fb', CHARACTERISTIC.toUpperCase(), { interval: 50 });
+
+    assert.equal(notify(), true);
+    notify();
+    mock.timers.tick(49);
+    assert.equal(batches.length, 0);
+
+    mock.timers.tick(1);
+    assert.equal(batches.length, 1);
+    assert.deepEqual(values(batches[0]), ['0', '1']);
+    assert.equal(batches[0].totalReceived, 2);
+    assert.equal(batches[0].characteristicUuid, '00002a37-0000-1000-8000-00805f9b34fb');
+  });
+
+  it('maxSamples에 도달하면 바로 전달', () => {
+    const { batcher, batches, notify, values } = setup();
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, { interval: 1000, maxSamples: 3 });
+
+    notify();
+    notify();
+    notify();
+    assert.equal(batches.length, 1);
+    assert.deepEqual(values(batches[0]), ['0', '1', '2']);
+
+    // 바로 전달했으므로 이전 타이머는 남지 않음
+    mock.timers.tick(1000);
+    assert.equal(batches.length, 1);
+  });
+
+  it('확인되지 않은 묶음이 한도에 도달하면 보류하고 ack 후 전달', () => {
+    const { batcher, batches, notify, values } = setup();
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, { interval: 10, maxUnacked: 1, bufferSize: 2 });
+
+    notify();
+    mock.timers.tick(10);
+    assert.equal(batches.length, 1);
+
+    // 보류 중: 버퍼가 차면 새 샘플을 버림
+    notify();
+    notify();
+    notify();
+    mock.timers.tick(10);
+    assert.equal(batches.length, 1);
+
+    assert.equal(batcher.ack(batches[0].batchId), true);
+    assert.equal(batches.length, 2);
+    assert.deepEqual(values(batches[1]), ['1', '2']);
+    assert.equal(batches[1].dropped, 1);
+    assert.equal(batches[1].totalDropped, 1);
+    assert.equal(batches[1].totalReceived, 4);
+
+    assert.equal(batcher.ack(batches[0].batchId), false);
+  });
+
+  it("overflow 'latest'는 보류 중 마지막 샘플만 유지", () => {
+    const { batcher, batches, notify, values } = setup();
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, { interval: 10, maxUnacked: 1, overflow: 'latest' });
+
+    notify();
+    mock.timers.tick(10);
+    notify();
+    notify();
+    notify();
+
+    batcher.ack(batches[0].batchId);
+    assert.deepEqual(values(batches[1]), ['3']);
+    assert.equal(batches[1].dropped, 2);
+  });
+
+  it('remove와 flushDevice는 남은 샘플을 보류 여부와 관계없이 전달', () => {
+    const { batcher, batches, notify, values } = setup();
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, { interval: 10, maxUnacked: 1 });
+
+    notify();
+    mock.timers.tick(10);
+    notify();
+    batcher.flushDevice('dev');
+    assert.deepEqual(values(batches[1]), ['1']);
+
+    // flushDevice 후 확인 대기가 초기화되어 바로 전달 가능
+    notify();
+    mock.timers.tick(10);
+    assert.deepEqual(values(batches[2]), ['2']);
+
+    notify();
+    assert.equal(batcher.remove('dev', SERVICE, CHARACTERISTIC), true);
+    assert.deepEqual(values(batches[3]), ['3']);
+    assert.equal(notify(), false);
+    assert.equal(batcher.remove('dev', SERVICE, CHARACTERISTIC), false);
+  });
+
+  it('clear는 남은 샘플을 전달하지 않고 타이머를 정리', () => {
+    const { batcher, batches, notify } = setup();
+    batcher.configure('dev', SERVICE, CHARACTERISTIC, { interval: 10 });
+
+    notify();
+    batcher.clear();
+    mock.timers.tick(10);
+    assert.equal(batches.length, 0);
+    assert.equal(notify(), false);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createRegionMonitor } from '../src/modules/region-monitor';
+import type { BeaconRegion, BluetoothEvent, BluetoothResult, IBeaconFrame } from '../src/types/bluetooth-module';
+
+const UUID = 'f7826da6-4fa2-4e98-8024-bc5b71e0893e';
+const LOBBY: BeaconRegion = { identifier: 'lobby', type: 'ibeacon', uuid: UUID, major: 1 };
+
+/** 스캔 호출과 영역 이벤트를 기록하는 가짜 의존성 */
+function setup(scanResult: BluetoothResult = { success: true }) {
+  const calls: string[] = [];
+  const events: BluetoothEvent[] = [];
+  let listener: ((event: BluetoothEvent) => void) | null = null;
+  const monitor = createRegionMonitor({
+    startScan: async () => {
+      calls.push('startScan');
+      return scanResult;
+    },
+    stopScan: async () => {
+      calls.push('stopScan');
+      return { success: true };
+    },
+    addListener: (callback) => {
+      listener = callback;
+      return {
+        remove: () => {
+          listener = null;
+        },
+      };
+    },
+    emit: (event) => events.push(event),
+  });
+  /** 비콘 광고 감지 이벤트 전달 */
+  const sight = (major: number, rssi = -60): void => {
+    const beacon: IBeaconFrame = { type: 'ibeacon', uuid: UUID, major, minor: 7, txPower: -59 };
+    listener?.({
+      type: 'deviceDiscovered',
+      data: { device: { id: `dev-${major}`, name: null, type: 'ble', rssi }, beacon },
+      timestamp: Date.now(),
+    });
+  };
+  const types = () => events.map((event) => event.type);
+  return { monitor, calls, events, sight, types, isListening: () => listener !== null };
+}
+
+describe('createRegionMonitor', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setInterval', 'Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('영역의 비콘이 감지되면 regionEnter, exitTimeout 동안 없으면 regionExit', async () => {
+    const { monitor, sight, types } = setup();
+    await monitor.start([LOBBY], { exitTimeout: 3000, rangingInterval: 1000 });
+
+    sight(2);
+    assert.deepEqual(types(), []);
+    sight(1);
+    assert.deepEqual(types(), ['regionEnter']);
+    assert.deepEqual(monitor.getRegions(), [{ region: LOBBY, inside: true }]);
+
+    mock.timers.tick(1000);
+    assert.deepEqual(types(), ['regionEnter', 'beaconsInRange']);
+
+    mock.timers.tick(3000);
+    assert.equal(types().at(-1), 'regionExit');
+    assert.deepEqual(monitor.getRegions(), [{ region: LOBBY, inside: false }]);
+  });
+
+  it('스캔은 처음 시작할 때 한 번만 시작하고 마지막 영역이 중지되면 중지', async () => {
+    const { monitor, calls, isListening } = setup();
+    await monitor.start([LOBBY]);
+    await monitor.start([{ identifier: 'hall', type: 'eddystone', namespace: 'edd1ebeac04e5defa017' }]);
+    assert.deepEqual(calls, ['startScan']);
+
+    await monitor.stop(['lobby']);
+    assert.deepEqual(calls, ['startScan']);
+    await monitor.stop();
+    assert.deepEqual(calls, ['startScan', 'stopScan']);
+    assert.equal(isListening(), false);
+  });
+
+  it('모니터링 중이 아니면 stop은 스캔을 건드리지 않음', async () => {
+    const { monitor, calls } = setup();
+    assert.deepEqual(await monitor.stop(), { success: true });
+    assert.deepEqual(calls, []);
+
+    await monitor.start([LOBBY]);
+    await monitor.stop();
+    await monitor.stop();
+    assert.deepEqual(calls, ['startScan', 'stopScan']);
+  });
+
+  it('스캔을 시작하지 못하면 영역을 되돌리고 스캔을 중지하지 않음', async () => {
+    const { monitor, calls, isListening } = setup({ success: false, error: 'SCAN_FAILED' });
+    const result = await monitor.start([LOBBY]);
+    assert.equal(result.error, 'SCAN_FAILED');
+    assert.deepEqual(monitor.getRegions(), []);
+    assert.deepEqual(calls, ['startScan']);
+    assert.equal(isListening(), false);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createRssiMonitor } from '../src/modules/rssi-monitor';
+import type { RssiReading, RssiResult } from '../src/types/bluetooth-module';
+
+/** 측정값을 순서대로 돌려주는 가짜 의존성 (값이 떨어지면 마지막 값을 반복) */
+function setup(results: Array<number | RssiResult>) {
+  const readings: RssiReading[] = [];
+  let reads = 0;
+  const monitor = createRssiMonitor({
+    readRssi: async () => {
+      const next = results[Math.min(reads++, results.length - 1)];
+      return typeof next === 'number' ? { success: true, rssi: next } : next;
+    },
+    emit: (event) => {
+      if (event.data?.reading) readings.push(event.data.reading);
+    },
+  });
+  return { monitor, readings, reads: () => reads };
+}
+
+/** 가짜 시간을 진행하고 비동기 읽기가 끝날 때까지 대기 */
+async function advance(ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('createRssiMonitor', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('첫 읽기를 바로 전달하고 interval마다 다시 읽음', async () => {
+    const { monitor, readings, reads } = setup([-60, -70, -80]);
+    const result = await monitor.start('dev', { interval: 100, filter: 'none' });
+    assert.deepEqual(result, { success: true, rssi: -60 });
+    assert.deepEqual(monitor.getDevices(), ['dev']);
+    assert.deepEqual(readings.map((reading) => reading.smoothed), [-60]);
+
+    await advance(99);
+    assert.equal(reads(), 1);
+    await advance(1);
+    await advance(100);
+    assert.deepEqual(readings.map((reading) => reading.rssi), [-60, -70, -80]);
+  });
+
+  it('이동 평균으로 평활화', async () => {
+    const { monitor, readings } = setup([-60, -70, -80]);
+    await monitor.start('dev', { interval: 100, windowSize: 2 });
+    await advance(100);
+    await advance(100);
+    assert.deepEqual(readings.map((reading) => reading.smoothed), [-60, -65, -75]);
+  });
+
+  it('Kalman 필터는 측정값 사이의 값으로 천천히 따라감', async () => {
+    const { monitor, readings } = setup([-60, -80]);
+    await monitor.start('dev', { interval: 100, filter: 'kalman' });
+    await advance(100);
+    const smoothed = readings[1].smoothed;
+    assert.ok(smoothed < -60 && smoothed > -80, `smoothed ${smoothed}`);
+  });
+
+  it('minChange보다 작은 변화는 전달하지 않음', async () => {
+    const { monitor, readings } = setup([-60, -61, -63]);
+    await monitor.start('dev', { interval: 100, filter: 'none', minChange: 3 });
+    await advance(100);
+    await advance(100);
+    assert.deepEqual(readings.map((reading) => reading.rssi), [-60, -63]);
+  });
+
+  it('근접 기준 통과는 히스테리시스를 적용', async () => {
+    const { monitor, readings } = setup([-60, -71, -67, -64, -70]);
+    await monitor.start('dev', { interval: 100, filter: 'none', threshold: -70, hysteresis: 5 });
+    for (let i = 0; i < 4; i++) await advance(100);
+
+    assert.deepEqual(
+      readings.map((reading) => [reading.rssi, reading.zone, reading.crossed]),
+      [
+        [-60, 'near', false],
+        [-71, 'far', true],
+        // far → near는 threshold + hysteresis(-65) 이상이어야 함
+        [-67, 'far', false],
+        [-64, 'near', true],
+        [-70, 'near', false],
+      ]
+    );
+  });
+
+  it('첫 읽기가 실패하면 시작하지 않음', async () => {
+    const { monitor, readings } = setup([{ success: false, error: 'DEVICE_NOT_CONNECTED' }]);
+    const result = await monitor.start('dev');
+    assert.equal(result.error, 'DEVICE_NOT_CONNECTED');
+    assert.deepEqual(monitor.getDevices(), []);
+    assert.equal(readings.length, 0);
+
+    const unavailable = setup([{ success: true }]);
+    assert.equal((await unavailable.monitor.start('dev')).error, 'OPERATION_FAILED');
+  });
+
+  it('일시적인 읽기 실패는 건너뛰고, 연결이 끊기면 중지', async () => {
+    const { monitor, readings, reads } = setup([
+      -60,
+      { success: false, error: 'OPERATION_FAILED' },
+      -62,
+      { success: false, error: 'DEVICE_NOT_CONNECTED' },
+    ]);
+    await monitor.start('dev', { interval: 100, filter: 'none' });
+    for (let i = 0; i < 3; i++) await advance(100);
+    assert.deepEqual(readings.map((reading) => reading.rssi), [-60, -62]);
+    assert.deepEqual(monitor.getDevices(), []);
+
+    await advance(1000);
+    assert.equal(reads(), 4);
+  });
+
+  it('stop과 disconnected 이벤트는 모니터링을 중지', async () => {
+    const { monitor, reads } = setup([-60]);
+    await monitor.start('a', { interval: 100 });
+    await monitor.start('b', { interval: 100 });
+
+    monitor.handleEvent({ type: 'disconnected', deviceId: 'a', timestamp: 0 });
+    assert.deepEqual(monitor.getDevices(), ['b']);
+    assert.equal(monitor.stop(), true);
+    assert.equal(monitor.stop(), false);
+
+    await advance(1000);
+    assert.equal(reads(), 2);
+  });
+});
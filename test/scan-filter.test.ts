@@ -0,0 +1,240 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { payloadSchemas } from '../src/bridge/schemas';
+import { validatePayload } from '../src/bridge/validation';
+import { compileScanFilter } from '../src/modules/scan-filter';
+import type { BluetoothDevice, ParsedAdvertisement } from '../src/types/bluetooth-module';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+const BATTERY = '0000180f-0000-1000-8000-00805f9b34fb';
+const EDDYSTONE = '0000feaa-0000-1000-8000-00805f9b34fb';
+
+interface DeviceInit {
+  id?: string;
+  name?: string | null;
+  rssi?: number;
+  connectable?: boolean;
+  services?: string[];
+}
+
+/** Android처럼 이름이 없으면 주소를 이름으로 보내는 BLE 장치 */
+function bleDevice(init: DeviceInit = {}): BluetoothDevice {
+  const id = init.id ?? 'AA:BB:CC:DD:EE:FF';
+  const rssi = init.rssi ?? -60;
+  return {
+    id,
+    name: init.name ?? id,
+    type: 'ble',
+    rssi,
+    ble: {
+      id,
+      name: init.name ?? null,
+      rssi,
+      isConnectable: init.connectable ?? true,
+      serviceUUIDs: init.services ?? [],
+    },
+  };
+}
+
+function advertisement(init: Partial<ParsedAdvertisement> = {}): ParsedAdvertisement {
+  return {
+    serviceUUIDs: [],
+    isServiceUUIDListComplete: false,
+    serviceData: [],
+    manufacturerData: [],
+    structures: [],
+    ...init,
+  };
+}
+
+describe('compileScanFilter - 평가', () => {
+  it('조건이 없으면 모든 장치 일치', () => {
+    const filter = compileScanFilter();
+    assert.equal(filter.matches(bleDevice()), true);
+    assert.equal(filter.nativeFilters, null);
+    assert.equal(filter.nativeServiceUUIDs, null);
+  });
+
+  it('serviceUUIDs는 축약형과 128-bit 형식을 같은 UUID로 비교', () => {
+    const filter = compileScanFilter({ serviceUUIDs: ['180D', '180f'] });
+    assert.equal(filter.matches(bleDevice({ services: [HEART_RATE] })), true);
+    assert.equal(filter.matches(bleDevice(), advertisement({ serviceUUIDs: [BATTERY] })), true);
+    assert.equal(filter.matches(bleDevice({ services: [EDDYSTONE] })), false);
+  });
+
+  it('nameFilter는 대소문자를 무시한 부분 일치, 주소로 대신 보낸 이름은 제외', () => {
+    const filter = compileScanFilter({ nameFilter: 'sens' });
+    assert.equal(filter.matches(bleDevice({ name: 'MySensor' })), true);
+    assert.equal(filter.matches(bleDevice(), advertisement({ localName: 'SENSOR-1' })), true);
+    assert.equal(filter.matches(bleDevice({ id: 'SE:NS:00:00:00:00' })), false);
+  });
+
+  it('rssiThreshold는 이 값 이상만 일치', () => {
+    const filter = compileScanFilter({ rssiThreshold: -70 });
+    assert.equal(filter.matches(bleDevice({ rssi: -70 })), true);
+    assert.equal(filter.matches(bleDevice({ rssi: -71 })), false);
+  });
+
+  it('manufacturerData는 Company ID와 마스크 적용한 접두사 비교', () => {
+    const filter = compileScanFilter({
+      filter: { manufacturerData: { companyIdentifier: 0x004c, dataPrefix: 'AhU=', mask: '/wA=' } },
+    });
+    const withData = (companyId: number, data: string) =>
+      filter.matches(bleDevice(), advertisement({ manufacturerData: [{ companyId, data }] }));
+    assert.equal(withData(0x004c, 'AhUA'), true);
+    // 두 번째 바이트는 마스크 0x00이므로 무시
+    assert.equal(withData(0x004c, 'AhYA'), true);
+    assert.equal(withData(0x004c, 'AxUA'), false);
+    assert.equal(withData(0x0059, 'AhUA'), false);
+    // 접두사보다 짧은 데이터
+    assert.equal(withData(0x004c, 'Ag=='), false);
+  });
+
+  it('serviceData는 서비스 UUID와 접두사 비교', () => {
+    const filter = compileScanFilter({ filter: { serviceData: { service: 'feaa', dataPrefix: 'EA==' } } });
+    assert.equal(filter.matches(bleDevice(), advertisement({ serviceData: [{ uuid: EDDYSTONE, data: 'EAAA' }] })), true);
+    assert.equal(filter.matches(bleDevice(), advertisement({ serviceData: [{ uuid: EDDYSTONE, data: 'AAAA' }] })), false);
+    assert.equal(filter.matches(bleDevice(), advertisement({ serviceData: [{ uuid: BATTERY, data: 'EAAA' }] })), false);
+  });
+
+  it('name은 장치 이름이나 광고의 로컬 이름과 정확히 일치', () => {
+    const filter = compileScanFilter({ filter: { name: 'HR-1' } });
+    assert.equal(filter.matches(bleDevice({ name: 'HR-1' })), true);
+    assert.equal(filter.matches(bleDevice(), advertisement({ localName: 'HR-1' })), true);
+    assert.equal(filter.matches(bleDevice({ name: 'HR-10' })), false);
+  });
+
+  it('namePattern은 플래그를 적용하고 g, y 플래그는 무시', () => {
+    const filter = compileScanFilter({ filter: { namePattern: '^hr-\\d+$', namePatternFlags: 'gi' } });
+    // g 플래그가 남아 있으면 lastIndex 때문에 두 번째 평가가 실패함
+    assert.equal(filter.matches(bleDevice({ name: 'HR-12' })), true);
+    assert.equal(filter.matches(bleDevice({ name: 'HR-12' })), true);
+    assert.equal(filter.matches(bleDevice({ name: 'HR-x' })), false);
+  });
+
+  it('잘못된 정규식은 SyntaxError', () => {
+    assert.throws(() => compileScanFilter({ filter: { namePattern: '(' } }), SyntaxError);
+  });
+
+  it('addresses는 대소문자를 무시한 허용 목록', () => {
+    const filter = compileScanFilter({ filter: { addresses: ['aa:bb:cc:dd:ee:ff'] } });
+    assert.equal(filter.matches(bleDevice()), true);
+    assert.equal(filter.matches(bleDevice({ id: '11:22:33:44:55:66' })), false);
+  });
+
+  it('connectable은 연결 가능한 장치만', () => {
+    const filter = compileScanFilter({ filter: { connectable: true } });
+    assert.equal(filter.matches(bleDevice()), true);
+    assert.equal(filter.matches(bleDevice({ connectable: false })), false);
+  });
+
+  it('allOf, anyOf 중첩과 기존 옵션의 AND 결합', () => {
+    const filter = compileScanFilter({
+      serviceUUIDs: ['180d'],
+      filter: {
+        anyOf: [{ name: 'A' }, { allOf: [{ namePattern: '^B' }, { connectable: true }] }],
+      },
+    });
+    assert.equal(filter.matches(bleDevice({ name: 'A', services: [HEART_RATE] })), true);
+    assert.equal(filter.matches(bleDevice({ name: 'B1', services: [HEART_RATE] })), true);
+    assert.equal(filter.matches(bleDevice({ name: 'B1', services: [HEART_RATE], connectable: false })), false);
+    assert.equal(filter.matches(bleDevice({ name: 'A' })), false);
+  });
+});
+
+describe('compileScanFilter - 네이티브 필터', () => {
+  it('serviceUUIDs는 UUID별 필터로 펼치고 iOS에도 전달', () => {
+    const filter = compileScanFilter({ serviceUUIDs: ['180d', '180f'] });
+    assert.deepEqual(filter.nativeFilters, [{ serviceUuid: HEART_RATE }, { serviceUuid: BATTERY }]);
+    assert.deepEqual(filter.nativeServiceUUIDs, [HEART_RATE, BATTERY]);
+  });
+
+  it('제조사 데이터의 마스크는 접두사 길이에 맞추고 부족한 부분은 0xff', () => {
+    const filter = compileScanFilter({
+      filter: { manufacturerData: { companyIdentifier: 0x004c, dataPrefix: 'AhU=', mask: '/w==' } },
+    });
+    assert.deepEqual(filter.nativeFilters, [
+      { manufacturerId: 0x004c, manufacturerData: 'AhU=', manufacturerDataMask: '//8=' },
+    ]);
+    assert.equal(filter.nativeServiceUUIDs, null);
+  });
+
+  it('주소는 MAC 형식일 때만 대문자로 전달하고 서비스 UUID와 조합', () => {
+    const filter = compileScanFilter({
+      filter: { serviceUUIDs: ['180d'], addresses: ['aa:bb:cc:dd:ee:ff', '11:22:33:44:55:66'] },
+    });
+    assert.deepEqual(filter.nativeFilters, [
+      { serviceUuid: HEART_RATE, deviceAddress: 'AA:BB:CC:DD:EE:FF' },
+      { serviceUuid: HEART_RATE, deviceAddress: '11:22:33:44:55:66' },
+    ]);
+
+    const ios = compileScanFilter({ filter: { addresses: ['6E400001-B5A3-F393-E0A9-E50E24DCCA9E'] } });
+    assert.equal(ios.nativeFilters, null);
+  });
+
+  it('이름, 정규식, 연결 가능 여부, RSSI는 전달하지 않음', () => {
+    const filter = compileScanFilter({
+      nameFilter: 'hr',
+      rssiThreshold: -70,
+      filter: { name: 'HR-1', namePattern: '^HR', connectable: true },
+    });
+    assert.equal(filter.nativeFilters, null);
+  });
+
+  it('조합이 너무 많으면 목록 조건을 빼고 전달', () => {
+    const services = Array.from({ length: 5 }, (_, i) => `18${i.toString(16).padStart(2, '0')}`);
+    const addresses = Array.from({ length: 5 }, (_, i) => `AA:BB:CC:DD:EE:0${i}`);
+    const filter = compileScanFilter({ filter: { serviceUUIDs: services, addresses } });
+    assert.equal(filter.nativeFilters?.length, 5);
+    assert.ok(filter.nativeFilters?.every((native) => native.serviceUuid && !native.deviceAddress));
+  });
+
+  it('anyOf는 모든 하위 식을 전달할 수 있을 때만 합침', () => {
+    const merged = compileScanFilter({
+      filter: { anyOf: [{ serviceUUIDs: ['180d'] }, { manufacturerData: { companyIdentifier: 0x0059 } }] },
+    });
+    assert.deepEqual(merged.nativeFilters, [
+      { serviceUuid: HEART_RATE },
+      { manufacturerId: 0x0059, manufacturerData: '', manufacturerDataMask: '' },
+    ]);
+    assert.equal(merged.nativeServiceUUIDs, null);
+
+    const partial = compileScanFilter({ filter: { anyOf: [{ serviceUUIDs: ['180d'] }, { connectable: true }] } });
+    assert.equal(partial.nativeFilters, null);
+  });
+
+  it('allOf는 필터 수가 가장 적은 하위 식을 사용', () => {
+    const filter = compileScanFilter({
+      serviceUUIDs: ['180d', '180f'],
+      filter: { allOf: [{ serviceData: { service: 'feaa' } }, { connectable: true }] },
+    });
+    assert.deepEqual(filter.nativeFilters, [{ serviceDataUuid: EDDYSTONE, serviceData: '', serviceDataMask: '' }]);
+  });
+});
+
+describe('startBleScan filter 스키마', () => {
+  const issueOf = (filter: unknown) => {
+    const result = validatePayload(payloadSchemas.startBleScan, { filter });
+    return result.valid ? null : result.issue;
+  };
+
+  it('중첩된 식 허용', () => {
+    assert.equal(issueOf({ anyOf: [{ name: 'A' }, { allOf: [{ connectable: true }, { addresses: ['x'] }] }] }), null);
+  });
+
+  it('문제가 된 필드 경로를 보고', () => {
+    assert.deepEqual(issueOf({ anyOf: [{ name: 'A' }, { allOf: [{ namePattern: '(' }] }] }), {
+      path: 'filter.anyOf[1].allOf[0].namePattern',
+      message: 'Invalid regular expression',
+    });
+    assert.equal(issueOf({ anyOf: [] })?.path, 'filter.anyOf');
+    assert.equal(issueOf({ namePatternFlags: 'i' })?.path, 'filter.namePatternFlags');
+    assert.equal(issueOf({ namePattern: 'a', namePatternFlags: 'g' })?.path, 'filter.namePatternFlags');
+    assert.equal(issueOf({ allOf: [{ name: 'A' }], name: 'B' })?.path, 'filter.name');
+  });
+
+  it('아무 조건도 없는 필터 거부', () => {
+    assert.deepEqual(issueOf({}), { path: 'filter', message: 'A filter must restrict the devices in some way' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { payloadSchemas } from '../src/bridge/schemas';
+import { validatePayload } from '../src/bridge/validation';
+import type { Schema } from '../src/bridge/validation';
+
+/** 검증 실패 시 [경로, 사유], 성공 시 null */
+function check<T>(schema: Schema<T>, payload: unknown): [string, string] | null {
+  const result = validatePayload(schema, payload);
+  return result.valid ? null : [result.issue.path, result.issue.message];
+}
+
+describe('payloadSchemas', () => {
+  it('페이로드가 없는 핸들러는 어떤 필드도 허용하지 않음', () => {
+    assert.equal(check(payloadSchemas.empty, undefined), null);
+    assert.deepEqual(check(payloadSchemas.empty, { deviceId: 'x' }), ['deviceId', 'Unknown field']);
+  });
+
+  it('startBleScan 옵션', () => {
+    assert.equal(check(payloadSchemas.startBleScan, { serviceUUIDs: ['180d'], scanMode: 'lowLatency' }), null);
+    assert.deepEqual(check(payloadSchemas.startBleScan, { serviceUUIDs: ['180d', 'nope'] }), [
+      'serviceUUIDs[1]',
+      'Expected a 16-bit, 32-bit or 128-bit UUID',
+    ]);
+    assert.deepEqual(check(payloadSchemas.startBleScan, { timeout: -1 }), ['timeout', 'Must be >= 0']);
+    assert.deepEqual(check(payloadSchemas.startBleScan, { serviceUuids: ['180d'] }), [
+      'serviceUuids',
+      'Unknown field',
+    ]);
+  });
+
+  it('connectBle 옵션의 잘못된 필드 경로', () => {
+    assert.equal(check(payloadSchemas.connectBle, { deviceId: 'dev', options: { requestMtu: 247 } }), null);
+    assert.deepEqual(check(payloadSchemas.connectBle, { deviceId: 'dev', options: { requestMtu: 600 } }), [
+      'options.requestMtu',
+      'Must be <= 517',
+    ]);
+    assert.deepEqual(
+      check(payloadSchemas.connectBle, {
+        deviceId: 'dev',
+        options: { subscribe: [{ serviceUuid: '180d', characteristicUuid: 'x' }] },
+      }),
+      ['options.subscribe[0].characteristicUuid', 'Expected a 16-bit, 32-bit or 128-bit UUID']
+    );
+    assert.deepEqual(check(payloadSchemas.connectBle, { options: {} }), ['deviceId', 'Required']);
+  });
+
+  it('connectClassic은 BLE 전용 옵션을 거부', () => {
+    const address = 'AA:BB:CC:DD:EE:FF';
+    assert.equal(
+      check(payloadSchemas.connectClassic, { address, options: { uuid: '1101', secure: true, reconnect: true } }),
+      null
+    );
+    for (const field of ['discoverServices', 'autoConnect', 'requestMtu', 'connectionPriority', 'subscribe']) {
+      assert.deepEqual(check(payloadSchemas.connectClassic, { address, options: { [field]: true } }), [
+        `options.${field}`,
+        'Unknown field',
+      ]);
+    }
+  });
+
+  it('writeCharacteristic 값은 Base64', () => {
+    const target = { deviceId: 'dev', serviceUuid: '180d', characteristicUuid: '2a39' };
+    assert.equal(check(payloadSchemas.writeCharacteristic, { ...target, value: 'AQ==' }), null);
+    assert.deepEqual(check(payloadSchemas.writeCharacteristic, { ...target, value: 'AQ=' }), [
+      'value',
+      'Invalid Base64',
+    ]);
+  });
+
+  it('startRegionMonitoring 영역 형식', () => {
+    assert.equal(
+      check(payloadSchemas.startRegionMonitoring, {
+        regions: [{ identifier: 'hall', type: 'eddystone', namespace: 'edd1ebeac04e5defa017' }],
+      }),
+      null
+    );
+    assert.deepEqual(
+      check(payloadSchemas.startRegionMonitoring, {
+        regions: [{ identifier: 'lobby', type: 'ibeacon', uuid: '180d' }],
+      })?.[0],
+      'regions[0].uuid'
+    );
+    assert.deepEqual(
+      check(payloadSchemas.startRegionMonitoring, { regions: [{ identifier: 'x', type: 'altbeacon' }] }),
+      ['regions[0].type', 'Expected one of: ibeacon, eddystone']
+    );
+  });
+});
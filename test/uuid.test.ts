@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { isSameUuid, isValidUuid, normalizeUuid, parseUuid } from '../src/modules/uuid';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+
+describe('parseUuid', () => {
+  it('16-bit 축약형을 Bluetooth Base UUID로 확장', () => {
+    assert.equal(parseUuid('180D'), HEART_RATE);
+    assert.equal(parseUuid('0x180d'), HEART_RATE);
+    assert.equal(parseUuid(' 180d '), HEART_RATE);
+  });
+
+  it('32-bit 축약형을 Bluetooth Base UUID로 확장', () => {
+    assert.equal(parseUuid('1234ABCD'), '1234abcd-0000-1000-8000-00805f9b34fb');
+    assert.equal(parseUuid('0x0000180D'), HEART_RATE);
+  });
+
+  it('128-bit 형식은 소문자로, 하이픈 없는 형식은 하이픈을 넣어 변환', () => {
+    assert.equal(parseUuid('F7826DA6-4FA2-4E98-8024-BC5B71E0893E'), 'f7826da6-4fa2-4e98-8024-bc5b71e0893e');
+    assert.equal(parseUuid('f7826da64fa24e988024bc5b71e0893e'), 'f7826da6-4fa2-4e98-8024-bc5b71e0893e');
+  });
+
+  it('잘못된 형식은 null', () => {
+    for (const value of ['', '180', '18 0d', '12345', '0x', 'f7826da6-4fa2-4e98-8024', 'zzzz', 42, null, undefined]) {
+      assert.equal(parseUuid(value), null, String(value));
+      assert.equal(isValidUuid(value), false, String(value));
+    }
+  });
+});
+
+describe('normalizeUuid', () => {
+  it('해석할 수 없는 값은 소문자로만 변환', () => {
+    assert.equal(normalizeUuid('2A37'), '00002a37-0000-1000-8000-00805f9b34fb');
+    assert.equal(normalizeUuid(' Custom-ID '), 'custom-id');
+  });
+});
+
+describe('isSameUuid', () => {
+  it('축약형과 128-bit 형식, 대소문자 차이를 같은 UUID로 비교', () => {
+    assert.equal(isSameUuid('180d', HEART_RATE), true);
+    assert.equal(isSameUuid('0x180D', '0000180D-0000-1000-8000-00805F9B34FB'), true);
+    assert.equal(isSameUuid('0000180d', '180d'), true);
+  });
+
+  it('다른 UUID나 undefined는 false', () => {
+    assert.equal(isSameUuid('180d', '180f'), false);
+    assert.equal(isSameUuid('180d', undefined), false);
+    assert.equal(isSameUuid(undefined, undefined), false);
+  });
+});
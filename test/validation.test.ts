@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  array,
+  base64,
+  boolean,
+  discriminated,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  union,
+  uuid,
+  validatePayload,
+} from '../src/bridge/validation';
+import type { Schema } from '../src/bridge/validation';
+
+/** 검증 실패 시 [경로, 사유], 성공 시 null */
+function check<T>(schema: Schema<T>, payload: unknown): [string, string] | null {
+  const result = validatePayload(schema, payload);
+  return result.valid ? null : [result.issue.path, result.issue.message];
+}
+
+describe('object', () => {
+  const schema = object({ deviceId: string({ minLength: 1 }), options: optional(object({ timeout: number() })) });
+
+  it('정의되지 않은 필드는 경로와 함께 거부', () => {
+    assert.deepEqual(check(schema, { deviceId: 'a', extra: 1 }), ['extra', 'Unknown field']);
+    assert.deepEqual(check(schema, { deviceId: 'a', options: { timeout: 1, retry: true } }), [
+      'options.retry',
+      'Unknown field',
+    ]);
+  });
+
+  it('필수 필드 누락, 생략 가능한 필드', () => {
+    assert.deepEqual(check(schema, {}), ['deviceId', 'Required']);
+    assert.equal(check(schema, { deviceId: 'a' }), null);
+    assert.equal(check(schema, { deviceId: 'a', options: undefined }), null);
+  });
+
+  it('페이로드를 생략하면 빈 객체로 검사', () => {
+    assert.equal(check(object({}), undefined), null);
+    assert.equal(check(object({}), null), null);
+    assert.deepEqual(check(object({}), 'text'), ['payload', 'Expected an object']);
+    assert.deepEqual(check(object({}), []), ['payload', 'Expected an object']);
+  });
+});
+
+describe('기본 스키마', () => {
+  it('string', () => {
+    assert.deepEqual(check(object({ name: string({ minLength: 1 }) }), { name: '  ' }), ['name', 'Must not be empty']);
+    assert.deepEqual(check(object({ name: string({ maxLength: 2 }) }), { name: 'abc' }), [
+      'name',
+      'Must be at most 2 characters',
+    ]);
+    assert.deepEqual(check(object({ name: string() }), { name: 1 }), ['name', 'Expected a string']);
+  });
+
+  it('number는 NaN, Infinity, 범위, 정수 여부를 검사', () => {
+    const schema = object({ mtu: number({ min: 23, max: 517, integer: true }) });
+    assert.deepEqual(check(schema, { mtu: Number.NaN }), ['mtu', 'Expected a finite number']);
+    assert.deepEqual(check(schema, { mtu: Infinity }), ['mtu', 'Expected a finite number']);
+    assert.deepEqual(check(schema, { mtu: 23.5 }), ['mtu', 'Expected an integer']);
+    assert.deepEqual(check(schema, { mtu: 22 }), ['mtu', 'Must be >= 23']);
+    assert.deepEqual(check(schema, { mtu: 518 }), ['mtu', 'Must be <= 517']);
+    assert.equal(check(schema, { mtu: 247 }), null);
+  });
+
+  it('boolean, oneOf', () => {
+    assert.deepEqual(check(object({ enable: boolean() }), { enable: 'true' }), ['enable', 'Expected a boolean']);
+    assert.deepEqual(check(object({ mode: oneOf(['a', 'b'] as const) }), { mode: 'c' }), [
+      'mode',
+      'Expected one of: a, b',
+    ]);
+  });
+
+  it('uuid는 16/32/128-bit 형식만 허용', () => {
+    const schema = object({ uuid: uuid() });
+    for (const value of ['180d', '0x180D', '0000180d', '0000180d-0000-1000-8000-00805f9b34fb']) {
+      assert.equal(check(schema, { uuid: value }), null, value);
+    }
+    assert.deepEqual(check(schema, { uuid: '180' }), ['uuid', 'Expected a 16-bit, 32-bit or 128-bit UUID']);
+  });
+
+  it('base64는 패딩을 포함한 표준 형식만 허용', () => {
+    const schema = object({ value: base64() });
+    assert.equal(check(schema, { value: 'AQID' }), null);
+    assert.equal(check(schema, { value: 'AQ==' }), null);
+    assert.deepEqual(check(schema, { value: 'AQ' }), ['value', 'Invalid Base64']);
+    assert.deepEqual(check(schema, { value: '' }), ['value', 'Must not be empty']);
+    assert.equal(check(object({ value: base64({ allowEmpty: true }) }), { value: '' }), null);
+  });
+});
+
+describe('array', () => {
+  it('항목 경로에 인덱스를 포함', () => {
+    const schema = object({ regions: array(object({ id: string() }), { minLength: 1 }) });
+    assert.deepEqual(check(schema, { regions: [] }), ['regions', 'Must not be empty']);
+    assert.deepEqual(check(schema, { regions: [{ id: 'a' }, { id: 2 }] }), ['regions[1].id', 'Expected a string']);
+  });
+
+  it('최대 길이', () => {
+    assert.deepEqual(check(object({ list: array(number(), { maxLength: 1 }) }), { list: [1, 2] }), [
+      'list',
+      'Must contain at most 1 items',
+    ]);
+  });
+});
+
+describe('discriminated', () => {
+  const schema = object({
+    region: discriminated('type', {
+      a: object({ type: oneOf(['a'] as const), value: number() }),
+      b: object({ type: oneOf(['b'] as const), name: string() }),
+    }),
+  });
+
+  it('구분 필드에 맞는 형태로 검사', () => {
+    assert.equal(check(schema, { region: { type: 'a', value: 1 } }), null);
+    assert.deepEqual(check(schema, { region: { type: 'b', value: 1 } }), ['region.value', 'Unknown field']);
+  });
+
+  it('알 수 없는 구분 값', () => {
+    assert.deepEqual(check(schema, { region: { type: 'c' } }), ['region.type', 'Expected one of: a, b']);
+  });
+});
+
+describe('union', () => {
+  const schema = object({ reconnect: union(boolean(), object({ maxAttempts: number() })) });
+
+  it('둘 중 하나와 일치하면 통과', () => {
+    assert.equal(check(schema, { reconnect: true }), null);
+    assert.equal(check(schema, { reconnect: { maxAttempts: 3 } }), null);
+  });
+
+  it('같은 경로에서 실패하면 사유를 합치고, 아니면 더 깊은 경로를 보고', () => {
+    assert.deepEqual(check(schema, { reconnect: 1 }), ['reconnect', 'Expected a boolean or an object']);
+    assert.deepEqual(check(schema, { reconnect: { maxAttempts: 'x' } }), [
+      'reconnect.maxAttempts',
+      'Expected a finite number',
+    ]);
+  });
+});
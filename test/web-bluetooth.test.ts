@@ -0,0 +1,287 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BluetoothClient } from '../src/client/client';
+import { BLUETOOTH_EVENT_NAME } from '../src/client/protocol';
+import { createMemoryTransport } from '../src/client/transport';
+import { createDeviceGrantStore } from '../src/bridge/device-grants';
+import { requestDevice } from '../src/bridge/device-request';
+import { getRequestedServices } from '../src/modules/device-filter';
+import { WebBluetooth, WebBluetoothError } from '../src/client/web-bluetooth';
+import type {
+  BleService,
+  BluetoothDevice,
+  BluetoothEvent,
+  CharacteristicProperties,
+  DeviceRequestOptions,
+} from '../src/types/bluetooth-module';
+
+const HEART_RATE = '0000180d-0000-1000-8000-00805f9b34fb';
+const MEASUREMENT = '00002a37-0000-1000-8000-00805f9b34fb';
+const BATTERY = '0000180f-0000-1000-8000-00805f9b34fb';
+
+const properties = (overrides: Partial<CharacteristicProperties>): CharacteristicProperties => ({
+  broadcast: false,
+  read: false,
+  writeWithoutResponse: false,
+  write: false,
+  notify: false,
+  indicate: false,
+  authenticatedSignedWrites: false,
+  extendedProperties: false,
+  ...overrides,
+});
+
+const SERVICES: BleService[] = [
+  {
+    uuid: HEART_RATE,
+    isPrimary: true,
+    characteristics: [
+      {
+        uuid: MEASUREMENT,
+        serviceUuid: HEART_RATE,
+        properties: properties({ read: true, write: true, notify: true }),
+      },
+    ],
+  },
+  { uuid: BATTERY, isPrimary: true, characteristics: [] },
+];
+
+const bleDevice = (id: string, name: string, serviceUUIDs: string[] = []): BluetoothDevice => ({
+  id,
+  name,
+  type: 'ble',
+  ble: { id, name, rssi: -50, serviceUUIDs },
+});
+
+const ORIGIN = 'https://a.example';
+
+/**
+ * 장치 선택과 권한을 실제 모듈로 처리하는 가짜 브릿지
+ * requestDevice 스캔을 시작하면 주어진 장치를 발견합니다
+ */
+function setup(discovered: BluetoothDevice[] = []) {
+  const { transport, bridge } = createMemoryTransport();
+  const client = new BluetoothClient({ transport });
+  const bluetooth = new WebBluetooth({ client, scanTimeout: 1000 });
+  const calls: Array<{ action: string; payload: unknown }> = [];
+  const grants = createDeviceGrantStore();
+  const scanListeners = new Set<(event: BluetoothEvent) => void>();
+  const emit = (event: Omit<BluetoothEvent, 'timestamp'>): void =>
+    bridge.sendToWeb(BLUETOOTH_EVENT_NAME, { ...event, timestamp: Date.now() });
+
+  const handle = (action: string, reply: (payload: any) => unknown): void =>
+    bridge.registerHandler(action, async (payload, respond) => {
+      calls.push({ action, payload });
+      respond(await reply(payload));
+    });
+
+  handle('requestDevice', async (options: DeviceRequestOptions) => {
+    const result = await requestDevice(
+      {
+        startScan: async () => {
+          setImmediate(() =>
+            discovered.forEach((device) => {
+              scanListeners.forEach((listener) =>
+                listener({ type: 'deviceDiscovered', data: { device }, timestamp: Date.now() })
+              );
+            })
+          );
+          return { success: true };
+        },
+        stopScan: async () => ({ success: true }),
+        addListener: (listener) => {
+          scanListeners.add(listener);
+          return { remove: () => scanListeners.delete(listener) };
+        },
+      },
+      ORIGIN,
+      options
+    );
+    if (!result.device) return result;
+    const grant = grants.grant(ORIGIN, result.device, getRequestedServices(options));
+    return { success: true, device: result.device, grant };
+  });
+  handle('getDeviceGrants', () => ({ success: true, grants: grants.list(ORIGIN) }));
+  handle('revokeDeviceGrant', (payload: { deviceId?: string }) => ({
+    success: true,
+    grants: grants.revoke(ORIGIN, payload.deviceId),
+  }));
+  handle('connectBle', () => ({ success: true, services: SERVICES }));
+  handle('disconnect', () => ({ success: true }));
+  handle('readCharacteristic', () => ({ success: true, value: 'AQI=' }));
+  handle('writeCharacteristic', () => ({ success: true }));
+  handle('setNotification', () => ({ success: true }));
+
+  return { bluetooth, bridge, calls, emit, handle, grants };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const rejectsWith = (name: string) => (error: unknown) =>
+  error instanceof WebBluetoothError && error.name === name;
+
+describe('WebBluetooth.requestDevice', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('filters와 acceptAllDevices 조합이 잘못되면 TypeError', async () => {
+    const { bluetooth } = setup();
+    await assert.rejects(bluetooth.requestDevice(), TypeError);
+    await assert.rejects(bluetooth.requestDevice({ filters: [], acceptAllDevices: true }), TypeError);
+    await assert.rejects(bluetooth.requestDevice({ filters: [] }), TypeError);
+    await assert.rejects(bluetooth.requestDevice({ filters: [{}] }), TypeError);
+    await assert.rejects(bluetooth.requestDevice({ filters: [{ namePrefix: '' }] }), TypeError);
+    await assert.rejects(
+      bluetooth.requestDevice({ acceptAllDevices: true, exclusionFilters: [{ name: 'x' }] }),
+      TypeError
+    );
+  });
+
+  it('필터에 맞는 첫 장치를 허용받고 getDevices에 포함', async () => {
+    const { bluetooth, grants } = setup([
+      bleDevice('a', 'Speaker'),
+      bleDevice('b', 'Band', [HEART_RATE]),
+      bleDevice('c', 'Band 2', [HEART_RATE]),
+    ]);
+
+    const device = await bluetooth.requestDevice({
+      filters: [{ namePrefix: 'Band', services: ['heart_rate'] }],
+      optionalServices: [0x180f],
+    });
+    assert.equal(device.id, 'b');
+    assert.equal(device.name, 'Band');
+    assert.deepEqual(grants.list(ORIGIN)[0].services, [HEART_RATE, BATTERY]);
+    assert.deepEqual(await bluetooth.getDevices(), [device]);
+  });
+
+  it('forget은 권한을 취소', async () => {
+    const { bluetooth, grants } = setup([bleDevice('b', 'Band')]);
+    const device = await bluetooth.requestDevice({ acceptAllDevices: true });
+    await device.forget();
+    assert.equal(grants.has(ORIGIN, 'b'), false);
+    assert.deepEqual(await bluetooth.getDevices(), []);
+  });
+
+  it('exclusionFilters에 맞는 장치는 건너뜀', async () => {
+    const { bluetooth } = setup([bleDevice('a', 'Band Old'), bleDevice('b', 'Band New')]);
+    const device = await bluetooth.requestDevice({
+      filters: [{ namePrefix: 'Band' }],
+      exclusionFilters: [{ name: 'Band Old' }],
+    });
+    assert.equal(device.id, 'b');
+  });
+
+  it('scanTimeout 안에 장치가 없으면 NotFoundError', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const { bluetooth, calls } = setup([bleDevice('a', 'Speaker')]);
+
+    const result = bluetooth.requestDevice({ filters: [{ name: 'Band' }] });
+    await flush();
+    const payload = calls[0].payload as DeviceRequestOptions;
+    assert.equal(payload.filters?.[0].name, 'Band');
+    assert.equal(payload.timeout, 1000);
+    await flush();
+    mock.timers.tick(1000);
+    await assert.rejects(result, rejectsWith('NotFoundError'));
+  });
+
+  it('브릿지 오류는 오류 코드에 맞는 DOMException 이름으로 변환', async () => {
+    const { bluetooth, handle } = setup();
+    handle('requestDevice', () => ({ success: false, error: 'PERMISSION_DENIED', message: 'denied' }));
+    await assert.rejects(bluetooth.requestDevice({ acceptAllDevices: true }), rejectsWith('SecurityError'));
+  });
+});
+
+describe('WebBluetoothRemoteGATTServer', () => {
+  async function connected(options: { optionalServices?: string[] } = {}) {
+    const context = setup([bleDevice('band', 'Band', [HEART_RATE])]);
+    const device = await context.bluetooth.requestDevice({ filters: [{ services: [HEART_RATE] }], ...options });
+    await device.gatt.connect();
+    return { ...context, device };
+  }
+
+  it('connect 후 허용된 서비스만 조회', async () => {
+    const { device } = await connected();
+    assert.equal(device.gatt.connected, true);
+
+    const services = await device.gatt.getPrimaryServices();
+    assert.deepEqual(
+      services.map((service) => service.uuid),
+      [HEART_RATE]
+    );
+    await assert.rejects(device.gatt.getPrimaryService('battery_service'), rejectsWith('SecurityError'));
+  });
+
+  it('optionalServices로 추가 서비스 접근 허용', async () => {
+    const { device } = await connected({ optionalServices: ['battery_service'] });
+    const battery = await device.gatt.getPrimaryService(0x180f);
+    assert.equal(battery.uuid, BATTERY);
+  });
+
+  it('특성 읽기/쓰기는 Base64로 변환해 전달', async () => {
+    const { device, calls } = await connected();
+    const service = await device.gatt.getPrimaryService('heart_rate');
+    const characteristic = await service.getCharacteristic('heart_rate_measurement');
+
+    const value = await characteristic.readValue();
+    assert.deepEqual([value.getUint8(0), value.getUint8(1)], [1, 2]);
+
+    await characteristic.writeValue(new Uint8Array([3, 4]));
+    const write = calls.find((call) => call.action === 'writeCharacteristic');
+    assert.deepEqual(write?.payload, {
+      deviceId: 'band',
+      serviceUuid: HEART_RATE,
+      characteristicUuid: MEASUREMENT,
+      value: 'AwQ=',
+      options: { withResponse: true },
+    });
+
+    await assert.rejects(
+      characteristic.writeValueWithoutResponse(new Uint8Array([1])),
+      rejectsWith('NotSupportedError')
+    );
+    await assert.rejects(characteristic.writeValue(new Uint8Array(513)), rejectsWith('InvalidModificationError'));
+  });
+
+  it('알림 이벤트는 value를 갱신하고 characteristicvaluechanged 발생', async () => {
+    const { device, emit } = await connected();
+    const service = await device.gatt.getPrimaryService('heart_rate');
+    const characteristic = await service.getCharacteristic(0x2a37);
+    await characteristic.startNotifications();
+
+    const received: number[] = [];
+    characteristic.addEventListener('characteristicvaluechanged', () => {
+      received.push(characteristic.value?.getUint8(0) ?? -1);
+    });
+    emit({
+      type: 'notification',
+      deviceId: 'band',
+      data: {
+        notification: {
+          deviceId: 'band',
+          serviceUuid: '180D',
+          characteristicUuid: '2A37',
+          value: 'Bw==',
+          timestamp: 0,
+        },
+      },
+    });
+    await flush();
+    assert.deepEqual(received, [7]);
+  });
+
+  it('disconnected 이벤트는 gattserverdisconnected를 발생시키고 GATT 작업을 막음', async () => {
+    const { device, emit } = await connected();
+    const service = await device.gatt.getPrimaryService('heart_rate');
+    const characteristic = await service.getCharacteristic(MEASUREMENT);
+
+    let disconnected = 0;
+    device.ongattserverdisconnected = () => disconnected++;
+    emit({ type: 'disconnected', deviceId: 'band' });
+    await flush();
+
+    assert.equal(disconnected, 1);
+    assert.equal(device.gatt.connected, false);
+    await assert.rejects(characteristic.readValue(), rejectsWith('NetworkError'));
+  });
+});